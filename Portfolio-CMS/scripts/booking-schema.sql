@@ -9,6 +9,8 @@ CREATE TABLE IF NOT EXISTS bookings (
   duration INTEGER NOT NULL,
   meeting_type TEXT NOT NULL,
   notes TEXT,
+  intake_answers TEXT,
+  time_zone TEXT,
   status TEXT DEFAULT 'confirmed' CHECK(status IN ('confirmed', 'cancelled', 'completed', 'no-show')),
   meeting_link TEXT,
   google_event_id TEXT,
@@ -26,6 +26,7 @@ const tables = [
       duration INTEGER NOT NULL,
       meeting_type TEXT NOT NULL,
       notes TEXT,
+      intake_answers TEXT,
       status TEXT DEFAULT 'confirmed' CHECK(status IN ('confirmed', 'cancelled', 'completed', 'no-show')),
       meeting_link TEXT,
       google_event_id TEXT,
@@ -37,6 +37,17 @@ const analyticsEmitter = new EventEmitter();
 const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/i;
 const isoDateRegex = /^\d{4}-\d{2}-\d{2}$/;
 const timeRegex = /^(?:[01]\d|2[0-3]):[0-5]\d$/;
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// IANA zone names, e.g. Europe/Berlin; whatever the runtime's Intl accepts
+const isValidTimeZone = (value) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
 
 const clampString = (value, maxLength) => {
   if (typeof value !== "string") return "";
@@ -133,6 +144,24 @@ const validateAnalyticsPayload = (payload = {}) => {
       ? payload.event_data
       : {};
 
+  const sessionId = sanitizeInput(payload.session_id || "", { maxLength: 100 });
+
+  // Queued events arrive late; keep when they happened, within reason
+  let createdAt = null;
+  if (payload.timestamp !== undefined) {
+    const occurredAt = new Date(payload.timestamp);
+    const age = Date.now() - occurredAt.getTime();
+    if (Number.isNaN(age) || age < -5 * 60 * 1000 || age > 24 * 60 * 60 * 1000) {
+      errors.push({
+        field: "timestamp",
+        message: "Timestamp must be a date within the last 24 hours",
+      });
+    } else {
+      // Same format as CURRENT_TIMESTAMP, so date filters keep comparing correctly
+      createdAt = occurredAt.toISOString().replace("T", " ").slice(0, 19);
+    }
+  }
+
   if (errors.length > 0) {
     return { valid: false, errors };
   }
@@ -144,6 +173,8 @@ const validateAnalyticsPayload = (payload = {}) => {
       event_data: eventData,
       page_url: pageUrl,
       referrer,
+      session_id: sessionId,
+      created_at: createdAt,
     },
   };
 };
@@ -183,6 +214,41 @@ const validateBookingPayload = (payload = {}) => {
   const phone = sanitizeInput(payload.phone || "", { maxLength: 50 });
   const notes = sanitizeInput(payload.notes || "", { multiline: true, maxLength: 2000 });
 
+  // Answers arrive validated by the website; keep them bounded and free of markup
+  const intakeAnswers = [];
+  const rawAnswers = payload.intakeAnswers ?? [];
+  if (!Array.isArray(rawAnswers) || rawAnswers.length > 50) {
+    errors.push({ field: "intakeAnswers", message: "Intake answers must be a list of up to 50" });
+  } else {
+    rawAnswers.forEach((entry, index) => {
+      const id = entry && typeof entry.id === "string" ? entry.id.trim().slice(0, 50) : "";
+      const label = sanitizeInput(entry && entry.label, { maxLength: 200 });
+      const answer =
+        entry && typeof entry.answer === "boolean"
+          ? entry.answer
+          : sanitizeInput(entry && entry.answer, { multiline: true, maxLength: 2000 });
+      if (!id || !label || answer === "") {
+        errors.push({
+          field: `intakeAnswers.${index}`,
+          message: "Intake answers need an id, a label and an answer",
+        });
+        return;
+      }
+      intakeAnswers.push({ id, label, answer });
+    });
+  }
+
+  // The visitor's zone, so later emails and manage links show their local time
+  const timeZone = typeof payload.timeZone === "string" ? payload.timeZone.trim() : "";
+  if (timeZone && (timeZone.length > 100 || !isValidTimeZone(timeZone))) {
+    errors.push({ field: "timeZone", message: "timeZone must be an IANA time zone name" });
+  }
+
+  const holdId = typeof payload.holdId === "string" ? payload.holdId.trim() : "";
+  if (holdId && !uuidRegex.test(holdId)) {
+    errors.push({ field: "holdId", message: "Invalid hold ID" });
+  }
+
   if (errors.length > 0) {
     return { valid: false, errors };
   }
@@ -198,6 +264,11 @@ const validateBookingPayload = (payload = {}) => {
       meetingType: meetingType || null,
       phone: phone || null,
       notes: notes || null,
+      intakeAnswers,
+      timeZone: timeZone || null,
+      holdId: holdId || null,
+      // The website sends its own confirmation when its notifications are configured
+      notifyGuest: payload.notifyGuest !== false,
     },
   };
 };
@@ -260,6 +331,22 @@ const createIndex = (name, sql) => {
   });
 };
 
+// Add a column to a table created by an earlier version; a no-op once it exists
+const addColumn = (table, column, definition) => {
+  db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`, (err) => {
+    if (!err || (err.message && err.message.includes("duplicate column name"))) {
+      return;
+    }
+
+    if (err.message && err.message.includes("no such table")) {
+      console.warn(`Skipping column ${table}.${column}: table missing.`);
+      return;
+    }
+
+    console.error(`Failed to add column ${table}.${column}:`, err.message);
+  });
+};
+
 // Initialize database tables
 db.serialize(() => {
   // Users table
@@ -375,6 +462,58 @@ db.serialize(() => {
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP
   )`);
 
+  // Meeting types offered on the booking calendar
+  db.run(`CREATE TABLE IF NOT EXISTS meeting_types (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    slug TEXT UNIQUE NOT NULL,
+    name TEXT NOT NULL,
+    description TEXT,
+    duration INTEGER NOT NULL,
+    buffer_before INTEGER DEFAULT 0,
+    buffer_after INTEGER DEFAULT 0,
+    location_type TEXT DEFAULT 'video' CHECK(location_type IN ('video', 'phone')),
+    intake_questions TEXT DEFAULT '[]',
+    enabled BOOLEAN DEFAULT 1,
+    sort_order INTEGER DEFAULT 0,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  )`);
+
+  // Short-lived reservations of a slot while a visitor fills in the booking form
+  db.run(`CREATE TABLE IF NOT EXISTS booking_holds (
+    id TEXT PRIMARY KEY,
+    date TEXT NOT NULL,
+    time TEXT NOT NULL,
+    duration INTEGER NOT NULL,
+    expires_at TEXT NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  )`);
+
+  // Visitors waiting for a slot on a fully booked day, served in signup order
+  db.run(`CREATE TABLE IF NOT EXISTS booking_waitlist (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    date TEXT NOT NULL,
+    meeting_type TEXT NOT NULL,
+    name TEXT NOT NULL,
+    email TEXT NOT NULL,
+    status TEXT DEFAULT 'waiting' CHECK(status IN ('waiting', 'offered', 'claimed', 'expired')),
+    claim_token TEXT UNIQUE,
+    hold_id TEXT,
+    offered_time TEXT,
+    offered_duration INTEGER,
+    offer_expires_at TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  )`);
+
+  createIndex(
+    "idx_booking_holds_date",
+    "CREATE INDEX IF NOT EXISTS idx_booking_holds_date ON booking_holds(date, expires_at)",
+  );
+  createIndex(
+    "idx_booking_waitlist_date",
+    "CREATE INDEX IF NOT EXISTS idx_booking_waitlist_date ON booking_waitlist(date, status)",
+  );
   createIndex(
     "idx_projects_slug",
     "CREATE INDEX IF NOT EXISTS idx_projects_slug ON projects(slug)",
@@ -383,10 +522,16 @@ db.serialize(() => {
     "idx_messages_created_at",
     "CREATE INDEX IF NOT EXISTS idx_messages_created_at ON messages(created_at)",
   );
+  createIndex(
+    "idx_analytics_created_at",
+    "CREATE INDEX IF NOT EXISTS idx_analytics_created_at ON analytics(created_at)",
+  );
   createIndex(
     "idx_bookings_date_time",
     "CREATE INDEX IF NOT EXISTS idx_bookings_date_time ON bookings(date, time)",
   );
+  addColumn("bookings", "intake_answers", "TEXT");
+  addColumn("bookings", "time_zone", "TEXT");
 
   const bootstrapUsername = process.env.CMS_BOOTSTRAP_ADMIN_USER;
   const bootstrapPassword = process.env.CMS_BOOTSTRAP_ADMIN_PASSWORD;
@@ -442,6 +587,48 @@ db.serialize(() => {
       });
     }
   });
+
+  // Insert the default meeting types if table is empty
+  db.get(`SELECT COUNT(*) as count FROM meeting_types`, (err, row) => {
+    if (!err && row.count === 0) {
+      const projectQuestions = [
+        {
+          id: "project_stage",
+          label: "Project stage",
+          type: "select",
+          options: ["Idea", "Prototype", "In production"],
+          required: true,
+        },
+        { id: "project_url", label: "Project or repository URL", type: "url" },
+      ];
+      const meetingTypes = [
+        ["30min", "30 Min Session", "Quick intro call to talk through your idea.", 30, 0, []],
+        [
+          "60min",
+          "60 Min Session",
+          "Project deep dive: scope, stack and timeline.",
+          60,
+          1,
+          projectQuestions,
+        ],
+        [
+          "90min",
+          "90 Min Session",
+          "Technical workshop or architecture review.",
+          90,
+          2,
+          projectQuestions,
+        ],
+      ];
+
+      meetingTypes.forEach(([slug, name, description, duration, sortOrder, questions]) => {
+        db.run(
+          `INSERT INTO meeting_types (slug, name, description, duration, sort_order, intake_questions) VALUES (?, ?, ?, ?, ?, ?)`,
+          [slug, name, description, duration, sortOrder, JSON.stringify(questions)],
+        );
+      });
+    }
+  });
 });
 
 // ==================== MIDDLEWARE ====================
@@ -496,6 +683,19 @@ const authLimiter = rateLimit({
   legacyHeaders: false,
 });
 
+// Correlation ID: reuse the website's x-request-id so both sides log the same ID
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{8,128}$/;
+
+app.use((req, res, next) => {
+  const incoming = req.get("x-request-id");
+  req.requestId =
+    incoming && REQUEST_ID_PATTERN.test(incoming)
+      ? incoming
+      : `cms_${crypto.randomUUID()}`;
+  res.setHeader("X-Request-ID", req.requestId);
+  next();
+});
+
 app.use(helmet({ crossOriginResourcePolicy: { policy: "cross-origin" } }));
 app.use(cors(corsOptions));
 app.use(globalLimiter);
@@ -1317,14 +1517,16 @@ app.post("/api/analytics/track", requireServiceApiKey, (req, res) => {
     });
   }
 
-  const { event_type, event_data, page_url, referrer } = validation.data;
+  const { event_type, event_data, page_url, referrer, session_id, created_at } =
+    validation.data;
   const ipAddress = req.ip;
   const userAgent = req.get("user-agent");
-  const sessionId = req.session?.id || crypto.randomBytes(16).toString("hex");
+  const sessionId =
+    session_id || req.session?.id || crypto.randomBytes(16).toString("hex");
 
   const query = `
-    INSERT INTO analytics (event_type, event_data, page_url, referrer, ip_address, user_agent, session_id)
-    VALUES (?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO analytics (event_type, event_data, page_url, referrer, ip_address, user_agent, session_id, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP))
   `;
 
   db.run(
@@ -1337,6 +1539,7 @@ app.post("/api/analytics/track", requireServiceApiKey, (req, res) => {
       ipAddress,
       userAgent,
       sessionId,
+      created_at,
     ],
     function (err) {
       if (err) {
@@ -1352,6 +1555,355 @@ app.post("/api/analytics/track", requireServiceApiKey, (req, res) => {
   );
 });
 
+// TRACK A BATCH OF EVENTS (the website queues events in the browser and sends them together)
+const MAX_ANALYTICS_BATCH = 50;
+
+app.post("/api/analytics/track/batch", requireServiceApiKey, (req, res) => {
+  const events = req.body.events;
+  if (!Array.isArray(events) || events.length === 0 || events.length > MAX_ANALYTICS_BATCH) {
+    return res.status(400).json({
+      error: `events must be an array of 1 to ${MAX_ANALYTICS_BATCH} events`,
+    });
+  }
+
+  const validations = events.map((event) => validateAnalyticsPayload(event));
+  const invalid = validations
+    .map((validation, index) => ({ index, errors: validation.errors }))
+    .filter(({ errors }) => errors);
+  if (invalid.length > 0) {
+    return res.status(400).json({
+      error: "Invalid analytics payload",
+      details: invalid,
+    });
+  }
+
+  const ipAddress = req.ip;
+  const userAgent = req.get("user-agent");
+  const fallbackSessionId = crypto.randomBytes(16).toString("hex");
+
+  // One statement, so a batch is stored whole or not at all
+  const rows = validations.map(() => "(?, ?, ?, ?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP))");
+  const params = validations.flatMap(({ data }) => [
+    data.event_type,
+    JSON.stringify(data.event_data),
+    data.page_url,
+    data.referrer,
+    ipAddress,
+    userAgent,
+    data.session_id || fallbackSessionId,
+    data.created_at,
+  ]);
+
+  db.run(
+    `INSERT INTO analytics (event_type, event_data, page_url, referrer, ip_address, user_agent, session_id, created_at)
+     VALUES ${rows.join(", ")}`,
+    params,
+    (err) => {
+      if (err) {
+        console.error("Analytics batch tracking error:", err);
+        return res.status(500).json({ error: "Failed to track analytics" });
+      }
+
+      res.json({ success: true, tracked: validations.length });
+    },
+  );
+});
+
+// LIST RAW EVENTS (the website aggregates them for its web vitals report)
+app.get("/api/analytics/events", requireServiceApiKey, (req, res) => {
+  const eventTypes =
+    typeof req.query.event_type === "string"
+      ? req.query.event_type
+          .split(",")
+          .map((type) => type.trim())
+          .filter(Boolean)
+      : [];
+  const from = new Date(
+    typeof req.query.from === "string"
+      ? req.query.from
+      : Date.now() - 7 * 24 * 60 * 60 * 1000,
+  );
+  const limit = Math.min(Math.max(Number(req.query.limit) || 5000, 1), 20000);
+
+  if (Number.isNaN(from.getTime())) {
+    return res.status(400).json({ error: "from must be a date" });
+  }
+
+  const conditions = ["created_at >= datetime(?)"];
+  const params = [from.toISOString()];
+  if (eventTypes.length > 0) {
+    conditions.push(`event_type IN (${eventTypes.map(() => "?").join(", ")})`);
+    params.push(...eventTypes);
+  }
+
+  db.all(
+    `SELECT id, event_type, event_data, page_url, referrer, session_id, created_at
+     FROM analytics
+     WHERE ${conditions.join(" AND ")}
+     ORDER BY created_at DESC
+     LIMIT ?`,
+    [...params, limit],
+    (err, rows) => {
+      if (err) {
+        console.error("Analytics events error:", err);
+        return res.status(500).json({ error: "Database error" });
+      }
+
+      const data = rows.map((row) => {
+        let eventData = {};
+        try {
+          eventData = JSON.parse(row.event_data || "{}");
+        } catch {
+          // Rows written before event data was validated
+        }
+        return { ...row, event_data: eventData };
+      });
+
+      res.json({ data, meta: { count: data.length, limit } });
+    },
+  );
+});
+
+// ==================== ANALYTICS REPORTS ====================
+// Aggregated here with SQL, so the website's admin dashboard covers every event in a range
+// without downloading them.
+
+const ANALYTICS_REPORT_EVENT_TYPES = [
+  "page_view",
+  "project_view",
+  "scroll_depth",
+  "time_on_page",
+];
+
+// Report events since a date. Events without a session (written before IDs were assigned) count
+// as their own session, unparsable event data as empty, and the page is the URL, else the path
+// the hook recorded.
+const analyticsReportEventsSql = `WITH raw_events AS (
+    SELECT id, event_type, page_url, referrer, created_at,
+      COALESCE(session_id, 'event:' || id) AS session,
+      CASE WHEN json_valid(event_data) THEN event_data ELSE '{}' END AS data
+    FROM analytics
+    WHERE created_at >= datetime(?)
+      AND event_type IN (${ANALYTICS_REPORT_EVENT_TYPES.map(() => "?").join(", ")})
+  ),
+  events AS (
+    SELECT *, COALESCE(NULLIF(page_url, ''), json_extract(data, '$.page'), '/') AS page
+    FROM raw_events
+  )`;
+
+const analyticsReportQueries = {
+  summary: `${analyticsReportEventsSql}
+    SELECT
+      COUNT(CASE WHEN event_type = 'page_view' THEN 1 END) AS page_views,
+      COUNT(DISTINCT CASE WHEN event_type = 'page_view' THEN session END) AS sessions,
+      COUNT(CASE WHEN event_type = 'project_view' THEN 1 END) AS project_views,
+      AVG(CASE
+        WHEN event_type = 'time_on_page'
+          AND json_type(data, '$.timeSpent') IN ('integer', 'real')
+          AND json_extract(data, '$.timeSpent') >= 0
+        THEN json_extract(data, '$.timeSpent')
+      END) AS avg_time_on_page
+    FROM events`,
+  timeSeries: (format) => `${analyticsReportEventsSql}
+    SELECT strftime('${format}', created_at) AS start,
+      COUNT(*) AS page_views, COUNT(DISTINCT session) AS sessions
+    FROM events
+    WHERE event_type = 'page_view'
+    GROUP BY start
+    ORDER BY start`,
+  // The bare title column comes from the latest view, which carries the current title
+  projects: `${analyticsReportEventsSql}
+    SELECT CAST(json_extract(data, '$.projectId') AS TEXT) AS project_id,
+      json_extract(data, '$.projectTitle') AS title, MAX(created_at) AS last_viewed_at,
+      COUNT(*) AS views, COUNT(DISTINCT session) AS sessions
+    FROM events
+    WHERE event_type = 'project_view' AND json_type(data, '$.projectId') IN ('text', 'integer')
+    GROUP BY project_id
+    ORDER BY views DESC`,
+  // A session's first page view is where it came from; later views are in-site navigation
+  entrances: `${analyticsReportEventsSql}
+    SELECT page, referrer, COUNT(*) AS sessions
+    FROM (
+      SELECT page, referrer,
+        ROW_NUMBER() OVER (PARTITION BY session ORDER BY created_at, id) AS visit
+      FROM events
+      WHERE event_type = 'page_view'
+    )
+    WHERE visit = 1
+    GROUP BY page, referrer
+    ORDER BY sessions DESC`,
+  // Sessions that viewed each page, and how many of them scrolled at least 25/50/75/100%
+  pages: `${analyticsReportEventsSql},
+  views AS (
+    SELECT DISTINCT page, session FROM events WHERE event_type = 'page_view'
+  ),
+  depths AS (
+    SELECT page, session, MAX(json_extract(data, '$.percentage')) AS depth
+    FROM events
+    WHERE event_type = 'scroll_depth' AND json_type(data, '$.percentage') IN ('integer', 'real')
+    GROUP BY page, session
+  )
+  SELECT views.page, COUNT(*) AS sessions,
+    COUNT(CASE WHEN depth >= 25 THEN 1 END) AS reached_25,
+    COUNT(CASE WHEN depth >= 50 THEN 1 END) AS reached_50,
+    COUNT(CASE WHEN depth >= 75 THEN 1 END) AS reached_75,
+    COUNT(CASE WHEN depth >= 100 THEN 1 END) AS reached_100
+  FROM views
+  LEFT JOIN depths ON depths.page = views.page AND depths.session = views.session
+  GROUP BY views.page
+  ORDER BY sessions DESC`,
+  // The page each session active since `from` was last seen on
+  activePages: `${analyticsReportEventsSql}
+    SELECT page, COUNT(*) AS sessions
+    FROM (
+      SELECT page,
+        ROW_NUMBER() OVER (PARTITION BY session ORDER BY created_at DESC, id DESC) AS latest
+      FROM events
+    )
+    WHERE latest = 1
+    GROUP BY page
+    ORDER BY sessions DESC`,
+  recentEvents: `${analyticsReportEventsSql}
+    SELECT event_type, page, strftime('%Y-%m-%dT%H:%M:%S.000Z', created_at) AS at
+    FROM events
+    ORDER BY created_at DESC, id DESC
+    LIMIT ?`,
+};
+
+const analyticsReportFrom = (value, fallbackMs) =>
+  new Date(typeof value === "string" ? value : Date.now() - fallbackMs);
+
+// Run named queries side by side; calls back once with every result or the first error
+const allQueries = (queries, callback) => {
+  const names = Object.keys(queries);
+  const results = {};
+  let pending = names.length;
+  let failed = false;
+
+  names.forEach((name) => {
+    const [sql, params] = queries[name];
+    db.all(sql, params, (err, rows) => {
+      if (failed) return;
+      if (err) {
+        failed = true;
+        return callback(err);
+      }
+      results[name] = rows;
+      if (--pending === 0) callback(null, results);
+    });
+  });
+};
+
+// REPORT (page views over time, top projects, entrances and scroll depth per page)
+app.get("/api/analytics/report", requireServiceApiKey, (req, res) => {
+  const from = analyticsReportFrom(req.query.from, 7 * 24 * 60 * 60 * 1000);
+  const bucket = req.query.bucket === undefined ? "day" : req.query.bucket;
+
+  if (Number.isNaN(from.getTime())) {
+    return res.status(400).json({ error: "from must be a date" });
+  }
+  if (bucket !== "hour" && bucket !== "day") {
+    return res.status(400).json({ error: "bucket must be hour or day" });
+  }
+
+  const params = [from.toISOString(), ...ANALYTICS_REPORT_EVENT_TYPES];
+  allQueries(
+    {
+      summary: [analyticsReportQueries.summary, params],
+      timeSeries: [
+        analyticsReportQueries.timeSeries(
+          bucket === "hour" ? "%Y-%m-%dT%H:00:00.000Z" : "%Y-%m-%dT00:00:00.000Z",
+        ),
+        params,
+      ],
+      projects: [analyticsReportQueries.projects, params],
+      entrances: [analyticsReportQueries.entrances, params],
+      pages: [analyticsReportQueries.pages, params],
+    },
+    (err, results) => {
+      if (err) {
+        console.error("Analytics report error:", err);
+        return res.status(500).json({ error: "Database error" });
+      }
+
+      const [summary] = results.summary;
+      res.json({
+        from: from.toISOString(),
+        bucket,
+        summary: {
+          pageViews: summary.page_views,
+          sessions: summary.sessions,
+          projectViews: summary.project_views,
+          avgTimeOnPage: summary.avg_time_on_page,
+        },
+        timeSeries: results.timeSeries.map((row) => ({
+          start: row.start,
+          pageViews: row.page_views,
+          sessions: row.sessions,
+        })),
+        projects: results.projects.map((row) => ({
+          projectId: row.project_id,
+          title: typeof row.title === "string" ? row.title : null,
+          views: row.views,
+          sessions: row.sessions,
+        })),
+        entrances: results.entrances.map((row) => ({
+          page: String(row.page),
+          referrer: row.referrer || null,
+          sessions: row.sessions,
+        })),
+        pages: results.pages.map((row) => ({
+          page: String(row.page),
+          sessions: row.sessions,
+          reached: {
+            25: row.reached_25,
+            50: row.reached_50,
+            75: row.reached_75,
+            100: row.reached_100,
+          },
+        })),
+      });
+    },
+  );
+});
+
+// REALTIME REPORT (sessions seen since `from` and the latest events)
+app.get("/api/analytics/report/realtime", requireServiceApiKey, (req, res) => {
+  const from = analyticsReportFrom(req.query.from, 5 * 60 * 1000);
+  const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 100);
+
+  if (Number.isNaN(from.getTime())) {
+    return res.status(400).json({ error: "from must be a date" });
+  }
+
+  const params = [from.toISOString(), ...ANALYTICS_REPORT_EVENT_TYPES];
+  allQueries(
+    {
+      pages: [analyticsReportQueries.activePages, params],
+      recent: [analyticsReportQueries.recentEvents, [...params, limit]],
+    },
+    (err, results) => {
+      if (err) {
+        console.error("Realtime analytics error:", err);
+        return res.status(500).json({ error: "Database error" });
+      }
+
+      res.json({
+        from: from.toISOString(),
+        pages: results.pages.map((row) => ({
+          page: String(row.page),
+          sessions: row.sessions,
+        })),
+        recent: results.recent.map((row) => ({
+          type: row.event_type,
+          page: String(row.page),
+          at: row.at,
+        })),
+      });
+    },
+  );
+});
+
 app.get("/api/analytics", requireAuth, (req, res) => {
   const { timeframe = "7d" } = req.query;
 
@@ -2596,8 +3148,18 @@ function generateMeetLink(bookingId) {
   return `https://meet.google.com/new`;
 }
 
-// Helper: Send booking confirmation email
-async function sendBookingConfirmation(booking) {
+// Helper: Intake answers stored with a booking
+function parseIntakeAnswers(value) {
+  try {
+    const answers = JSON.parse(value || "[]");
+    return Array.isArray(answers) ? answers : [];
+  } catch {
+    return [];
+  }
+}
+
+// Helper: Send booking confirmation email (the guest copy is skipped when notifyGuest is false)
+async function sendBookingConfirmation(booking, { notifyGuest = true } = {}) {
   const meetLink = booking.meeting_link;
   const bookingDate = new Date(booking.date);
 
@@ -2654,12 +3216,14 @@ async function sendBookingConfirmation(booking) {
     </html>
   `;
 
-  await emailTransporter.sendMail({
-    from: `"Portfolio" <${process.env.EMAIL_FROM}>`,
-    to: booking.email,
-    subject: `✅ Meeting Confirmed - ${bookingDate.toLocaleDateString()} at ${booking.time}`,
-    html,
-  });
+  if (notifyGuest) {
+    await emailTransporter.sendMail({
+      from: `"Portfolio" <${process.env.EMAIL_FROM}>`,
+      to: booking.email,
+      subject: `✅ Meeting Confirmed - ${bookingDate.toLocaleDateString()} at ${booking.time}`,
+      html,
+    });
+  }
 
   // Send copy to yourself
   await emailTransporter.sendMail({
@@ -2673,101 +3237,327 @@ async function sendBookingConfirmation(booking) {
       <p><strong>Phone:</strong> ${booking.phone || "Not provided"}</p>
       <p><strong>Date:</strong> ${bookingDate.toLocaleDateString()}</p>
       <p><strong>Time:</strong> ${booking.time} (${booking.duration} min)</p>
+      ${booking.meeting_type ? `<p><strong>Type:</strong> ${booking.meeting_type}</p>` : ""}
       ${booking.notes ? `<p><strong>Notes:</strong> ${booking.notes}</p>` : ""}
+      ${parseIntakeAnswers(booking.intake_answers)
+        .map(
+          ({ label, answer }) =>
+            `<p><strong>${label}:</strong> ${answer === true ? "Yes" : answer === false ? "No" : answer}</p>`,
+        )
+        .join("")}
       <p><a href="${meetLink}">Meeting Link</a></p>
     `,
   });
 }
 
-// CREATE BOOKING
-app.post("/api/bookings", requireServiceApiKey, async (req, res) => {
-  const validation = validateBookingPayload(req.body);
+// Helper: Offer a freed slot to a waitlisted visitor
+async function sendWaitlistOffer(entry, claimUrl) {
+  const bookingDate = new Date(entry.date);
+  const expiresAt = new Date(entry.offer_expires_at);
 
-  if (!validation.valid) {
-    return res.status(400).json({
-      error: "Invalid booking payload",
-      details: validation.errors,
+  await emailTransporter.sendMail({
+    from: `"Portfolio" <${process.env.EMAIL_FROM}>`,
+    to: entry.email,
+    subject: `🎟️ A slot opened up - ${bookingDate.toLocaleDateString()} at ${entry.offered_time}`,
+    html: `
+      <div style="font-family: -apple-system, sans-serif; max-width: 600px; margin: 0 auto; color: #334155;">
+        <h2 style="color: #10b981;">A slot opened up!</h2>
+        <p>Hi ${entry.name},</p>
+        <p>
+          A booking on ${bookingDate.toLocaleDateString("en-US", { weekday: "long", year: "numeric", month: "long", day: "numeric" })}
+          was cancelled, and you're next on the waitlist. The ${entry.offered_time} slot is held for you
+          until ${expiresAt.toUTCString()}.
+        </p>
+        <p style="text-align: center;">
+          <a href="${claimUrl}" style="display: inline-block; background: #10b981; color: white; padding: 14px 32px; text-decoration: none; border-radius: 8px; font-weight: 600;">Claim this slot</a>
+        </p>
+        <p style="color: #64748b; font-size: 14px;">
+          If you don't claim it in time, the slot is offered to the next person on the waitlist.
+        </p>
+      </div>
+    `,
+  });
+}
+
+// ==================== BOOKING HOLDS ====================
+// A hold reserves a slot for a few minutes while a visitor fills in the booking form. Active
+// holds block the slot for everyone else in availability and booking; the visitor holding it
+// passes the hold ID to see and book it.
+
+const MAX_HOLD_MINUTES = 30;
+
+const toMinutes = (time) => {
+  const [hours, minutes] = time.split(":").map((value) => parseInt(value, 10));
+  return hours * 60 + minutes;
+};
+
+// Rows of the queried table whose [time, time + duration) overlaps [?start, ?end)
+const overlapsSlotSql =
+  "(CAST(substr(time, 1, 2) AS INTEGER) * 60 + CAST(substr(time, 4, 2) AS INTEGER)) < ? AND " +
+  "(CAST(substr(time, 1, 2) AS INTEGER) * 60 + CAST(substr(time, 4, 2) AS INTEGER)) + duration > ?";
+
+// Guard for a write claiming the padded slot [?start, ?end) on ?date: no overlapping confirmed
+// booking other than the one being moved, and no active hold other than the visitor's own
+const slotIsFreeSql =
+  `NOT EXISTS (
+     SELECT 1 FROM bookings WHERE date = ? AND status = "confirmed" AND id != ? AND ${overlapsSlotSql}
+   )
+   AND NOT EXISTS (
+     SELECT 1 FROM booking_holds WHERE date = ? AND expires_at > ? AND id != ? AND ${overlapsSlotSql}
+   )`;
+
+const slotIsFreeParams = ({ date, start, end, bookingId, holdId }) => [
+  date,
+  bookingId || 0,
+  end,
+  start,
+  date,
+  new Date().toISOString(),
+  holdId || "",
+  end,
+  start,
+];
+
+// Buffers of a meeting type by slug; unknown types have none
+const getMeetingTypeBuffers = (slug, callback) => {
+  if (!slug) return callback(null, { bufferBefore: 0, bufferAfter: 0 });
+
+  db.get(
+    "SELECT buffer_before, buffer_after FROM meeting_types WHERE slug = ?",
+    [slug],
+    (err, type) => {
+      if (err) return callback(err);
+      callback(null, {
+        bufferBefore: (type && type.buffer_before) || 0,
+        bufferAfter: (type && type.buffer_after) || 0,
+      });
+    },
+  );
+};
+
+// Place a hold unless the padded slot overlaps a confirmed booking or another active hold;
+// calls back with the hold, or null when the slot is taken
+const placeHold = (
+  { date, time, duration, bufferBefore, bufferAfter, expiresAt, replaceHoldId },
+  callback,
+) => {
+  const holdId = crypto.randomUUID();
+  const start = toMinutes(time) - bufferBefore;
+  const end = toMinutes(time) + duration + bufferAfter;
+
+  db.serialize(() => {
+    db.run("DELETE FROM booking_holds WHERE expires_at <= ? OR id = ?", [
+      new Date().toISOString(),
+      replaceHoldId || "",
+    ]);
+
+    // One statement, so two visitors racing for the same slot can't both get it
+    db.run(
+      `INSERT INTO booking_holds (id, date, time, duration, expires_at)
+       SELECT ?, ?, ?, ?, ?
+       WHERE NOT EXISTS (SELECT 1 FROM booking_holds WHERE date = ? AND ${overlapsSlotSql})
+         AND NOT EXISTS (
+           SELECT 1 FROM bookings WHERE date = ? AND status = "confirmed" AND ${overlapsSlotSql}
+         )`,
+      [holdId, date, time, duration, expiresAt, date, end, start, date, end, start],
+      function (err) {
+        if (err) return callback(err);
+        callback(null, this.changes === 0 ? null : { id: holdId, date, time, duration, expiresAt });
+      },
+    );
+  });
+};
+
+// PLACE HOLD
+app.post("/api/bookings/holds", requireServiceApiKey, (req, res) => {
+  const date = typeof req.body.date === "string" ? req.body.date.trim() : "";
+  const time = typeof req.body.time === "string" ? req.body.time.trim() : "";
+  const duration = Number(req.body.duration);
+  const bufferBefore = Number(req.body.bufferBefore ?? 0);
+  const bufferAfter = Number(req.body.bufferAfter ?? 0);
+  const expiresInMinutes = Number(req.body.expiresInMinutes ?? 5);
+  const replaceHoldId =
+    typeof req.body.replaceHoldId === "string" ? req.body.replaceHoldId.trim() : "";
+
+  const errors = [];
+  if (!isoDateRegex.test(date)) {
+    errors.push({ field: "date", message: "Date must be in YYYY-MM-DD format" });
+  }
+  if (!timeRegex.test(time)) {
+    errors.push({ field: "time", message: "Time must be in HH:MM format" });
+  }
+  if (!Number.isInteger(duration) || duration < 15 || duration > 240) {
+    errors.push({
+      field: "duration",
+      message: "Duration must be an integer between 15 and 240 minutes",
+    });
+  }
+  if (
+    [bufferBefore, bufferAfter].some(
+      (buffer) => !Number.isInteger(buffer) || buffer < 0 || buffer > 120,
+    )
+  ) {
+    errors.push({ field: "buffers", message: "Buffers must be between 0 and 120 minutes" });
+  }
+  if (
+    !Number.isInteger(expiresInMinutes) ||
+    expiresInMinutes < 1 ||
+    expiresInMinutes > MAX_HOLD_MINUTES
+  ) {
+    errors.push({
+      field: "expiresInMinutes",
+      message: `Holds last between 1 and ${MAX_HOLD_MINUTES} minutes`,
     });
   }
+  if (replaceHoldId && !uuidRegex.test(replaceHoldId)) {
+    errors.push({ field: "replaceHoldId", message: "Invalid hold ID" });
+  }
+  if (errors.length > 0) {
+    return res.status(400).json({ error: "Invalid hold payload", details: errors });
+  }
 
-  const { name, email, phone, date, time, duration, meetingType, notes } =
-    validation.data;
+  const expiresAt = new Date(Date.now() + expiresInMinutes * 60 * 1000).toISOString();
 
-  db.get(
-    'SELECT id FROM bookings WHERE date = ? AND time = ? AND status = "confirmed"',
-    [date, time],
-    async (err, existing) => {
+  placeHold(
+    { date, time, duration, bufferBefore, bufferAfter, expiresAt, replaceHoldId },
+    (err, hold) => {
       if (err) {
-        console.error("Failed to validate booking slot:", err);
+        console.error("Failed to place booking hold:", err);
         return res.status(500).json({ error: "Database error" });
       }
-      if (existing) {
+      if (!hold) {
         return res.status(409).json({ error: "Time slot no longer available" });
       }
+      res.status(201).json({ hold });
+    },
+  );
+});
 
-      db.run(
-        `INSERT INTO bookings (name, email, phone, date, time, duration, meeting_type, notes, status)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'confirmed')`,
-        [name, email, phone, date, time, duration, meetingType, notes],
-        async function (err) {
-          if (err) {
-            console.error("Failed to create booking:", err);
-            return res.status(500).json({ error: "Failed to create booking" });
-          }
+// CREATE BOOKING
+app.post("/api/bookings", requireServiceApiKey, async (req, res) => {
+  const validation = validateBookingPayload(req.body);
 
-          const bookingId = this.lastID;
-          const meetingLink = generateMeetLink(bookingId);
+  if (!validation.valid) {
+    return res.status(400).json({
+      error: "Invalid booking payload",
+      details: validation.errors,
+    });
+  }
 
-          db.run("UPDATE bookings SET meeting_link = ? WHERE id = ?", [
-            meetingLink,
-            bookingId,
-          ]);
+  const {
+    name,
+    email,
+    phone,
+    date,
+    time,
+    duration,
+    meetingType,
+    notes,
+    intakeAnswers,
+    timeZone,
+    holdId,
+    notifyGuest,
+  } = validation.data;
 
-          db.get(
-            "SELECT * FROM bookings WHERE id = ?",
-            [bookingId],
-            async (err, booking) => {
-              if (err) {
-                console.error("Failed to load booking for confirmation:", err);
-                return res.status(500).json({
-                  error: "Booking created but failed to load confirmation",
-                });
-              }
+  getMeetingTypeBuffers(meetingType, (err, buffers) => {
+    if (err) {
+      console.error("Failed to validate booking slot:", err);
+      return res.status(500).json({ error: "Database error" });
+    }
 
-              try {
-                await sendBookingConfirmation(booking);
-                console.log(
-                  `✅ Booking created: ${booking.name} - ${booking.date} ${booking.time}`,
-                );
-              } catch (emailError) {
-                console.error("Email error:", emailError);
-              }
+    // One statement, so a booking can't slip in next to a concurrent booking or hold
+    db.run(
+      `INSERT INTO bookings (name, email, phone, date, time, duration, meeting_type, notes, intake_answers, time_zone, status)
+       SELECT ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'confirmed'
+       WHERE ${slotIsFreeSql}`,
+      [
+        name,
+        email,
+        phone,
+        date,
+        time,
+        duration,
+        meetingType,
+        notes,
+        intakeAnswers.length > 0 ? JSON.stringify(intakeAnswers) : null,
+        timeZone,
+        ...slotIsFreeParams({
+          date,
+          start: toMinutes(time) - buffers.bufferBefore,
+          end: toMinutes(time) + duration + buffers.bufferAfter,
+          holdId,
+        }),
+      ],
+      async function (err) {
+        if (err) {
+          console.error("Failed to create booking:", err);
+          return res.status(500).json({ error: "Failed to create booking" });
+        }
+        if (this.changes === 0) {
+          return res.status(409).json({ error: "Time slot no longer available" });
+        }
 
-              res.status(201).json({
-                success: true,
-                bookingId,
-                booking: {
-                  id: bookingId,
-                  name: booking.name,
-                  email: booking.email,
-                  date: booking.date,
-                  time: booking.time,
-                  duration: booking.duration,
-                  meetingLink,
-                },
-                message: "Booking confirmed! Check your email.",
-              });
-            },
+        const bookingId = this.lastID;
+        const meetingLink = generateMeetLink(bookingId);
+
+        if (holdId) {
+          db.run("DELETE FROM booking_holds WHERE id = ?", [holdId]);
+          db.run(
+            `UPDATE booking_waitlist SET status = 'claimed', updated_at = CURRENT_TIMESTAMP
+             WHERE hold_id = ? AND status = 'offered'`,
+            [holdId],
           );
-        },
-      );
-    },
-  );
+        }
+
+        db.run("UPDATE bookings SET meeting_link = ? WHERE id = ?", [
+          meetingLink,
+          bookingId,
+        ]);
+
+        db.get(
+          "SELECT * FROM bookings WHERE id = ?",
+          [bookingId],
+          async (err, booking) => {
+            if (err) {
+              console.error("Failed to load booking for confirmation:", err);
+              return res.status(500).json({
+                error: "Booking created but failed to load confirmation",
+              });
+            }
+
+            try {
+              await sendBookingConfirmation(booking, { notifyGuest });
+              console.log(
+                `✅ Booking created: ${booking.name} - ${booking.date} ${booking.time}`,
+              );
+            } catch (emailError) {
+              console.error("Email error:", emailError);
+            }
+
+            res.status(201).json({
+              success: true,
+              bookingId,
+              booking: {
+                id: bookingId,
+                name: booking.name,
+                email: booking.email,
+                date: booking.date,
+                time: booking.time,
+                duration: booking.duration,
+                meetingLink,
+              },
+              message: "Booking confirmed! Check your email.",
+            });
+          },
+        );
+      },
+    );
+  });
 });
 
-// GET ALL BOOKINGS (Admin)
-app.get("/api/bookings", requireAuth, (req, res) => {
-  const { status, date, upcoming } = req.query;
+// GET ALL BOOKINGS (Admin, or the website's reminder job with the service key)
+app.get("/api/bookings", requireServiceApiKey, (req, res) => {
+  const { status, date, from, upcoming } = req.query;
   let query = "SELECT * FROM bookings WHERE 1=1";
   const params = [];
 
@@ -2779,6 +3569,10 @@ app.get("/api/bookings", requireAuth, (req, res) => {
     query += " AND date = ?";
     params.push(date);
   }
+  if (from) {
+    query += " AND date >= ?";
+    params.push(from);
+  }
   if (upcoming === "true") {
     query += ' AND date >= date("now") AND status = "confirmed"';
   }
@@ -2808,21 +3602,721 @@ app.put("/api/bookings/:id/status", requireAuth, (req, res) => {
     return res.status(400).json({ error: "Invalid status" });
   }
 
+  db.get("SELECT * FROM bookings WHERE id = ?", [req.params.id], (err, booking) => {
+    if (err) return res.status(500).json({ error: "Failed to update" });
+
+    db.run(
+      "UPDATE bookings SET status = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?",
+      [status, req.params.id],
+      function (err) {
+        if (err) return res.status(500).json({ error: "Failed to update" });
+        if (booking && booking.status === "confirmed" && status === "cancelled") {
+          offerFreedSlot(booking);
+        }
+        res.json({ success: true, message: `Booking ${status}` });
+      },
+    );
+  });
+});
+
+// DELETE BOOKING
+app.delete("/api/bookings/:id", requireAuth, (req, res) => {
+  db.get("SELECT * FROM bookings WHERE id = ?", [req.params.id], (err, booking) => {
+    if (err) return res.status(500).json({ error: "Failed to delete" });
+
+    db.run("DELETE FROM bookings WHERE id = ?", [req.params.id], function (err) {
+      if (err) return res.status(500).json({ error: "Failed to delete" });
+      if (booking && booking.status === "confirmed") {
+        offerFreedSlot(booking);
+      }
+      res.json({ success: true });
+    });
+  });
+});
+
+// ==================== GUEST BOOKING ACCESS ====================
+// Used by the website on behalf of visitors holding a signed manage link. The website verifies
+// the link; the email must still match so a leaked service key alone can't enumerate bookings.
+
+const toGuestBooking = (booking) => ({
+  id: booking.id,
+  name: booking.name,
+  email: booking.email,
+  date: booking.date,
+  time: booking.time,
+  duration: booking.duration,
+  status: booking.status,
+  meetingType: booking.meeting_type,
+  meetingLink: booking.meeting_link,
+  timeZone: booking.time_zone,
+  createdAt: booking.created_at,
+  updatedAt: booking.updated_at,
+});
+
+const findGuestBooking = (id, email, callback) => {
+  const normalizedEmail = typeof email === "string" ? email.trim().toLowerCase() : "";
+  if (!/^\d+$/.test(String(id)) || !emailRegex.test(normalizedEmail)) {
+    return callback(null, null);
+  }
+
+  db.get(
+    "SELECT * FROM bookings WHERE id = ? AND lower(email) = ?",
+    [id, normalizedEmail],
+    callback,
+  );
+};
+
+// GET BOOKING (Guest)
+app.get("/api/bookings/:id/guest", requireServiceApiKey, (req, res) => {
+  findGuestBooking(req.params.id, req.query.email, (err, booking) => {
+    if (err) {
+      console.error("Failed to load guest booking:", err);
+      return res.status(500).json({ error: "Database error" });
+    }
+    if (!booking) {
+      return res.status(404).json({ error: "Booking not found" });
+    }
+    res.json({ booking: toGuestBooking(booking) });
+  });
+});
+
+// RESCHEDULE BOOKING (Guest)
+app.put("/api/bookings/:id/guest", requireServiceApiKey, (req, res) => {
+  const date = typeof req.body.date === "string" ? req.body.date.trim() : "";
+  const time = typeof req.body.time === "string" ? req.body.time.trim() : "";
+  const errors = [];
+  if (!isoDateRegex.test(date)) {
+    errors.push({ field: "date", message: "Date must be in YYYY-MM-DD format" });
+  }
+  if (!timeRegex.test(time)) {
+    errors.push({ field: "time", message: "Time must be in HH:MM format" });
+  }
+  if (errors.length > 0) {
+    return res.status(400).json({ error: "Invalid reschedule payload", details: errors });
+  }
+
+  findGuestBooking(req.params.id, req.body.email, (err, booking) => {
+    if (err) {
+      console.error("Failed to load guest booking:", err);
+      return res.status(500).json({ error: "Database error" });
+    }
+    if (!booking) {
+      return res.status(404).json({ error: "Booking not found" });
+    }
+    if (booking.status !== "confirmed") {
+      return res.status(409).json({ error: `Booking is ${booking.status}` });
+    }
+
+    getMeetingTypeBuffers(booking.meeting_type, (err, buffers) => {
+      if (err) {
+        console.error("Failed to validate booking slot:", err);
+        return res.status(500).json({ error: "Database error" });
+      }
+
+      // Same format as CURRENT_TIMESTAMP, so the response carries the stored value
+      const updatedAt = new Date().toISOString().replace("T", " ").slice(0, 19);
+      // The slot check and the move are one statement, so the new slot can't be taken between them
+      db.run(
+        `UPDATE bookings SET date = ?, time = ?, updated_at = ?
+         WHERE id = ? AND status = "confirmed" AND ${slotIsFreeSql}`,
+        [
+          date,
+          time,
+          updatedAt,
+          booking.id,
+          ...slotIsFreeParams({
+            date,
+            start: toMinutes(time) - buffers.bufferBefore,
+            end: toMinutes(time) + booking.duration + buffers.bufferAfter,
+            bookingId: booking.id,
+          }),
+        ],
+        function (err) {
+          if (err) {
+            console.error("Failed to reschedule booking:", err);
+            return res.status(500).json({ error: "Failed to reschedule booking" });
+          }
+          if (this.changes === 0) {
+            return res.status(409).json({ error: "Time slot no longer available" });
+          }
+          console.log(`🔁 Booking ${booking.id} rescheduled to ${date} ${time}`);
+          offerFreedSlot(booking);
+          res.json({
+            booking: toGuestBooking({ ...booking, date, time, updated_at: updatedAt }),
+          });
+        },
+      );
+    });
+  });
+});
+
+// CANCEL BOOKING (Guest)
+app.delete("/api/bookings/:id/guest", requireServiceApiKey, (req, res) => {
+  findGuestBooking(req.params.id, req.body.email, (err, booking) => {
+    if (err) {
+      console.error("Failed to load guest booking:", err);
+      return res.status(500).json({ error: "Database error" });
+    }
+    if (!booking) {
+      return res.status(404).json({ error: "Booking not found" });
+    }
+    if (booking.status !== "confirmed") {
+      return res.status(409).json({ error: `Booking is ${booking.status}` });
+    }
+
+    const updatedAt = new Date().toISOString().replace("T", " ").slice(0, 19);
+    db.run(
+      'UPDATE bookings SET status = "cancelled", updated_at = ? WHERE id = ?',
+      [updatedAt, booking.id],
+      (err) => {
+        if (err) {
+          console.error("Failed to cancel booking:", err);
+          return res.status(500).json({ error: "Failed to cancel booking" });
+        }
+        console.log(`🗑️ Booking ${booking.id} cancelled by guest`);
+        offerFreedSlot(booking);
+        res.json({
+          booking: toGuestBooking({ ...booking, status: "cancelled", updated_at: updatedAt }),
+        });
+      },
+    );
+  });
+});
+
+// ==================== BOOKING WAITLIST ====================
+// Visitors join the waitlist for a fully booked date and meeting type. When a booking on that
+// date is cancelled, deleted or moved away, the freed slot is held for the first waiting visitor
+// whose meeting type fits in it, and they get an email with a claim link. Offers that lapse pass the slot on to
+// the next visitor in line.
+
+const WAITLIST_OFFER_MINUTES = Math.min(
+  24 * 60,
+  Math.max(5, parseInt(process.env.WAITLIST_OFFER_MINUTES || "60", 10) || 60),
+);
+// How often lapsed offers are passed on
+const WAITLIST_SWEEP_SECONDS = Math.max(
+  1,
+  parseInt(process.env.WAITLIST_SWEEP_SECONDS || "60", 10) || 60,
+);
+const websiteUrl = (process.env.WEBSITE_URL || allowedOrigins[0] || "http://localhost:3000")
+  .replace(/\/+$/, "");
+const claimTokenRegex = /^[a-f0-9]{64}$/;
+
+const toWaitlistEntry = (entry) => ({
+  id: entry.id,
+  date: entry.date,
+  meetingType: entry.meeting_type,
+  name: entry.name,
+  email: entry.email,
+  status: entry.status,
+  offeredTime: entry.offered_time,
+  offerExpiresAt: entry.offer_expires_at,
+  createdAt: entry.created_at,
+});
+
+// Offer a freed { date, time, duration } slot to the waitlist; errors are logged, never thrown
+const offerFreedSlot = (slot) => {
+  if (slot.date < new Date().toISOString().split("T")[0]) return;
+
+  db.all(
+    `SELECT w.*, m.duration, m.buffer_before, m.buffer_after
+     FROM booking_waitlist w
+     JOIN meeting_types m ON m.slug = w.meeting_type
+     WHERE w.date = ? AND w.status = 'waiting' AND m.enabled = 1 AND m.duration <= ?
+     ORDER BY w.created_at ASC, w.id ASC`,
+    [slot.date, slot.duration],
+    (err, entries) => {
+      if (err) return console.error("Failed to load waitlist:", err);
+
+      const offerExpiresAt = new Date(
+        Date.now() + WAITLIST_OFFER_MINUTES * 60 * 1000,
+      ).toISOString();
+
+      const offerTo = (index) => {
+        const entry = entries[index];
+        if (!entry) return;
+
+        placeHold(
+          {
+            date: slot.date,
+            time: slot.time,
+            duration: entry.duration,
+            bufferBefore: entry.buffer_before || 0,
+            bufferAfter: entry.buffer_after || 0,
+            expiresAt: offerExpiresAt,
+          },
+          (err, hold) => {
+            if (err) return console.error("Failed to hold slot for waitlist:", err);
+            // The slot is taken again, or too tight for this visitor's buffers
+            if (!hold) return offerTo(index + 1);
+
+            const claimToken = crypto.randomBytes(32).toString("hex");
+            db.run(
+              `UPDATE booking_waitlist
+               SET status = 'offered', claim_token = ?, hold_id = ?, offered_time = ?,
+                   offered_duration = ?, offer_expires_at = ?, updated_at = CURRENT_TIMESTAMP
+               WHERE id = ? AND status = 'waiting'`,
+              [claimToken, hold.id, slot.time, slot.duration, offerExpiresAt, entry.id],
+              function (err) {
+                if (err || this.changes === 0) {
+                  db.run("DELETE FROM booking_holds WHERE id = ?", [hold.id]);
+                  if (err) return console.error("Failed to record waitlist offer:", err);
+                  // Another cancellation already made this visitor an offer
+                  return offerTo(index + 1);
+                }
+
+                const offer = {
+                  ...entry,
+                  offered_time: slot.time,
+                  offer_expires_at: offerExpiresAt,
+                };
+                sendWaitlistOffer(offer, `${websiteUrl}/book?claim=${claimToken}`)
+                  .then(() =>
+                    console.log(
+                      `🎟️ Waitlist entry ${entry.id} offered ${slot.date} ${slot.time}`,
+                    ),
+                  )
+                  .catch((emailError) => console.error("Waitlist email error:", emailError));
+              },
+            );
+          },
+        );
+      };
+
+      offerTo(0);
+    },
+  );
+};
+
+// Pass lapsed offers on to the next visitor and retire entries for past dates
+const expireWaitlistOffers = () => {
+  const now = new Date().toISOString();
+
+  db.all(
+    "SELECT * FROM booking_waitlist WHERE status = 'offered' AND offer_expires_at <= ?",
+    [now],
+    (err, entries) => {
+      if (err) return console.error("Failed to load lapsed waitlist offers:", err);
+
+      entries.forEach((entry) => {
+        db.run(
+          `UPDATE booking_waitlist SET status = 'expired', updated_at = CURRENT_TIMESTAMP
+           WHERE id = ? AND status = 'offered'`,
+          [entry.id],
+          function (err) {
+            if (err || this.changes === 0) return;
+            offerFreedSlot({
+              date: entry.date,
+              time: entry.offered_time,
+              duration: entry.offered_duration,
+            });
+          },
+        );
+      });
+    },
+  );
+
+  db.run(
+    `UPDATE booking_waitlist SET status = 'expired', updated_at = CURRENT_TIMESTAMP
+     WHERE status = 'waiting' AND date < ?`,
+    [now.split("T")[0]],
+  );
+};
+
+const waitlistSweep = setInterval(expireWaitlistOffers, WAITLIST_SWEEP_SECONDS * 1000);
+waitlistSweep.unref();
+
+// JOIN WAITLIST
+app.post("/api/bookings/waitlist", requireServiceApiKey, (req, res) => {
+  const name = sanitizeInput(req.body.name, { maxLength: 100 });
+  const email = typeof req.body.email === "string" ? req.body.email.trim().toLowerCase() : "";
+  const date = typeof req.body.date === "string" ? req.body.date.trim() : "";
+  const meetingType = typeof req.body.meetingType === "string" ? req.body.meetingType.trim() : "";
+
+  const errors = [];
+  if (!name || name.length < 2) {
+    errors.push({ field: "name", message: "Name must be at least 2 characters" });
+  }
+  if (!emailRegex.test(email)) {
+    errors.push({ field: "email", message: "Invalid email address" });
+  }
+  if (!isoDateRegex.test(date)) {
+    errors.push({ field: "date", message: "Date must be in YYYY-MM-DD format" });
+  } else if (date < new Date().toISOString().split("T")[0]) {
+    errors.push({ field: "date", message: "Date is in the past" });
+  }
+  if (!meetingType) {
+    errors.push({ field: "meetingType", message: "Meeting type is required" });
+  }
+  if (errors.length > 0) {
+    return res.status(400).json({ error: "Invalid waitlist payload", details: errors });
+  }
+
+  db.get(
+    `SELECT
+       (SELECT id FROM meeting_types WHERE slug = ? AND enabled = 1) AS meeting_type_id,
+       (SELECT id FROM booking_waitlist
+        WHERE date = ? AND meeting_type = ? AND email = ? AND status IN ('waiting', 'offered')
+       ) AS entry_id`,
+    [meetingType, date, meetingType, email],
+    (err, existing) => {
+      if (err) {
+        console.error("Failed to validate waitlist entry:", err);
+        return res.status(500).json({ error: "Database error" });
+      }
+      if (!existing.meeting_type_id) {
+        return res.status(400).json({
+          error: "Invalid waitlist payload",
+          details: [{ field: "meetingType", message: `Unknown meeting type: ${meetingType}` }],
+        });
+      }
+      if (existing.entry_id) {
+        return res.status(409).json({ error: "Already on the waitlist for this date" });
+      }
+
+      db.run(
+        "INSERT INTO booking_waitlist (date, meeting_type, name, email) VALUES (?, ?, ?, ?)",
+        [date, meetingType, name, email],
+        function (err) {
+          if (err) {
+            console.error("Failed to join waitlist:", err);
+            return res.status(500).json({ error: "Failed to join waitlist" });
+          }
+
+          const id = this.lastID;
+          db.get(
+            `SELECT COUNT(*) AS position FROM booking_waitlist
+             WHERE date = ? AND meeting_type = ? AND status = 'waiting' AND id <= ?`,
+            [date, meetingType, id],
+            (err, row) => {
+              if (err) {
+                console.error("Failed to count waitlist position:", err);
+                return res.status(500).json({ error: "Database error" });
+              }
+              console.log(`📋 Waitlist entry ${id} for ${date} (${meetingType})`);
+              res.status(201).json({ entry: { id, date, meetingType, position: row.position } });
+            },
+          );
+        },
+      );
+    },
+  );
+});
+
+// GET WAITLIST OFFER (by the claim token from the offer email)
+app.get("/api/bookings/waitlist/offers/:token", requireServiceApiKey, (req, res) => {
+  if (!claimTokenRegex.test(req.params.token)) {
+    return res.status(404).json({ error: "Offer not found or expired" });
+  }
+
+  const now = new Date().toISOString();
+  // The hold goes away when the visitor picks another slot, which gives the offer up
+  db.get(
+    `SELECT w.*, h.id AS active_hold_id, h.duration AS hold_duration
+     FROM booking_waitlist w
+     JOIN booking_holds h ON h.id = w.hold_id AND h.expires_at > ?
+     WHERE w.claim_token = ? AND w.status = 'offered' AND w.offer_expires_at > ?`,
+    [now, req.params.token, now],
+    (err, entry) => {
+      if (err) {
+        console.error("Failed to load waitlist offer:", err);
+        return res.status(500).json({ error: "Database error" });
+      }
+      if (!entry) {
+        return res.status(404).json({ error: "Offer not found or expired" });
+      }
+      res.json({
+        offer: {
+          date: entry.date,
+          time: entry.offered_time,
+          duration: entry.hold_duration,
+          meetingType: entry.meeting_type,
+          name: entry.name,
+          email: entry.email,
+          holdId: entry.active_hold_id,
+          expiresAt: entry.offer_expires_at,
+        },
+      });
+    },
+  );
+});
+
+// GET WAITLIST (Admin)
+app.get("/api/bookings/waitlist", requireAuth, (req, res) => {
+  const { status, date } = req.query;
+  let query = "SELECT * FROM booking_waitlist WHERE 1=1";
+  const params = [];
+
+  if (status) {
+    query += " AND status = ?";
+    params.push(status);
+  }
+  if (date) {
+    query += " AND date = ?";
+    params.push(date);
+  }
+
+  query += " ORDER BY date ASC, created_at ASC, id ASC";
+
+  db.all(query, params, (err, entries) => {
+    if (err) return res.status(500).json({ error: "Database error" });
+    res.json({ data: entries.map(toWaitlistEntry), meta: { total: entries.length } });
+  });
+});
+
+// ==================== MEETING TYPES ====================
+// The catalog behind the booking calendar. The website lists enabled types to visitors and
+// checks every booking's meetingType/duration pair against it.
+
+const meetingLocationTypes = ["video", "phone"];
+
+const parseIntakeQuestions = (value) => {
+  try {
+    const questions = JSON.parse(value || "[]");
+    return Array.isArray(questions) ? questions : [];
+  } catch {
+    return [];
+  }
+};
+
+const toMeetingType = (row) => ({
+  id: row.id,
+  slug: row.slug,
+  name: row.name,
+  description: row.description,
+  duration: row.duration,
+  bufferBefore: row.buffer_before || 0,
+  bufferAfter: row.buffer_after || 0,
+  locationType: row.location_type,
+  intakeQuestions: parseIntakeQuestions(row.intake_questions),
+  enabled: Boolean(row.enabled),
+  sortOrder: row.sort_order || 0,
+});
+
+const intakeQuestionTypes = ["text", "select", "checkbox", "url"];
+
+// Mirrors the website's intake question schema; returns an error message or null
+const validateIntakeQuestion = (question, seenIds) => {
+  if (!question || typeof question !== "object") {
+    return "Question must be an object";
+  }
+  if (typeof question.id !== "string" || !/^[a-z][a-z0-9_]{0,49}$/.test(question.id)) {
+    return "Question id must be lowercase letters, numbers and underscores";
+  }
+  if (seenIds.has(question.id)) {
+    return `Duplicate question id: ${question.id}`;
+  }
+  seenIds.add(question.id);
+  if (typeof question.label !== "string" || !question.label.trim() || question.label.length > 200) {
+    return "Question label is required (max 200 characters)";
+  }
+  if (!intakeQuestionTypes.includes(question.type)) {
+    return `Question type must be one of: ${intakeQuestionTypes.join(", ")}`;
+  }
+  if (
+    question.type === "select" &&
+    (!Array.isArray(question.options) ||
+      question.options.length === 0 ||
+      question.options.length > 50 ||
+      question.options.some((option) => typeof option !== "string" || !option.trim()))
+  ) {
+    return "Select questions need between 1 and 50 options";
+  }
+  return null;
+};
+
+const validateMeetingTypePayload = (payload = {}) => {
+  const errors = [];
+
+  const slug = typeof payload.slug === "string" ? payload.slug.trim() : "";
+  if (!/^[a-z0-9-]{1,50}$/.test(slug)) {
+    errors.push({
+      field: "slug",
+      message: "Slug may only contain lowercase letters, numbers and hyphens",
+    });
+  }
+
+  const name = sanitizeInput(payload.name, { maxLength: 100 });
+  if (!name) {
+    errors.push({ field: "name", message: "Name is required" });
+  }
+
+  const description = sanitizeInput(payload.description || "", {
+    multiline: true,
+    maxLength: 500,
+  });
+
+  const duration = Number(payload.duration);
+  if (!Number.isInteger(duration) || duration < 15 || duration > 240) {
+    errors.push({
+      field: "duration",
+      message: "Duration must be an integer between 15 and 240 minutes",
+    });
+  }
+
+  const bufferBefore = Number(payload.bufferBefore ?? 0);
+  const bufferAfter = Number(payload.bufferAfter ?? 0);
+  [
+    ["bufferBefore", bufferBefore],
+    ["bufferAfter", bufferAfter],
+  ].forEach(([field, value]) => {
+    if (!Number.isInteger(value) || value < 0 || value > 120) {
+      errors.push({ field, message: "Buffers must be between 0 and 120 minutes" });
+    }
+  });
+
+  const locationType = payload.locationType ?? "video";
+  if (!meetingLocationTypes.includes(locationType)) {
+    errors.push({
+      field: "locationType",
+      message: `Location type must be one of: ${meetingLocationTypes.join(", ")}`,
+    });
+  }
+
+  const intakeQuestions = payload.intakeQuestions ?? [];
+  if (!Array.isArray(intakeQuestions) || intakeQuestions.length > 20) {
+    errors.push({
+      field: "intakeQuestions",
+      message: "Intake questions must be a list of up to 20",
+    });
+  } else {
+    const seenIds = new Set();
+    intakeQuestions.forEach((question, index) => {
+      const message = validateIntakeQuestion(question, seenIds);
+      if (message) {
+        errors.push({ field: `intakeQuestions.${index}`, message });
+      }
+    });
+  }
+
+  const sortOrder = Number(payload.sortOrder ?? 0);
+  if (!Number.isInteger(sortOrder)) {
+    errors.push({ field: "sortOrder", message: "Sort order must be an integer" });
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    data: {
+      slug,
+      name,
+      description: description || null,
+      duration,
+      bufferBefore,
+      bufferAfter,
+      locationType,
+      intakeQuestions,
+      enabled: payload.enabled === undefined ? true : Boolean(payload.enabled),
+      sortOrder,
+    },
+  };
+};
+
+// LIST MEETING TYPES (disabled types included, flagged)
+app.get("/api/bookings/meeting-types", requireServiceApiKey, (req, res) => {
+  db.all(
+    "SELECT * FROM meeting_types ORDER BY sort_order, duration, id",
+    [],
+    (err, rows) => {
+      if (err) {
+        console.error("Failed to load meeting types:", err);
+        return res.status(500).json({ error: "Database error" });
+      }
+      res.json({ meetingTypes: rows.map(toMeetingType) });
+    },
+  );
+});
+
+// CREATE MEETING TYPE (Admin)
+app.post("/api/bookings/meeting-types", requireAuth, (req, res) => {
+  const validation = validateMeetingTypePayload(req.body);
+  if (!validation.valid) {
+    return res.status(400).json({
+      error: "Invalid meeting type payload",
+      details: validation.errors,
+    });
+  }
+
+  const type = validation.data;
   db.run(
-    "UPDATE bookings SET status = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?",
-    [status, req.params.id],
+    `INSERT INTO meeting_types (slug, name, description, duration, buffer_before, buffer_after, location_type, intake_questions, enabled, sort_order)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      type.slug,
+      type.name,
+      type.description,
+      type.duration,
+      type.bufferBefore,
+      type.bufferAfter,
+      type.locationType,
+      JSON.stringify(type.intakeQuestions),
+      type.enabled ? 1 : 0,
+      type.sortOrder,
+    ],
     function (err) {
-      if (err) return res.status(500).json({ error: "Failed to update" });
-      res.json({ success: true, message: `Booking ${status}` });
+      if (err) {
+        if (err.code === "SQLITE_CONSTRAINT") {
+          return res.status(409).json({ error: "A meeting type with this slug already exists" });
+        }
+        console.error("Failed to create meeting type:", err);
+        return res.status(500).json({ error: "Failed to create meeting type" });
+      }
+      res.status(201).json({ meetingType: { id: this.lastID, ...type } });
     },
   );
 });
 
-// DELETE BOOKING
-app.delete("/api/bookings/:id", requireAuth, (req, res) => {
-  db.run("DELETE FROM bookings WHERE id = ?", [req.params.id], function (err) {
-    if (err) return res.status(500).json({ error: "Failed to delete" });
-    res.json({ success: true });
+// UPDATE MEETING TYPE (Admin); omitted fields keep their current value
+app.put("/api/bookings/meeting-types/:id", requireAuth, (req, res) => {
+  db.get("SELECT * FROM meeting_types WHERE id = ?", [req.params.id], (err, row) => {
+    if (err) {
+      console.error("Failed to load meeting type:", err);
+      return res.status(500).json({ error: "Database error" });
+    }
+    if (!row) {
+      return res.status(404).json({ error: "Meeting type not found" });
+    }
+
+    const validation = validateMeetingTypePayload({ ...toMeetingType(row), ...req.body });
+    if (!validation.valid) {
+      return res.status(400).json({
+        error: "Invalid meeting type payload",
+        details: validation.errors,
+      });
+    }
+
+    const type = validation.data;
+    db.run(
+      `UPDATE meeting_types SET slug = ?, name = ?, description = ?, duration = ?, buffer_before = ?, buffer_after = ?,
+         location_type = ?, intake_questions = ?, enabled = ?, sort_order = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      [
+        type.slug,
+        type.name,
+        type.description,
+        type.duration,
+        type.bufferBefore,
+        type.bufferAfter,
+        type.locationType,
+        JSON.stringify(type.intakeQuestions),
+        type.enabled ? 1 : 0,
+        type.sortOrder,
+        row.id,
+      ],
+      (err) => {
+        if (err) {
+          if (err.code === "SQLITE_CONSTRAINT") {
+            return res.status(409).json({ error: "A meeting type with this slug already exists" });
+          }
+          console.error("Failed to update meeting type:", err);
+          return res.status(500).json({ error: "Failed to update meeting type" });
+        }
+        res.json({ meetingType: { id: row.id, ...type } });
+      },
+    );
   });
 });
 
@@ -2849,6 +4343,29 @@ app.get(
       });
     }
 
+    // Padding the requested meeting type needs around existing bookings
+    const bufferBefore = Number(req.query.bufferBefore ?? 0);
+    const bufferAfter = Number(req.query.bufferAfter ?? 0);
+    if (
+      [bufferBefore, bufferAfter].some(
+        (buffer) => !Number.isInteger(buffer) || buffer < 0 || buffer > 120,
+      )
+    ) {
+      return res.status(400).json({
+        error: "Buffers must be integers between 0 and 120 minutes",
+      });
+    }
+
+    // The visitor's own hold, which must not hide their slot from them
+    const holdId = typeof req.query.holdId === "string" ? req.query.holdId : "";
+    // A booking being rescheduled, which must not block its own new slot
+    const excludeBookingId = Number(req.query.excludeBookingId ?? 0);
+    if (!Number.isInteger(excludeBookingId) || excludeBookingId < 0) {
+      return res.status(400).json({
+        error: "excludeBookingId must be a booking ID",
+      });
+    }
+
     const normalizedDuration = durationInput;
     const dayOfWeek = new Date(`${requestedDate}T00:00:00`).getDay();
 
@@ -2900,15 +4417,26 @@ app.get(
                       return res.status(500).json({ error: "Database error" });
                     }
 
+                    // Other visitors' active holds block slots like bookings do
                     db.all(
-                      'SELECT time, duration FROM bookings WHERE date = ? AND status = "confirmed"',
-                      [requestedDate],
-                      (err, bookedSlots) => {
+                      `SELECT time, duration, 0 AS held FROM bookings WHERE date = ? AND status = "confirmed" AND id != ?
+                       UNION ALL
+                       SELECT time, duration, 1 AS held FROM booking_holds WHERE date = ? AND expires_at > ? AND id != ?`,
+                      [
+                        requestedDate,
+                        excludeBookingId,
+                        requestedDate,
+                        new Date().toISOString(),
+                        holdId,
+                      ],
+                      (err, takenSlots) => {
                         if (err) {
                           console.error("Failed to load booked slots:", err);
                           return res.status(500).json({ error: "Database error" });
                         }
 
+                        const bookedSlots = takenSlots.filter((slot) => !slot.held);
+
                         const timeRanges =
                           customSlots.length > 0 ? customSlots : workingHours;
                         const allSlots = [];
@@ -2948,7 +4476,7 @@ app.get(
                           const slotStart = slotHour * 60 + slotMinute;
                           const slotEnd = slotStart + normalizedDuration;
 
-                          const isBooked = bookedSlots.some((booking) => {
+                          const isBooked = takenSlots.some((booking) => {
                             if (!booking.time) {
                               return false;
                             }
@@ -2962,8 +4490,8 @@ app.get(
 
                             return (
                               bookingDuration > 0 &&
-                              slotStart < bookingEnd &&
-                              slotEnd > bookingStart
+                              slotStart - bufferBefore < bookingEnd &&
+                              slotEnd + bufferAfter > bookingStart
                             );
                           });
 
@@ -3158,7 +4686,7 @@ app.use((err, req, res, next) => {
       .json({ error: "Origin not allowed by CORS policy." });
   }
 
-  console.error("Server error:", err);
+  console.error(`Server error [${req.requestId}]:`, err);
   return res.status(500).json({
     error: "Internal server error",
     message: process.env.NODE_ENV === "development" ? err.message : undefined,
@@ -0,0 +1,235 @@
+import Link from 'next/link';
+import PageViewsChart from '@/app/components/admin/PageViewsChart';
+import RealtimePanel from '@/app/components/admin/RealtimePanel';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  ANALYTICS_RANGES,
+  buildAnalyticsReport,
+  parseAnalyticsRange,
+  SCROLL_DEPTHS,
+  type AnalyticsRange,
+} from '@/lib/analytics-report';
+import { cms } from '@/lib/cms-client';
+
+export const metadata = {
+  title: 'Analytics | Jacob Creations',
+  robots: { index: false, follow: false },
+};
+
+// Always read fresh aggregates
+export const dynamic = 'force-dynamic';
+
+interface AnalyticsPageProps {
+  searchParams: Promise<{ range?: string }>;
+}
+
+const percent = (part: number, whole: number) =>
+  whole > 0 ? `${Math.round((part / whole) * 100)}%` : '–';
+
+function EmptyRow({ columns }: { columns: number }) {
+  return (
+    <TableRow>
+      <TableCell colSpan={columns} className="text-muted-foreground">
+        No data in this range
+      </TableCell>
+    </TableRow>
+  );
+}
+
+/**
+ * Admin analytics dashboard: traffic over time, top projects, referrers, scroll depth and a
+ * realtime panel. `/admin` is protected by the middleware.
+ */
+export default async function AnalyticsPage({ searchParams }: AnalyticsPageProps) {
+  const range = parseAnalyticsRange((await searchParams).range);
+  const now = new Date();
+
+  const result = await cms.analytics.report({
+    from: new Date(now.getTime() - ANALYTICS_RANGES[range].duration),
+    bucket: ANALYTICS_RANGES[range].bucket,
+  });
+  if (!result.success) {
+    console.error('Error loading analytics:', result.error);
+  }
+
+  const report = buildAnalyticsReport(result.success ? result.data : null, range, now);
+
+  const summary = [
+    { label: 'Page views', value: report.summary.pageViews },
+    { label: 'Sessions', value: report.summary.sessions },
+    { label: 'Project views', value: report.summary.projectViews },
+    {
+      label: 'Avg. time on page',
+      value: report.summary.avgTimeOnPage === null ? '–' : `${report.summary.avgTimeOnPage}s`,
+    },
+  ];
+
+  return (
+    <main className="min-h-screen p-6" style={{ background: 'var(--dark-bg)' }}>
+      <div className="mx-auto grid max-w-6xl gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Analytics</CardTitle>
+            <CardDescription>
+              {result.success
+                ? `Last ${ANALYTICS_RANGES[range].label}`
+                : 'Could not load analytics from the CMS. Please try again later.'}
+            </CardDescription>
+            <CardAction className="flex gap-2">
+              {(Object.keys(ANALYTICS_RANGES) as AnalyticsRange[]).map((key) => (
+                <Button key={key} asChild size="sm" variant={key === range ? 'default' : 'outline'}>
+                  <Link href={`/admin/analytics?range=${key}`}>{key}</Link>
+                </Button>
+              ))}
+              <Button asChild size="sm" variant="ghost">
+                <Link href="/admin">Back</Link>
+              </Button>
+            </CardAction>
+          </CardHeader>
+          <CardContent className="grid grid-cols-2 gap-4 md:grid-cols-4">
+            {summary.map(({ label, value }) => (
+              <div key={label}>
+                <div className="text-muted-foreground text-sm">{label}</div>
+                <div className="text-2xl font-semibold">{value}</div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Page views</CardTitle>
+            <CardDescription>
+              {range === '1d' ? 'Per hour' : 'Per day'}. Sessions are anonymous and reset daily.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <PageViewsChart points={report.timeSeries} hourly={range === '1d'} />
+          </CardContent>
+        </Card>
+
+        <RealtimePanel />
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Top projects</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Project</TableHead>
+                    <TableHead className="text-right">Views</TableHead>
+                    <TableHead className="text-right">Sessions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.topProjects.map(({ projectId, title, views, sessions }) => (
+                    <TableRow key={projectId}>
+                      <TableCell>
+                        <Link href={`/projects/${projectId}`} className="hover:underline">
+                          {title}
+                        </Link>
+                      </TableCell>
+                      <TableCell className="text-right">{views}</TableCell>
+                      <TableCell className="text-right">{sessions}</TableCell>
+                    </TableRow>
+                  ))}
+                  {report.topProjects.length === 0 && <EmptyRow columns={3} />}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Referrers</CardTitle>
+              <CardDescription>Where sessions started</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Source</TableHead>
+                    <TableHead className="text-right">Sessions</TableHead>
+                    <TableHead className="text-right">Share</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.referrers.map(({ source, sessions }) => (
+                    <TableRow key={source}>
+                      <TableCell>{source}</TableCell>
+                      <TableCell className="text-right">{sessions}</TableCell>
+                      <TableCell className="text-right">
+                        {percent(sessions, report.summary.sessions)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {report.referrers.length === 0 && <EmptyRow columns={3} />}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Scroll depth</CardTitle>
+            <CardDescription>
+              Share of sessions on each page that scrolled at least this far. A session counts once
+              per page it viewed.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Page</TableHead>
+                  <TableHead className="text-right">Sessions</TableHead>
+                  {SCROLL_DEPTHS.map((depth) => (
+                    <TableHead key={depth} className="text-right">
+                      {depth}%
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.scrollFunnels.map(({ route, sessions, reached }) => (
+                  <TableRow key={route}>
+                    <TableCell className="font-mono">{route}</TableCell>
+                    <TableCell className="text-right">{sessions}</TableCell>
+                    {SCROLL_DEPTHS.map((depth) => (
+                      <TableCell key={depth} className="text-right">
+                        {percent(reached[depth], sessions)}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+                {report.scrollFunnels.length === 0 && (
+                  <EmptyRow columns={SCROLL_DEPTHS.length + 2} />
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,33 @@
+import AdminLoginForm from '@/app/components/admin/AdminLoginForm';
+
+export const metadata = {
+  title: 'Admin Sign In | Jacob Creations',
+  robots: { index: false, follow: false },
+};
+
+interface AdminLoginPageProps {
+  searchParams: Promise<{ next?: string }>;
+}
+
+/**
+ * Only allow same-origin relative paths as the post-login destination
+ */
+function getSafeRedirect(next: string | undefined): string {
+  if (!next || !next.startsWith('/') || next.startsWith('//') || next.startsWith('/admin/login')) {
+    return '/admin';
+  }
+  return next;
+}
+
+export default async function AdminLoginPage({ searchParams }: AdminLoginPageProps) {
+  const { next } = await searchParams;
+
+  return (
+    <main
+      className="flex min-h-screen items-center justify-center p-4"
+      style={{ background: 'var(--dark-bg)' }}
+    >
+      <AdminLoginForm redirectTo={getSafeRedirect(next)} />
+    </main>
+  );
+}
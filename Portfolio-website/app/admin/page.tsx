@@ -0,0 +1,41 @@
+import { cookies } from 'next/headers';
+import Link from 'next/link';
+import { ChartLine } from 'lucide-react';
+import SignOutButton from '@/app/components/admin/SignOutButton';
+import { Button } from '@/components/ui/button';
+import { Card, CardAction, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ADMIN_SESSION_COOKIE, verifyRequestSession } from '@/lib/admin-session';
+
+export const metadata = {
+  title: 'Admin | Jacob Creations',
+  robots: { index: false, follow: false },
+};
+
+export default async function AdminPage() {
+  const cookieStore = await cookies();
+  const verification = await verifyRequestSession(
+    cookieStore.get(ADMIN_SESSION_COOKIE)?.value,
+    null
+  );
+  const username = verification.valid ? verification.session.sub : 'admin';
+
+  return (
+    <main className="min-h-screen p-6" style={{ background: 'var(--dark-bg)' }}>
+      <Card className="mx-auto max-w-3xl">
+        <CardHeader>
+          <CardTitle>Admin</CardTitle>
+          <CardDescription>Signed in as {username}</CardDescription>
+          <CardAction className="flex gap-2">
+            <Button asChild variant="outline">
+              <Link href="/admin/analytics">
+                <ChartLine />
+                Analytics
+              </Link>
+            </Button>
+            <SignOutButton />
+          </CardAction>
+        </CardHeader>
+      </Card>
+    </main>
+  );
+}
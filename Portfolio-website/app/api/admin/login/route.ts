@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminLoginSchema, createValidationErrorResponse } from '@/lib/validations';
+import { MissingAdminCredentialsError, verifyAdminCredentials } from '@/lib/admin-auth';
+import {
+  ADMIN_SESSION_COOKIE,
+  getAdminSessionSecret,
+  getAdminSessionTtl,
+  MissingAdminSessionSecretError,
+  signAdminSession,
+} from '@/lib/admin-session';
+import { apiLogger } from '@/lib/api-logger';
+import { refreshCsrfCookie } from '@/lib/csrf';
+import { enforceSharedRateLimit } from '@/lib/rate-limit';
+
+/**
+ * POST /api/admin/login
+ *
+ * Exchange admin credentials for a signed `admin-session` cookie.
+ *
+ * @example
+ * POST /api/admin/login
+ * { "username": "admin", "password": "..." }
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const rateLimited = await enforceSharedRateLimit(request);
+  if (rateLimited) return rateLimited;
+
+  const startTime = Date.now();
+  const requestId = apiLogger.logRequest(request, undefined, 'admin_login');
+
+  try {
+    const body = await request.json().catch(() => null);
+    const parsed = adminLoginSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(createValidationErrorResponse(parsed.error), {
+        status: 400,
+      });
+    }
+
+    const secret = getAdminSessionSecret();
+    if (!secret) {
+      throw new MissingAdminSessionSecretError();
+    }
+
+    const { username, password } = parsed.data;
+    const authenticated = await verifyAdminCredentials(username, password);
+
+    if (!authenticated) {
+      apiLogger.logWarning(requestId, 'Failed admin login attempt', { username });
+      apiLogger.logResponse(requestId, 401, Date.now() - startTime, 'Invalid credentials');
+
+      return NextResponse.json(
+        { success: false, error: 'Invalid username or password', requestId },
+        { status: 401 }
+      );
+    }
+
+    const ttlSeconds = getAdminSessionTtl();
+    const token = await signAdminSession(username, secret, { ttlSeconds });
+
+    const response = NextResponse.json(
+      { success: true, message: 'Signed in', requestId },
+      { status: 200 }
+    );
+
+    response.cookies.set(ADMIN_SESSION_COOKIE, token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'strict',
+      path: '/',
+      maxAge: ttlSeconds,
+    });
+    // Tokens issued before sign-in aren't valid for the new session
+    await refreshCsrfCookie(response, token);
+
+    apiLogger.logResponse(requestId, 200, Date.now() - startTime, `Admin '${username}' signed in`);
+
+    return response;
+  } catch (error) {
+    const duration = Date.now() - startTime;
+
+    if (
+      error instanceof MissingAdminCredentialsError ||
+      error instanceof MissingAdminSessionSecretError
+    ) {
+      apiLogger.logError(requestId, error, { duration });
+
+      return NextResponse.json(
+        { success: false, error: 'Admin login is not configured.', requestId },
+        { status: 503 }
+      );
+    }
+
+    apiLogger.logError(requestId, error as Error, { duration });
+    apiLogger.logResponse(requestId, 500, duration, 'Admin login failed');
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to sign in. Please try again later.', requestId },
+      { status: 500 }
+    );
+  }
+}
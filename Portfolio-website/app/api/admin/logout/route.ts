@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ADMIN_SESSION_COOKIE } from '@/lib/admin-session';
+import { apiLogger } from '@/lib/api-logger';
+import { refreshCsrfCookie } from '@/lib/csrf';
+
+/**
+ * POST /api/admin/logout
+ *
+ * Clear the `admin-session` cookie. Tokens are stateless, so signing out only removes the
+ * cookie from this browser; the token itself stays valid until it expires.
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const startTime = Date.now();
+  const requestId = apiLogger.logRequest(request, undefined, 'admin_logout');
+
+  const response = NextResponse.json({ success: true, message: 'Signed out', requestId });
+
+  response.cookies.set(ADMIN_SESSION_COOKIE, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: '/',
+    maxAge: 0,
+  });
+  await refreshCsrfCookie(response, undefined);
+
+  apiLogger.logResponse(requestId, 200, Date.now() - startTime, 'Admin signed out');
+
+  return response;
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { isAdminRequest } from '@/lib/admin-session';
+import { buildRealtimeSnapshot, REALTIME_WINDOW_MS } from '@/lib/analytics-report';
+import { cms } from '@/lib/cms-client';
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json({ success: false, error }, { status });
+
+/**
+ * GET /api/analytics/realtime
+ *
+ * Sessions active in the last five minutes, the pages they are on and the latest events, for the
+ * realtime panel on `/admin/analytics`. Requires an admin session or `x-api-key: <ADMIN_API_KEY>`.
+ *
+ * @example
+ * GET /api/analytics/realtime
+ * Response: {
+ *   "success": true,
+ *   "data": {
+ *     "activeSessions": 2,
+ *     "pages": [{ "page": "/projects/4", "sessions": 2 }],
+ *     "recent": [{ "type": "scroll_depth", "page": "/projects/4", "at": "2025-01-08T13:00:05.000Z" }]
+ *   }
+ * }
+ */
+export async function GET(request: NextRequest) {
+  if (!(await isAdminRequest(request))) {
+    return errorResponse('Authentication required', 401);
+  }
+
+  const result = await cms.analytics.realtime({
+    from: new Date(Date.now() - REALTIME_WINDOW_MS),
+  });
+  if (!result.success) {
+    console.error('Error loading realtime analytics:', result.error);
+    return errorResponse('Failed to load realtime analytics. Please try again later.', 503);
+  }
+
+  return NextResponse.json(
+    { success: true, data: buildRealtimeSnapshot(result.data) },
+    { headers: { 'Cache-Control': 'no-store' } }
+  );
+}
@@ -1,92 +1,156 @@
-import { NextResponse } from 'next/server';
-import { fetchJsonFromCms, MissingCmsApiKeyError } from '@/lib/cms-client';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  anonymousSessionId,
+  clientAddress,
+  scrubAnalyticsEvent,
+} from '@/lib/analytics-privacy';
+import type { CmsAnalyticsEventRequest } from '@/lib/cms-api';
+import { cms } from '@/lib/cms-client';
+import {
+  CONSENT_COOKIE,
+  requestAllows,
+  type ConsentCategory,
+} from '@/lib/consent';
+import { ANALYTICS_SALT_SECRET } from '@/lib/env';
+import { consentCategoryFor } from '@/lib/telemetry';
+import {
+  analyticsBatchSchema,
+  analyticsEventSchema,
+  formatZodErrors,
+  type AnalyticsEventInput,
+} from '@/lib/validations';
 
-const sanitizeInput = (value: unknown, maxLength = 2000) => {
-  if (typeof value !== 'string') {
-    return '';
-  }
+/** The CMS only backdates events by a day */
+const MAX_EVENT_AGE_MS = 24 * 60 * 60 * 1000;
 
-  return value.replace(/<[^>]*>/g, '').trim().slice(0, maxLength);
+type RejectedEvent = {
+  index: number;
+  details: ReturnType<typeof formatZodErrors>;
 };
 
-type AnalyticsRecord = Record<string, unknown>;
+const toCmsEvent = (
+  event: AnalyticsEventInput,
+  sessionId: string,
+): CmsAnalyticsEventRequest => {
+  const { event_type, event_data, page_url, referrer, timestamp, ...details } =
+    scrubAnalyticsEvent(event);
 
-const readString = (value: unknown): string => {
-  return typeof value === 'string' ? value : '';
+  return {
+    event_type,
+    // The CMS has no columns for the descriptive fields, so they travel with the event data
+    event_data: { ...details, ...event_data },
+    page_url: page_url ?? '',
+    referrer: referrer ?? '',
+    session_id: sessionId,
+    timestamp,
+  };
 };
 
-const validateAnalyticsPayload = (payload: AnalyticsRecord) => {
-  const eventType = sanitizeInput(
-    readString(payload['event']) || readString(payload['event_type']),
-    100,
-  );
-  const pageUrl = sanitizeInput(
-    readString(payload['page']) || readString(payload['page_url']),
-  );
-  const referrer = sanitizeInput(
-    readString(payload['referrer']) || readString(payload['referrer_url']),
-  );
+const isTooOld = ({ timestamp }: AnalyticsEventInput, now: number) =>
+  timestamp !== undefined && now - new Date(timestamp).getTime() > MAX_EVENT_AGE_MS;
 
-  if (!eventType) {
-    return {
-      valid: false,
-      error: 'Event type is required',
-    } as const;
-  }
+/**
+ * POST /api/analytics
+ *
+ * Record a batch of events queued by `useAnalytics`. Events are validated one by one; invalid
+ * ones are reported back and the rest are stored with personal data scrubbed and an anonymous
+ * session ID. Events outside the visitor's consent (`performance` for web vitals and errors,
+ * `analytics` for the rest), or sent with Do Not Track / GPC, are accepted and dropped. When the
+ * CMS can't store the batch the route answers 503, so the browser queue keeps it for a retry.
+ *
+ * @example
+ * POST /api/analytics
+ * Body: { "events": [{ "event_type": "page_view", "page_url": "https://example.com/" }] }
+ * Response: { "success": true, "accepted": 1, "rejected": [] }
+ */
+export async function POST(request: NextRequest) {
+  const consent = request.cookies.get(CONSENT_COOKIE)?.value;
+  const allows = (category: ConsentCategory) =>
+    requestAllows(category, consent, request.headers);
 
-  return {
-    valid: true,
-    data: {
-      event_type: eventType,
-      event_data:
-        typeof payload['data'] === 'object' && payload['data'] !== null
-          ? (payload['data'] as Record<string, unknown>)
-          : {},
-      page_url: pageUrl,
-      referrer,
-    },
-  } as const;
-};
+  if (!allows('analytics') && !allows('performance')) {
+    return NextResponse.json({ success: true, accepted: 0, rejected: [] });
+  }
 
-export async function POST(request: Request) {
+  let body: unknown;
   try {
-    const rawBody = (await request.json()) as unknown;
-    const body: AnalyticsRecord =
-      typeof rawBody === 'object' && rawBody !== null
-        ? { ...(rawBody as AnalyticsRecord) }
-        : {};
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Invalid JSON body' },
+      { status: 400 },
+    );
+  }
 
-    if (!body['referrer']) {
-      body['referrer'] = request.headers.get('referer') || '';
-    }
+  const batch = analyticsBatchSchema.safeParse(body);
+  if (!batch.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid analytics batch',
+        details: formatZodErrors(batch.error),
+      },
+      { status: 400 },
+    );
+  }
 
-    const validation = validateAnalyticsPayload(body);
+  const now = Date.now();
+  const sessionId = await anonymousSessionId(ANALYTICS_SALT_SECRET, {
+    address: clientAddress(request.headers),
+    userAgent: request.headers.get('user-agent') || '',
+  });
+  const accepted: CmsAnalyticsEventRequest[] = [];
+  const rejected: RejectedEvent[] = [];
 
-    if (!validation.valid) {
-      return NextResponse.json(
-        { success: false, error: validation.error },
-        { status: 400 },
-      );
+  batch.data.events.forEach((event, index) => {
+    const validation = analyticsEventSchema.safeParse(event);
+    if (
+      validation.success &&
+      !allows(consentCategoryFor(validation.data.event_type))
+    ) {
+      return;
     }
 
-    const response = await fetchJsonFromCms('/api/analytics/track', {
-      method: 'POST',
-      body: JSON.stringify(validation.data),
-    });
-
-    if (!response.ok) {
-      throw new Error('Failed to track analytics');
+    if (!validation.success) {
+      rejected.push({ index, details: formatZodErrors(validation.error) });
+    } else if (isTooOld(validation.data, now)) {
+      rejected.push({
+        index,
+        details: [
+          {
+            field: 'timestamp',
+            message: 'Event is more than a day old',
+            code: 'too_old',
+          },
+        ],
+      });
+    } else {
+      accepted.push(toCmsEvent(validation.data, sessionId));
     }
+  });
 
-    return NextResponse.json({ success: true });
-  } catch (error) {
-    if (error instanceof MissingCmsApiKeyError) {
-      console.error('CMS API key missing for analytics forwarding');
-      return NextResponse.json({ success: true });
-    }
+  if (accepted.length === 0) {
+    return rejected.length > 0
+      ? NextResponse.json(
+          {
+            success: false,
+            error: 'No valid analytics events',
+            details: rejected,
+          },
+          { status: 400 },
+        )
+      : NextResponse.json({ success: true, accepted: 0, rejected });
+  }
 
-    console.error('Analytics error:', error);
-    // Don't return error to client for analytics
-    return NextResponse.json({ success: true });
+  const result = await cms.analytics.trackBatch(accepted);
+  if (!result.success) {
+    // Logged here; never surface CMS failures to visitors. The 503 keeps the batch queued.
+    console.error('Analytics error:', result.error);
+    return NextResponse.json(
+      { success: false, error: 'Service unavailable. Please try again later.' },
+      { status: 503 },
+    );
   }
+
+  return NextResponse.json({ success: true, accepted: accepted.length, rejected });
 }
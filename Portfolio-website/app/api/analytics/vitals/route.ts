@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { isAdminRequest } from '@/lib/admin-session';
+import { cms } from '@/lib/cms-client';
+import { aggregateWebVitals } from '@/lib/telemetry';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/** Most events read from the CMS per report, newest first */
+const MAX_EVENTS = 20000;
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json({ success: false, error }, { status });
+
+/**
+ * GET /api/analytics/vitals
+ *
+ * p75 web vitals per route, for the admin. Accepts `?days=` (1–90, default 7) and `?buildId=` to
+ * look at one deployment. Requires an admin session or `x-api-key: <ADMIN_API_KEY>`.
+ *
+ * @example
+ * GET /api/analytics/vitals?days=7
+ * Response: {
+ *   "success": true,
+ *   "data": {
+ *     "from": "2025-01-01T12:00:00.000Z",
+ *     "samples": 120,
+ *     "routes": [{ "route": "/", "metrics": { "LCP": { "p75": 2100, "samples": 40, "rating": "good" } } }]
+ *   }
+ * }
+ */
+export async function GET(request: NextRequest) {
+  if (!(await isAdminRequest(request))) {
+    return errorResponse('Authentication required', 401);
+  }
+
+  const days = Number(request.nextUrl.searchParams.get('days') ?? 7);
+  if (!Number.isInteger(days) || days < 1 || days > 90) {
+    return errorResponse('days must be a whole number from 1 to 90', 400);
+  }
+  const buildId = request.nextUrl.searchParams.get('buildId') || undefined;
+
+  const from = new Date(Date.now() - days * DAY);
+  const result = await cms.analytics.events({
+    eventTypes: ['web_vital'],
+    from,
+    limit: MAX_EVENTS,
+  });
+  if (!result.success) {
+    console.error('Error loading web vitals:', result.error);
+    return errorResponse('Failed to load web vitals. Please try again later.', 503);
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: {
+      from: from.toISOString(),
+      samples: result.data.data.length,
+      truncated: result.data.data.length >= MAX_EVENTS,
+      routes: aggregateWebVitals(result.data.data, { buildId }),
+    },
+  });
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { verifyRequestBookingToken } from '@/lib/booking-token';
+import { cms } from '@/lib/cms-client';
+import { BOOKING_TIMEZONE, SITE_URL } from '@/lib/env';
+import { buildCalendarEvent } from '@/lib/ics';
+import { getPortfolioData } from '@/lib/portfolio-data';
+import { zonedTimeToUtc } from '@/lib/timezones';
+import type { GuestBooking } from '@/lib/validations';
+
+/**
+ * Parse a SQLite `CURRENT_TIMESTAMP` (UTC, no zone suffix)
+ */
+const parseCmsTimestamp = (value: string | null | undefined): Date | null => {
+  if (!value) return null;
+  const parsed = new Date(`${value.replace(' ', 'T')}Z`);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+};
+
+/**
+ * Seconds between creating and last changing the booking, so every reschedule or cancellation
+ * re-downloads as a newer revision of the same event
+ */
+const calendarSequence = (booking: GuestBooking) => {
+  const createdAt = parseCmsTimestamp(booking.createdAt);
+  const updatedAt = parseCmsTimestamp(booking.updatedAt);
+  if (!createdAt || !updatedAt) return 0;
+  return Math.max(0, Math.floor((updatedAt.getTime() - createdAt.getTime()) / 1000));
+};
+
+/**
+ * GET /api/bookings/:token/ics
+ *
+ * Download a booking as an iCalendar file. The token comes from the confirmation page; the event
+ * reflects the booking's current time and status in the CMS, not the one the link was issued for.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const verification = await verifyRequestBookingToken(token);
+
+    if (!verification.valid) {
+      return NextResponse.json({ error: 'Booking not found' }, { status: 404 });
+    }
+
+    const result = await cms.bookings.get(verification.booking.id, verification.booking.email);
+    if (!result.success) {
+      return result.status >= 500
+        ? NextResponse.json(
+            { error: 'Service unavailable. Please try again later.' },
+            { status: 503 }
+          )
+        : NextResponse.json({ error: 'Booking not found' }, { status: 404 });
+    }
+
+    const { booking } = result.data;
+    const { personal } = await getPortfolioData();
+    const host = new URL(SITE_URL || request.url).host;
+
+    const calendar = buildCalendarEvent({
+      uid: `booking-${booking.id}@${host}`,
+      start: zonedTimeToUtc(booking.date, booking.time, BOOKING_TIMEZONE),
+      duration: booking.duration,
+      timeZone: BOOKING_TIMEZONE,
+      summary: `${booking.duration} min session with ${personal.name}`,
+      description: booking.meetingLink ? `Join: ${booking.meetingLink}` : undefined,
+      location: booking.meetingLink ?? undefined,
+      url: booking.meetingLink ?? undefined,
+      organizer: { name: personal.name, email: personal.email },
+      attendee: { name: booking.name, email: booking.email },
+      stamp: parseCmsTimestamp(booking.updatedAt) ?? undefined,
+      status: booking.status === 'cancelled' ? 'cancelled' : 'confirmed',
+      sequence: calendarSequence(booking),
+    });
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `attachment; filename="booking-${booking.id}.ics"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error generating booking calendar:', error);
+    return NextResponse.json({ error: 'Failed to generate calendar file' }, { status: 500 });
+  }
+}
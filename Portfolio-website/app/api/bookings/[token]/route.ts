@@ -0,0 +1,282 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import {
+  type BookingTokenPayload,
+  getBookingTokenSecret,
+  isBeforeChangeCutoff,
+  signBookingToken,
+  verifyRequestBookingToken,
+} from '@/lib/booking-token';
+import { cms } from '@/lib/cms-client';
+import type { CmsFailure, MeetingBuffers } from '@/lib/cms-api';
+import { BOOKING_CHANGE_CUTOFF_HOURS, BOOKING_TIMEZONE } from '@/lib/env';
+import { getMeetingBuffers, loadMeetingType } from '@/lib/meeting-types';
+import { notify, siteUrl } from '@/lib/notifications';
+import { zonedTimeToUtc } from '@/lib/timezones';
+import {
+  bookingRescheduleRequestSchema,
+  formatZodErrors,
+  type GuestBooking,
+} from '@/lib/validations';
+
+type RouteContext = { params: Promise<{ token: string }> };
+
+const cutoffMessage = `Bookings can only be changed up to ${BOOKING_CHANGE_CUTOFF_HOURS} hours before they start`;
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json({ success: false, error }, { status });
+
+/**
+ * Mirror a failed CMS call without leaking configuration problems to visitors
+ */
+const cmsErrorResponse = (result: CmsFailure, fallback: string) =>
+  result.status >= 500
+    ? errorResponse('Service unavailable. Please try again later.', 503)
+    : errorResponse(result.error || fallback, result.status);
+
+/**
+ * The zone the CMS stored with the booking, else the one in the link (older bookings)
+ */
+const visitorTimeZone = (booking: GuestBooking, token: BookingTokenPayload) =>
+  booking.timeZone || token.timeZone;
+
+/**
+ * Live booking as returned to the visitor
+ */
+const toManagedBooking = (booking: GuestBooking, token: BookingTokenPayload) => {
+  const startsAt = zonedTimeToUtc(booking.date, booking.time, BOOKING_TIMEZONE).toISOString();
+  return {
+    booking: {
+      ...booking,
+      startsAt,
+      hostTimeZone: BOOKING_TIMEZONE,
+      timeZone: visitorTimeZone(booking, token),
+    },
+    canChange:
+      booking.status === 'confirmed' && isBeforeChangeCutoff(startsAt, BOOKING_CHANGE_CUTOFF_HOURS),
+    changeCutoffHours: BOOKING_CHANGE_CUTOFF_HOURS,
+  };
+};
+
+/**
+ * Verify the manage link and load the booking's current state from the CMS
+ */
+async function loadBooking(
+  context: RouteContext
+): Promise<
+  | { response: NextResponse }
+  | { response?: undefined; token: BookingTokenPayload; booking: GuestBooking }
+> {
+  const verification = await verifyRequestBookingToken((await context.params).token);
+
+  if (!verification.valid) {
+    return {
+      response:
+        verification.reason === 'expired'
+          ? errorResponse('This booking link has expired', 410)
+          : errorResponse('Booking not found', 404),
+    };
+  }
+
+  const result = await cms.bookings.get(verification.booking.id, verification.booking.email);
+  if (!result.success) {
+    return { response: cmsErrorResponse(result, 'Booking not found') };
+  }
+
+  return { token: verification.booking, booking: result.data.booking };
+}
+
+/**
+ * GET /api/bookings/:token
+ *
+ * Current state of the booking behind a manage link, and whether it can still be changed.
+ */
+export async function GET(_request: NextRequest, context: RouteContext) {
+  try {
+    const loaded = await loadBooking(context);
+    if (loaded.response) return loaded.response;
+
+    return NextResponse.json(toManagedBooking(loaded.booking, loaded.token), {
+      headers: { 'Cache-Control': 'private, no-store' },
+    });
+  } catch (error) {
+    console.error('Error loading booking:', error);
+    return errorResponse('Failed to load booking. Please try again later.', 500);
+  }
+}
+
+/**
+ * PATCH /api/bookings/:token
+ *
+ * Reschedule to another slot. The new slot is checked against the same availability the booking
+ * calendar shows, and both the current and the new start must be outside the change cutoff.
+ *
+ * @example
+ * PATCH /api/bookings/<token>
+ * Body: { "date": "2025-01-08", "time": "14:00", "startsAt": "2025-01-08T13:00:00.000Z" }
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const validation = bookingRescheduleRequestSchema.safeParse(
+      await request.json().catch(() => null)
+    );
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: formatZodErrors(validation.error) },
+        { status: 400 }
+      );
+    }
+
+    const { date, time } = validation.data;
+    const startsAt = zonedTimeToUtc(date, time, BOOKING_TIMEZONE).toISOString();
+    if (startsAt !== new Date(validation.data.startsAt).toISOString()) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: [
+            {
+              field: 'startsAt',
+              message: `startsAt does not match ${date} ${time} in ${BOOKING_TIMEZONE}`,
+            },
+          ],
+        },
+        { status: 400 }
+      );
+    }
+
+    const loaded = await loadBooking(context);
+    if (loaded.response) return loaded.response;
+    const { booking, token } = loaded;
+
+    if (booking.status !== 'confirmed') {
+      return errorResponse(`This booking is ${booking.status}`, 409);
+    }
+
+    const currentStart = zonedTimeToUtc(booking.date, booking.time, BOOKING_TIMEZONE);
+    if (
+      !isBeforeChangeCutoff(currentStart.toISOString(), BOOKING_CHANGE_CUTOFF_HOURS) ||
+      !isBeforeChangeCutoff(startsAt, BOOKING_CHANGE_CUTOFF_HOURS)
+    ) {
+      return errorResponse(cutoffMessage, 409);
+    }
+
+    // Bookings made before the catalog existed, or whose type was removed, have no buffers
+    let buffers: MeetingBuffers | undefined;
+    let meetingTypeName: string | null = null;
+    if (booking.meetingType) {
+      const meetingType = await loadMeetingType(cms, booking.meetingType);
+      if (meetingType.success) {
+        buffers = getMeetingBuffers(meetingType.data);
+        meetingTypeName = meetingType.data.name;
+      } else if (meetingType.status >= 500) {
+        return cmsErrorResponse(meetingType, 'Failed to check availability');
+      }
+    }
+
+    // The booking's own slot doesn't block a move that overlaps it
+    const availability = await cms.bookings.availability(date, booking.duration, {
+      buffers,
+      excludeBookingId: booking.id,
+    });
+    if (!availability.success) {
+      return cmsErrorResponse(availability, 'Failed to check availability');
+    }
+    if (!availability.data.availableSlots.includes(time)) {
+      return errorResponse('Time slot no longer available', 409);
+    }
+
+    const result = await cms.bookings.reschedule(booking.id, { email: token.email, date, time });
+    if (!result.success) {
+      return cmsErrorResponse(result, 'Failed to reschedule booking');
+    }
+
+    // The old link keeps working but describes the old slot, so hand out a fresh one
+    const updated = result.data.booking;
+    const secret = getBookingTokenSecret();
+    const newToken = secret
+      ? await signBookingToken(
+          {
+            ...token,
+            date: updated.date,
+            time: updated.time,
+            startsAt,
+            hostTimeZone: BOOKING_TIMEZONE,
+            timeZone: visitorTimeZone(updated, token),
+          },
+          secret
+        )
+      : null;
+
+    notify({
+      type: 'booking-confirmation',
+      to: token.email,
+      data: {
+        name: updated.name,
+        startsAt,
+        duration: updated.duration,
+        timeZone: visitorTimeZone(updated, token),
+        meetingType: meetingTypeName,
+        meetingLink: updated.meetingLink,
+        manageUrl: newToken ? siteUrl(`/book/confirmed/${newToken}`, request.nextUrl.origin) : null,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      ...toManagedBooking(updated, token),
+      ...(newToken ? { token: newToken, confirmationUrl: `/book/confirmed/${newToken}` } : {}),
+    });
+  } catch (error) {
+    console.error('Error rescheduling booking:', error);
+    return errorResponse('Failed to reschedule booking. Please try again later.', 500);
+  }
+}
+
+/**
+ * DELETE /api/bookings/:token
+ *
+ * Cancel the booking behind a manage link, up to the change cutoff.
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const loaded = await loadBooking(context);
+    if (loaded.response) return loaded.response;
+    const { booking, token } = loaded;
+
+    if (booking.status !== 'confirmed') {
+      return errorResponse(`This booking is ${booking.status}`, 409);
+    }
+
+    const startsAt = zonedTimeToUtc(booking.date, booking.time, BOOKING_TIMEZONE).toISOString();
+    if (!isBeforeChangeCutoff(startsAt, BOOKING_CHANGE_CUTOFF_HOURS)) {
+      return errorResponse(cutoffMessage, 409);
+    }
+
+    const result = await cms.bookings.cancel(booking.id, token.email);
+    if (!result.success) {
+      return cmsErrorResponse(result, 'Failed to cancel booking');
+    }
+
+    notify({
+      type: 'booking-cancellation',
+      to: token.email,
+      data: {
+        name: booking.name,
+        startsAt,
+        duration: booking.duration,
+        timeZone: visitorTimeZone(booking, token),
+        bookUrl: siteUrl('/book', request.nextUrl.origin),
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Booking cancelled',
+      ...toManagedBooking(result.data.booking, token),
+    });
+  } catch (error) {
+    console.error('Error cancelling booking:', error);
+    return errorResponse('Failed to cancel booking. Please try again later.', 500);
+  }
+}
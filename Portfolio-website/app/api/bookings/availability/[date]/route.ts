@@ -1,8 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 
-import { fetchFromCms, MissingCmsApiKeyError } from '@/lib/cms-client';
+import { verifyRequestBookingToken } from '@/lib/booking-token';
+import { cms } from '@/lib/cms-client';
+import type { MeetingBuffers } from '@/lib/cms-api';
+import { BOOKING_TIMEZONE } from '@/lib/env';
+import { getMeetingBuffers, loadMeetingType } from '@/lib/meeting-types';
+import { isValidTimeZone, toBookingSlots } from '@/lib/timezones';
+import type { BookingAvailabilityResponse } from '@/lib/types';
 
 const isoDateRegex = /^\d{4}-\d{2}-\d{2}$/;
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 const parseDuration = (duration: string | null) => {
   const value = Number(duration ?? 30);
@@ -31,7 +38,7 @@ export async function GET(
     }
 
     const url = new URL(request.url);
-    const normalizedDuration = parseDuration(url.searchParams.get('duration'));
+    let normalizedDuration = parseDuration(url.searchParams.get('duration'));
 
     if (normalizedDuration === null) {
       return NextResponse.json(
@@ -40,36 +47,79 @@ export async function GET(
       );
     }
 
-    const response = await fetchFromCms(
-      `/api/bookings/availability/${encodeURIComponent(date)}?duration=${normalizedDuration}`,
-      {
-        cache: 'no-store',
-      },
-    );
+    // A meeting type brings its own duration and buffers, overriding `duration`
+    let buffers: MeetingBuffers | undefined;
+    const meetingTypeSlug = url.searchParams.get('meetingType');
+    if (meetingTypeSlug) {
+      const meetingType = await loadMeetingType(cms, meetingTypeSlug);
+      if (!meetingType.success) {
+        const error =
+          meetingType.status >= 500
+            ? 'Service unavailable. Please try again later.'
+            : meetingType.error;
+        return NextResponse.json(
+          { error },
+          { status: meetingType.status >= 500 ? 503 : meetingType.status },
+        );
+      }
+      normalizedDuration = meetingType.data.duration;
+      buffers = getMeetingBuffers(meetingType.data);
+    }
 
-    if (!response.ok) {
-      const payload = await response.json().catch(() => ({ error: 'Failed to fetch availability' }));
+    // Slots are also rendered in the visitor's zone; default to the host's own
+    const visitorTimeZone = url.searchParams.get('timeZone') || BOOKING_TIMEZONE;
+    if (!isValidTimeZone(visitorTimeZone)) {
       return NextResponse.json(
-        { error: payload.error || 'Failed to fetch availability from CMS' },
-        { status: response.status },
+        { error: 'timeZone must be an IANA time zone name, e.g. Europe/Berlin' },
+        { status: 400 },
       );
     }
 
-    const data = await response.json();
-    return NextResponse.json(data, {
+    // The visitor's own hold keeps their selected slot listed
+    const holdId = url.searchParams.get('holdId') ?? undefined;
+    if (holdId && !uuidRegex.test(holdId)) {
+      return NextResponse.json({ error: 'Invalid hold ID' }, { status: 400 });
+    }
+
+    // A manage link's token lists slots overlapping the booking it is rescheduling
+    let excludeBookingId: number | undefined;
+    const bookingToken = url.searchParams.get('token');
+    if (bookingToken) {
+      const verification = await verifyRequestBookingToken(bookingToken);
+      if (!verification.valid) {
+        return NextResponse.json({ error: 'Invalid booking token' }, { status: 400 });
+      }
+      excludeBookingId = verification.booking.id;
+    }
+
+    const result = await cms.bookings.availability(date, normalizedDuration, {
+      buffers,
+      holdId,
+      excludeBookingId,
+    });
+
+    if (!result.success) {
+      // Don't leak CMS configuration problems to visitors
+      const error =
+        result.status >= 500
+          ? 'Service unavailable. Please try again later.'
+          : result.error;
+      return NextResponse.json({ error }, { status: result.status >= 500 ? 503 : result.status });
+    }
+
+    const availability: BookingAvailabilityResponse = {
+      ...result.data,
+      slots: toBookingSlots(date, result.data.availableSlots, BOOKING_TIMEZONE, visitorTimeZone),
+      timeZone: BOOKING_TIMEZONE,
+      visitorTimeZone,
+    };
+
+    return NextResponse.json(availability, {
       headers: {
         'Cache-Control': 'no-store',
       },
     });
   } catch (error) {
-    if (error instanceof MissingCmsApiKeyError) {
-      console.error('CMS API key missing while fetching booking availability');
-      return NextResponse.json(
-        { error: 'Service unavailable. Please try again later.' },
-        { status: 503 },
-      );
-    }
-
     console.error('Error fetching booking availability:', error);
     return NextResponse.json(
       { error: 'Failed to fetch booking availability' },
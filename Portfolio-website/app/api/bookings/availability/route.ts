@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAvailabilityRange } from '@/lib/booking-availability';
+import { cms } from '@/lib/cms-client';
+import type { CmsFailure, MeetingBuffers } from '@/lib/cms-api';
+import { BOOKING_TIMEZONE } from '@/lib/env';
+import { getMeetingBuffers, loadMeetingType } from '@/lib/meeting-types';
+import type { BookingAvailabilityRangeResponse } from '@/lib/types';
+import { bookingAvailabilityRangeQuerySchema, formatZodErrors } from '@/lib/validations';
+
+/**
+ * Mirror a failed CMS call without leaking configuration problems to visitors
+ */
+const cmsErrorResponse = (result: CmsFailure) =>
+  result.status >= 500
+    ? NextResponse.json({ error: 'Service unavailable. Please try again later.' }, { status: 503 })
+    : NextResponse.json({ error: result.error }, { status: result.status });
+
+/**
+ * GET /api/bookings/availability?from=&to=&duration=&meetingType=
+ *
+ * Per-day slot counts for a range of host-local dates, used to shade the booking calendar
+ * without a request per day. `meetingType` takes precedence over `duration` and applies the
+ * type's buffers.
+ *
+ * @example
+ * GET /api/bookings/availability?from=2025-01-01&to=2025-01-31&meetingType=60min
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const url = new URL(request.url);
+    const validation = bookingAvailabilityRangeQuerySchema.safeParse({
+      from: url.searchParams.get('from') ?? undefined,
+      to: url.searchParams.get('to') ?? undefined,
+      duration: url.searchParams.get('duration') ?? undefined,
+      meetingType: url.searchParams.get('meetingType') ?? undefined,
+    });
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid availability range', details: formatZodErrors(validation.error) },
+        { status: 400 }
+      );
+    }
+
+    const { from, to } = validation.data;
+    let { duration } = validation.data;
+    let buffers: MeetingBuffers | undefined;
+
+    if (validation.data.meetingType) {
+      const meetingType = await loadMeetingType(cms, validation.data.meetingType);
+      if (!meetingType.success) return cmsErrorResponse(meetingType);
+      duration = meetingType.data.duration;
+      buffers = getMeetingBuffers(meetingType.data);
+    }
+
+    const result = await getAvailabilityRange(cms, from, to, duration, buffers);
+    if (!result.success) return cmsErrorResponse(result);
+
+    const range: BookingAvailabilityRangeResponse = {
+      from,
+      to,
+      duration,
+      timeZone: BOOKING_TIMEZONE,
+      days: result.data,
+    };
+
+    return NextResponse.json(range, {
+      headers: {
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching booking availability range:', error);
+    return NextResponse.json({ error: 'Failed to fetch booking availability' }, { status: 500 });
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { cms } from '@/lib/cms-client';
+import type { CmsFailure } from '@/lib/cms-api';
+import { BOOKING_HOLD_MINUTES, BOOKING_TIMEZONE } from '@/lib/env';
+import { findMeetingType, getMeetingBuffers } from '@/lib/meeting-types';
+import { zonedTimeToUtc } from '@/lib/timezones';
+import { bookingHoldRequestSchema, formatZodErrors } from '@/lib/validations';
+
+const errorResponse = (error: string, status: number, details?: unknown) =>
+  NextResponse.json({ success: false, error, ...(details ? { details } : {}) }, { status });
+
+/**
+ * Mirror a failed CMS call without leaking configuration problems to visitors
+ */
+const cmsErrorResponse = (result: CmsFailure, fallback: string) =>
+  result.status >= 500
+    ? errorResponse('Service unavailable. Please try again later.', 503)
+    : errorResponse(result.error || fallback, result.status);
+
+/**
+ * POST /api/bookings/hold
+ *
+ * Reserve a slot for `BOOKING_HOLD_MINUTES` while the visitor fills in the booking form. Other
+ * visitors no longer see the slot, and `POST /api/bookings` consumes the hold. Passing the
+ * previous `holdId` moves the visitor's hold instead of stacking a second one.
+ *
+ * @example
+ * POST /api/bookings/hold
+ * Body: { "date": "2025-01-08", "time": "14:00", "startsAt": "2025-01-08T13:00:00.000Z",
+ *         "meetingType": "30min" }
+ * Response: { "success": true, "hold": { "id": "…", "expiresAt": "2025-01-06T10:05:00.000Z", … } }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const validation = bookingHoldRequestSchema.safeParse(await request.json().catch(() => null));
+    if (!validation.success) {
+      return errorResponse('Validation failed', 400, formatZodErrors(validation.error));
+    }
+
+    const { date, time, meetingType: slug, holdId } = validation.data;
+    const startsAt = zonedTimeToUtc(date, time, BOOKING_TIMEZONE);
+    if (startsAt.getTime() !== new Date(validation.data.startsAt).getTime()) {
+      return errorResponse('Validation failed', 400, [
+        {
+          field: 'startsAt',
+          message: `startsAt does not match ${date} ${time} in ${BOOKING_TIMEZONE}`,
+        },
+      ]);
+    }
+    if (startsAt.getTime() <= Date.now()) {
+      return errorResponse('Time slot has already started', 409);
+    }
+
+    const catalog = await cms.bookings.meetingTypes();
+    if (!catalog.success) {
+      return cmsErrorResponse(catalog, 'Failed to load meeting types');
+    }
+
+    const meetingType = findMeetingType(catalog.data.meetingTypes, slug);
+    if (!meetingType) {
+      return errorResponse('Validation failed', 400, [
+        { field: 'meetingType', message: `Unknown meeting type: ${slug}` },
+      ]);
+    }
+
+    // Working hours, overrides and blocks only live in the availability calculation; the hold
+    // itself then atomically checks for bookings and other holds
+    const buffers = getMeetingBuffers(meetingType);
+    const availability = await cms.bookings.availability(date, meetingType.duration, {
+      buffers,
+      holdId,
+    });
+    if (!availability.success) {
+      return cmsErrorResponse(availability, 'Failed to check availability');
+    }
+    if (!availability.data.availableSlots.includes(time)) {
+      return errorResponse('Time slot no longer available', 409);
+    }
+
+    const result = await cms.bookings.hold({
+      date,
+      time,
+      duration: meetingType.duration,
+      bufferBefore: buffers.before,
+      bufferAfter: buffers.after,
+      expiresInMinutes: BOOKING_HOLD_MINUTES,
+      replaceHoldId: holdId,
+    });
+    if (!result.success) {
+      return cmsErrorResponse(result, 'Failed to hold time slot');
+    }
+
+    return NextResponse.json(
+      { success: true, hold: result.data.hold },
+      { status: 201, headers: { 'Cache-Control': 'private, no-store' } }
+    );
+  } catch (error) {
+    console.error('Error holding booking slot:', error);
+    return errorResponse('Failed to hold time slot. Please try again later.', 500);
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+
+import { cms } from '@/lib/cms-client';
+import { listEnabledMeetingTypes } from '@/lib/meeting-types';
+
+/**
+ * GET /api/bookings/meeting-types
+ *
+ * Meeting types visitors can book, in the order the calendar shows them.
+ */
+export async function GET() {
+  try {
+    const result = await cms.bookings.meetingTypes();
+
+    if (!result.success) {
+      // Don't leak CMS configuration problems to visitors
+      const error =
+        result.status >= 500 ? 'Service unavailable. Please try again later.' : result.error;
+      return NextResponse.json({ error }, { status: result.status >= 500 ? 503 : result.status });
+    }
+
+    return NextResponse.json(
+      { meetingTypes: listEnabledMeetingTypes(result.data.meetingTypes) },
+      {
+        headers: {
+          'Cache-Control': 'public, max-age=60, stale-while-revalidate=300',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error fetching meeting types:', error);
+    return NextResponse.json({ error: 'Failed to fetch meeting types' }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { isAdminRequest } from '@/lib/admin-session';
+import { runBookingReminders } from '@/lib/booking-reminder-job';
+import { NOTIFICATIONS_ENABLED } from '@/lib/notifications';
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json({ success: false, error }, { status });
+
+/**
+ * POST /api/bookings/reminders
+ *
+ * Send the booking reminders that are due. Meant for a cron job hitting it every few minutes
+ * with `x-api-key: <ADMIN_API_KEY>`; a signed-in admin may also trigger it. Runs are idempotent,
+ * and a run that overlaps another returns `409`.
+ *
+ * @example
+ * POST /api/bookings/reminders
+ * Response: { "success": true, "due": 2, "sent": 2, "failed": 0 }
+ */
+export async function POST(request: NextRequest) {
+  if (!(await isAdminRequest(request))) {
+    return errorResponse('Authentication required', 401);
+  }
+
+  if (!NOTIFICATIONS_ENABLED) {
+    return errorResponse('Notifications are not configured', 503);
+  }
+
+  try {
+    const report = await runBookingReminders(request.nextUrl.origin);
+    if (!report) {
+      return errorResponse('A reminder run is already in progress', 409);
+    }
+
+    return NextResponse.json({ success: true, ...report });
+  } catch (error) {
+    console.error('Error sending booking reminders:', error);
+    return errorResponse('Failed to send reminders. Please try again later.', 500);
+  }
+}
@@ -1,10 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 
-import { fetchJsonFromCms, MissingCmsApiKeyError } from '@/lib/cms-client';
+import { getBookingTokenSecret, signBookingToken } from '@/lib/booking-token';
+import { cms } from '@/lib/cms-client';
+import { BOOKING_TIMEZONE } from '@/lib/env';
+import { buildIntakeAnswersSchema, toIntakeAnswers } from '@/lib/intake-questions';
+import { validateMeetingTypeSelection } from '@/lib/meeting-types';
+import { NOTIFICATIONS_ENABLED, notify, siteUrl } from '@/lib/notifications';
+import { checkRateLimit, getRateLimitHeaders } from '@/lib/rate-limit';
+import { isValidTimeZone, zonedTimeToUtc } from '@/lib/timezones';
+import { formatZodErrors } from '@/lib/validations';
 
 const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/i;
 const isoDateRegex = /^\d{4}-\d{2}-\d{2}$/;
 const timeRegex = /^(?:[01]\d|2[0-3]):[0-5]\d$/;
+const utcInstantRegex = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d{1,3})?)?Z$/;
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 interface ValidationSuccess<T> {
   valid: true;
@@ -28,6 +38,9 @@ type BookingPayload = {
   duration: number;
   meetingType?: string | null;
   notes?: string | null;
+  timeZone: string;
+  startsAt: string;
+  holdId?: string | null;
 };
 
 const sanitizeInput = (value: unknown, { multiline = false, maxLength = 2000 } = {}) => {
@@ -78,6 +91,28 @@ const validateBookingRequest = (payload: unknown): ValidationResult<BookingPaylo
     errors.push({ field: 'time', message: 'Time must be formatted as HH:MM' });
   }
 
+  // `date` and `time` are wall-clock values in the host's zone; the visitor also sends the UTC
+  // instant they picked so a client that got the conversion wrong can't book the wrong slot
+  const timeZone = readString(record['timeZone']).trim();
+  if (!isValidTimeZone(timeZone)) {
+    errors.push({ field: 'timeZone', message: 'timeZone must be an IANA time zone name' });
+  }
+
+  const startsAtRaw = readString(record['startsAt']).trim();
+  const startsAt = utcInstantRegex.test(startsAtRaw) ? new Date(startsAtRaw) : null;
+  if (!startsAt || Number.isNaN(startsAt.getTime())) {
+    errors.push({ field: 'startsAt', message: 'startsAt must be a UTC ISO 8601 timestamp' });
+  } else if (isoDateRegex.test(date) && timeRegex.test(time)) {
+    if (zonedTimeToUtc(date, time, BOOKING_TIMEZONE).getTime() !== startsAt.getTime()) {
+      errors.push({
+        field: 'startsAt',
+        message: `startsAt does not match ${date} ${time} in ${BOOKING_TIMEZONE}`,
+      });
+    } else if (startsAt.getTime() <= Date.now()) {
+      errors.push({ field: 'startsAt', message: 'Bookings must start in the future' });
+    }
+  }
+
   const durationValue = Number(record['duration'] ?? 0);
   if (!Number.isInteger(durationValue) || durationValue < 15 || durationValue > 240) {
     errors.push({ field: 'duration', message: 'Duration must be between 15 and 240 minutes' });
@@ -92,6 +127,12 @@ const validateBookingRequest = (payload: unknown): ValidationResult<BookingPaylo
   const phone = sanitizeInput(record['phone'], { maxLength: 50 });
   const notes = sanitizeInput(record['notes'], { multiline: true, maxLength: 2000 });
 
+  // Optional: an expired or missing hold still books the slot if nobody else took it
+  const holdId = readString(record['holdId']).trim();
+  if (holdId && !uuidRegex.test(holdId)) {
+    errors.push({ field: 'holdId', message: 'Invalid hold ID' });
+  }
+
   if (errors.length > 0) {
     return { valid: false, error: 'Validation failed', details: errors };
   }
@@ -107,6 +148,9 @@ const validateBookingRequest = (payload: unknown): ValidationResult<BookingPaylo
       meetingType: meetingType || null,
       phone: phone || null,
       notes: notes || null,
+      timeZone,
+      startsAt: new Date(startsAtRaw).toISOString(),
+      holdId: holdId || null,
     },
   };
 };
@@ -123,34 +167,131 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const response = await fetchJsonFromCms('/api/bookings', {
-      method: 'POST',
-      body: JSON.stringify(validation.data),
-    });
-
-    if (!response.ok) {
-      const errorPayload = await response.json().catch(() => ({ error: 'Unknown error' }));
+    const rateLimitResult = await checkRateLimit(request, { email: validation.data.email });
+    if (!rateLimitResult.allowed) {
       return NextResponse.json(
         {
           success: false,
-          error: errorPayload.error || 'Failed to create booking',
+          error: 'Too many booking attempts for this email. Please try again later.',
         },
-        { status: response.status },
+        { status: 429, headers: getRateLimitHeaders(rateLimitResult) },
       );
     }
 
-    const data = await response.json();
-
-    return NextResponse.json(data, { status: 201 });
-  } catch (error) {
-    if (error instanceof MissingCmsApiKeyError) {
-      console.error('CMS API key missing while creating a booking');
+    // Only enabled catalog types can be booked, and only for their own duration
+    const catalog = await cms.bookings.meetingTypes();
+    if (!catalog.success) {
       return NextResponse.json(
         { success: false, error: 'Service unavailable. Please try again later.' },
         { status: 503 },
       );
     }
 
+    const selection = validateMeetingTypeSelection(
+      catalog.data.meetingTypes,
+      validation.data.meetingType,
+      validation.data.duration,
+    );
+    if (!selection.valid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: [{ field: selection.field, message: selection.message }],
+        },
+        { status: 400 },
+      );
+    }
+
+    // Answers are checked against the chosen type's own intake form
+    const { intakeQuestions } = selection.meetingType;
+    const answers = buildIntakeAnswersSchema(intakeQuestions).safeParse(
+      toRecord(body)['answers'] ?? {},
+    );
+    if (!answers.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: formatZodErrors(answers.error).map(({ field, message }) => ({
+            field: field ? `answers.${field}` : 'answers',
+            message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const result = await cms.bookings.create({
+      ...validation.data,
+      intakeAnswers: toIntakeAnswers(intakeQuestions, answers.data),
+      notifyGuest: !NOTIFICATIONS_ENABLED,
+    });
+
+    if (!result.success) {
+      if (result.status >= 500) {
+        return NextResponse.json(
+          { success: false, error: 'Service unavailable. Please try again later.' },
+          { status: 503 },
+        );
+      }
+
+      return NextResponse.json(
+        { success: false, error: result.error || 'Failed to create booking' },
+        { status: result.status },
+      );
+    }
+
+    const { booking } = result.data;
+    const confirmation = {
+      name: booking.name,
+      startsAt: validation.data.startsAt,
+      duration: booking.duration,
+      timeZone: validation.data.timeZone,
+      meetingType: selection.meetingType.name,
+      meetingLink: booking.meetingLink,
+    };
+
+    // The token is the visitor's only handle on the booking; without a secret they just don't
+    // get a confirmation page
+    const secret = getBookingTokenSecret();
+    if (!secret) {
+      console.warn('BOOKING_TOKEN_SECRET is not configured; skipping confirmation token');
+      notify({ type: 'booking-confirmation', to: booking.email, data: confirmation });
+      return NextResponse.json(result.data, { status: 201 });
+    }
+
+    const token = await signBookingToken(
+      {
+        id: booking.id,
+        name: booking.name,
+        email: booking.email,
+        date: booking.date,
+        time: booking.time,
+        duration: booking.duration,
+        startsAt: validation.data.startsAt,
+        hostTimeZone: BOOKING_TIMEZONE,
+        timeZone: validation.data.timeZone,
+        meetingType: validation.data.meetingType,
+        meetingLink: booking.meetingLink,
+      },
+      secret,
+    );
+
+    notify({
+      type: 'booking-confirmation',
+      to: booking.email,
+      data: {
+        ...confirmation,
+        manageUrl: siteUrl(`/book/confirmed/${token}`, request.nextUrl.origin),
+      },
+    });
+
+    return NextResponse.json(
+      { ...result.data, token, confirmationUrl: `/book/confirmed/${token}` },
+      { status: 201 },
+    );
+  } catch (error) {
     console.error('Error creating booking:', error);
     return NextResponse.json(
       { success: false, error: 'Failed to create booking. Please try again later.' },
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { cms } from '@/lib/cms-client';
+import { BOOKING_TIMEZONE } from '@/lib/env';
+import { zonedTimeToUtc } from '@/lib/timezones';
+import { waitlistClaimTokenSchema } from '@/lib/validations';
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json({ success: false, error }, { status });
+
+/**
+ * GET /api/bookings/waitlist/:token
+ *
+ * The open waitlist offer behind a claim link. The booking calendar preselects the offered slot
+ * and books it with the offer's `holdId`, which the other visitors can't see past.
+ *
+ * @example
+ * GET /api/bookings/waitlist/3f9c…
+ * Response: { "success": true, "offer": { "date": "2025-01-08", "time": "14:00",
+ *             "startsAt": "2025-01-08T13:00:00.000Z", "holdId": "…", "expiresAt": "…", … } }
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    if (!waitlistClaimTokenSchema.safeParse(token).success) {
+      return errorResponse('Offer not found or expired', 404);
+    }
+
+    const result = await cms.bookings.waitlistOffer(token);
+    if (!result.success) {
+      return result.status >= 500
+        ? errorResponse('Service unavailable. Please try again later.', 503)
+        : errorResponse(result.error || 'Offer not found or expired', result.status);
+    }
+
+    const { offer } = result.data;
+    return NextResponse.json(
+      {
+        success: true,
+        offer: {
+          ...offer,
+          startsAt: zonedTimeToUtc(offer.date, offer.time, BOOKING_TIMEZONE).toISOString(),
+        },
+      },
+      { headers: { 'Cache-Control': 'private, no-store' } }
+    );
+  } catch (error) {
+    console.error('Error loading waitlist offer:', error);
+    return errorResponse('Failed to load waitlist offer. Please try again later.', 500);
+  }
+}
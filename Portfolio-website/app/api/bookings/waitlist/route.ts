@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { cms } from '@/lib/cms-client';
+import type { CmsFailure } from '@/lib/cms-api';
+import { BOOKING_TIMEZONE } from '@/lib/env';
+import { findMeetingType, getMeetingBuffers } from '@/lib/meeting-types';
+import { checkRateLimit, getRateLimitHeaders } from '@/lib/rate-limit';
+import { formatInTimeZone } from '@/lib/timezones';
+import { bookingWaitlistRequestSchema, formatZodErrors } from '@/lib/validations';
+
+const errorResponse = (error: string, status: number, details?: unknown) =>
+  NextResponse.json({ success: false, error, ...(details ? { details } : {}) }, { status });
+
+/**
+ * Mirror a failed CMS call without leaking configuration problems to visitors
+ */
+const cmsErrorResponse = (result: CmsFailure, fallback: string) =>
+  result.status >= 500
+    ? errorResponse('Service unavailable. Please try again later.', 503)
+    : errorResponse(result.error || fallback, result.status);
+
+/**
+ * POST /api/bookings/waitlist
+ *
+ * Put the visitor on the waitlist for a fully booked date and meeting type. When a booking on
+ * that date is cancelled, the CMS holds the freed slot for the first visitor in line and emails
+ * them a link to `/book?claim=<token>`.
+ *
+ * @example
+ * POST /api/bookings/waitlist
+ * Body: { "name": "Ada", "email": "ada@example.com", "date": "2025-01-08", "meetingType": "30min" }
+ * Response: { "success": true, "entry": { "id": 7, "date": "2025-01-08", "position": 2, … } }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const validation = bookingWaitlistRequestSchema.safeParse(
+      await request.json().catch(() => null)
+    );
+    if (!validation.success) {
+      return errorResponse('Validation failed', 400, formatZodErrors(validation.error));
+    }
+
+    const { name, email, date, meetingType: slug } = validation.data;
+
+    const rateLimitResult = await checkRateLimit(request, { email });
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Too many waitlist requests for this email. Please try again later.',
+        },
+        { status: 429, headers: getRateLimitHeaders(rateLimitResult) }
+      );
+    }
+
+    if (date < formatInTimeZone(new Date(), BOOKING_TIMEZONE).date) {
+      return errorResponse('Validation failed', 400, [
+        { field: 'date', message: 'Date is in the past' },
+      ]);
+    }
+
+    const catalog = await cms.bookings.meetingTypes();
+    if (!catalog.success) {
+      return cmsErrorResponse(catalog, 'Failed to load meeting types');
+    }
+
+    const meetingType = findMeetingType(catalog.data.meetingTypes, slug);
+    if (!meetingType) {
+      return errorResponse('Validation failed', 400, [
+        { field: 'meetingType', message: `Unknown meeting type: ${slug}` },
+      ]);
+    }
+
+    // The waitlist is for days that are open but full, not for days off
+    const availability = await cms.bookings.availability(date, meetingType.duration, {
+      buffers: getMeetingBuffers(meetingType),
+    });
+    if (!availability.success) {
+      return cmsErrorResponse(availability, 'Failed to check availability');
+    }
+    if (!availability.data.isAvailable) {
+      return errorResponse('No meetings are offered on this date', 409);
+    }
+    if (availability.data.availableSlots.length > 0) {
+      return errorResponse('Slots are still available on this date', 409);
+    }
+
+    const result = await cms.bookings.joinWaitlist({ name, email, date, meetingType: slug });
+    if (!result.success) {
+      return cmsErrorResponse(result, 'Failed to join waitlist');
+    }
+
+    return NextResponse.json({ success: true, entry: result.data.entry }, { status: 201 });
+  } catch (error) {
+    console.error('Error joining booking waitlist:', error);
+    return errorResponse('Failed to join waitlist. Please try again later.', 500);
+  }
+}
@@ -1,8 +1,13 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { contactFormWithHoneypotSchema, createValidationErrorResponse } from '@/lib/validations';
-import { fetchJsonFromCms, MissingCmsApiKeyError } from '@/lib/cms-client';
+import { cms } from '@/lib/cms-client';
+import { checkRateLimit, getRateLimitHeaders } from '@/lib/rate-limit';
+import { notify } from '@/lib/notifications';
+import { anonymousSessionId, clientAddress, scrubUrl } from '@/lib/analytics-privacy';
+import { CONSENT_COOKIE, requestAllows } from '@/lib/consent';
+import { ANALYTICS_SALT_SECRET } from '@/lib/env';
 
-export async function POST(request: Request) {
+export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const parsed = contactFormWithHoneypotSchema.safeParse(body);
@@ -15,59 +20,69 @@ export async function POST(request: Request) {
 
     const form = parsed.data;
 
-    const response = await fetchJsonFromCms('/api/messages', {
-      method: 'POST',
-      body: JSON.stringify({
+    const rateLimitResult = await checkRateLimit(request, { email: form.email });
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'You have sent several messages recently. Please try again later.',
+        },
+        { status: 429, headers: getRateLimitHeaders(rateLimitResult) }
+      );
+    }
+
+    const result = await cms.messages.create({
+      name: form.name,
+      email: form.email,
+      subject: form.subject || 'Contact Form Submission',
+      message: form.message,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error:
+            result.status >= 500
+              ? 'Service temporarily unavailable. Please try again later.'
+              : 'Failed to send message. Please try again later.',
+        },
+        { status: result.status >= 500 ? 503 : 500 }
+      );
+    }
+
+    notify({
+      type: 'contact-acknowledgement',
+      to: form.email,
+      data: {
         name: form.name,
-        email: form.email,
         subject: form.subject || 'Contact Form Submission',
         message: form.message,
-      }),
+      },
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('CMS Error:', errorText);
-
-      throw new Error(`Failed to send message to CMS: ${response.status}`);
+    // Track analytics (optional, don't block on this), without anything about the submitter
+    if (requestAllows('analytics', request.cookies.get(CONSENT_COOKIE)?.value, request.headers)) {
+      void anonymousSessionId(ANALYTICS_SALT_SECRET, {
+        address: clientAddress(request.headers),
+        userAgent: request.headers.get('user-agent') || '',
+      }).then((sessionId) =>
+        cms.analytics.track({
+          event_type: 'contact_form_submission',
+          event_data: { hasSubject: Boolean(form.subject) },
+          page_url: scrubUrl(request.headers.get('referer') || undefined) ?? '/contact',
+          referrer: '',
+          session_id: sessionId,
+        })
+      );
     }
 
-    const data = await response.json();
-
-    // Track analytics (optional, don't block on this)
-    fetchJsonFromCms('/api/analytics/track', {
-      method: 'POST',
-      body: JSON.stringify({
-        event_type: 'contact_form_submission',
-        event_data: {
-          name: form.name,
-          email: form.email,
-          subject: form.subject,
-        },
-        page_url: '/contact',
-        referrer: request.headers.get('referer') || '',
-      }),
-    }).catch(() => {
-      // Analytics tracking failed (non-blocking, silently ignore)
-    });
-
     return NextResponse.json({
       success: true,
       message: 'Thank you for your message! I will get back to you soon.',
-      messageId: data.messageId,
+      messageId: result.data.messageId,
     });
   } catch (error) {
-    if (error instanceof MissingCmsApiKeyError) {
-      console.error('CMS API key missing for contact form submission');
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'Service temporarily unavailable. Please try again later.',
-        },
-        { status: 503 }
-      );
-    }
-
     console.error('Error in contact API:', error);
 
     return NextResponse.json(
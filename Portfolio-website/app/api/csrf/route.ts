@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ADMIN_SESSION_COOKIE } from '@/lib/admin-session';
+import { CSRF_COOKIE, CSRF_COOKIE_OPTIONS, getCsrfSecret, issueCsrfToken } from '@/lib/csrf';
+import { apiLogger } from '@/lib/api-logger';
+
+/**
+ * GET /api/csrf
+ *
+ * Issue a fresh signed double-submit token, bound to the caller's admin session if there is one.
+ * The cookie is deliberately readable from JavaScript so `csrfFetch` can echo it in the
+ * `x-csrf-token` header.
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const startTime = Date.now();
+  const requestId = apiLogger.logRequest(request, undefined, 'issue_csrf_token');
+
+  const secret = getCsrfSecret();
+  if (!secret) {
+    apiLogger.logWarning(requestId, 'CSRF_SECRET / ADMIN_SESSION_SECRET is not configured');
+
+    return NextResponse.json(
+      { success: false, error: 'CSRF protection is not configured.', requestId },
+      { status: 503 }
+    );
+  }
+
+  const token = await issueCsrfToken(secret, request.cookies.get(ADMIN_SESSION_COOKIE)?.value);
+
+  const response = NextResponse.json(
+    { success: true, token, requestId },
+    { headers: { 'Cache-Control': 'no-store' } }
+  );
+
+  response.cookies.set(CSRF_COOKIE, token, CSRF_COOKIE_OPTIONS);
+
+  apiLogger.logResponse(requestId, 200, Date.now() - startTime, 'CSRF token issued');
+
+  return response;
+}
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getSectionVersion,
+  restorePortfolioRevision,
+  PortfolioRevisionNotFoundError,
+  PortfolioVersionConflictError,
+} from '@/lib/portfolio-data';
+import { apiLogger } from '@/lib/api-logger';
+import {
+  CORS_HEADERS,
+  createApiResponse,
+  createConflictResponse,
+  createErrorResponse,
+  createPreconditionRequiredResponse,
+  getRequestActor,
+  toEntityTag,
+} from '@/lib/portfolio-api';
+import { enforceSharedRateLimit } from '@/lib/rate-limit';
+
+/**
+ * Handle CORS preflight requests
+ *
+ * @returns CORS response
+ */
+export async function OPTIONS(): Promise<NextResponse> {
+  return new NextResponse(null, {
+    status: 200,
+    headers: CORS_HEADERS,
+  });
+}
+
+/**
+ * POST /api/portfolio/revisions/:id/restore
+ *
+ * Restore a section to the snapshot stored in a revision. The section's current ETag must be
+ * sent as `If-Match`, exactly like a PUT to `/api/portfolio`.
+ *
+ * @param request - Next.js request object
+ * @returns Restore confirmation response
+ *
+ * @example
+ * POST /api/portfolio/revisions/<revisionId>/restore
+ * If-Match: "<etag of GET /api/portfolio?section=projects>"
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  const rateLimited = await enforceSharedRateLimit(request);
+  if (rateLimited) return rateLimited;
+
+  const startTime = Date.now();
+  const requestId = apiLogger.logRequest(request, undefined, 'restore_revision');
+  const { id } = await params;
+
+  try {
+    const ifMatch = request.headers.get('if-match');
+    if (!ifMatch) {
+      return createPreconditionRequiredResponse(requestId);
+    }
+
+    const { section, data } = await restorePortfolioRevision(id, {
+      ifMatch,
+      actor: await getRequestActor(request),
+      requestId,
+    });
+
+    const duration = Date.now() - startTime;
+    const message = `Portfolio section '${section}' restored from revision ${id}`;
+    apiLogger.logResponse(requestId, 200, duration, message);
+
+    return NextResponse.json(
+      createApiResponse({ [section]: data[section] }, true, message, requestId),
+      {
+        status: 200,
+        headers: {
+          ...CORS_HEADERS,
+          ETag: toEntityTag(getSectionVersion(data, section)),
+        },
+      }
+    );
+  } catch (error) {
+    const duration = Date.now() - startTime;
+
+    if (error instanceof PortfolioVersionConflictError) {
+      return createConflictResponse(error, requestId, duration);
+    }
+
+    if (error instanceof PortfolioRevisionNotFoundError) {
+      apiLogger.logResponse(requestId, 404, duration, error.message);
+
+      return NextResponse.json(createErrorResponse(error.message, undefined, requestId), {
+        status: 404,
+        headers: CORS_HEADERS,
+      });
+    }
+
+    apiLogger.logError(requestId, error as Error, { duration });
+    apiLogger.logResponse(requestId, 500, duration, 'Failed to restore revision');
+
+    return NextResponse.json(
+      createErrorResponse('Failed to restore revision', undefined, requestId),
+      {
+        status: 500,
+        headers: CORS_HEADERS,
+      }
+    );
+  }
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPortfolioRevision } from '@/lib/portfolio-data';
+import { diffPortfolioValues } from '@/lib/portfolio-diff';
+import { portfolioRevisionDiffQuerySchema, validateAndSanitize } from '@/lib/portfolio-validation';
+import { apiLogger } from '@/lib/api-logger';
+import { CORS_HEADERS, createApiResponse, createErrorResponse } from '@/lib/portfolio-api';
+import { ValidationError } from '@/lib/types';
+import { enforceSharedRateLimit } from '@/lib/rate-limit';
+
+/**
+ * Handle CORS preflight requests
+ *
+ * @returns CORS response
+ */
+export async function OPTIONS(): Promise<NextResponse> {
+  return new NextResponse(null, {
+    status: 200,
+    headers: CORS_HEADERS,
+  });
+}
+
+/**
+ * GET /api/portfolio/revisions/diff
+ *
+ * Compare the snapshots stored in two revisions of the same section
+ *
+ * @param request - Next.js request object
+ * @returns Diff response
+ *
+ * @example
+ * GET /api/portfolio/revisions/diff?from=<revisionId>&to=<revisionId>
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const rateLimited = await enforceSharedRateLimit(request);
+  if (rateLimited) return rateLimited;
+
+  const startTime = Date.now();
+  const requestId = apiLogger.logRequest(request, undefined, 'diff_revisions');
+
+  try {
+    const queryParams = Object.fromEntries(new URL(request.url).searchParams.entries());
+    const validation = validateAndSanitize(portfolioRevisionDiffQuerySchema, queryParams);
+
+    if (!validation.success) {
+      const validationErrors: ValidationError[] = validation.errors.issues.map((err) => ({
+        field: err.path.join('.'),
+        message: err.message,
+        code: err.code,
+        value: err.input,
+      }));
+
+      apiLogger.logWarning(requestId, 'Invalid query parameters', { queryParams });
+
+      return NextResponse.json(
+        createErrorResponse('Invalid query parameters', validationErrors, requestId),
+        {
+          status: 400,
+          headers: CORS_HEADERS,
+        }
+      );
+    }
+
+    const [from, to] = await Promise.all([
+      getPortfolioRevision(validation.data.from),
+      getPortfolioRevision(validation.data.to),
+    ]);
+
+    if (!from || !to) {
+      apiLogger.logResponse(requestId, 404, Date.now() - startTime, 'Revision not found');
+
+      return NextResponse.json(createErrorResponse('Revision not found', undefined, requestId), {
+        status: 404,
+        headers: CORS_HEADERS,
+      });
+    }
+
+    if (from.section !== to.section) {
+      apiLogger.logWarning(requestId, 'Attempted to diff revisions of different sections', {
+        from: from.section,
+        to: to.section,
+      });
+
+      return NextResponse.json(
+        createErrorResponse(
+          'Revisions belong to different sections and cannot be compared',
+          undefined,
+          requestId
+        ),
+        {
+          status: 400,
+          headers: CORS_HEADERS,
+        }
+      );
+    }
+
+    const diff = diffPortfolioValues(from.snapshot, to.snapshot);
+
+    const duration = Date.now() - startTime;
+    apiLogger.logResponse(requestId, 200, duration, 'Portfolio revision diff computed');
+
+    return NextResponse.json(
+      createApiResponse(
+        {
+          section: from.section,
+          from: { id: from.id, timestamp: from.timestamp, actor: from.actor },
+          to: { id: to.id, timestamp: to.timestamp, actor: to.actor },
+          diff,
+        },
+        true,
+        undefined,
+        requestId
+      ),
+      {
+        status: 200,
+        headers: { ...CORS_HEADERS, 'Cache-Control': 'no-store' },
+      }
+    );
+  } catch (error) {
+    const duration = Date.now() - startTime;
+
+    apiLogger.logError(requestId, error as Error, { duration });
+    apiLogger.logResponse(requestId, 500, duration, 'Failed to diff revisions');
+
+    return NextResponse.json(
+      createErrorResponse('Failed to diff revisions', undefined, requestId),
+      {
+        status: 500,
+        headers: CORS_HEADERS,
+      }
+    );
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listPortfolioRevisions } from '@/lib/portfolio-data';
+import { portfolioRevisionQuerySchema, validateAndSanitize } from '@/lib/portfolio-validation';
+import { apiLogger } from '@/lib/api-logger';
+import { CORS_HEADERS, createApiResponse, createErrorResponse } from '@/lib/portfolio-api';
+import { ValidationError } from '@/lib/types';
+import { enforceSharedRateLimit } from '@/lib/rate-limit';
+
+/**
+ * Handle CORS preflight requests
+ *
+ * @returns CORS response
+ */
+export async function OPTIONS(): Promise<NextResponse> {
+  return new NextResponse(null, {
+    status: 200,
+    headers: CORS_HEADERS,
+  });
+}
+
+/**
+ * GET /api/portfolio/revisions
+ *
+ * List the revision history of a portfolio section, newest first
+ *
+ * @param request - Next.js request object
+ * @returns Revision list response
+ *
+ * @example
+ * GET /api/portfolio/revisions?section=projects
+ * GET /api/portfolio/revisions?section=personal&limit=10
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const rateLimited = await enforceSharedRateLimit(request);
+  if (rateLimited) return rateLimited;
+
+  const startTime = Date.now();
+  const requestId = apiLogger.logRequest(request, undefined, 'list_revisions');
+
+  try {
+    const queryParams = Object.fromEntries(new URL(request.url).searchParams.entries());
+    const validation = validateAndSanitize(portfolioRevisionQuerySchema, queryParams);
+
+    if (!validation.success) {
+      const validationErrors: ValidationError[] = validation.errors.issues.map((err) => ({
+        field: err.path.join('.'),
+        message: err.message,
+        code: err.code,
+        value: err.input,
+      }));
+
+      apiLogger.logWarning(requestId, 'Invalid query parameters', { queryParams });
+
+      return NextResponse.json(
+        createErrorResponse('Invalid query parameters', validationErrors, requestId),
+        {
+          status: 400,
+          headers: CORS_HEADERS,
+        }
+      );
+    }
+
+    const { section, limit } = validation.data;
+    const revisions = await listPortfolioRevisions(section, limit);
+
+    const duration = Date.now() - startTime;
+    apiLogger.logResponse(requestId, 200, duration, 'Portfolio revisions retrieved');
+
+    return NextResponse.json(
+      createApiResponse({ section, revisions }, true, undefined, requestId),
+      {
+        status: 200,
+        headers: { ...CORS_HEADERS, 'Cache-Control': 'no-store' },
+      }
+    );
+  } catch (error) {
+    const duration = Date.now() - startTime;
+
+    apiLogger.logError(requestId, error as Error, { duration });
+    apiLogger.logResponse(requestId, 500, duration, 'Failed to list revisions');
+
+    return NextResponse.json(
+      createErrorResponse('Failed to list revisions', undefined, requestId),
+      {
+        status: 500,
+        headers: CORS_HEADERS,
+      }
+    );
+  }
+}
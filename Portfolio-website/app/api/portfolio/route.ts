@@ -1,10 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import {
   getPortfolioData,
-  getPortfolioSection,
+  getPortfolioVersion,
+  getSectionVersion,
+  entityTagMatches,
   updatePortfolioSection,
   addPortfolioItem,
   removePortfolioItem,
+  PortfolioVersionConflictError,
 } from '@/lib/portfolio-data';
 import {
   portfolioQuerySchema,
@@ -13,100 +16,28 @@ import {
   portfolioDeleteRequestSchema,
   validateAndSanitize,
 } from '@/lib/portfolio-validation';
-import { checkRateLimit, getRateLimitHeaders } from '@/lib/rate-limit';
 import { apiLogger } from '@/lib/api-logger';
+import {
+  CORS_HEADERS,
+  createApiResponse,
+  createConflictResponse,
+  createErrorResponse,
+  createPreconditionRequiredResponse,
+  getRequestActor,
+  toEntityTag,
+} from '@/lib/portfolio-api';
 import { PortfolioData, ValidationError } from '@/app/types/portfolio';
-
-/**
- * Portfolio API Response Type
- */
-interface PortfolioApiResponse<T = any> {
-  success: boolean;
-  data?: T;
-  message?: string;
-  timestamp: string;
-  requestId?: string;
-}
-
-/**
- * Error Response Type
- */
-interface ErrorResponse {
-  success: false;
-  error: string;
-  details?: ValidationError[];
-  timestamp: string;
-  requestId?: string;
-  stack?: string;
-}
-
-/**
- * CORS headers configuration
- */
-const CORS_HEADERS = {
-  'Access-Control-Allow-Origin':
-    process.env.NODE_ENV === 'development' ? '*' : 'https://jxcobcreations.com',
-  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Requested-With',
-  'Access-Control-Max-Age': '86400', // 24 hours
-};
+import { enforceSharedRateLimit } from '@/lib/rate-limit';
 
 /**
  * Cache headers for GET requests
+ *
+ * The ETag is computed per response from the section content hash.
  */
 const CACHE_HEADERS = {
   'Cache-Control': 'public, max-age=300, stale-while-revalidate=60', // 5 minutes cache
-  ETag: `"portfolio-${Date.now()}"`,
-  'Last-Modified': new Date().toUTCString(),
 };
 
-/**
- * Create standardized API response
- *
- * @param data - Response data
- * @param success - Success status
- * @param message - Optional message
- * @param requestId - Request ID for tracking
- * @returns Formatted API response
- */
-function createApiResponse<T>(
-  data?: T,
-  success: boolean = true,
-  message?: string,
-  requestId?: string
-): PortfolioApiResponse<T> {
-  return {
-    success,
-    data,
-    message,
-    timestamp: new Date().toISOString(),
-    requestId,
-  };
-}
-
-/**
- * Create error response
- *
- * @param error - Error message
- * @param details - Validation error details
- * @param requestId - Request ID for tracking
- * @returns Formatted error response
- */
-function createErrorResponse(
-  error: string,
-  details?: ValidationError[],
-  requestId?: string
-): ErrorResponse {
-  return {
-    success: false,
-    error,
-    details,
-    timestamp: new Date().toISOString(),
-    requestId,
-    ...(process.env.NODE_ENV === 'development' && { stack: new Error().stack }),
-  };
-}
-
 /**
  * Handle CORS preflight requests
  *
@@ -131,30 +62,16 @@ export async function OPTIONS(): Promise<NextResponse> {
  * GET /api/portfolio - Get all portfolio data
  * GET /api/portfolio?section=projects - Get only projects
  * GET /api/portfolio?section=projects&featured=true - Get only featured projects
+ * GET /api/portfolio?section=projects with If-None-Match: "<etag>" - 304 when unchanged
  */
 export async function GET(request: NextRequest): Promise<NextResponse> {
+  const rateLimited = await enforceSharedRateLimit(request);
+  if (rateLimited) return rateLimited;
+
   const startTime = Date.now();
   const requestId = apiLogger.logRequest(request);
 
   try {
-    // Check rate limit
-    const rateLimitResult = checkRateLimit(request, 'GET');
-    const rateLimitHeaders = getRateLimitHeaders(rateLimitResult);
-
-    if (!rateLimitResult.allowed) {
-      apiLogger.logWarning(requestId, 'Rate limit exceeded', {
-        ip: request.headers.get('x-forwarded-for'),
-      });
-
-      return NextResponse.json(
-        createErrorResponse('Rate limit exceeded. Please try again later.', undefined, requestId),
-        {
-          status: 429,
-          headers: { ...CORS_HEADERS, ...rateLimitHeaders },
-        }
-      );
-    }
-
     // Parse and validate query parameters
     const url = new URL(request.url);
     const queryParams = Object.fromEntries(url.searchParams.entries());
@@ -174,7 +91,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
         createErrorResponse('Invalid query parameters', validationErrors, requestId),
         {
           status: 400,
-          headers: { ...CORS_HEADERS, ...rateLimitHeaders },
+          headers: CORS_HEADERS,
         }
       );
     }
@@ -182,10 +99,27 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     const { section, featured, category, limit, offset } = queryValidation.data;
 
     // Get portfolio data
+    const portfolio = await getPortfolioData();
+    const version = section
+      ? getSectionVersion(portfolio, section)
+      : getPortfolioVersion(portfolio);
+    const etag = toEntityTag(version);
+
+    // Honor conditional GET
+    const ifNoneMatch = request.headers.get('if-none-match');
+    if (ifNoneMatch && entityTagMatches(ifNoneMatch, version)) {
+      apiLogger.logResponse(requestId, 304, Date.now() - startTime, 'Portfolio data not modified');
+
+      return new NextResponse(null, {
+        status: 304,
+        headers: { ...CORS_HEADERS, ...CACHE_HEADERS, ETag: etag },
+      });
+    }
+
     let responseData: any;
 
     if (section) {
-      responseData = getPortfolioSection(section);
+      responseData = portfolio[section];
 
       // Apply filtering for specific sections
       if (section === 'projects') {
@@ -208,7 +142,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
 
       responseData = { [section]: responseData };
     } else {
-      responseData = getPortfolioData();
+      responseData = portfolio;
     }
 
     const duration = Date.now() - startTime;
@@ -220,8 +154,8 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
         status: 200,
         headers: {
           ...CORS_HEADERS,
-          ...rateLimitHeaders,
           ...CACHE_HEADERS,
+          ETag: etag,
         },
       }
     );
@@ -248,29 +182,17 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
  *
  * @example
  * PUT /api/portfolio
+ * If-Match: "<etag of GET /api/portfolio?section=personal>"
  * Body: { "section": "personal", "data": { "name": "John Doe", ... } }
  */
 export async function PUT(request: NextRequest): Promise<NextResponse> {
+  const rateLimited = await enforceSharedRateLimit(request);
+  if (rateLimited) return rateLimited;
+
   const startTime = Date.now();
   const requestId = apiLogger.logRequest(request);
 
   try {
-    // Check rate limit
-    const rateLimitResult = checkRateLimit(request, 'PUT');
-    const rateLimitHeaders = getRateLimitHeaders(rateLimitResult);
-
-    if (!rateLimitResult.allowed) {
-      apiLogger.logWarning(requestId, 'Rate limit exceeded');
-
-      return NextResponse.json(
-        createErrorResponse('Rate limit exceeded. Please try again later.', undefined, requestId),
-        {
-          status: 429,
-          headers: { ...CORS_HEADERS, ...rateLimitHeaders },
-        }
-      );
-    }
-
     // Parse request body
     let body: any;
     try {
@@ -282,7 +204,7 @@ export async function PUT(request: NextRequest): Promise<NextResponse> {
         createErrorResponse('Invalid JSON in request body', undefined, requestId),
         {
           status: 400,
-          headers: { ...CORS_HEADERS, ...rateLimitHeaders },
+          headers: CORS_HEADERS,
         }
       );
     }
@@ -303,15 +225,24 @@ export async function PUT(request: NextRequest): Promise<NextResponse> {
         createErrorResponse('Validation failed', validationErrors, requestId),
         {
           status: 400,
-          headers: { ...CORS_HEADERS, ...rateLimitHeaders },
+          headers: CORS_HEADERS,
         }
       );
     }
 
     const { section, data } = validation.data;
 
+    const ifMatch = request.headers.get('if-match');
+    if (!ifMatch) {
+      return createPreconditionRequiredResponse(requestId);
+    }
+
     // Update portfolio section
-    const updatedData = updatePortfolioSection(section, data as any);
+    const updatedData = await updatePortfolioSection(section, data as any, {
+      ifMatch,
+      actor: await getRequestActor(request),
+      requestId,
+    });
 
     const duration = Date.now() - startTime;
     apiLogger.logResponse(
@@ -330,12 +261,19 @@ export async function PUT(request: NextRequest): Promise<NextResponse> {
       ),
       {
         status: 200,
-        headers: { ...CORS_HEADERS, ...rateLimitHeaders },
+        headers: {
+          ...CORS_HEADERS,
+          ETag: toEntityTag(getSectionVersion(updatedData, section)),
+        },
       }
     );
   } catch (error) {
     const duration = Date.now() - startTime;
 
+    if (error instanceof PortfolioVersionConflictError) {
+      return createConflictResponse(error, requestId, duration);
+    }
+
     apiLogger.logError(requestId!, error as Error, { duration });
     apiLogger.logResponse(requestId!, 500, duration, 'Failed to update portfolio');
 
@@ -359,29 +297,17 @@ export async function PUT(request: NextRequest): Promise<NextResponse> {
  *
  * @example
  * POST /api/portfolio
+ * If-Match: "<etag of GET /api/portfolio?section=projects>"
  * Body: { "action": "add_project", "section": "projects", "data": { "title": "New Project", ... } }
  */
 export async function POST(request: NextRequest): Promise<NextResponse> {
+  const rateLimited = await enforceSharedRateLimit(request);
+  if (rateLimited) return rateLimited;
+
   const startTime = Date.now();
   const requestId = apiLogger.logRequest(request);
 
   try {
-    // Check rate limit
-    const rateLimitResult = checkRateLimit(request, 'POST');
-    const rateLimitHeaders = getRateLimitHeaders(rateLimitResult);
-
-    if (!rateLimitResult.allowed) {
-      apiLogger.logWarning(requestId, 'Rate limit exceeded');
-
-      return NextResponse.json(
-        createErrorResponse('Rate limit exceeded. Please try again later.', undefined, requestId),
-        {
-          status: 429,
-          headers: { ...CORS_HEADERS, ...rateLimitHeaders },
-        }
-      );
-    }
-
     // Parse request body
     let body: any;
     try {
@@ -393,7 +319,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
         createErrorResponse('Invalid JSON in request body', undefined, requestId),
         {
           status: 400,
-          headers: { ...CORS_HEADERS, ...rateLimitHeaders },
+          headers: CORS_HEADERS,
         }
       );
     }
@@ -414,30 +340,41 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
         createErrorResponse('Validation failed', validationErrors, requestId),
         {
           status: 400,
-          headers: { ...CORS_HEADERS, ...rateLimitHeaders },
+          headers: CORS_HEADERS,
         }
       );
     }
 
     const { action, data } = validation.data;
 
+    const ifMatch = request.headers.get('if-match');
+    if (!ifMatch) {
+      return createPreconditionRequiredResponse(requestId);
+    }
+
+    const writeOptions = { ifMatch, actor: await getRequestActor(request), requestId };
+
     let updatedData: PortfolioData;
+    let section: 'projects' | 'testimonials' | 'skills';
     let message: string;
 
     // Handle different actions
     switch (action) {
       case 'add_project':
-        updatedData = addPortfolioItem('projects', data as any);
+        section = 'projects';
+        updatedData = await addPortfolioItem(section, data as any, writeOptions);
         message = 'Project added successfully';
         break;
 
       case 'add_testimonial':
-        updatedData = addPortfolioItem('testimonials', data as any);
+        section = 'testimonials';
+        updatedData = await addPortfolioItem(section, data as any, writeOptions);
         message = 'Testimonial added successfully';
         break;
 
       case 'add_skill_category':
-        updatedData = addPortfolioItem('skills', data as any);
+        section = 'skills';
+        updatedData = await addPortfolioItem(section, data as any, writeOptions);
         message = 'Skill category added successfully';
         break;
 
@@ -446,7 +383,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
 
         return NextResponse.json(createErrorResponse('Unsupported action', undefined, requestId), {
           status: 400,
-          headers: { ...CORS_HEADERS, ...rateLimitHeaders },
+          headers: CORS_HEADERS,
         });
     }
 
@@ -455,11 +392,18 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
 
     return NextResponse.json(createApiResponse(updatedData, true, message, requestId), {
       status: 201,
-      headers: { ...CORS_HEADERS, ...rateLimitHeaders },
+      headers: {
+        ...CORS_HEADERS,
+        ETag: toEntityTag(getSectionVersion(updatedData, section)),
+      },
     });
   } catch (error) {
     const duration = Date.now() - startTime;
 
+    if (error instanceof PortfolioVersionConflictError) {
+      return createConflictResponse(error, requestId, duration);
+    }
+
     apiLogger.logError(requestId!, error as Error, { duration });
     apiLogger.logResponse(requestId!, 500, duration, 'Failed to perform action');
 
@@ -483,29 +427,17 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
  *
  * @example
  * DELETE /api/portfolio
+ * If-Match: "<etag of GET /api/portfolio?section=projects>"
  * Body: { "section": "projects", "id": 1 }
  */
 export async function DELETE(request: NextRequest): Promise<NextResponse> {
+  const rateLimited = await enforceSharedRateLimit(request);
+  if (rateLimited) return rateLimited;
+
   const startTime = Date.now();
   const requestId = apiLogger.logRequest(request);
 
   try {
-    // Check rate limit
-    const rateLimitResult = checkRateLimit(request, 'DELETE');
-    const rateLimitHeaders = getRateLimitHeaders(rateLimitResult);
-
-    if (!rateLimitResult.allowed) {
-      apiLogger.logWarning(requestId, 'Rate limit exceeded');
-
-      return NextResponse.json(
-        createErrorResponse('Rate limit exceeded. Please try again later.', undefined, requestId),
-        {
-          status: 429,
-          headers: { ...CORS_HEADERS, ...rateLimitHeaders },
-        }
-      );
-    }
-
     // Parse request body
     let body: any;
     try {
@@ -517,7 +449,7 @@ export async function DELETE(request: NextRequest): Promise<NextResponse> {
         createErrorResponse('Invalid JSON in request body', undefined, requestId),
         {
           status: 400,
-          headers: { ...CORS_HEADERS, ...rateLimitHeaders },
+          headers: CORS_HEADERS,
         }
       );
     }
@@ -538,15 +470,24 @@ export async function DELETE(request: NextRequest): Promise<NextResponse> {
         createErrorResponse('Validation failed', validationErrors, requestId),
         {
           status: 400,
-          headers: { ...CORS_HEADERS, ...rateLimitHeaders },
+          headers: CORS_HEADERS,
         }
       );
     }
 
     const { section, id } = validation.data;
 
+    const ifMatch = request.headers.get('if-match');
+    if (!ifMatch) {
+      return createPreconditionRequiredResponse(requestId);
+    }
+
     // Remove item from portfolio
-    const updatedData = removePortfolioItem(section, id);
+    const updatedData = await removePortfolioItem(section, id, {
+      ifMatch,
+      actor: await getRequestActor(request),
+      requestId,
+    });
 
     const duration = Date.now() - startTime;
     const message = `Item deleted from ${section} successfully`;
@@ -554,11 +495,18 @@ export async function DELETE(request: NextRequest): Promise<NextResponse> {
 
     return NextResponse.json(createApiResponse(updatedData, true, message, requestId), {
       status: 200,
-      headers: { ...CORS_HEADERS, ...rateLimitHeaders },
+      headers: {
+        ...CORS_HEADERS,
+        ETag: toEntityTag(getSectionVersion(updatedData, section)),
+      },
     });
   } catch (error) {
     const duration = Date.now() - startTime;
 
+    if (error instanceof PortfolioVersionConflictError) {
+      return createConflictResponse(error, requestId, duration);
+    }
+
     apiLogger.logError(requestId!, error as Error, { duration });
     apiLogger.logResponse(requestId!, 500, duration, 'Failed to delete item');
 
@@ -1,49 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { fetchFromCms, MissingCmsApiKeyError } from '@/lib/cms-client';
+import { cms } from '@/lib/cms-client';
 
 export async function GET(request: NextRequest) {
-  try {
-    const { searchParams } = new URL(request.url);
-    const page = parseInt(searchParams.get('page') || '1', 10);
-    const limit = parseInt(searchParams.get('limit') || '12', 10);
+  const { searchParams } = new URL(request.url);
+  const page = parseInt(searchParams.get('page') || '1', 10);
+  const limit = parseInt(searchParams.get('limit') || '12', 10);
 
-    const response = await fetchFromCms(`/api/projects/public?page=${page}&limit=${limit}`, {
-      cache: 'no-store',
-    });
+  const result = await cms.projects.list();
 
-    if (!response.ok) {
-      throw new Error(`CMS responded with ${response.status}`);
-    }
-
-    const data = await response.json();
-    const projects = Array.isArray(data.projects) ? data.projects : [];
-    const total = data.total ?? projects.length;
-    const totalPages = data.pagination?.totalPages ?? Math.max(Math.ceil(total / limit), 1);
-
-    return NextResponse.json(
-      {
-        projects,
-        pagination: {
-          page,
-          limit,
-          total,
-          totalPages,
-          hasNext: page < totalPages,
-          hasPrev: page > 1,
-        },
-      },
-      {
-        headers: {
-          'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=120',
-        },
-      }
-    );
-  } catch (error) {
-    if (error instanceof MissingCmsApiKeyError) {
-      console.error('CMS API key missing while fetching projects');
-    } else {
-      console.error('Error fetching projects:', error);
-    }
+  if (!result.success) {
     return NextResponse.json(
       {
         projects: [],
@@ -53,4 +18,26 @@ export async function GET(request: NextRequest) {
       { status: 502 }
     );
   }
+
+  const { projects, total } = result.data;
+  const totalPages = Math.max(Math.ceil(total / limit), 1);
+
+  return NextResponse.json(
+    {
+      projects,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    },
+    {
+      headers: {
+        'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=120',
+      },
+    }
+  );
 }
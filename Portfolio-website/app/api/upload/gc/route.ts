@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiLogger } from '@/lib/api-logger';
+import { CORS_HEADERS, createApiResponse, createErrorResponse } from '@/lib/portfolio-api';
+import { getPortfolioData } from '@/lib/portfolio-data';
+import { collectUploadGarbage } from '@/lib/upload-store';
+import { collectUploadUrls } from '@/lib/uploads';
+import { uploadGarbageCollectionRequestSchema } from '@/lib/validations';
+import { ValidationError } from '@/lib/types';
+import { enforceSharedRateLimit } from '@/lib/rate-limit';
+
+/**
+ * Handle CORS preflight requests
+ *
+ * @returns CORS response
+ */
+export async function OPTIONS(): Promise<NextResponse> {
+  return new NextResponse(null, {
+    status: 200,
+    headers: CORS_HEADERS,
+  });
+}
+
+/**
+ * POST /api/upload/gc
+ *
+ * Garbage-collect uploads: files without a metadata record, records whose file is gone, and
+ * uploads the portfolio no longer references. Anything younger than the grace period is kept so
+ * in-flight edits don't lose their images.
+ *
+ * @param request - Next.js request object
+ * @returns Report of what was (or, for dry runs, would be) removed
+ *
+ * @example
+ * POST /api/upload/gc
+ * Body: { "dryRun": true, "graceHours": 48 }
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const rateLimited = await enforceSharedRateLimit(request);
+  if (rateLimited) return rateLimited;
+
+  const startTime = Date.now();
+  const requestId = apiLogger.logRequest(request, undefined, 'collect_upload_garbage');
+
+  try {
+    const text = await request.text();
+    let body: unknown = {};
+    try {
+      body = text ? JSON.parse(text) : {};
+    } catch {
+      return NextResponse.json(
+        createErrorResponse('Invalid JSON in request body', undefined, requestId),
+        { status: 400, headers: CORS_HEADERS }
+      );
+    }
+
+    const validation = uploadGarbageCollectionRequestSchema.safeParse(body);
+    if (!validation.success) {
+      const validationErrors: ValidationError[] = validation.error.issues.map((issue) => ({
+        field: issue.path.join('.'),
+        message: issue.message,
+        code: issue.code,
+      }));
+
+      return NextResponse.json(
+        createErrorResponse('Validation failed', validationErrors, requestId),
+        { status: 400, headers: CORS_HEADERS }
+      );
+    }
+
+    const { dryRun, graceHours } = validation.data;
+    const report = await collectUploadGarbage({
+      referencedUrls: collectUploadUrls(await getPortfolioData()),
+      graceMs: graceHours * 60 * 60 * 1000,
+      dryRun,
+    });
+
+    const removed =
+      report.orphanedFiles.length + report.missingFiles.length + report.unreferenced.length;
+    const message = dryRun ? `${removed} uploads would be removed` : `Removed ${removed} uploads`;
+
+    const duration = Date.now() - startTime;
+    apiLogger.logResponse(requestId, 200, duration, message);
+
+    return NextResponse.json(createApiResponse(report, true, message, requestId), {
+      status: 200,
+      headers: CORS_HEADERS,
+    });
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    apiLogger.logError(requestId, error as Error, { duration });
+    apiLogger.logResponse(requestId, 500, duration, 'Failed to collect upload garbage');
+
+    return NextResponse.json(
+      createErrorResponse('Failed to collect upload garbage', undefined, requestId),
+      { status: 500, headers: CORS_HEADERS }
+    );
+  }
+}
@@ -1,69 +1,329 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { writeFile, mkdir } from 'fs/promises';
-import { join } from 'path';
+import { apiLogger } from '@/lib/api-logger';
+import {
+  CORS_HEADERS,
+  createApiResponse,
+  createErrorResponse,
+  getRequestActor,
+} from '@/lib/portfolio-api';
+import {
+  deleteUpload,
+  listUploads,
+  saveUpload,
+  UploadNotFoundError,
+  UploadOwnershipError,
+  UploadRejectedError,
+} from '@/lib/upload-store';
+import { MAX_UPLOAD_BYTES, toProjectImage } from '@/lib/uploads';
+import {
+  uploadDeleteRequestSchema,
+  uploadFormSchema,
+  uploadListQuerySchema,
+} from '@/lib/validations';
+import { ValidationError } from '@/lib/types';
+import { enforceSharedRateLimit } from '@/lib/rate-limit';
 
-export async function POST(request: NextRequest) {
-  try {
-    const data = await request.formData();
-    const file: File | null = data.get('file') as unknown as File;
-    const projectId = data.get('projectId') as string;
+/**
+ * Allowance for multipart boundaries and the other form fields
+ */
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024;
+
+/**
+ * Largest request body accepted by `POST /api/upload`
+ */
+const MAX_BODY_BYTES = MAX_UPLOAD_BYTES + MULTIPART_OVERHEAD_BYTES;
+
+/**
+ * Read a request body, stopping as soon as it grows past `limit` bytes
+ *
+ * `Content-Length` is only checked up front as a shortcut: chunked requests don't send it and
+ * clients can understate it, so the bytes are counted as they arrive.
+ *
+ * @returns The body, or `null` when it is larger than `limit`
+ */
+async function readBodyWithLimit(request: NextRequest, limit: number): Promise<Blob | null> {
+  if (!request.body) {
+    return new Blob();
+  }
+
+  // Request bodies are never backed by a SharedArrayBuffer
+  const reader = request.body.getReader() as ReadableStreamDefaultReader<Uint8Array<ArrayBuffer>>;
+  const chunks: Uint8Array<ArrayBuffer>[] = [];
+  let received = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    received += value.byteLength;
+    if (received > limit) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  return new Blob(chunks);
+}
+
+const toValidationErrors = (issues: { path: PropertyKey[]; message: string; code: string }[]) =>
+  issues.map(
+    (issue): ValidationError => ({
+      field: issue.path.join('.'),
+      message: issue.message,
+      code: issue.code,
+    })
+  );
+
+/**
+ * Handle CORS preflight requests
+ *
+ * @returns CORS response
+ */
+export async function OPTIONS(): Promise<NextResponse> {
+  return new NextResponse(null, {
+    status: 200,
+    headers: CORS_HEADERS,
+  });
+}
+
+/**
+ * GET /api/upload
+ *
+ * List upload metadata records, newest first
+ *
+ * @param request - Next.js request object
+ * @returns Upload records
+ *
+ * @example
+ * GET /api/upload?projectId=portfolio-site
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const startTime = Date.now();
+  const requestId = apiLogger.logRequest(request, undefined, 'list_uploads');
 
-    if (!file) {
-      return NextResponse.json({ error: 'No file received' }, { status: 400 });
+  try {
+    const query = uploadListQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams.entries())
+    );
+    if (!query.success) {
+      return NextResponse.json(
+        createErrorResponse(
+          'Invalid query parameters',
+          toValidationErrors(query.error.issues),
+          requestId
+        ),
+        { status: 400, headers: CORS_HEADERS }
+      );
     }
 
-    const bytes = await file.arrayBuffer();
-    const buffer = Buffer.from(bytes);
+    const uploads = await listUploads(query.data);
+
+    const duration = Date.now() - startTime;
+    apiLogger.logResponse(requestId, 200, duration, `Listed ${uploads.length} uploads`);
+
+    return NextResponse.json(createApiResponse(uploads, true, undefined, requestId), {
+      status: 200,
+      headers: CORS_HEADERS,
+    });
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    apiLogger.logError(requestId, error as Error, { duration });
+    apiLogger.logResponse(requestId, 500, duration, 'Failed to list uploads');
+
+    return NextResponse.json(createErrorResponse('Failed to list uploads', undefined, requestId), {
+      status: 500,
+      headers: CORS_HEADERS,
+    });
+  }
+}
+
+/**
+ * POST /api/upload
+ *
+ * Store an image or PDF. The type is detected from the file contents, the stored name is
+ * generated server-side and a metadata record is written alongside the file. Images are
+ * stripped of EXIF data and get responsive WebP/AVIF variants plus a blur placeholder.
+ *
+ * @param request - Next.js request object carrying multipart form data
+ * @returns The upload's metadata record and, for images, a populated `ProjectImage`
+ *
+ * @example
+ * POST /api/upload
+ * Content-Type: multipart/form-data
+ * Body: file=<binary>, projectId=portfolio-site, alternativeText=Dashboard, imageType=cover
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const rateLimited = await enforceSharedRateLimit(request);
+  if (rateLimited) return rateLimited;
+
+  const startTime = Date.now();
+  const requestId = apiLogger.logRequest(request, undefined, 'upload');
 
-    // Create uploads directory if it doesn't exist
-    const uploadsDir = join(process.cwd(), 'public', 'uploads');
+  try {
+    const contentLength = Number(request.headers.get('content-length') ?? 0);
+    const body =
+      contentLength > MAX_BODY_BYTES ? null : await readBodyWithLimit(request, MAX_BODY_BYTES);
+    if (!body) {
+      apiLogger.logWarning(requestId, 'Upload body too large', { contentLength });
+
+      return NextResponse.json(
+        createErrorResponse('Upload exceeds the maximum file size', undefined, requestId),
+        { status: 413, headers: CORS_HEADERS }
+      );
+    }
+
+    let data: FormData;
     try {
-      await mkdir(uploadsDir, { recursive: true });
-    } catch (error) {
-      // Directory might already exist
+      data = await new Response(body, {
+        headers: { 'Content-Type': request.headers.get('content-type') ?? '' },
+      }).formData();
+    } catch {
+      return NextResponse.json(
+        createErrorResponse('Expected multipart form data', undefined, requestId),
+        { status: 400, headers: CORS_HEADERS }
+      );
     }
 
-    // Generate unique filename
-    const timestamp = Date.now();
-    const fileExtension = file.name.split('.').pop();
-    const fileName = `project-${projectId}-${timestamp}.${fileExtension}`;
-    const filePath = join(uploadsDir, fileName);
+    const file = data.get('file');
+    if (!(file instanceof File) || file.size === 0) {
+      return NextResponse.json(createErrorResponse('No file received', undefined, requestId), {
+        status: 400,
+        headers: CORS_HEADERS,
+      });
+    }
+
+    // Empty form fields mean "not provided"
+    const fields = Object.fromEntries(
+      ['projectId', 'alternativeText', 'caption', 'imageType'].flatMap((name) => {
+        const value = data.get(name);
+        return typeof value === 'string' && value.trim() !== '' ? [[name, value]] : [];
+      })
+    );
 
-    // Write the file
-    await writeFile(filePath, buffer);
+    const validation = uploadFormSchema.safeParse(fields);
+    if (!validation.success) {
+      const validationErrors = toValidationErrors(validation.error.issues);
+      apiLogger.logWarning(requestId, 'Validation failed for upload', { validationErrors });
 
-    // Return the public URL
-    const publicUrl = `/uploads/${fileName}`;
+      return NextResponse.json(
+        createErrorResponse('Validation failed', validationErrors, requestId),
+        { status: 400, headers: CORS_HEADERS }
+      );
+    }
 
-    return NextResponse.json({
-      success: true,
-      url: publicUrl,
-      fileName: fileName,
+    const { projectId, ...details } = validation.data;
+    const record = await saveUpload({
+      buffer: Buffer.from(await file.arrayBuffer()),
+      originalName: file.name,
+      owner: await getRequestActor(request),
+      projectId,
     });
+
+    // Images come back as a ready-to-save `ProjectImage`; PDFs only have the record
+    const image = record.width
+      ? toProjectImage(record, details, request.nextUrl.origin)
+      : undefined;
+
+    const duration = Date.now() - startTime;
+    apiLogger.logResponse(requestId, 201, duration, `Stored upload ${record.id}`);
+
+    return NextResponse.json(
+      createApiResponse({ upload: record, image }, true, 'File uploaded successfully', requestId),
+      { status: 201, headers: CORS_HEADERS }
+    );
   } catch (error) {
-    console.error('Upload error:', error);
-    return NextResponse.json({ error: 'Failed to upload file' }, { status: 500 });
+    const duration = Date.now() - startTime;
+
+    if (error instanceof UploadRejectedError) {
+      apiLogger.logResponse(requestId, error.status, duration, error.message);
+
+      return NextResponse.json(createErrorResponse(error.message, undefined, requestId), {
+        status: error.status,
+        headers: CORS_HEADERS,
+      });
+    }
+
+    apiLogger.logError(requestId, error as Error, { duration });
+    apiLogger.logResponse(requestId, 500, duration, 'Failed to upload file');
+
+    return NextResponse.json(createErrorResponse('Failed to upload file', undefined, requestId), {
+      status: 500,
+      headers: CORS_HEADERS,
+    });
   }
 }
 
-export async function DELETE(request: NextRequest) {
+/**
+ * DELETE /api/upload
+ *
+ * Delete an upload and its metadata record. Only the actor that uploaded a file may delete it.
+ *
+ * @param request - Next.js request object
+ * @returns The deleted upload's record
+ *
+ * @example
+ * DELETE /api/upload
+ * Body: { "id": "<upload id>" }
+ */
+export async function DELETE(request: NextRequest): Promise<NextResponse> {
+  const rateLimited = await enforceSharedRateLimit(request);
+  if (rateLimited) return rateLimited;
+
+  const startTime = Date.now();
+  const requestId = apiLogger.logRequest(request, undefined, 'delete_upload');
+
   try {
-    const body = await request.json();
-    const { fileName } = body;
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        createErrorResponse('Invalid JSON in request body', undefined, requestId),
+        { status: 400, headers: CORS_HEADERS }
+      );
+    }
 
-    if (!fileName) {
-      return NextResponse.json({ error: 'File name required' }, { status: 400 });
+    const validation = uploadDeleteRequestSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        createErrorResponse(
+          'Validation failed',
+          toValidationErrors(validation.error.issues),
+          requestId
+        ),
+        { status: 400, headers: CORS_HEADERS }
+      );
     }
 
-    const _filePath = join(process.cwd(), 'public', 'uploads', fileName);
+    const record = await deleteUpload(validation.data.id, await getRequestActor(request));
 
-    // In a real implementation, you'd delete the file from filesystem
-    // For now, we'll just return success
-    // await unlink(_filePath);
+    const duration = Date.now() - startTime;
+    apiLogger.logResponse(requestId, 200, duration, `Deleted upload ${record.id}`);
 
-    return NextResponse.json({ success: true });
+    return NextResponse.json(
+      createApiResponse(record, true, 'File deleted successfully', requestId),
+      { status: 200, headers: CORS_HEADERS }
+    );
   } catch (error) {
-    console.error('Delete error:', error);
-    return NextResponse.json({ error: 'Failed to delete file' }, { status: 500 });
+    const duration = Date.now() - startTime;
+
+    if (error instanceof UploadNotFoundError || error instanceof UploadOwnershipError) {
+      const status = error instanceof UploadNotFoundError ? 404 : 403;
+      apiLogger.logResponse(requestId, status, duration, error.message);
+
+      return NextResponse.json(createErrorResponse(error.message, undefined, requestId), {
+        status,
+        headers: CORS_HEADERS,
+      });
+    }
+
+    apiLogger.logError(requestId, error as Error, { duration });
+    apiLogger.logResponse(requestId, 500, duration, 'Failed to delete file');
+
+    return NextResponse.json(createErrorResponse('Failed to delete file', undefined, requestId), {
+      status: 500,
+      headers: CORS_HEADERS,
+    });
   }
 }
@@ -0,0 +1,176 @@
+import { notFound } from 'next/navigation';
+import Link from 'next/link';
+import { CalendarPlus, CheckCircle2, XCircle } from 'lucide-react';
+
+import BookingManager from '@/app/components/BookingManager';
+import { isBeforeChangeCutoff, verifyRequestBookingToken } from '@/lib/booking-token';
+import { cms } from '@/lib/cms-client';
+import { BOOKING_CHANGE_CUTOFF_HOURS, BOOKING_TIMEZONE } from '@/lib/env';
+import { getTimeZoneLabel, zonedTimeToUtc } from '@/lib/timezones';
+
+export const metadata = {
+  title: 'Booking Confirmed | Jacob Creations',
+  description: 'Your meeting is booked',
+  robots: { index: false, follow: false },
+};
+
+const formatInZone = (instant: Date, timeZone: string) =>
+  `${new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).format(instant)} ${getTimeZoneLabel(instant, timeZone)}`;
+
+export default async function BookingConfirmedPage({
+  params,
+}: {
+  params: Promise<{ token: string }>;
+}) {
+  const { token } = await params;
+  const verification = await verifyRequestBookingToken(token);
+
+  if (!verification.valid) {
+    if (verification.reason === 'expired') {
+      return (
+        <main className="min-h-screen" style={{ background: 'var(--dark-bg)' }}>
+          <section className="content-section flex min-h-screen items-center justify-center px-4">
+            <div className="glowing-border bg-dark-500/80 w-full max-w-2xl rounded-lg p-12 text-center">
+              <h1 className="text-cyber-cyan mb-4 font-mono text-2xl font-bold">
+                [ LINK_EXPIRED ]
+              </h1>
+              <p className="font-mono text-sm text-gray-400">
+                This meeting has already taken place.
+              </p>
+            </div>
+          </section>
+        </main>
+      );
+    }
+    notFound();
+  }
+
+  // The token is a snapshot; prefer the booking's current state when the CMS is reachable
+  const live = await cms.bookings.get(verification.booking.id, verification.booking.email);
+  const booking = live.success
+    ? {
+        ...verification.booking,
+        ...live.data.booking,
+        startsAt: zonedTimeToUtc(
+          live.data.booking.date,
+          live.data.booking.time,
+          BOOKING_TIMEZONE
+        ).toISOString(),
+        hostTimeZone: BOOKING_TIMEZONE,
+        // Bookings made before the CMS stored the visitor's zone only have the link's
+        timeZone: live.data.booking.timeZone || verification.booking.timeZone,
+      }
+    : { ...verification.booking, status: 'confirmed' as const };
+  const startsAt = new Date(booking.startsAt);
+  const showHostTime = booking.hostTimeZone !== booking.timeZone;
+  const cancelled = booking.status === 'cancelled';
+
+  return (
+    <main className="min-h-screen" style={{ background: 'var(--dark-bg)' }}>
+      <section className="content-section flex min-h-screen items-center justify-center px-4">
+        <div className="w-full max-w-2xl">
+          <div className="glowing-border bg-dark-500/80 rounded-lg p-8 text-center backdrop-blur-sm sm:p-12">
+            {cancelled ? (
+              <>
+                <div className="text-error mb-6 flex justify-center">
+                  <XCircle className="h-20 w-20" />
+                </div>
+                <h1 className="text-error mb-8 font-mono text-3xl font-bold">
+                  [ BOOKING_CANCELLED ]
+                </h1>
+              </>
+            ) : (
+              <>
+                <div className="text-success mb-6 flex justify-center">
+                  <CheckCircle2 className="h-20 w-20" />
+                </div>
+                <h1 className="text-success mb-8 font-mono text-3xl font-bold">
+                  [ BOOKING_CONFIRMED ]
+                </h1>
+              </>
+            )}
+
+            <dl className="text-cyber-cyan space-y-3 text-left font-mono">
+              <div>
+                <dt className="inline text-gray-400">WHEN:</dt>{' '}
+                <dd className="inline">{formatInZone(startsAt, booking.timeZone)}</dd>
+              </div>
+              {showHostTime && (
+                <div>
+                  <dt className="inline text-gray-400">HOST_TIME:</dt>{' '}
+                  <dd className="inline">{formatInZone(startsAt, booking.hostTimeZone)}</dd>
+                </div>
+              )}
+              <div>
+                <dt className="inline text-gray-400">DURATION:</dt>{' '}
+                <dd className="inline">{booking.duration} MIN</dd>
+              </div>
+              <div>
+                <dt className="inline text-gray-400">NAME:</dt>{' '}
+                <dd className="inline">{booking.name}</dd>
+              </div>
+              <div>
+                <dt className="inline text-gray-400">EMAIL:</dt>{' '}
+                <dd className="inline">{booking.email}</dd>
+              </div>
+              {booking.meetingLink && (
+                <div>
+                  <dt className="inline text-gray-400">MEETING:</dt>{' '}
+                  <dd className="inline break-all">
+                    <a href={booking.meetingLink} className="underline">
+                      {booking.meetingLink}
+                    </a>
+                  </dd>
+                </div>
+              )}
+            </dl>
+
+            {!cancelled && live.success && (
+              <BookingManager
+                token={token}
+                duration={booking.duration}
+                meetingType={booking.meetingType}
+                timeZone={booking.timeZone}
+                canChange={
+                  booking.status === 'confirmed' &&
+                  isBeforeChangeCutoff(booking.startsAt, BOOKING_CHANGE_CUTOFF_HOURS)
+                }
+                changeCutoffHours={BOOKING_CHANGE_CUTOFF_HOURS}
+              />
+            )}
+
+            <div className="mt-10 flex flex-col gap-4 sm:flex-row sm:justify-center">
+              {!cancelled && (
+                <a
+                  href={`/api/bookings/${token}/ics`}
+                  className="from-cyber-cyan to-cyber-blue hover:shadow-glow flex items-center justify-center gap-2 rounded-lg bg-gradient-to-r px-6 py-3 font-mono font-bold text-black transition-all"
+                >
+                  <CalendarPlus className="h-5 w-5" />[ ADD_TO_CALENDAR ]
+                </a>
+              )}
+              <Link
+                href="/"
+                className="border-cyber-cyan/30 text-cyber-cyan hover:bg-cyber-cyan/20 rounded-lg border px-6 py-3 font-mono transition-all"
+              >
+                [ BACK_HOME ]
+              </Link>
+            </div>
+
+            <p className="mt-8 font-mono text-xs text-gray-500">
+              Bookmark this page: its link is your reference for this booking.
+            </p>
+          </div>
+        </div>
+      </section>
+    </main>
+  );
+}
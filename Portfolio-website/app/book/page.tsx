@@ -5,10 +5,17 @@ export const metadata = {
   description: 'Schedule a consultation to discuss your project needs',
 };
 
-export default function BookingPage() {
+export default async function BookingPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ claim?: string | string[] }>;
+}) {
+  // Waitlist offer emails link here with `?claim=<token>`
+  const { claim } = await searchParams;
+
   return (
     <main className="min-h-screen" style={{ background: 'var(--dark-bg)' }}>
-      <BookingCalendar />
+      <BookingCalendar claimToken={typeof claim === 'string' ? claim : undefined} />
     </main>
   );
 }
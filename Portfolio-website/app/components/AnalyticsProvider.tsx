@@ -1,12 +1,46 @@
 'use client';
 
+import { useEffect } from 'react';
+import { useReportWebVitals } from 'next/web-vitals';
+
+import { useConsent } from '@/context/ConsentContext';
+import { discardBrowserAnalyticsEvents } from '@/lib/analytics-queue';
+import { consentCategoryFor, installErrorHandlers, reportWebVital } from '@/lib/telemetry';
 import { useAnalytics, useScrollTracking, useTimeTracking } from '../hooks/useAnalytics';
 
-export default function AnalyticsProvider({ children }: { children: React.ReactNode }) {
+function AnalyticsTracker() {
   // Initialize analytics tracking
   useAnalytics();
   useScrollTracking();
   useTimeTracking();
 
-  return <>{children}</>;
+  return null;
+}
+
+function TelemetryTracker() {
+  useReportWebVitals(reportWebVital);
+  useEffect(() => installErrorHandlers(), []);
+
+  return null;
+}
+
+/**
+ * Tracks usage (page views, scroll depth, time on page) and performance (web vitals, uncaught
+ * errors) in whichever categories the visitor allows
+ */
+export default function AnalyticsProvider({ children }: { children: React.ReactNode }) {
+  const { preferences } = useConsent();
+
+  // Unsent events of a category the visitor just turned off are dropped
+  useEffect(() => {
+    discardBrowserAnalyticsEvents((event) => !preferences[consentCategoryFor(event.event_type)]);
+  }, [preferences]);
+
+  return (
+    <>
+      {preferences.analytics && <AnalyticsTracker />}
+      {preferences.performance && <TelemetryTracker />}
+      {children}
+    </>
+  );
 }
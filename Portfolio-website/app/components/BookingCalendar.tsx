@@ -1,7 +1,29 @@
 'use client';
 
-import React, { useState, useEffect, useCallback } from 'react';
-import { Calendar, Clock, Mail, User, CheckCircle2, AlertCircle, Zap } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  Calendar,
+  Clock,
+  Mail,
+  User,
+  CheckCircle2,
+  AlertCircle,
+  Zap,
+  Video,
+  Phone,
+  ListPlus,
+} from 'lucide-react';
+
+import IntakeFields from '@/app/components/IntakeFields';
+import type { IntakeAnswers } from '@/lib/intake-questions';
+import { getTimeZoneLabel, toDateKey } from '@/lib/timezones';
+import type {
+  BookingAvailabilityRangeResponse,
+  BookingDaySummary,
+  BookingSlot,
+} from '@/lib/types';
+import type { BookingHold, MeetingType, WaitlistOffer } from '@/lib/validations';
 
 interface WorkingHours {
   start: string;
@@ -13,47 +35,166 @@ interface AvailabilityData {
   isAvailable: boolean;
   workingHours: WorkingHours[];
   availableSlots: string[];
+  slots: BookingSlot[];
   bookedCount: number;
   blockedCount: number;
   reason?: string;
+  timeZone: string;
+  visitorTimeZone: string;
 }
 
-const MEETING_TYPES = [
-  { value: '30min', label: '30 MIN SESSION', duration: 30 },
-  { value: '60min', label: '60 MIN SESSION', duration: 60 },
-  { value: '90min', label: '90 MIN SESSION', duration: 90 },
-];
+interface BookingCalendarProps {
+  /** Claim token from a waitlist offer email */
+  claimToken?: string;
+}
 
-export default function BookingCalendar() {
+/**
+ * Heat-map shade for an open day by the share of its slots still free
+ */
+const getCapacityClass = (day: BookingDaySummary) => {
+  const remaining = day.totalSlots > 0 ? day.availableSlots / day.totalSlots : 0;
+  if (remaining > 0.66) return 'bg-cyber-cyan/30 text-white';
+  if (remaining > 0.33) return 'bg-cyber-cyan/15 text-gray-200';
+  return 'bg-warning/15 text-gray-300';
+};
+
+const getVisitorTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+/**
+ * `M:SS` countdown for the remaining hold time
+ */
+const formatCountdown = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+/**
+ * `HH:MM ZONE` for a slot, e.g. `15:00 CET`, in either the visitor's or the host's zone
+ */
+const formatSlotTime = (slot: BookingSlot, timeZone: string, side: 'visitor' | 'host') => {
+  const time = side === 'visitor' ? slot.visitorTime : slot.time;
+  return `${time} ${getTimeZoneLabel(new Date(slot.startsAt), timeZone)}`;
+};
+
+export default function BookingCalendar({ claimToken }: BookingCalendarProps) {
+  const router = useRouter();
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
-  const [selectedTime, setSelectedTime] = useState<string | null>(null);
+  const [selectedSlot, setSelectedSlot] = useState<BookingSlot | null>(null);
+  const [hold, setHold] = useState<BookingHold | null>(null);
+  const [holdSecondsLeft, setHoldSecondsLeft] = useState(0);
+  // Availability lookups read the current hold without refetching whenever it changes
+  const holdIdRef = useRef<string | null>(null);
+  const [claimOffer, setClaimOffer] = useState<(WaitlistOffer & { startsAt: string }) | null>(
+    null,
+  );
+  const [waitlistPosition, setWaitlistPosition] = useState<number | null>(null);
+  const [joiningWaitlist, setJoiningWaitlist] = useState(false);
   const [availability, setAvailability] = useState<AvailabilityData | null>(null);
   const [loadingAvailability, setLoadingAvailability] = useState(false);
   const [formData, setFormData] = useState({
     name: '',
     email: '',
     phone: '',
-    meetingType: '30min',
+    meetingType: '',
     notes: '',
   });
+  const [meetingTypes, setMeetingTypes] = useState<MeetingType[]>([]);
+  const [answers, setAnswers] = useState<IntakeAnswers>({});
   const [currentMonth, setCurrentMonth] = useState(new Date());
+  const [monthAvailability, setMonthAvailability] = useState<Record<string, BookingDaySummary>>(
+    {},
+  );
   const [loading, setLoading] = useState(false);
   const [submitted, setSubmitted] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const meetingTypes = MEETING_TYPES;
+  const selectedMeetingType = meetingTypes.find((t) => t.slug === formData.meetingType);
+
+  // Load the meeting-type catalog and preselect the first type
+  useEffect(() => {
+    const controller = new AbortController();
+
+    fetch('/api/bookings/meeting-types', { signal: controller.signal })
+      .then((response) => {
+        if (!response.ok) throw new Error('Failed to fetch meeting types');
+        return response.json() as Promise<{ meetingTypes: MeetingType[] }>;
+      })
+      .then((data) => {
+        setMeetingTypes(data.meetingTypes);
+        setFormData((current) =>
+          data.meetingTypes.some((t) => t.slug === current.meetingType)
+            ? current
+            : { ...current, meetingType: data.meetingTypes[0]?.slug ?? '' },
+        );
+      })
+      .catch((err: unknown) => {
+        if (controller.signal.aborted) return;
+        console.error('Error fetching meeting types:', err);
+        setError('❌ CONNECTION_FAILED: Unable to reach booking server');
+      });
+
+    return () => controller.abort();
+  }, []);
+
+  // Open the slot offered by a waitlist claim link, held under the offer's hold
+  useEffect(() => {
+    if (!claimToken) return;
+
+    const controller = new AbortController();
+
+    fetch(`/api/bookings/waitlist/${encodeURIComponent(claimToken)}`, {
+      signal: controller.signal,
+    })
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Offer not found or expired');
+        return data.offer as WaitlistOffer & { startsAt: string };
+      })
+      .then((offer) => {
+        const [year, month, day] = offer.date.split('-').map(Number);
+        const date = new Date(year, month - 1, day);
+
+        holdIdRef.current = offer.holdId;
+        setHold({
+          id: offer.holdId,
+          date: offer.date,
+          time: offer.time,
+          duration: offer.duration,
+          expiresAt: offer.expiresAt,
+        });
+        setClaimOffer(offer);
+        setFormData((current) => ({
+          ...current,
+          name: offer.name,
+          email: offer.email,
+          meetingType: offer.meetingType,
+        }));
+        setCurrentMonth(date);
+        setSelectedDate(date);
+      })
+      .catch((err: unknown) => {
+        if (controller.signal.aborted) return;
+        const message = err instanceof Error ? err.message : 'Offer not found or expired';
+        setError(`❌ CLAIM_UNAVAILABLE: ${message}`);
+      });
+
+    return () => controller.abort();
+  }, [claimToken]);
 
   const fetchAvailability = useCallback(async (date: Date) => {
+    if (!formData.meetingType) return;
+
     setLoadingAvailability(true);
-    setSelectedTime(null);
+    setSelectedSlot(null);
+    setWaitlistPosition(null);
     setError(null);
 
     try {
-      const dateStr = date.toISOString().split('T')[0];
-      const duration = meetingTypes.find((t) => t.value === formData.meetingType)?.duration || 30;
+      const dateStr = toDateKey(date);
+      const timeZone = encodeURIComponent(getVisitorTimeZone());
+      const meetingType = encodeURIComponent(formData.meetingType);
+      const holdParam = holdIdRef.current ? `&holdId=${holdIdRef.current}` : '';
 
       const response = await fetch(
-        `/api/bookings/availability/${dateStr}?duration=${duration}`
+        `/api/bookings/availability/${dateStr}?meetingType=${meetingType}&timeZone=${timeZone}${holdParam}`
       );
 
       if (!response.ok) throw new Error('Failed to fetch availability');
@@ -66,7 +207,158 @@ export default function BookingCalendar() {
     } finally {
       setLoadingAvailability(false);
     }
-  }, [formData.meetingType, meetingTypes]);
+  }, [formData.meetingType]);
+
+  // Load per-day capacity for the visible month (from today onwards)
+  useEffect(() => {
+    if (!formData.meetingType) return;
+
+    const meetingType = encodeURIComponent(formData.meetingType);
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const firstDay = new Date(currentMonth.getFullYear(), currentMonth.getMonth(), 1);
+    const lastDay = new Date(currentMonth.getFullYear(), currentMonth.getMonth() + 1, 0);
+
+    if (lastDay < today) {
+      setMonthAvailability({});
+      return;
+    }
+
+    const from = toDateKey(firstDay < today ? today : firstDay);
+    const to = toDateKey(lastDay);
+    const controller = new AbortController();
+
+    fetch(`/api/bookings/availability?from=${from}&to=${to}&meetingType=${meetingType}`, {
+      signal: controller.signal,
+    })
+      .then((response) => {
+        if (!response.ok) throw new Error('Failed to fetch month availability');
+        return response.json() as Promise<BookingAvailabilityRangeResponse>;
+      })
+      .then((data) => {
+        setMonthAvailability(Object.fromEntries(data.days.map((day) => [day.date, day])));
+      })
+      .catch((err: unknown) => {
+        if (controller.signal.aborted) return;
+        // Days stay selectable and fall back to the per-day lookup
+        console.error('Error fetching month availability:', err);
+        setMonthAvailability({});
+      });
+
+    return () => controller.abort();
+  }, [currentMonth, formData.meetingType]);
+
+  useEffect(() => {
+    holdIdRef.current = hold?.id ?? null;
+  }, [hold]);
+
+  // Count down the hold and release the selection once it lapses
+  useEffect(() => {
+    if (!hold) return;
+
+    const tick = () => {
+      const secondsLeft = Math.max(
+        0,
+        Math.ceil((new Date(hold.expiresAt).getTime() - Date.now()) / 1000),
+      );
+      setHoldSecondsLeft(secondsLeft);
+      if (secondsLeft > 0) return;
+
+      setHold(null);
+      setClaimOffer(null);
+      holdIdRef.current = null;
+      setError('⏱ HOLD_EXPIRED: Select a time again');
+      if (selectedDate) fetchAvailability(selectedDate);
+    };
+
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [fetchAvailability, hold, selectedDate]);
+
+  /**
+   * Select a slot and hold it while the visitor fills in the form. A failed hold keeps the
+   * selection; the booking itself still checks the slot.
+   */
+  const selectSlot = async (slot: BookingSlot) => {
+    if (!selectedDate || !selectedMeetingType) return;
+
+    setSelectedSlot(slot);
+    setClaimOffer(null);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/bookings/hold', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          date: toDateKey(selectedDate),
+          time: slot.time,
+          startsAt: slot.startsAt,
+          meetingType: selectedMeetingType.slug,
+          ...(holdIdRef.current ? { holdId: holdIdRef.current } : {}),
+        }),
+      });
+
+      if (response.status === 409) {
+        setError('❌ SLOT_TAKEN: Someone else just picked this time');
+        fetchAvailability(selectedDate);
+        return;
+      }
+      if (!response.ok) throw new Error('Failed to hold time slot');
+
+      const data: { hold: BookingHold } = await response.json();
+      holdIdRef.current = data.hold.id;
+      setHold(data.hold);
+    } catch (err: unknown) {
+      console.error('Error holding time slot:', err);
+    }
+  };
+
+  // Keep the claimed slot selected across availability refreshes until the visitor picks another
+  useEffect(() => {
+    if (
+      !claimOffer ||
+      selectedSlot ||
+      availability?.date !== claimOffer.date ||
+      formData.meetingType !== claimOffer.meetingType
+    ) {
+      return;
+    }
+
+    const slot = availability.slots.find(({ startsAt }) => startsAt === claimOffer.startsAt);
+    if (slot) setSelectedSlot(slot);
+  }, [availability, claimOffer, formData.meetingType, selectedSlot]);
+
+  const joinWaitlist = async () => {
+    if (!selectedDate || !selectedMeetingType) return;
+
+    setJoiningWaitlist(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/bookings/waitlist', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: formData.name,
+          email: formData.email,
+          date: toDateKey(selectedDate),
+          meetingType: selectedMeetingType.slug,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to join waitlist');
+
+      setWaitlistPosition(data.entry.position);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Unexpected error';
+      setError(`❌ WAITLIST_FAILED: ${message}`);
+    } finally {
+      setJoiningWaitlist(false);
+    }
+  };
 
   // Fetch availability when date or meeting type changes
   useEffect(() => {
@@ -97,13 +389,14 @@ export default function BookingCalendar() {
     if (!date) return false;
     const today = new Date();
     today.setHours(0, 0, 0, 0);
-    const day = date.getDay();
-    return date >= today && day !== 0 && day !== 6;
+    const summary = monthAvailability[toDateKey(date)];
+    // Full days stay selectable so visitors can join their waitlist
+    return date >= today && (!summary || summary.status !== 'closed');
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!selectedDate || !selectedTime) return;
+    if (!selectedDate || !selectedSlot || !selectedMeetingType) return;
 
     setLoading(true);
     setError(null);
@@ -111,9 +404,13 @@ export default function BookingCalendar() {
     try {
       const bookingData = {
         ...formData,
-        date: selectedDate.toISOString().split('T')[0],
-        time: selectedTime,
-        duration: meetingTypes.find((t) => t.value === formData.meetingType)?.duration || 30,
+        date: toDateKey(selectedDate),
+        time: selectedSlot.time,
+        startsAt: selectedSlot.startsAt,
+        timeZone: getVisitorTimeZone(),
+        duration: selectedMeetingType.duration,
+        answers,
+        ...(hold ? { holdId: hold.id } : {}),
       };
 
       const response = await fetch('/api/bookings', {
@@ -127,18 +424,26 @@ export default function BookingCalendar() {
         throw new Error(errorData.error || 'Failed to create booking');
       }
 
+      const confirmation: { confirmationUrl?: string } = await response.json();
+      if (confirmation.confirmationUrl) {
+        router.push(confirmation.confirmationUrl);
+        return;
+      }
+
       setSubmitted(true);
       setTimeout(() => {
         setSubmitted(false);
         setSelectedDate(null);
-        setSelectedTime(null);
+        setSelectedSlot(null);
+        setHold(null);
         setFormData({
           name: '',
           email: '',
           phone: '',
-          meetingType: '30min',
+          meetingType: meetingTypes[0]?.slug ?? '',
           notes: '',
         });
+        setAnswers({});
       }, 5000);
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : 'Unexpected error';
@@ -168,6 +473,10 @@ export default function BookingCalendar() {
   ];
   const dayNames = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
 
+  // Only show the host's clock when it differs from the visitor's
+  const showHostTime =
+    availability !== null && availability.timeZone !== availability.visitorTimeZone;
+
   if (submitted) {
     return (
       <section className="content-section flex min-h-screen items-center justify-center">
@@ -184,8 +493,17 @@ export default function BookingCalendar() {
                 <span className="text-gray-400">DATE:</span> {selectedDate?.toLocaleDateString()}
               </p>
               <p>
-                <span className="text-gray-400">TIME:</span> {selectedTime}
+                <span className="text-gray-400">TIME:</span>{' '}
+                {selectedSlot && availability
+                  ? formatSlotTime(selectedSlot, availability.visitorTimeZone, 'visitor')
+                  : null}
               </p>
+              {selectedSlot && availability && showHostTime && (
+                <p>
+                  <span className="text-gray-400">HOST_TIME:</span>{' '}
+                  {formatSlotTime(selectedSlot, availability.timeZone, 'host')}
+                </p>
+              )}
               <p>
                 <span className="text-gray-400">EMAIL:</span> {formData.email}
               </p>
@@ -238,23 +556,42 @@ export default function BookingCalendar() {
               {/* Meeting Type Selector */}
               <div>
                 <label className="text-cyber-cyan mb-4 block font-mono text-sm font-semibold">
-                  [ SELECT_DURATION ]
+                  [ SELECT_SESSION ]
                 </label>
                 <div className="space-y-3">
+                  {meetingTypes.length === 0 && !error && (
+                    <div className="py-4 text-center font-mono text-sm text-gray-500">
+                      LOADING_SESSIONS...
+                    </div>
+                  )}
                   {meetingTypes.map((type) => (
                     <button
-                      key={type.value}
-                      onClick={() => setFormData({ ...formData, meetingType: type.value })}
-                      className={`w-full rounded p-4 font-mono text-sm transition-all ${
-                        formData.meetingType === type.value
+                      key={type.slug}
+                      onClick={() => {
+                        // Each type has its own intake form
+                        if (type.slug !== formData.meetingType) setAnswers({});
+                        setFormData({ ...formData, meetingType: type.slug });
+                      }}
+                      className={`w-full rounded p-4 text-left font-mono text-sm transition-all ${
+                        formData.meetingType === type.slug
                           ? 'bg-cyber-cyan/20 border-cyber-cyan text-cyber-cyan shadow-glow border-2'
                           : 'bg-dark-400/50 hover:border-cyber-cyan/50 border border-gray-700 text-gray-400'
                       }`}
                     >
                       <div className="flex items-center justify-between">
-                        <span>[ {type.label} ]</span>
-                        <Clock className="h-5 w-5" />
+                        <span>[ {type.name.toUpperCase()} ]</span>
+                        <span className="flex items-center gap-2">
+                          {type.duration} MIN
+                          {type.locationType === 'phone' ? (
+                            <Phone className="h-5 w-5" />
+                          ) : (
+                            <Video className="h-5 w-5" />
+                          )}
+                        </span>
                       </div>
+                      {type.description && (
+                        <p className="mt-2 text-xs text-gray-500">{type.description}</p>
+                      )}
                     </button>
                   ))}
                 </div>
@@ -302,12 +639,20 @@ export default function BookingCalendar() {
                     const isAvailable = isDateAvailable(date);
                     const isSelected =
                       selectedDate && date && date.toDateString() === selectedDate.toDateString();
+                    const summary = date ? monthAvailability[toDateKey(date)] : undefined;
 
                     return (
                       <button
                         key={idx}
                         onClick={() => date && isAvailable && setSelectedDate(date)}
                         disabled={!isAvailable}
+                        title={
+                          summary?.status === 'open'
+                            ? `${summary.availableSlots} of ${summary.totalSlots} slots free`
+                            : summary?.status === 'full'
+                              ? 'Fully booked - join the waitlist'
+                              : summary?.reason
+                        }
                         className={`aspect-square rounded p-2 font-mono text-sm font-bold transition-all ${
                           !date
                             ? 'invisible'
@@ -315,7 +660,9 @@ export default function BookingCalendar() {
                               ? 'bg-dark-400/30 cursor-not-allowed text-gray-700'
                               : isSelected
                                 ? 'bg-cyber-cyan shadow-glow border-cyber-cyan border-2 text-black'
-                                : 'bg-dark-400/50 hover:bg-cyber-cyan/20 hover:border-cyber-cyan border border-gray-700 text-gray-300'
+                                : summary?.status === 'full'
+                                  ? 'bg-error/10 hover:border-error border border-gray-700 text-gray-600 line-through'
+                                  : `${summary ? getCapacityClass(summary) : 'bg-dark-400/50 text-gray-300'} hover:bg-cyber-cyan/20 hover:border-cyber-cyan border border-gray-700`
                         }`}
                       >
                         {date?.getDate()}
@@ -323,6 +670,18 @@ export default function BookingCalendar() {
                     );
                   })}
                 </div>
+
+                <div className="mt-4 flex flex-wrap gap-4 font-mono text-xs text-gray-500">
+                  <span className="flex items-center gap-2">
+                    <span className="bg-cyber-cyan/30 h-3 w-3 rounded" /> OPEN
+                  </span>
+                  <span className="flex items-center gap-2">
+                    <span className="bg-warning/15 h-3 w-3 rounded" /> FILLING_UP
+                  </span>
+                  <span className="flex items-center gap-2">
+                    <span className="bg-error/10 h-3 w-3 rounded" /> FULLY_BOOKED
+                  </span>
+                </div>
               </div>
 
               {/* Availability Display */}
@@ -383,28 +742,70 @@ export default function BookingCalendar() {
               )}
 
               {/* Time Slots */}
-              {availability && availability.availableSlots.length > 0 && (
+              {availability && availability.slots.length > 0 && (
                 <div>
-                  <h4 className="text-cyber-cyan mb-4 flex items-center gap-2 font-mono text-sm font-bold">
+                  <h4 className="text-cyber-cyan mb-2 flex items-center gap-2 font-mono text-sm font-bold">
                     <Clock className="h-5 w-5" />[ SELECT_TIME ]
                   </h4>
+                  <p className="mb-4 font-mono text-xs text-gray-500">
+                    TIMES_IN: {availability.visitorTimeZone}
+                    {showHostTime && <> | HOST: {availability.timeZone}</>}
+                  </p>
                   <div className="custom-scrollbar grid max-h-60 grid-cols-3 gap-2 overflow-y-auto">
-                    {availability.availableSlots.map((time) => (
+                    {availability.slots.map((slot) => (
                       <button
-                        key={time}
-                        onClick={() => setSelectedTime(time)}
+                        key={slot.startsAt}
+                        onClick={() => selectSlot(slot)}
                         className={`rounded p-3 font-mono text-sm font-bold transition-all ${
-                          selectedTime === time
+                          selectedSlot?.startsAt === slot.startsAt
                             ? 'bg-cyber-magenta shadow-glow-magenta border-cyber-magenta border-2 text-white'
                             : 'bg-dark-400/50 hover:bg-cyber-magenta/20 hover:border-cyber-magenta border border-gray-700 text-gray-400'
                         }`}
                       >
-                        {time}
+                        {slot.visitorTime}
+                        {slot.visitorDate !== availability.date && (
+                          <span className="text-xs"> ({slot.visitorDate.slice(5)})</span>
+                        )}
+                        {showHostTime && (
+                          <span className="block text-xs font-normal text-gray-500">
+                            {formatSlotTime(slot, availability.timeZone, 'host')}
+                          </span>
+                        )}
                       </button>
                     ))}
                   </div>
                 </div>
               )}
+
+              {/* Waitlist for a fully booked day */}
+              {availability && availability.isAvailable && availability.slots.length === 0 && (
+                <div className="border-warning/40 bg-warning/5 rounded-lg border-2 p-6">
+                  <h4 className="text-warning mb-2 flex items-center gap-2 font-mono text-sm font-bold">
+                    <ListPlus className="h-5 w-5" />[ FULLY_BOOKED ]
+                  </h4>
+                  {waitlistPosition !== null ? (
+                    <p className="font-mono text-sm text-gray-300">
+                      &gt; WAITLISTED: #{waitlistPosition} in line. If a booking is cancelled,
+                      you&apos;ll get an email with a link to claim the slot.
+                    </p>
+                  ) : (
+                    <>
+                      <p className="mb-4 font-mono text-xs text-gray-400">
+                        &gt; Join the waitlist with the name and email from the form. If a booking
+                        is cancelled, you&apos;ll get an email with a link to claim the slot.
+                      </p>
+                      <button
+                        type="button"
+                        onClick={joinWaitlist}
+                        disabled={joiningWaitlist || !formData.name.trim() || !formData.email.trim()}
+                        className="border-warning text-warning hover:bg-warning/10 w-full rounded border py-3 font-mono text-sm font-bold transition-all disabled:cursor-not-allowed disabled:opacity-30"
+                      >
+                        {joiningWaitlist ? 'JOINING...' : '[ JOIN_WAITLIST ]'}
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
             </div>
 
             {/* Right Column - Form */}
@@ -451,6 +852,14 @@ export default function BookingCalendar() {
                   />
                 </div>
 
+                {selectedMeetingType && (
+                  <IntakeFields
+                    questions={selectedMeetingType.intakeQuestions}
+                    answers={answers}
+                    onChange={(id, value) => setAnswers((current) => ({ ...current, [id]: value }))}
+                  />
+                )}
+
                 <div>
                   <label className="text-cyber-cyan mb-2 block font-mono text-sm font-semibold">
                     [ MESSAGE ] <span className="text-xs text-gray-500">(OPTIONAL)</span>
@@ -464,7 +873,7 @@ export default function BookingCalendar() {
                   />
                 </div>
 
-                {selectedDate && selectedTime && (
+                {selectedDate && selectedSlot && availability && (
                   <div className="bg-cyber-blue/10 border-cyber-blue/50 rounded-lg border-2 p-4">
                     <div className="text-cyber-blue mb-3 font-mono text-sm font-bold">
                       [ BOOKING_SUMMARY ]
@@ -483,16 +892,28 @@ export default function BookingCalendar() {
                       </div>
                       <div className="flex items-center gap-2">
                         <Clock className="text-cyber-blue h-4 w-4" />
-                        {selectedTime} (
-                        {meetingTypes.find((t) => t.value === formData.meetingType)?.duration} MIN)
+                        {formatSlotTime(selectedSlot, availability.visitorTimeZone, 'visitor')} (
+                        {selectedMeetingType?.duration} MIN)
                       </div>
+                      {showHostTime && (
+                        <div className="pl-6 text-gray-400">
+                          HOST: {formatSlotTime(selectedSlot, availability.timeZone, 'host')}
+                        </div>
+                      )}
+                      {hold?.date === toDateKey(selectedDate) &&
+                        hold.time === selectedSlot.time &&
+                        holdSecondsLeft > 0 && (
+                          <div className="text-cyber-magenta pl-6 text-xs">
+                            SLOT_HELD: {formatCountdown(holdSecondsLeft)} LEFT
+                          </div>
+                        )}
                     </div>
                   </div>
                 )}
 
                 <button
                   type="submit"
-                  disabled={!selectedDate || !selectedTime || loading}
+                  disabled={!selectedDate || !selectedSlot || loading}
                   className="from-cyber-cyan to-cyber-blue hover:shadow-glow w-full rounded-lg bg-gradient-to-r py-4 font-mono font-bold text-black transition-all disabled:cursor-not-allowed disabled:opacity-30 disabled:hover:shadow-none"
                 >
                   {loading ? (
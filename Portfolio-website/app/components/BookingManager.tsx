@@ -0,0 +1,197 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { AlertCircle, CalendarClock, XCircle } from 'lucide-react';
+
+import { toDateKey } from '@/lib/timezones';
+import type { BookingAvailabilityResponse, BookingSlot } from '@/lib/types';
+
+interface BookingManagerProps {
+  /** Manage-link token */
+  token: string;
+  /** Minutes */
+  duration: number;
+  /** Catalog slug; its buffers apply when picking a new slot */
+  meetingType?: string | null;
+  /** Visitor's IANA time zone */
+  timeZone: string;
+  /** Whether the booking is still outside the change cutoff */
+  canChange: boolean;
+  changeCutoffHours: number;
+}
+
+/**
+ * Reschedule and cancel controls for the booking confirmation page
+ */
+export default function BookingManager({
+  token,
+  duration,
+  meetingType,
+  timeZone,
+  canChange,
+  changeCutoffHours,
+}: BookingManagerProps) {
+  const router = useRouter();
+  const [mode, setMode] = useState<'idle' | 'reschedule'>('idle');
+  const [date, setDate] = useState('');
+  const [availability, setAvailability] = useState<BookingAvailabilityResponse | null>(null);
+  const [selectedSlot, setSelectedSlot] = useState<BookingSlot | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!canChange) {
+    return (
+      <p className="mt-8 font-mono text-xs text-gray-500">
+        Changes close {changeCutoffHours} hours before the meeting. Reply to your confirmation email
+        if you need help.
+      </p>
+    );
+  }
+
+  const loadSlots = async (value: string) => {
+    setDate(value);
+    setSelectedSlot(null);
+    setAvailability(null);
+    setError(null);
+    if (!value) return;
+
+    try {
+      const params = new URLSearchParams({ duration: String(duration), timeZone, token });
+      if (meetingType) params.set('meetingType', meetingType);
+      const response = await fetch(`/api/bookings/availability/${value}?${params}`);
+      if (!response.ok) throw new Error('Failed to fetch availability');
+      setAvailability(await response.json());
+    } catch {
+      setError('❌ CONNECTION_FAILED: Unable to reach booking server');
+    }
+  };
+
+  const send = async (method: 'PATCH' | 'DELETE', body?: unknown) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/bookings/${token}`, {
+        method,
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Request failed');
+      }
+
+      if (data.confirmationUrl) {
+        router.push(data.confirmationUrl);
+      } else {
+        router.refresh();
+      }
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Unexpected error';
+      setError(`❌ ${method === 'DELETE' ? 'CANCEL' : 'RESCHEDULE'}_FAILED: ${message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCancel = () => {
+    if (window.confirm('Cancel this booking?')) {
+      void send('DELETE');
+    }
+  };
+
+  const handleReschedule = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedSlot) return;
+    void send('PATCH', { date, time: selectedSlot.time, startsAt: selectedSlot.startsAt });
+  };
+
+  return (
+    <div className="mt-10 text-left">
+      {error && (
+        <div className="bg-error/10 border-error/50 mb-6 flex items-start gap-3 rounded-lg border-2 p-4">
+          <AlertCircle className="text-error mt-0.5 h-5 w-5 flex-shrink-0" />
+          <div className="text-error font-mono text-sm">{error}</div>
+        </div>
+      )}
+
+      {mode === 'reschedule' ? (
+        <form onSubmit={handleReschedule} className="space-y-4">
+          <label className="text-cyber-cyan block font-mono text-sm font-semibold">
+            [ NEW_DATE ]
+            <input
+              type="date"
+              required
+              value={date}
+              min={toDateKey(new Date())}
+              onChange={(e) => void loadSlots(e.target.value)}
+              className="bg-dark-400/50 focus:border-cyber-cyan mt-2 block w-full rounded border border-gray-700 px-4 py-3 font-mono text-white focus:outline-none"
+            />
+          </label>
+
+          {availability && availability.slots.length === 0 && (
+            <p className="font-mono text-sm text-gray-400">[ NO_AVAILABILITY ]</p>
+          )}
+
+          {availability && availability.slots.length > 0 && (
+            <div className="custom-scrollbar grid max-h-60 grid-cols-3 gap-2 overflow-y-auto">
+              {availability.slots.map((slot) => (
+                <button
+                  type="button"
+                  key={slot.startsAt}
+                  onClick={() => setSelectedSlot(slot)}
+                  className={`rounded p-3 font-mono text-sm font-bold transition-all ${
+                    selectedSlot?.startsAt === slot.startsAt
+                      ? 'bg-cyber-magenta border-cyber-magenta border-2 text-white'
+                      : 'bg-dark-400/50 hover:border-cyber-magenta border border-gray-700 text-gray-400'
+                  }`}
+                >
+                  {slot.visitorTime}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="flex gap-4">
+            <button
+              type="submit"
+              disabled={!selectedSlot || loading}
+              className="from-cyber-cyan to-cyber-blue flex-1 rounded-lg bg-gradient-to-r py-3 font-mono font-bold text-black disabled:cursor-not-allowed disabled:opacity-30"
+            >
+              {loading ? 'PROCESSING...' : '[ CONFIRM_NEW_TIME ]'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setMode('idle')}
+              className="rounded-lg border border-gray-700 px-6 py-3 font-mono text-gray-400"
+            >
+              [ BACK ]
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div className="flex flex-col gap-4 sm:flex-row sm:justify-center">
+          <button
+            onClick={() => setMode('reschedule')}
+            disabled={loading}
+            className="border-cyber-cyan/30 text-cyber-cyan hover:bg-cyber-cyan/20 flex items-center justify-center gap-2 rounded-lg border px-6 py-3 font-mono transition-all"
+          >
+            <CalendarClock className="h-5 w-5" />[ RESCHEDULE ]
+          </button>
+          <button
+            onClick={handleCancel}
+            disabled={loading}
+            className="border-error/40 text-error hover:bg-error/10 flex items-center justify-center gap-2 rounded-lg border px-6 py-3 font-mono transition-all"
+          >
+            <XCircle className="h-5 w-5" />[ CANCEL_BOOKING ]
+          </button>
+        </div>
+      )}
+
+      <p className="mt-6 text-center font-mono text-xs text-gray-500">
+        Changes are possible until {changeCutoffHours} hours before the meeting.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { ShieldCheck } from 'lucide-react';
+
+import { Switch } from '@/components/ui/switch';
+import { useConsent } from '@/context/ConsentContext';
+import {
+  CONSENT_CATEGORIES,
+  FULL_CONSENT,
+  NO_CONSENT,
+  type ConsentCategory,
+  type ConsentPreferences,
+} from '@/lib/consent';
+
+/**
+ * Consent banner with per-category settings
+ *
+ * Asks on the first visit; afterwards a small privacy button reopens the settings.
+ */
+export default function ConsentBanner() {
+  const {
+    preferences,
+    needsChoice,
+    privacySignal,
+    settingsOpen,
+    save,
+    openSettings,
+    closeSettings,
+  } = useConsent();
+  const [draft, setDraft] = useState<ConsentPreferences>(preferences);
+  const [customizing, setCustomizing] = useState(false);
+
+  useEffect(() => {
+    if (settingsOpen) {
+      setDraft(preferences);
+      setCustomizing(true);
+    }
+  }, [settingsOpen, preferences]);
+
+  if (!needsChoice && !settingsOpen) {
+    return (
+      <button
+        type="button"
+        onClick={openSettings}
+        className="hover:text-cyber-cyan fixed bottom-4 left-4 z-40 rounded border border-gray-700 bg-black/70 px-3 py-1 font-mono text-xs text-gray-500 transition-colors"
+        aria-label="Privacy settings"
+      >
+        [ PRIVACY ]
+      </button>
+    );
+  }
+
+  const toggle = (category: ConsentCategory, checked: boolean) =>
+    setDraft((current) => ({ ...current, [category]: checked }));
+
+  return (
+    <div
+      role="dialog"
+      aria-labelledby="consent-title"
+      className="border-cyber-cyan/30 fixed inset-x-4 bottom-4 z-50 mx-auto max-w-xl rounded-lg border bg-black/95 p-6 font-mono text-sm text-gray-300 shadow-lg"
+    >
+      <h2 id="consent-title" className="text-cyber-cyan mb-3 flex items-center gap-2 font-bold">
+        <ShieldCheck className="h-5 w-5" />[ PRIVACY ]
+      </h2>
+      <p className="mb-4 text-gray-400">
+        This site can record anonymous usage statistics to see what visitors read. Nothing is
+        recorded and no cookie is set until you choose.
+      </p>
+
+      {privacySignal && (
+        <p className="mb-4 text-xs text-gray-500">
+          Your browser sends Do Not Track or Global Privacy Control, so optional tracking stays off
+          whatever you choose here.
+        </p>
+      )}
+
+      {customizing && (
+        <ul className="mb-4 space-y-3">
+          {CONSENT_CATEGORIES.map(({ id, label, description }) => (
+            <li key={id} className="flex items-start justify-between gap-4">
+              <label htmlFor={`consent-${id}`}>
+                <span className="block text-white">{label}</span>
+                <span className="text-xs text-gray-500">{description}</span>
+              </label>
+              <Switch
+                id={`consent-${id}`}
+                checked={id === 'necessary' ? true : draft[id]}
+                disabled={id === 'necessary' || privacySignal}
+                onCheckedChange={(checked) => id !== 'necessary' && toggle(id, checked)}
+              />
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap gap-3">
+        <button
+          type="button"
+          onClick={() => save(FULL_CONSENT)}
+          className="from-cyber-cyan to-cyber-blue rounded-lg bg-gradient-to-r px-4 py-2 font-bold text-black"
+        >
+          [ ACCEPT_ALL ]
+        </button>
+        <button
+          type="button"
+          onClick={() => save(NO_CONSENT)}
+          className="rounded-lg border border-gray-700 px-4 py-2 text-gray-300"
+        >
+          [ REJECT_ALL ]
+        </button>
+        {customizing ? (
+          <button
+            type="button"
+            onClick={() => save(draft)}
+            className="border-cyber-cyan/30 text-cyber-cyan rounded-lg border px-4 py-2"
+          >
+            [ SAVE_CHOICES ]
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={() => setCustomizing(true)}
+            className="px-4 py-2 text-gray-500 underline"
+          >
+            Customize
+          </button>
+        )}
+        {settingsOpen && !needsChoice && (
+          <button type="button" onClick={closeSettings} className="ml-auto px-4 py-2 text-gray-500">
+            Close
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+'use client';
+
+import React from 'react';
+
+import type { IntakeAnswers, IntakeAnswerValue } from '@/lib/intake-questions';
+import type { MeetingTypeIntakeQuestion } from '@/lib/validations';
+
+interface IntakeFieldsProps {
+  questions: MeetingTypeIntakeQuestion[];
+  answers: IntakeAnswers;
+  onChange: (id: string, value: IntakeAnswerValue) => void;
+}
+
+const inputClassName =
+  'bg-dark-400/50 focus:border-cyber-cyan focus:shadow-glow w-full rounded border border-gray-700 px-4 py-3 font-mono text-white transition-all focus:outline-none';
+
+const toFieldLabel = (label: string) => label.toUpperCase().replace(/\s+/g, '_');
+
+/**
+ * Form fields for a meeting type's intake questions
+ */
+export default function IntakeFields({ questions, answers, onChange }: IntakeFieldsProps) {
+  return (
+    <>
+      {questions.map((question) => {
+        const fieldId = `intake-${question.id}`;
+        const value = answers[question.id];
+        const text = typeof value === 'string' ? value : '';
+
+        if (question.type === 'checkbox') {
+          return (
+            <div key={question.id}>
+              <label
+                htmlFor={fieldId}
+                className="flex cursor-pointer items-start gap-3 font-mono text-sm text-gray-300"
+              >
+                <input
+                  id={fieldId}
+                  type="checkbox"
+                  required={question.required}
+                  checked={value === true}
+                  onChange={(e) => onChange(question.id, e.target.checked)}
+                  className="accent-cyber-cyan mt-1 h-4 w-4"
+                />
+                <span>
+                  {question.label}
+                  {question.helpText && (
+                    <span className="mt-1 block text-xs text-gray-500">{question.helpText}</span>
+                  )}
+                </span>
+              </label>
+            </div>
+          );
+        }
+
+        return (
+          <div key={question.id}>
+            <label
+              htmlFor={fieldId}
+              className="text-cyber-cyan mb-2 block font-mono text-sm font-semibold"
+            >
+              [ {toFieldLabel(question.label)} ]{' '}
+              {!question.required && <span className="text-xs text-gray-500">(OPTIONAL)</span>}
+            </label>
+
+            {question.type === 'select' ? (
+              <select
+                id={fieldId}
+                required={question.required}
+                value={text}
+                onChange={(e) => onChange(question.id, e.target.value)}
+                className={inputClassName}
+              >
+                <option value="">-- SELECT --</option>
+                {question.options.map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </select>
+            ) : question.type === 'text' && question.multiline ? (
+              <textarea
+                id={fieldId}
+                required={question.required}
+                maxLength={question.maxLength}
+                value={text}
+                onChange={(e) => onChange(question.id, e.target.value)}
+                rows={3}
+                className={`${inputClassName} custom-scrollbar resize-none`}
+                placeholder={question.placeholder ?? undefined}
+              />
+            ) : (
+              <input
+                id={fieldId}
+                type={question.type === 'url' ? 'url' : 'text'}
+                required={question.required}
+                maxLength={question.type === 'text' ? question.maxLength : 2000}
+                value={text}
+                onChange={(e) => onChange(question.id, e.target.value)}
+                className={inputClassName}
+                placeholder={
+                  question.placeholder ?? (question.type === 'url' ? 'https://' : undefined)
+                }
+              />
+            )}
+
+            {question.helpText && (
+              <p className="mt-1 font-mono text-xs text-gray-500">{question.helpText}</p>
+            )}
+          </div>
+        );
+      })}
+    </>
+  );
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import React from 'react';
+import {
+  Area,
+  AreaChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import type { AnalyticsTimePoint } from '@/lib/analytics-report';
+
+interface PageViewsChartProps {
+  points: AnalyticsTimePoint[];
+  /** Label points by hour rather than day */
+  hourly: boolean;
+}
+
+export default function PageViewsChart({ points, hourly }: PageViewsChartProps) {
+  const format = (start: string) =>
+    new Date(start).toLocaleString(
+      undefined,
+      hourly ? { hour: '2-digit', minute: '2-digit' } : { month: 'short', day: 'numeric' }
+    );
+
+  return (
+    <div className="h-72 w-full">
+      <ResponsiveContainer>
+        <AreaChart data={points} margin={{ top: 8, right: 8, bottom: 0, left: -16 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="rgba(255, 255, 255, 0.1)" />
+          <XAxis dataKey="start" tickFormatter={format} tick={{ fontSize: 12 }} minTickGap={24} />
+          <YAxis allowDecimals={false} tick={{ fontSize: 12 }} />
+          <Tooltip labelFormatter={(label) => format(String(label))} />
+          <Legend />
+          <Area
+            type="monotone"
+            dataKey="pageViews"
+            name="Page views"
+            stroke="var(--cyber-cyan)"
+            fill="var(--cyber-cyan)"
+            fillOpacity={0.15}
+          />
+          <Area
+            type="monotone"
+            dataKey="sessions"
+            name="Sessions"
+            stroke="var(--cyber-purple)"
+            fill="var(--cyber-purple)"
+            fillOpacity={0.15}
+          />
+        </AreaChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
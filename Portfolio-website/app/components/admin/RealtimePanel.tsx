@@ -0,0 +1,117 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { RealtimeSnapshot } from '@/lib/analytics-report';
+
+const POLL_INTERVAL_MS = 15000;
+
+/**
+ * Active sessions and latest events, refreshed from `/api/analytics/realtime`
+ */
+export default function RealtimePanel() {
+  const [snapshot, setSnapshot] = useState<RealtimeSnapshot | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const response = await fetch('/api/analytics/realtime', { cache: 'no-store' });
+        const body = await response.json();
+        if (cancelled) return;
+
+        if (response.ok && body.success) {
+          setSnapshot(body.data);
+          setError(null);
+        } else {
+          setError(body.error || `HTTP ${response.status}`);
+        }
+      } catch {
+        if (!cancelled) setError('Network error');
+      }
+    };
+
+    load();
+    const interval = setInterval(load, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, []);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Realtime</CardTitle>
+        <CardDescription>
+          {error ? `Could not refresh: ${error}` : 'Sessions active in the last 5 minutes'}
+        </CardDescription>
+        <CardAction>
+          <Badge variant="outline">{snapshot ? snapshot.activeSessions : '–'} active</Badge>
+        </CardAction>
+      </CardHeader>
+      <CardContent className="grid gap-6 md:grid-cols-2">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Page</TableHead>
+              <TableHead className="text-right">Sessions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {snapshot?.pages.map(({ page, sessions }) => (
+              <TableRow key={page}>
+                <TableCell className="font-mono">{page}</TableCell>
+                <TableCell className="text-right">{sessions}</TableCell>
+              </TableRow>
+            ))}
+            {snapshot?.pages.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={2} className="text-muted-foreground">
+                  Nobody right now
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Event</TableHead>
+              <TableHead>Page</TableHead>
+              <TableHead className="text-right">At</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {snapshot?.recent.map(({ type, page, at }, index) => (
+              <TableRow key={`${at}-${index}`}>
+                <TableCell>{type}</TableCell>
+                <TableCell className="font-mono">{page}</TableCell>
+                <TableCell className="text-right">{new Date(at).toLocaleTimeString()}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,30 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { LogOut } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { csrfFetch } from '@/lib/csrf-client';
+
+export default function SignOutButton() {
+  const router = useRouter();
+  const [loading, setLoading] = useState(false);
+
+  const handleSignOut = async () => {
+    setLoading(true);
+
+    try {
+      await csrfFetch('/api/admin/logout', { method: 'POST' });
+    } finally {
+      router.replace('/admin/login');
+      router.refresh();
+    }
+  };
+
+  return (
+    <Button variant="outline" onClick={handleSignOut} disabled={loading}>
+      <LogOut />
+      {loading ? 'Signing out...' : 'Sign out'}
+    </Button>
+  );
+}
@@ -2,6 +2,7 @@
 
 import React, { Component, ErrorInfo, ReactNode } from 'react';
 import { ComponentError } from '@/app/types';
+import { reportClientError } from '@/lib/telemetry';
 
 interface ErrorBoundaryState {
   hasError: boolean;
@@ -63,6 +64,9 @@ class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryState> {
       console.error('ErrorBoundary caught an error:', error, errorInfo);
     }
 
+    // Reported when the visitor allows performance telemetry
+    reportClientError(error, 'error-boundary', componentError.componentStack);
+
     // Call onError prop if provided
     this.props.onError?.(componentError, errorInfo);
   }
@@ -1,109 +1,118 @@
-import { useEffect } from 'react';
+import { useEffect, useMemo } from 'react';
 import { usePathname } from 'next/navigation';
 import React from 'react';
 
-export const useAnalytics = () => {
-  const pathname = usePathname();
+import { getBrowserAnalyticsQueue } from '@/lib/analytics-queue';
+import { browserAllows } from '@/lib/consent';
+import type { AnalyticsEventInput } from '@/lib/validations';
 
-  // Track page view on route change
-  useEffect(() => {
-    trackEvent('page_view', {
-      page: pathname,
+type AnalyticsEventType = AnalyticsEventInput['event_type'];
+
+const deviceType = (): AnalyticsEventInput['device_type'] => {
+  if (window.innerWidth < 768) return 'mobile';
+  return window.innerWidth < 1024 ? 'tablet' : 'desktop';
+};
+
+const trackEvent = (event: AnalyticsEventType, data?: AnalyticsEventInput['event_data']) => {
+  // Checked per event: consent can be withdrawn while tracking hooks are still mounted
+  if (!browserAllows('analytics')) return;
+
+  try {
+    // No user agent, screen size, language or time zone: together they fingerprint visitors
+    getBrowserAnalyticsQueue().enqueue({
+      event_type: event,
+      event_data: data,
+      page_url: window.location.href,
+      page_title: document.title.slice(0, 300) || undefined,
+      referrer: document.referrer || undefined,
+      device_type: deviceType(),
       timestamp: new Date().toISOString(),
     });
-  }, [pathname]);
+  } catch (error) {
+    // Silently fail analytics to not affect user experience
+    console.warn('Analytics tracking failed:', error);
+  }
+};
+
+// Event trackers for the current page, without recording a page view
+export const useAnalyticsEvents = () => {
+  const pathname = usePathname();
 
-  const trackEvent = async (event: string, data?: any) => {
-    try {
-      await fetch('/api/analytics', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          event,
-          data: {
-            ...data,
-            userAgent: navigator.userAgent,
-            screenSize: `${window.screen.width}x${window.screen.height}`,
-            viewportSize: `${window.innerWidth}x${window.innerHeight}`,
-            language: navigator.language,
-            timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-          },
+  return useMemo(
+    () => ({
+      trackEvent,
+
+      trackProjectView: (projectId: string, projectTitle: string) => {
+        trackEvent('project_view', {
+          projectId,
+          projectTitle,
           page: pathname,
-          timestamp: new Date().toISOString(),
-        }),
-      });
-    } catch (error) {
-      // Silently fail analytics to not affect user experience
-      console.warn('Analytics tracking failed:', error);
-    }
-  };
+        });
+      },
 
-  const trackProjectView = (projectId: string, projectTitle: string) => {
-    trackEvent('project_view', {
-      projectId,
-      projectTitle,
-      page: pathname,
-    });
-  };
+      trackDownload: (fileName: string, fileUrl: string) => {
+        trackEvent('file_download', {
+          fileName,
+          fileUrl,
+          page: pathname,
+        });
+      },
 
-  const trackDownload = (fileName: string, fileUrl: string) => {
-    trackEvent('file_download', {
-      fileName,
-      fileUrl,
-      page: pathname,
-    });
-  };
+      trackExternalLink: (url: string, linkText: string) => {
+        trackEvent('external_link_click', {
+          url,
+          linkText,
+          page: pathname,
+        });
+      },
 
-  const trackExternalLink = (url: string, linkText: string) => {
-    trackEvent('external_link_click', {
-      url,
-      linkText,
-      page: pathname,
-    });
-  };
+      trackFormSubmission: (formName: string, success: boolean) => {
+        trackEvent('form_submission', {
+          formName,
+          success,
+          page: pathname,
+        });
+      },
 
-  const trackFormSubmission = (formName: string, success: boolean) => {
-    trackEvent('form_submission', {
-      formName,
-      success,
-      page: pathname,
-    });
-  };
+      trackScrollDepth: (percentage: number) => {
+        trackEvent('scroll_depth', {
+          percentage,
+          page: pathname,
+        });
+      },
 
-  const trackScrollDepth = (percentage: number) => {
-    trackEvent('scroll_depth', {
-      percentage,
-      page: pathname,
-    });
-  };
+      trackTimeOnPage: (timeSpent: number) => {
+        trackEvent('time_on_page', {
+          timeSpent, // in seconds
+          page: pathname,
+        });
+      },
 
-  const trackTimeOnPage = (timeSpent: number) => {
-    trackEvent('time_on_page', {
-      timeSpent, // in seconds
-      page: pathname,
-    });
-  };
+      trackError: (error: string, errorInfo?: React.ErrorInfo) => {
+        trackEvent('error', {
+          error,
+          errorInfo,
+          page: pathname,
+        });
+      },
+    }),
+    [pathname]
+  );
+};
+
+// Records a page view on every route change; call it once, from `AnalyticsProvider`
+export const useAnalytics = () => {
+  const pathname = usePathname();
 
-  const trackError = (error: string, errorInfo?: any) => {
-    trackEvent('error', {
-      error,
-      errorInfo,
+  // Track page view on route change
+  useEffect(() => {
+    trackEvent('page_view', {
       page: pathname,
+      timestamp: new Date().toISOString(),
     });
-  };
+  }, [pathname]);
 
-  return {
-    trackEvent,
-    trackProjectView,
-    trackDownload,
-    trackExternalLink,
-    trackFormSubmission,
-    trackScrollDepth,
-    trackTimeOnPage,
-    trackError,
-  };
+  return useAnalyticsEvents();
 };
 
 // Higher-order component for automatic analytics tracking
@@ -116,7 +125,7 @@ export function withAnalytics<T extends object>(Component: React.ComponentType<T
 
 // Hook for scroll depth tracking
 export const useScrollTracking = () => {
-  const { trackScrollDepth } = useAnalytics();
+  const { trackScrollDepth } = useAnalyticsEvents();
 
   useEffect(() => {
     let maxScrollDepth = 0;
@@ -147,7 +156,7 @@ export const useScrollTracking = () => {
 
 // Hook for time on page tracking
 export const useTimeTracking = () => {
-  const { trackTimeOnPage } = useAnalytics();
+  const { trackTimeOnPage } = useAnalyticsEvents();
 
   useEffect(() => {
     const startTime = Date.now();
@@ -2,7 +2,9 @@ import type { Metadata, Viewport } from 'next';
 import { JetBrains_Mono, Orbitron } from 'next/font/google';
 import './globals.css';
 import { NavbarProvider } from '../context/NavbarContext';
+import { ConsentProvider } from '../context/ConsentContext';
 import AnalyticsProvider from './components/AnalyticsProvider';
+import ConsentBanner from './components/ConsentBanner';
 
 // Optimized font loading with display swap
 const jetbrainsMono = JetBrains_Mono({
@@ -173,7 +175,10 @@ export default function RootLayout({
         suppressHydrationWarning
       >
         <NavbarProvider>
-          <AnalyticsProvider>{children}</AnalyticsProvider>
+          <ConsentProvider>
+            <AnalyticsProvider>{children}</AnalyticsProvider>
+            <ConsentBanner />
+          </ConsentProvider>
         </NavbarProvider>
       </body>
     </html>
@@ -5,6 +5,8 @@ import { motion } from 'framer-motion';
 import Image from 'next/image';
 import Link from 'next/link';
 import { notFound } from 'next/navigation';
+import { useAnalyticsEvents } from '@/app/hooks/useAnalytics';
+import { reportClientError } from '@/lib/telemetry';
 import { normalizeProjectId, parseProjectId, projectIdsEqual, getStatusVariant } from '@/lib/utils';
 import styles from './project.module.css';
 
@@ -34,6 +36,7 @@ class ProjectErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundarySt
 
   componentDidCatch(error: Error, errorInfo: React.ErrorInfo) {
     console.error('ProjectErrorBoundary caught an error:', error, errorInfo);
+    reportClientError(error, 'error-boundary', errorInfo.componentStack || undefined);
   }
 
   handleRetry = () => {
@@ -354,6 +357,7 @@ interface Project {
   coverImage?: {
     url: string;
     alternativeText: string;
+    blurDataURL?: string;
   };
   status: string;
   technologies: Technology[];
@@ -374,6 +378,7 @@ function ProjectDetailContent({ params }: { params: Promise<{ id: string }> }) {
   const [allProjects, setAllProjects] = useState<Project[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<ErrorDetails | null>(null);
+  const { trackProjectView } = useAnalyticsEvents();
 
   // Validate project ID
   useEffect(() => {
@@ -453,6 +458,13 @@ function ProjectDetailContent({ params }: { params: Promise<{ id: string }> }) {
     }
   }, [resolvedParams.id]); // eslint-disable-line react-hooks/exhaustive-deps
 
+  // Feeds "top projects" on the analytics dashboard
+  useEffect(() => {
+    if (project) {
+      trackProjectView(String(project.id), project.title);
+    }
+  }, [project, trackProjectView]);
+
   // Get previous and next projects
   const currentIndex = allProjects.findIndex((p) => projectIdsEqual(p.id, resolvedParams.id));
   const previousProject = currentIndex > 0 ? allProjects[currentIndex - 1] : null;
@@ -810,6 +822,8 @@ function ProjectDetailContent({ params }: { params: Promise<{ id: string }> }) {
                 <Image
                   src={project.coverImage.url}
                   alt={project.coverImage.alternativeText || project.title}
+                  placeholder={project.coverImage.blurDataURL ? 'blur' : 'empty'}
+                  blurDataURL={project.coverImage.blurDataURL}
                   width={1200}
                   height={675}
                   className={styles.projectImage}
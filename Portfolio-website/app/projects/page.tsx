@@ -20,6 +20,7 @@ interface Project {
   coverImage?: {
     url: string;
     alternativeText: string;
+    blurDataURL?: string;
   };
   status: string;
   technologies: Technology[];
@@ -111,6 +112,8 @@ const ProjectCard = ({ project, index }: { project: Project; index: number }) =>
               <Image
                 src={project.coverImage.url}
                 alt={project.coverImage.alternativeText || project.title}
+                placeholder={project.coverImage.blurDataURL ? 'blur' : 'empty'}
+                blurDataURL={project.coverImage.blurDataURL}
                 fill
                 className={styles.projectImage}
                 sizes="(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw"
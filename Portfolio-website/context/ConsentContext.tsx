@@ -0,0 +1,91 @@
+'use client';
+
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+  ReactNode,
+} from 'react';
+
+import {
+  browserPrivacySignal,
+  NO_CONSENT,
+  readConsentCookie,
+  writeConsentCookie,
+  type ConsentPreferences,
+} from '@/lib/consent';
+
+interface ConsentContextType {
+  /** What the visitor allowed; everything is off until they choose */
+  preferences: ConsentPreferences;
+  /** Whether the banner should ask */
+  needsChoice: boolean;
+  /** Do Not Track or Global Privacy Control is on, which overrides any choice */
+  privacySignal: boolean;
+  /** Whether the settings panel is open */
+  settingsOpen: boolean;
+  save: (preferences: ConsentPreferences) => void;
+  openSettings: () => void;
+  closeSettings: () => void;
+}
+
+const ConsentContext = createContext<ConsentContextType | undefined>(undefined);
+
+export const useConsent = () => {
+  const context = useContext(ConsentContext);
+  if (context === undefined) {
+    throw new Error('useConsent must be used within a ConsentProvider');
+  }
+  return context;
+};
+
+interface ConsentProviderProps {
+  children: ReactNode;
+}
+
+export const ConsentProvider: React.FC<ConsentProviderProps> = ({ children }) => {
+  const [preferences, setPreferences] = useState<ConsentPreferences>(NO_CONSENT);
+  // Unknown until mounted: the server can't see the cookie's categories or the browser signals
+  const [needsChoice, setNeedsChoice] = useState(false);
+  const [privacySignal, setPrivacySignal] = useState(false);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+
+  useEffect(() => {
+    const signal = browserPrivacySignal();
+    const stored = readConsentCookie();
+    setPrivacySignal(signal);
+    setPreferences(signal ? NO_CONSENT : (stored ?? NO_CONSENT));
+    setNeedsChoice(!signal && stored === null);
+  }, []);
+
+  const save = useCallback(
+    (next: ConsentPreferences) => {
+      writeConsentCookie(next);
+      setPreferences(privacySignal ? NO_CONSENT : next);
+      setNeedsChoice(false);
+      setSettingsOpen(false);
+    },
+    [privacySignal]
+  );
+
+  const openSettings = useCallback(() => setSettingsOpen(true), []);
+  const closeSettings = useCallback(() => setSettingsOpen(false), []);
+
+  return (
+    <ConsentContext.Provider
+      value={{
+        preferences,
+        needsChoice,
+        privacySignal,
+        settingsOpen,
+        save,
+        openSettings,
+        closeSettings,
+      }}
+    >
+      {children}
+    </ConsentContext.Provider>
+  );
+};
@@ -0,0 +1,15 @@
+/**
+ * Server startup hook
+ *
+ * Points the API logger at the sinks in `LOG_SINKS` and starts the in-process booking reminder
+ * timer on the Node.js runtime when `BOOKING_REMINDERS_INTERVAL_MINUTES` is set.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { configureApiLogger } = await import('@/lib/log-sinks');
+    configureApiLogger();
+
+    const { startBookingReminderScheduler } = await import('@/lib/booking-reminder-job');
+    startBookingReminderScheduler();
+  }
+}
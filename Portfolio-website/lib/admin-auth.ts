@@ -0,0 +1,64 @@
+import 'server-only';
+import { scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+import { ADMIN_PASSWORD_HASH, ADMIN_USERNAME } from '@/lib/env';
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+/**
+ * Parsed `scrypt:<salt hex>:<hash hex>` password hash
+ */
+interface ParsedPasswordHash {
+  salt: Buffer;
+  hash: Buffer;
+}
+
+/**
+ * Error thrown when admin credentials have not been configured
+ */
+export class MissingAdminCredentialsError extends Error {
+  constructor() {
+    super('ADMIN_USERNAME and ADMIN_PASSWORD_HASH must be configured to enable admin login.');
+    this.name = 'MissingAdminCredentialsError';
+  }
+}
+
+function parsePasswordHash(value: string): ParsedPasswordHash | null {
+  const [scheme, saltHex, hashHex] = value.split(':');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) {
+    return null;
+  }
+  return { salt: Buffer.from(saltHex, 'hex'), hash: Buffer.from(hashHex, 'hex') };
+}
+
+/**
+ * Check a username/password pair against the configured admin credentials.
+ *
+ * The password is always hashed, even for an unknown username, so response timing does not
+ * reveal which half of the pair was wrong.
+ *
+ * @param username - Submitted username
+ * @param password - Submitted password
+ * @returns `true` when both match
+ * @throws MissingAdminCredentialsError if credentials are not configured
+ */
+export async function verifyAdminCredentials(username: string, password: string): Promise<boolean> {
+  const expected = parsePasswordHash(ADMIN_PASSWORD_HASH);
+  if (!ADMIN_USERNAME || !expected) {
+    throw new MissingAdminCredentialsError();
+  }
+
+  const derived = await scryptAsync(password, expected.salt, expected.hash.length);
+  const passwordMatches = timingSafeEqual(derived, expected.hash);
+  const submittedUsername = Buffer.from(username);
+  const expectedUsername = Buffer.from(ADMIN_USERNAME);
+  const usernameMatches =
+    submittedUsername.length === expectedUsername.length &&
+    timingSafeEqual(submittedUsername, expectedUsername);
+
+  return passwordMatches && usernameMatches;
+}
@@ -0,0 +1,273 @@
+/**
+ * Admin session tokens
+ *
+ * Compact HS256 JSON Web Tokens signed with Web Crypto so the same code verifies sessions in the
+ * edge middleware and in Node route handlers. This module must stay free of Node-only imports.
+ */
+
+import type { NextRequest } from 'next/server';
+
+import {
+  base64UrlDecodeText,
+  base64UrlEncode,
+  constantTimeEqual,
+  hmacSign,
+  hmacVerify,
+} from '@/lib/signing';
+
+// ==================== CONFIGURATION ====================
+
+/**
+ * Name of the cookie carrying the admin session token
+ */
+export const ADMIN_SESSION_COOKIE = 'admin-session';
+
+/**
+ * Default session lifetime in seconds (8 hours)
+ */
+const DEFAULT_SESSION_TTL_SECONDS = 60 * 60 * 8;
+
+/**
+ * Minimum accepted secret length; shorter secrets are treated as missing
+ */
+const MIN_SECRET_LENGTH = 32;
+
+const JWT_HEADER = { alg: 'HS256', typ: 'JWT' } as const;
+
+// ==================== TYPES ====================
+
+/**
+ * Claims carried by an admin session token
+ */
+export interface AdminSessionPayload {
+  /** Authenticated admin username */
+  sub: string;
+  /** Issued-at time (seconds since epoch) */
+  iat: number;
+  /** Expiry time (seconds since epoch) */
+  exp: number;
+}
+
+/**
+ * Reasons a session token can be rejected
+ */
+export type AdminSessionFailure = 'missing' | 'malformed' | 'invalid_signature' | 'expired';
+
+/**
+ * Result of verifying a session token
+ */
+export type AdminSessionVerification =
+  | { valid: true; session: AdminSessionPayload }
+  | { valid: false; reason: AdminSessionFailure };
+
+/**
+ * Error thrown when a session must be issued but no usable secret is configured
+ */
+export class MissingAdminSessionSecretError extends Error {
+  constructor() {
+    super(
+      `ADMIN_SESSION_SECRET must be set to at least ${MIN_SECRET_LENGTH} characters to issue admin sessions.`
+    );
+    this.name = 'MissingAdminSessionSecretError';
+  }
+}
+
+// ==================== ENVIRONMENT ====================
+
+/**
+ * Read the session signing secret from the environment.
+ *
+ * @returns The secret, or `null` when it is missing or too short
+ */
+export function getAdminSessionSecret(): string | null {
+  const secret = process.env.ADMIN_SESSION_SECRET || '';
+  return secret.length >= MIN_SECRET_LENGTH ? secret : null;
+}
+
+/**
+ * Session lifetime in seconds, configurable with `ADMIN_SESSION_TTL`.
+ */
+export function getAdminSessionTtl(): number {
+  const ttl = Number.parseInt(process.env.ADMIN_SESSION_TTL || '', 10);
+  return Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_SESSION_TTL_SECONDS;
+}
+
+// ==================== HELPERS ====================
+
+function isSessionPayload(value: unknown): value is AdminSessionPayload {
+  if (!value || typeof value !== 'object') return false;
+  const payload = value as Record<string, unknown>;
+  return (
+    typeof payload.sub === 'string' &&
+    payload.sub.length > 0 &&
+    typeof payload.iat === 'number' &&
+    typeof payload.exp === 'number'
+  );
+}
+
+// ==================== SIGNING & VERIFICATION ====================
+
+/**
+ * Issue a signed session token.
+ *
+ * @param subject - Admin username stored in the `sub` claim
+ * @param secret - HMAC secret
+ * @param options - Optional lifetime (seconds) and clock override
+ * @returns Compact JWT
+ */
+export async function signAdminSession(
+  subject: string,
+  secret: string,
+  options: { ttlSeconds?: number; now?: number } = {}
+): Promise<string> {
+  const issuedAt = Math.floor((options.now ?? Date.now()) / 1000);
+  const payload: AdminSessionPayload = {
+    sub: subject,
+    iat: issuedAt,
+    exp: issuedAt + (options.ttlSeconds ?? getAdminSessionTtl()),
+  };
+
+  const encodedHeader = base64UrlEncode(JSON.stringify(JWT_HEADER));
+  const encodedPayload = base64UrlEncode(JSON.stringify(payload));
+  const signingInput = `${encodedHeader}.${encodedPayload}`;
+
+  return `${signingInput}.${await hmacSign(secret, signingInput)}`;
+}
+
+/**
+ * Verify a session token's signature and expiry.
+ *
+ * @param token - Compact JWT (usually the `admin-session` cookie)
+ * @param secret - HMAC secret
+ * @param now - Clock override in milliseconds
+ * @returns Verification result with the decoded claims when valid
+ */
+export async function verifyAdminSession(
+  token: string | null | undefined,
+  secret: string,
+  now: number = Date.now()
+): Promise<AdminSessionVerification> {
+  if (!token) {
+    return { valid: false, reason: 'missing' };
+  }
+
+  const segments = token.split('.');
+  if (segments.length !== 3) {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = segments;
+
+  let header: unknown;
+  let payload: unknown;
+  try {
+    header = JSON.parse(base64UrlDecodeText(encodedHeader));
+    payload = JSON.parse(base64UrlDecodeText(encodedPayload));
+  } catch {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  // Only accept the exact algorithm we issue; never trust `alg` from the token
+  if (
+    !header ||
+    typeof header !== 'object' ||
+    (header as Record<string, unknown>).alg !== JWT_HEADER.alg
+  ) {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  const signatureValid = await hmacVerify(
+    secret,
+    `${encodedHeader}.${encodedPayload}`,
+    encodedSignature
+  );
+
+  if (!signatureValid) {
+    return { valid: false, reason: 'invalid_signature' };
+  }
+
+  if (!isSessionPayload(payload)) {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  if (payload.exp * 1000 <= now) {
+    return { valid: false, reason: 'expired' };
+  }
+
+  return { valid: true, session: payload };
+}
+
+/**
+ * Extract a bearer token from an `Authorization` header.
+ *
+ * @param header - Raw header value
+ * @returns Token or `null`
+ */
+export function getBearerToken(header: string | null): string | null {
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Verify the session presented by a request, either as the `admin-session` cookie or as a
+ * bearer token.
+ *
+ * @param cookieToken - Value of the `admin-session` cookie
+ * @param authorizationHeader - Value of the `Authorization` header
+ * @returns Verification result; always invalid when no secret is configured
+ */
+export async function verifyRequestSession(
+  cookieToken: string | undefined,
+  authorizationHeader: string | null
+): Promise<AdminSessionVerification> {
+  const token = cookieToken || getBearerToken(authorizationHeader);
+  const secret = getAdminSessionSecret();
+
+  if (!token) {
+    return { valid: false, reason: 'missing' };
+  }
+
+  if (!secret) {
+    return { valid: false, reason: 'invalid_signature' };
+  }
+
+  return verifyAdminSession(token, secret);
+}
+
+/**
+ * Check an `x-api-key` header against `ADMIN_API_KEY` for machine-to-machine access.
+ *
+ * @param apiKey - Header value
+ * @returns `true` only when a key is configured and matches
+ */
+export function isValidAdminApiKey(apiKey: string | null): boolean {
+  const expected = process.env.ADMIN_API_KEY || '';
+  if (!apiKey || expected.length < MIN_SECRET_LENGTH) {
+    return false;
+  }
+  return constantTimeEqual(apiKey, expected);
+}
+
+/**
+ * Check whether a request carries admin credentials: a valid `x-api-key`, or an admin session as
+ * cookie or bearer token.
+ *
+ * For admin-only routes under prefixes the middleware leaves public, such as `/api/analytics`
+ * and `/api/bookings`.
+ *
+ * @param request - Incoming request
+ * @returns `true` when the request may act as an admin
+ */
+export async function isAdminRequest(
+  request: Pick<NextRequest, 'headers' | 'cookies'>
+): Promise<boolean> {
+  if (isValidAdminApiKey(request.headers.get('x-api-key'))) {
+    return true;
+  }
+
+  const verification = await verifyRequestSession(
+    request.cookies.get(ADMIN_SESSION_COOKIE)?.value,
+    request.headers.get('authorization')
+  );
+  return verification.valid;
+}
@@ -0,0 +1,182 @@
+/**
+ * Analytics privacy helpers
+ *
+ * Used by the analytics route to strip personal data from events before they reach the CMS, and
+ * to give visitors a session ID without storing anything in their browser: the ID is an HMAC of
+ * their address and user agent under a salt that changes every UTC day, so visits can be grouped
+ * within a day but not linked across days or back to the visitor.
+ *
+ * @module lib/analytics-privacy
+ */
+
+import { hmacSign } from '@/lib/signing';
+import { TELEMETRY_EVENT_TYPES } from '@/lib/telemetry';
+import type { AnalyticsEventInput } from '@/lib/validations';
+
+/** `event_data` keys that are dropped wherever they appear, compared without `_`, `-` or case */
+const PII_KEYS = new Set([
+  'name',
+  'firstname',
+  'lastname',
+  'fullname',
+  'email',
+  'emailaddress',
+  'phone',
+  'phonenumber',
+  'address',
+  'ip',
+  'ipaddress',
+  'useragent',
+  'password',
+  'token',
+  'message',
+]);
+
+/** Query parameters kept on page URLs and referrers; every other one is dropped */
+const KEPT_QUERY_PARAMS = new Set(['utm_source', 'utm_medium', 'utm_campaign', 'ref']);
+
+const EMAIL_PATTERN = /[^\s@/?#]+@[^\s@/?#]+\.[a-z]{2,}/gi;
+
+/** Path segments this long are tokens (booking manage links, waitlist claims) rather than routes */
+const TOKEN_SEGMENT_LENGTH = 32;
+
+const MAX_DEPTH = 5;
+
+const normalizeKey = (key: string) => key.replace(/[_-]/g, '').toLowerCase();
+
+const scrubValue = (value: unknown, depth: number): unknown => {
+  if (typeof value === 'string') {
+    return value.replace(EMAIL_PATTERN, '[email]');
+  }
+  if (Array.isArray(value)) {
+    return depth >= MAX_DEPTH ? [] : value.map((item) => scrubValue(item, depth + 1));
+  }
+  if (typeof value === 'object' && value !== null) {
+    return depth >= MAX_DEPTH ? {} : scrubEventData(value as Record<string, unknown>, depth + 1);
+  }
+  return value;
+};
+
+/**
+ * Drop personal fields from event data and mask email addresses in what's left
+ */
+export function scrubEventData(data: Record<string, unknown>, depth = 0): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(data)
+      .filter(([key]) => !PII_KEYS.has(normalizeKey(key)))
+      .map(([key, value]) => [key, scrubValue(value, depth)])
+  );
+}
+
+/**
+ * Mask email addresses in a flat record without dropping any keys
+ */
+const maskEmails = (data: Record<string, unknown>): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.entries(data).map(([key, value]) => [
+      key,
+      typeof value === 'string' ? value.replace(EMAIL_PATTERN, '[email]') : value,
+    ])
+  );
+
+/**
+ * Strip a URL to its origin and path, masking tokens and email addresses in the path. Campaign
+ * parameters are kept.
+ *
+ * @returns The scrubbed URL, or `undefined` for anything that isn't an absolute http(s) URL
+ */
+export function scrubUrl(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return undefined;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return undefined;
+
+  const path = url.pathname
+    .split('/')
+    .map((segment) =>
+      segment.length >= TOKEN_SEGMENT_LENGTH ? '[token]' : segment.replace(EMAIL_PATTERN, '[email]')
+    )
+    .join('/');
+  const query = new URLSearchParams(
+    [...url.searchParams].filter(([key]) => KEPT_QUERY_PARAMS.has(key))
+  ).toString();
+
+  return `${url.origin}${path}${query ? `?${query}` : ''}`;
+}
+
+const originOf = (value: string | undefined): string | null => {
+  try {
+    return value ? new URL(value).origin : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Scrub a referrer. Another site's path can identify the visitor too (a webmail message, a
+ * search), so only its origin is kept.
+ */
+export function scrubReferrer(
+  referrer: string | undefined,
+  pageUrl: string | undefined
+): string | undefined {
+  const scrubbed = scrubUrl(referrer);
+  if (!scrubbed) return undefined;
+
+  const origin = originOf(scrubbed);
+  return origin === originOf(pageUrl) ? scrubbed : `${origin}/`;
+}
+
+/**
+ * Remove personal data from an event: identifying fields, tokens and query strings in URLs, and
+ * PII in `event_data`. Any client-sent `session_id` is dropped; the route assigns its own.
+ */
+export function scrubAnalyticsEvent(event: AnalyticsEventInput): AnalyticsEventInput {
+  // Telemetry data has a fixed schema where `name` is a metric and `message` an error
+  const isTelemetry = (TELEMETRY_EVENT_TYPES as readonly string[]).includes(event.event_type);
+  const scrubData = isTelemetry ? maskEmails : scrubEventData;
+
+  return {
+    event_type: event.event_type,
+    event_data: event.event_data ? scrubData(event.event_data) : undefined,
+    page_url: scrubUrl(event.page_url),
+    page_title: event.page_title?.replace(EMAIL_PATTERN, '[email]'),
+    referrer: scrubReferrer(event.referrer, event.page_url),
+    device_type: event.device_type,
+    browser: event.browser,
+    os: event.os,
+    timestamp: event.timestamp,
+    duration: event.duration,
+  };
+}
+
+/**
+ * Client address as reported by the proxy in front of the site
+ */
+export function clientAddress(headers: Pick<Headers, 'get'>): string {
+  return (
+    headers.get('x-forwarded-for')?.split(',')[0]?.trim() || headers.get('x-real-ip') || 'unknown'
+  );
+}
+
+/**
+ * Anonymous session ID for a visitor
+ *
+ * @param secret - Secret the day's salt is derived from
+ * @param visitor - Address and user agent; neither is stored
+ * @param now - Picks the UTC day, and with it the salt
+ */
+export async function anonymousSessionId(
+  secret: string,
+  visitor: { address: string; userAgent: string },
+  now = new Date()
+): Promise<string> {
+  const salt = await hmacSign(secret, `analytics-salt:${now.toISOString().slice(0, 10)}`);
+  const id = await hmacSign(salt, `${visitor.address}\n${visitor.userAgent}`);
+  return id.slice(0, 22);
+}
@@ -0,0 +1,235 @@
+/**
+ * Browser queue for analytics events
+ *
+ * Events are posted to `/api/analytics` in batches: on a timer, or as soon as a batch fills up.
+ * When the page is hidden, whatever is left goes out with `navigator.sendBeacon`, which survives
+ * the page unloading. Unsent events are kept in `sessionStorage`, so a failed request or a
+ * reload doesn't lose them.
+ *
+ * @module lib/analytics-queue
+ */
+
+import { MAX_ANALYTICS_BATCH, type AnalyticsEventInput } from '@/lib/validations';
+
+/** Stored events older than this are dropped; the CMS only backdates events by a day */
+const MAX_EVENT_AGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Storage the queue persists to; `sessionStorage` in the browser
+ */
+export type AnalyticsQueueStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+/**
+ * Settings for `AnalyticsQueue`
+ */
+export interface AnalyticsQueueOptions {
+  /** Defaults to `/api/analytics` */
+  endpoint?: string;
+  /** How often queued events are sent, in milliseconds. Defaults to 5 seconds. */
+  flushIntervalMs?: number;
+  /** Events per request, at most `MAX_ANALYTICS_BATCH` */
+  batchSize?: number;
+  /** Oldest events are dropped past this many, so an unreachable server can't grow the queue */
+  maxQueued?: number;
+  /** Pass `null` to keep the queue in memory only */
+  storage?: AnalyticsQueueStorage | null;
+  storageKey?: string;
+  fetch?: typeof fetch;
+  sendBeacon?: (url: string, data: Blob) => boolean;
+}
+
+/**
+ * Batches analytics events and delivers them to the analytics route
+ */
+export class AnalyticsQueue {
+  private readonly endpoint: string;
+  private readonly flushIntervalMs: number;
+  private readonly batchSize: number;
+  private readonly maxQueued: number;
+  private readonly storage: AnalyticsQueueStorage | null;
+  private readonly storageKey: string;
+  private readonly fetchImpl: typeof fetch;
+  private readonly sendBeacon: ((url: string, data: Blob) => boolean) | null;
+
+  private events: AnalyticsEventInput[];
+  /** Events in a request that hasn't finished; a beacon must not send them again */
+  private readonly inFlight = new Set<AnalyticsEventInput>();
+
+  constructor(options: AnalyticsQueueOptions = {}) {
+    this.endpoint = options.endpoint ?? '/api/analytics';
+    this.flushIntervalMs = options.flushIntervalMs ?? 5000;
+    this.batchSize = Math.min(options.batchSize ?? MAX_ANALYTICS_BATCH, MAX_ANALYTICS_BATCH);
+    this.maxQueued = options.maxQueued ?? 200;
+    this.storage = options.storage ?? null;
+    this.storageKey = options.storageKey ?? 'analytics-queue';
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+    this.sendBeacon = options.sendBeacon ?? null;
+    this.events = this.load();
+  }
+
+  /**
+   * Number of events waiting to be delivered
+   */
+  get size(): number {
+    return this.events.length;
+  }
+
+  /**
+   * Queue an event; a full batch is sent right away
+   */
+  enqueue(event: AnalyticsEventInput): void {
+    this.events.push(event);
+    if (this.events.length > this.maxQueued) {
+      this.events.splice(0, this.events.length - this.maxQueued);
+    }
+    this.save();
+
+    if (this.events.length - this.inFlight.size >= this.batchSize) {
+      void this.flush();
+    }
+  }
+
+  /**
+   * Send the next batch. Events stay queued when the request fails, and are dropped when the
+   * route rejects the whole batch as invalid, since resending won't fix them.
+   */
+  async flush(): Promise<void> {
+    const batch = this.nextBatch();
+    if (batch.length === 0) return;
+
+    batch.forEach((event) => this.inFlight.add(event));
+    try {
+      const response = await this.fetchImpl(this.endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ events: batch }),
+        keepalive: true,
+      });
+      if (response.ok || response.status === 400) {
+        this.remove(batch);
+      }
+    } catch {
+      // Offline or blocked; the next flush retries
+    } finally {
+      batch.forEach((event) => this.inFlight.delete(event));
+    }
+  }
+
+  /**
+   * Hand every queued event to `navigator.sendBeacon`, for when the page is going away. Falls back
+   * to a normal flush where beacons aren't supported.
+   */
+  flushWithBeacon(): void {
+    if (!this.sendBeacon) {
+      void this.flush();
+      return;
+    }
+
+    for (let batch = this.nextBatch(); batch.length > 0; batch = this.nextBatch()) {
+      const body = new Blob([JSON.stringify({ events: batch })], { type: 'application/json' });
+      // The browser refuses beacons over its quota; what's left is sent on the next page
+      if (!this.sendBeacon(this.endpoint, body)) break;
+      this.remove(batch);
+    }
+  }
+
+  /**
+   * Drop queued events, e.g. those the visitor withdrew consent for
+   *
+   * @param predicate - Which events to drop; all of them by default
+   */
+  discard(predicate: (event: AnalyticsEventInput) => boolean = () => true): void {
+    this.events = this.events.filter((event) => !predicate(event));
+    this.save();
+  }
+
+  /**
+   * Flush on an interval and with a beacon whenever the page is hidden
+   *
+   * @returns Stops the timer and removes the listeners
+   */
+  start(): () => void {
+    const timer = setInterval(() => void this.flush(), this.flushIntervalMs);
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') this.flushWithBeacon();
+    };
+    // Some browsers skip `visibilitychange` when a tab is closed outright
+    const onPageHide = () => this.flushWithBeacon();
+
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    window.addEventListener('pagehide', onPageHide);
+
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      window.removeEventListener('pagehide', onPageHide);
+    };
+  }
+
+  private nextBatch(): AnalyticsEventInput[] {
+    return this.events.filter((event) => !this.inFlight.has(event)).slice(0, this.batchSize);
+  }
+
+  private remove(batch: AnalyticsEventInput[]): void {
+    const sent = new Set(batch);
+    this.events = this.events.filter((event) => !sent.has(event));
+    this.save();
+  }
+
+  private load(): AnalyticsEventInput[] {
+    try {
+      const stored: unknown = JSON.parse(this.storage?.getItem(this.storageKey) ?? '[]');
+      if (!Array.isArray(stored)) return [];
+
+      const cutoff = Date.now() - MAX_EVENT_AGE_MS;
+      return (stored as AnalyticsEventInput[]).filter(
+        (event) =>
+          typeof event === 'object' &&
+          event !== null &&
+          (!event.timestamp || new Date(event.timestamp).getTime() >= cutoff)
+      );
+    } catch {
+      return [];
+    }
+  }
+
+  private save(): void {
+    try {
+      if (this.events.length === 0) {
+        this.storage?.removeItem(this.storageKey);
+      } else {
+        this.storage?.setItem(this.storageKey, JSON.stringify(this.events));
+      }
+    } catch {
+      // Storage full or disabled; the queue still works in memory
+    }
+  }
+}
+
+// ==================== BROWSER ====================
+
+// One queue per tab, shared by analytics and telemetry
+let browserQueue: AnalyticsQueue | null = null;
+
+/**
+ * The tab's queue, persisted to `sessionStorage` and started on first use
+ */
+export function getBrowserAnalyticsQueue(): AnalyticsQueue {
+  if (!browserQueue) {
+    browserQueue = new AnalyticsQueue({
+      storage: window.sessionStorage,
+      sendBeacon: navigator.sendBeacon ? (url, data) => navigator.sendBeacon(url, data) : undefined,
+    });
+    browserQueue.start();
+  }
+  return browserQueue;
+}
+
+/**
+ * Drop matching events from the tab's queue, if it has been started
+ */
+export function discardBrowserAnalyticsEvents(
+  predicate: (event: AnalyticsEventInput) => boolean
+): void {
+  browserQueue?.discard(predicate);
+}
@@ -0,0 +1,252 @@
+/**
+ * Analytics dashboard reports
+ *
+ * The CMS aggregates the events with SQL (`/api/analytics/report` and
+ * `/api/analytics/report/realtime`), so totals cover every event in the range. This module shapes
+ * those aggregates for the dashboard: it fills empty hours and days, names traffic sources and
+ * groups pages under their route. Session IDs are the anonymous daily IDs assigned by
+ * `/api/analytics`, so "sessions" counts visitors per day.
+ *
+ * @module lib/analytics-report
+ */
+
+import { routePattern } from '@/lib/telemetry';
+import type { CmsAnalyticsRealtime, CmsAnalyticsReport } from '@/lib/validations';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+export const ANALYTICS_RANGES = {
+  '1d': { label: '24 hours', duration: DAY, bucket: 'hour' },
+  '7d': { label: '7 days', duration: 7 * DAY, bucket: 'day' },
+  '30d': { label: '30 days', duration: 30 * DAY, bucket: 'day' },
+} as const;
+
+export type AnalyticsRange = keyof typeof ANALYTICS_RANGES;
+
+/** Scroll depths `useScrollTracking` reports */
+export const SCROLL_DEPTHS = [25, 50, 75, 100] as const;
+
+/** Window in which a session counts as active on the realtime panel */
+export const REALTIME_WINDOW_MS = 5 * 60 * 1000;
+
+const BUCKET_MS = { hour: HOUR, day: DAY };
+
+const TOP_PROJECTS = 10;
+const TOP_REFERRERS = 10;
+const TOP_FUNNELS = 8;
+
+export interface AnalyticsTimePoint {
+  /** Start of the hour or day (UTC), as an ISO string */
+  start: string;
+  pageViews: number;
+  sessions: number;
+}
+
+export interface ProjectViews {
+  projectId: string;
+  title: string;
+  views: number;
+  sessions: number;
+}
+
+export interface ReferrerVisits {
+  /** Referring host, `utm_source`, or `Direct` */
+  source: string;
+  sessions: number;
+}
+
+export interface ScrollFunnel {
+  route: string;
+  /** Sessions that viewed a page of the route, once per page */
+  sessions: number;
+  /** Sessions that scrolled at least this far, by depth */
+  reached: Record<(typeof SCROLL_DEPTHS)[number], number>;
+}
+
+export interface AnalyticsReport {
+  range: AnalyticsRange;
+  from: string;
+  summary: {
+    pageViews: number;
+    sessions: number;
+    projectViews: number;
+    /** Mean seconds from `time_on_page`, `null` without samples */
+    avgTimeOnPage: number | null;
+  };
+  timeSeries: AnalyticsTimePoint[];
+  topProjects: ProjectViews[];
+  referrers: ReferrerVisits[];
+  scrollFunnels: ScrollFunnel[];
+}
+
+export interface RealtimeSnapshot {
+  activeSessions: number;
+  /** Active sessions per page they were last seen on, busiest first */
+  pages: { page: string; sessions: number }[];
+  /** Latest events, newest first */
+  recent: { type: string; page: string; at: string }[];
+}
+
+/**
+ * Range for a `?range=` parameter, `7d` when missing or unknown
+ */
+export function parseAnalyticsRange(value: string | null | undefined): AnalyticsRange {
+  return value && Object.hasOwn(ANALYTICS_RANGES, value) ? (value as AnalyticsRange) : '7d';
+}
+
+/**
+ * Path of a page the CMS reports, e.g. `/projects/42`; pages are URLs, or the path the hook
+ * recorded when an event had no URL
+ */
+export function pagePath(page: string): string {
+  try {
+    return new URL(page).pathname;
+  } catch {
+    return page || '/';
+  }
+}
+
+const bySessionsDesc = <T extends { sessions: number }>(a: T, b: T) => b.sessions - a.sessions;
+
+/**
+ * Add up `sessions` of entries that share a key
+ */
+function sumByKey<T extends { sessions: number }>(
+  entries: T[],
+  keyOf: (entry: T) => string
+): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const entry of entries) {
+    totals.set(keyOf(entry), (totals.get(keyOf(entry)) ?? 0) + entry.sessions);
+  }
+  return totals;
+}
+
+/**
+ * Where a session came from: `utm_source`, else the referring host, else `Direct`. Referrers on
+ * the site itself are in-site navigation, not a source.
+ *
+ * @param page - URL of the session's first page view
+ */
+export function trafficSource(page: string, referrer: string | null): string {
+  let pageHost: string | undefined;
+  try {
+    const url = new URL(page);
+    const campaign = url.searchParams.get('utm_source');
+    if (campaign) return campaign;
+    pageHost = url.host;
+  } catch {
+    // Only a path was recorded; judge by the referrer alone
+  }
+
+  if (referrer) {
+    try {
+      const { host } = new URL(referrer);
+      if (host && host !== pageHost) return host;
+    } catch {
+      // Not an absolute URL
+    }
+  }
+  return 'Direct';
+}
+
+function buildTimeSeries(
+  points: CmsAnalyticsReport['timeSeries'],
+  from: Date,
+  now: Date,
+  bucket: number
+): AnalyticsTimePoint[] {
+  const byStart = new Map(points.map((point) => [new Date(point.start).getTime(), point]));
+  const series: AnalyticsTimePoint[] = [];
+
+  const first = Math.floor(from.getTime() / bucket) * bucket;
+  for (let start = first; start <= now.getTime(); start += bucket) {
+    const point = byStart.get(start);
+    series.push({
+      start: new Date(start).toISOString(),
+      pageViews: point?.pageViews ?? 0,
+      sessions: point?.sessions ?? 0,
+    });
+  }
+  return series;
+}
+
+function buildScrollFunnels(pages: CmsAnalyticsReport['pages']): ScrollFunnel[] {
+  const funnels = new Map<string, ScrollFunnel>();
+
+  for (const { page, sessions, reached } of pages) {
+    const route = routePattern(pagePath(page));
+    const funnel = funnels.get(route) ?? {
+      route,
+      sessions: 0,
+      reached: { 25: 0, 50: 0, 75: 0, 100: 0 },
+    };
+    funnel.sessions += sessions;
+    SCROLL_DEPTHS.forEach((depth) => (funnel.reached[depth] += reached[depth]));
+    funnels.set(route, funnel);
+  }
+
+  return [...funnels.values()].sort(bySessionsDesc).slice(0, TOP_FUNNELS);
+}
+
+/**
+ * Dashboard report for a range
+ *
+ * @param report - The CMS aggregates since the start of the range, or `null` when they couldn't
+ * be loaded, for an empty report
+ */
+export function buildAnalyticsReport(
+  report: CmsAnalyticsReport | null,
+  range: AnalyticsRange,
+  now = new Date()
+): AnalyticsReport {
+  const { duration, bucket } = ANALYTICS_RANGES[range];
+  const from = report ? new Date(report.from) : new Date(now.getTime() - duration);
+
+  const referrers = sumByKey(report?.entrances ?? [], ({ page, referrer }) =>
+    trafficSource(page, referrer)
+  );
+
+  return {
+    range,
+    from: from.toISOString(),
+    summary: {
+      pageViews: report?.summary.pageViews ?? 0,
+      sessions: report?.summary.sessions ?? 0,
+      projectViews: report?.summary.projectViews ?? 0,
+      avgTimeOnPage:
+        report?.summary.avgTimeOnPage == null ? null : Math.round(report.summary.avgTimeOnPage),
+    },
+    timeSeries: buildTimeSeries(report?.timeSeries ?? [], from, now, BUCKET_MS[bucket]),
+    topProjects: (report?.projects ?? [])
+      .map(({ projectId, title, views, sessions }) => ({
+        projectId,
+        title: title ?? projectId,
+        views,
+        sessions,
+      }))
+      .sort((a, b) => b.views - a.views)
+      .slice(0, TOP_PROJECTS),
+    referrers: [...referrers.entries()]
+      .map(([source, sessions]) => ({ source, sessions }))
+      .sort(bySessionsDesc)
+      .slice(0, TOP_REFERRERS),
+    scrollFunnels: buildScrollFunnels(report?.pages ?? []),
+  };
+}
+
+/**
+ * Sessions active within `REALTIME_WINDOW_MS` and the pages they are on
+ */
+export function buildRealtimeSnapshot(realtime: CmsAnalyticsRealtime): RealtimeSnapshot {
+  const pages = sumByKey(realtime.pages, ({ page }) => pagePath(page));
+
+  return {
+    activeSessions: realtime.pages.reduce((total, { sessions }) => total + sessions, 0),
+    pages: [...pages.entries()]
+      .map(([page, sessions]) => ({ page, sessions }))
+      .sort(bySessionsDesc),
+    recent: realtime.recent.map(({ type, page, at }) => ({ type, page: pagePath(page), at })),
+  };
+}
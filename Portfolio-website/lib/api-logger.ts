@@ -3,6 +3,11 @@ import { RequestMetadata } from '@/lib/types';
 
 /**
  * API request logging utilities
+ *
+ * Entries are written as JSON lines to pluggable sinks: stdout by default, plus a rotating file
+ * (`lib/log-file-sink.ts`, Node.js only) or an HTTP collector, chosen with `LOG_SINKS` in
+ * `instrumentation.ts`. Everything here runs on the edge runtime too, so the middleware logs with
+ * the same logger and request ID as the route handlers.
  */
 
 /**
@@ -15,70 +20,262 @@ export enum LogLevel {
   ERROR = 'ERROR',
 }
 
+const LEVEL_ORDER = [LogLevel.DEBUG, LogLevel.INFO, LogLevel.WARN, LogLevel.ERROR];
+
+/**
+ * Header carrying the correlation ID from the middleware to route handlers and on to the CMS
+ */
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+/** Request IDs accepted from upstream proxies; anything else is replaced */
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{8,128}$/;
+
 /**
  * Log entry interface
  */
-interface LogEntry {
+export interface LogEntry {
   level: LogLevel;
   message: string;
-  metadata?: RequestMetadata;
+  metadata?: RequestMetadata | Record<string, unknown>;
   error?: Error;
   timestamp: string;
-  requestId: string;
+  /** Absent for logs outside a request, e.g. background jobs */
+  requestId?: string;
+}
+
+/**
+ * Destination for log entries. Sinks must not throw; a failing sink loses its own entries only.
+ */
+export interface LogSink {
+  write(entry: LogEntry): void;
+  /** Deliver anything buffered, e.g. before the process exits */
+  flush?(): Promise<void>;
+}
+
+/**
+ * Generate a unique request ID
+ */
+export function generateRequestId(): string {
+  return `req_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+}
+
+/**
+ * Request ID from an incoming `x-request-id` header when it looks like one, else a new one
+ */
+export function resolveRequestId(headerValue: string | null | undefined): string {
+  return headerValue && REQUEST_ID_PATTERN.test(headerValue) ? headerValue : generateRequestId();
+}
+
+/**
+ * Level for a `LOG_LEVEL` value, case-insensitive
+ *
+ * @param fallback - Used when the value is missing or unknown
+ */
+export function parseLogLevel(value: string | undefined, fallback: LogLevel): LogLevel {
+  const level = value?.toUpperCase() as LogLevel | undefined;
+  return level && LEVEL_ORDER.includes(level) ? level : fallback;
+}
+
+/**
+ * One JSON line per entry, with the error flattened so its stack survives serialization
+ */
+export function formatLogEntry(entry: LogEntry): string {
+  return JSON.stringify({
+    timestamp: entry.timestamp,
+    level: entry.level,
+    requestId: entry.requestId,
+    message: entry.message,
+    ...(entry.metadata && { metadata: entry.metadata }),
+    ...(entry.error && {
+      error: { name: entry.error.name, message: entry.error.message, stack: entry.error.stack },
+    }),
+  });
+}
+
+// ==================== SINKS ====================
+
+/**
+ * Writes JSON lines to stdout
+ */
+export class StdoutSink implements LogSink {
+  write(entry: LogEntry): void {
+    console.log(formatLogEntry(entry));
+  }
+}
+
+/**
+ * Keeps the latest entries in memory, for tests and debugging
+ */
+export class MemorySink implements LogSink {
+  private entries: LogEntry[] = [];
+
+  constructor(private readonly capacity = 1000) {}
+
+  write(entry: LogEntry): void {
+    this.entries.push(entry);
+    if (this.entries.length > this.capacity) {
+      this.entries = this.entries.slice(-this.capacity);
+    }
+  }
+
+  recent(limit = 100): LogEntry[] {
+    return this.entries.slice(-limit);
+  }
+
+  byRequestId(requestId: string): LogEntry[] {
+    return this.entries.filter((entry) => entry.requestId === requestId);
+  }
+
+  clear(): void {
+    this.entries = [];
+  }
+}
+
+export interface HttpSinkOptions {
+  url: string;
+  /** Sent as `Authorization: Bearer <token>` */
+  token?: string;
+  /** Entries per POST (default 50) */
+  batchSize?: number;
+  /** Longest an entry waits before being sent (default 2000ms) */
+  flushIntervalMs?: number;
+  /** Entries kept while the collector is unreachable; the oldest are dropped first (default 1000) */
+  maxBuffered?: number;
+  fetch?: typeof fetch;
+}
+
+/**
+ * POSTs batches of JSON lines (`application/x-ndjson`) to a log collector
+ */
+export class HttpSink implements LogSink {
+  private buffer: string[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private sending: Promise<void> | null = null;
+
+  constructor(private readonly options: HttpSinkOptions) {}
+
+  write(entry: LogEntry): void {
+    this.buffer.push(formatLogEntry(entry));
+
+    const maxBuffered = this.options.maxBuffered ?? 1000;
+    if (this.buffer.length > maxBuffered) {
+      this.buffer = this.buffer.slice(-maxBuffered);
+    }
+
+    if (this.buffer.length >= (this.options.batchSize ?? 50)) {
+      void this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => void this.flush(), this.options.flushIntervalMs ?? 2000);
+    }
+  }
+
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    // One request at a time keeps batches in order
+    while (this.sending) await this.sending;
+    if (this.buffer.length === 0) return;
+
+    const batch = this.buffer.splice(0, this.options.batchSize ?? 50);
+    this.sending = this.send(batch).finally(() => {
+      this.sending = null;
+    });
+    await this.sending;
+
+    if (this.buffer.length > 0 && !this.timer) {
+      this.timer = setTimeout(() => void this.flush(), this.options.flushIntervalMs ?? 2000);
+    }
+  }
+
+  private async send(batch: string[]): Promise<void> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/x-ndjson' };
+    if (this.options.token) headers.Authorization = `Bearer ${this.options.token}`;
+
+    try {
+      const response = await (this.options.fetch ?? fetch)(this.options.url, {
+        method: 'POST',
+        headers,
+        body: `${batch.join('\n')}\n`,
+      });
+      if (!response.ok) {
+        throw new Error(`collector responded with ${response.status}`);
+      }
+    } catch (error) {
+      // Not through the logger: a failing collector would feed itself
+      console.error(`Log collector dropped ${batch.length} entries:`, (error as Error).message);
+    }
+  }
 }
 
+// ==================== LOGGER ====================
+
 /**
- * Simple in-memory logger - In production, use a proper logging service
+ * Structured logger shared by the middleware, route handlers and the CMS client
  */
 class ApiLogger {
-  private logs: LogEntry[] = [];
-  private maxLogs = 1000; // Keep last 1000 logs in memory
+  private sinks: LogSink[] = [new StdoutSink()];
+  private level = parseLogLevel(
+    process.env.LOG_LEVEL,
+    process.env.NODE_ENV === 'development' ? LogLevel.DEBUG : LogLevel.INFO
+  );
 
   /**
-   * Generate a unique request ID
+   * Replace where entries are written
    */
-  private generateRequestId(): string {
-    return `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  setSinks(sinks: LogSink[]): void {
+    this.sinks = sinks;
   }
 
   /**
-   * Add a log entry
+   * Set the lowest level written
    */
-  private addLog(entry: LogEntry): void {
-    this.logs.push(entry);
-
-    // Keep only the last maxLogs entries
-    if (this.logs.length > this.maxLogs) {
-      this.logs = this.logs.slice(-this.maxLogs);
-    }
+  setLevel(level: LogLevel): void {
+    this.level = level;
+  }
 
-    // In production, you would send logs to your logging service here
-    this.outputToConsole(entry);
+  isEnabled(level: LogLevel): boolean {
+    return LEVEL_ORDER.indexOf(level) >= LEVEL_ORDER.indexOf(this.level);
   }
 
   /**
-   * Output log to console with formatting
+   * Write an entry to every sink
    */
-  private outputToConsole(entry: LogEntry): void {
-    const timestamp = new Date(entry.timestamp).toISOString();
-    const logMessage = `[${timestamp}] [${entry.level}] [${entry.requestId}] ${entry.message}`;
-
-    switch (entry.level) {
-      case LogLevel.DEBUG:
-        console.debug(logMessage, entry.metadata);
-        break;
-      case LogLevel.INFO:
-        console.info(logMessage, entry.metadata);
-        break;
-      case LogLevel.WARN:
-        console.warn(logMessage, entry.metadata);
-        break;
-      case LogLevel.ERROR:
-        console.error(logMessage, entry.metadata, entry.error);
-        break;
+  log(
+    level: LogLevel,
+    requestId: string | undefined,
+    message: string,
+    metadata?: LogEntry['metadata'],
+    error?: Error
+  ): void {
+    if (!this.isEnabled(level)) return;
+
+    const entry: LogEntry = {
+      level,
+      message,
+      metadata,
+      error,
+      timestamp: new Date().toISOString(),
+      requestId,
+    };
+    for (const sink of this.sinks) {
+      try {
+        sink.write(entry);
+      } catch (sinkError) {
+        console.error('Log sink failed:', sinkError);
+      }
     }
   }
 
+  /**
+   * Deliver entries buffered by sinks
+   */
+  async flush(): Promise<void> {
+    await Promise.all(this.sinks.map((sink) => sink.flush?.()));
+  }
+
   /**
    * Extract metadata from request
    */
@@ -98,21 +295,18 @@ class ApiLogger {
 
   /**
    * Log an API request start
+   *
+   * @returns The request ID the middleware assigned, or a new one when the route was reached
+   * without it
    */
   logRequest(request: NextRequest, section?: string, action?: string): string {
-    const requestId = this.generateRequestId();
+    const requestId = resolveRequestId(request.headers.get(REQUEST_ID_HEADER));
     const metadata = this.extractRequestMetadata(request);
 
     if (section) metadata.section = section;
     if (action) metadata.action = action;
 
-    this.addLog({
-      level: LogLevel.INFO,
-      message: `API Request: ${request.method} ${metadata.url}`,
-      metadata,
-      timestamp: new Date().toISOString(),
-      requestId,
-    });
+    this.log(LogLevel.INFO, requestId, `API Request: ${request.method} ${metadata.url}`, metadata);
 
     return requestId;
   }
@@ -123,76 +317,31 @@ class ApiLogger {
   logResponse(requestId: string, statusCode: number, duration: number, message?: string): void {
     const level = statusCode >= 400 ? LogLevel.ERROR : LogLevel.INFO;
 
-    this.addLog({
-      level,
-      message: message || `API Response: ${statusCode} (${duration}ms)`,
-      metadata: { duration } as RequestMetadata,
-      timestamp: new Date().toISOString(),
-      requestId,
+    this.log(level, requestId, message || `API Response: ${statusCode} (${duration}ms)`, {
+      statusCode,
+      duration,
     });
   }
 
   /**
    * Log an error
    */
-  logError(requestId: string, error: Error, context?: Record<string, any>): void {
-    this.addLog({
-      level: LogLevel.ERROR,
-      message: `API Error: ${error.message}`,
-      metadata: context as RequestMetadata,
-      error,
-      timestamp: new Date().toISOString(),
-      requestId,
-    });
+  logError(requestId: string | undefined, error: Error, context?: Record<string, any>): void {
+    this.log(LogLevel.ERROR, requestId, `API Error: ${error.message}`, context, error);
   }
 
   /**
    * Log a warning
    */
-  logWarning(requestId: string, message: string, context?: Record<string, any>): void {
-    this.addLog({
-      level: LogLevel.WARN,
-      message: `API Warning: ${message}`,
-      metadata: context as RequestMetadata,
-      timestamp: new Date().toISOString(),
-      requestId,
-    });
+  logWarning(requestId: string | undefined, message: string, context?: Record<string, any>): void {
+    this.log(LogLevel.WARN, requestId, `API Warning: ${message}`, context);
   }
 
   /**
    * Log debug information
    */
-  logDebug(requestId: string, message: string, context?: Record<string, any>): void {
-    if (process.env.NODE_ENV === 'development') {
-      this.addLog({
-        level: LogLevel.DEBUG,
-        message: `API Debug: ${message}`,
-        metadata: context as RequestMetadata,
-        timestamp: new Date().toISOString(),
-        requestId,
-      });
-    }
-  }
-
-  /**
-   * Get recent logs (for debugging)
-   */
-  getRecentLogs(limit = 100): LogEntry[] {
-    return this.logs.slice(-limit);
-  }
-
-  /**
-   * Get logs by request ID
-   */
-  getLogsByRequestId(requestId: string): LogEntry[] {
-    return this.logs.filter((log) => log.requestId === requestId);
-  }
-
-  /**
-   * Clear all logs
-   */
-  clearLogs(): void {
-    this.logs = [];
+  logDebug(requestId: string | undefined, message: string, context?: Record<string, any>): void {
+    this.log(LogLevel.DEBUG, requestId, `API Debug: ${message}`, context);
   }
 }
 
@@ -211,11 +360,11 @@ export function withPerformanceLogging<T extends any[], R>(
     try {
       const result = await fn(...args);
       const duration = Date.now() - start;
-      console.debug(`Performance: ${operation} completed in ${duration}ms`);
+      apiLogger.logDebug(undefined, `${operation} completed in ${duration}ms`, { duration });
       return result;
     } catch (error) {
       const duration = Date.now() - start;
-      console.error(`Performance: ${operation} failed after ${duration}ms`, error);
+      apiLogger.logError(undefined, error as Error, { operation, duration });
       throw error;
     }
   };
@@ -0,0 +1,109 @@
+import type { CmsClient, CmsResponse, MeetingBuffers } from '@/lib/cms-api';
+import type { BookingDaySummary } from '@/lib/types';
+import type { BookingAvailability } from '@/lib/validations';
+
+/**
+ * Multi-day booking availability
+ *
+ * The CMS only reports availability one date at a time, so ranges are assembled from per-day
+ * requests with bounded concurrency and condensed into slot counts for the calendar heat-map.
+ *
+ * @module lib/booking-availability
+ */
+
+/**
+ * CMS requests in flight at once while loading a range
+ */
+const RANGE_CONCURRENCY = 4;
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Every `YYYY-MM-DD` from `from` to `to`, inclusive
+ */
+export function listDates(from: string, to: string): string[] {
+  const dates: string[] = [];
+  const end = Date.parse(to);
+  for (let day = Date.parse(from); day <= end; day += 86_400_000) {
+    dates.push(new Date(day).toISOString().slice(0, 10));
+  }
+  return dates;
+}
+
+/**
+ * Condense a day's CMS availability into slot counts
+ *
+ * @param availability - CMS response for the day
+ * @param duration - Meeting length the slots were computed for, in minutes
+ */
+export function summarizeAvailability(
+  availability: BookingAvailability,
+  duration: number
+): BookingDaySummary {
+  // Same slotting as the CMS: back-to-back meetings that end within each working-hours range
+  const totalSlots = availability.workingHours.reduce(
+    (total, { start, end }) =>
+      total + Math.max(0, Math.floor((toMinutes(end) - toMinutes(start)) / duration)),
+    0
+  );
+  const availableSlots = availability.availableSlots.length;
+
+  // A day with no free slots is only "full" if bookings filled it; blocks and overrides close it
+  const status = availableSlots > 0 ? 'open' : availability.bookedCount > 0 ? 'full' : 'closed';
+
+  return {
+    date: availability.date,
+    status,
+    availableSlots,
+    totalSlots: Math.max(totalSlots, availableSlots),
+    ...(availability.reason ? { reason: availability.reason } : {}),
+  };
+}
+
+/**
+ * Load per-day slot counts for a date range
+ *
+ * Fails as a whole if any day fails so the calendar never shows a partial month as bookable.
+ *
+ * @param client - CMS client
+ * @param from - First `YYYY-MM-DD`, inclusive
+ * @param to - Last `YYYY-MM-DD`, inclusive
+ * @param duration - Meeting length in minutes
+ * @param buffers - Meeting type's buffers, if any
+ */
+export async function getAvailabilityRange(
+  client: CmsClient,
+  from: string,
+  to: string,
+  duration: number,
+  buffers?: MeetingBuffers
+): Promise<CmsResponse<BookingDaySummary[]>> {
+  const dates = listDates(from, to);
+  const results: CmsResponse<BookingAvailability>[] = new Array(dates.length);
+
+  let next = 0;
+  const worker = async () => {
+    while (next < dates.length) {
+      const index = next++;
+      results[index] = await client.bookings.availability(dates[index], duration, { buffers });
+      if (!results[index].success) {
+        // Stop picking up new days; the range is going to fail anyway
+        next = dates.length;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(RANGE_CONCURRENCY, dates.length) }, worker));
+
+  const days: BookingDaySummary[] = [];
+  for (const result of results) {
+    if (!result) continue;
+    if (!result.success) return result;
+    days.push(summarizeAvailability(result.data, duration));
+  }
+
+  return { success: true, data: days, status: 200 };
+}
@@ -0,0 +1,93 @@
+import 'server-only';
+
+import { getBookingTokenSecret, signBookingToken } from '@/lib/booking-token';
+import { sendDueReminders, ReminderLog, type ReminderRunReport } from '@/lib/booking-reminders';
+import { cms } from '@/lib/cms-client';
+import {
+  BOOKING_REMINDER_OFFSETS,
+  BOOKING_REMINDERS_FILE,
+  BOOKING_REMINDERS_INTERVAL_MINUTES,
+  BOOKING_TIMEZONE,
+  SITE_URL,
+} from '@/lib/env';
+import { getNotificationTransport } from '@/lib/notifications';
+
+/**
+ * Configured booking reminder job
+ *
+ * Triggered by `POST /api/bookings/reminders` (for an external cron) or, with
+ * `BOOKING_REMINDERS_INTERVAL_MINUTES`, by an in-process timer started from `instrumentation.ts`.
+ *
+ * @module lib/booking-reminder-job
+ */
+
+const log = new ReminderLog(BOOKING_REMINDERS_FILE);
+
+/**
+ * Send the reminders that are due now
+ *
+ * @param origin - Site origin for manage links when `NEXT_PUBLIC_SITE_URL` is not set
+ * @returns The run's counts, or `null` when another run is in progress
+ * @throws Error when notifications are off or the CMS can't be reached
+ */
+export async function runBookingReminders(origin?: string): Promise<ReminderRunReport | null> {
+  const transport = getNotificationTransport();
+  if (!transport) {
+    throw new Error('Notifications are not configured');
+  }
+
+  const secret = getBookingTokenSecret();
+  const siteOrigin = SITE_URL || origin;
+
+  return sendDueReminders({
+    client: cms,
+    send: (message) => transport.send(message),
+    log,
+    offsetsMinutes: BOOKING_REMINDER_OFFSETS,
+    hostTimeZone: BOOKING_TIMEZONE,
+    manageUrl: async (booking, startsAt) => {
+      if (!secret || !siteOrigin) return null;
+      const token = await signBookingToken(
+        {
+          id: booking.id,
+          name: booking.name,
+          email: booking.email,
+          date: booking.date,
+          time: booking.time,
+          duration: booking.duration,
+          startsAt,
+          hostTimeZone: BOOKING_TIMEZONE,
+          timeZone: booking.time_zone || BOOKING_TIMEZONE,
+          meetingType: booking.meeting_type,
+          meetingLink: booking.meeting_link,
+        },
+        secret
+      );
+      return `${siteOrigin}/book/confirmed/${token}`;
+    },
+  });
+}
+
+let scheduler: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Run the job every `BOOKING_REMINDERS_INTERVAL_MINUTES`; does nothing when that is 0
+ */
+export function startBookingReminderScheduler(): void {
+  if (scheduler || BOOKING_REMINDERS_INTERVAL_MINUTES <= 0) return;
+
+  const run = () => {
+    runBookingReminders().then(
+      (report) => {
+        if (report && report.due > 0) {
+          console.info(`[reminders] sent ${report.sent}/${report.due} due reminders`);
+        }
+      },
+      (error) => console.error('[reminders] run failed:', error)
+    );
+  };
+
+  scheduler = setInterval(run, BOOKING_REMINDERS_INTERVAL_MINUTES * 60 * 1000);
+  scheduler.unref?.();
+  run();
+}
@@ -0,0 +1,286 @@
+import { randomUUID } from 'crypto';
+import { appendFile, mkdir, readFile, rename, unlink, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+
+import type { CmsClient } from '@/lib/cms-api';
+import { acquireFileLock } from '@/lib/file-lock';
+import { renderNotification, type EmailMessage } from '@/lib/notifications/templates';
+import { formatInTimeZone, zonedTimeToUtc } from '@/lib/timezones';
+import type { CmsBooking } from '@/lib/validations';
+
+/**
+ * Booking reminders
+ *
+ * Emails guests before their meeting at each configured offset (e.g. 24 hours and 1 hour). Sent
+ * reminders are appended to a log file that every run reads back, so restarts and overlapping
+ * triggers never send one twice. The log is keyed by start time, so a rescheduled booking gets
+ * fresh reminders for its new slot, and entries are dropped once their meeting has started.
+ *
+ * @module lib/booking-reminders
+ */
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// ==================== TYPES ====================
+
+/**
+ * A reminder whose time has come
+ */
+export interface DueReminder {
+  /** Identifies the reminder in the log */
+  key: string;
+  booking: CmsBooking;
+  offsetMinutes: number;
+  /** UTC ISO instant the meeting starts */
+  startsAt: string;
+}
+
+/**
+ * Outcome of one reminder run
+ */
+export interface ReminderRunReport {
+  due: number;
+  sent: number;
+  failed: number;
+}
+
+/**
+ * Dependencies and settings for `sendDueReminders`
+ */
+export interface ReminderRunOptions {
+  client: CmsClient;
+  /** Delivers one message or throws; failed reminders are retried on the next run */
+  send: (message: EmailMessage) => Promise<void>;
+  log: ReminderLog;
+  /** Minutes before the start, in any order */
+  offsetsMinutes: number[];
+  /** Zone the CMS booking dates and times are in; reminders use it for bookings without a zone */
+  hostTimeZone: string;
+  /** Link to the booking's manage page, if one can be issued */
+  manageUrl?: (booking: CmsBooking, startsAt: string) => Promise<string | null>;
+  now?: Date;
+}
+
+// ==================== SCHEDULING ====================
+
+/**
+ * Parse a SQLite `CURRENT_TIMESTAMP` (UTC, no zone suffix)
+ */
+const parseCmsTimestamp = (value: string | null | undefined): Date | null => {
+  if (!value) return null;
+  const parsed = new Date(`${value.replace(' ', 'T')}Z`);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+};
+
+/**
+ * Pick the reminders to send now
+ *
+ * Of the offsets whose send time has passed, only the closest to the meeting is sent: after
+ * downtime a guest gets one "starts in 1 hour" email rather than a late "24 hours" one as well.
+ * Offsets that had already passed when the booking was made are skipped, since the confirmation
+ * covers them.
+ */
+export function findDueReminders(
+  bookings: CmsBooking[],
+  options: { offsetsMinutes: number[]; hostTimeZone: string; now: Date; sent: Set<string> }
+): DueReminder[] {
+  const now = options.now.getTime();
+
+  return bookings.flatMap((booking) => {
+    if (booking.status !== 'confirmed') return [];
+
+    const startsAt = zonedTimeToUtc(booking.date, booking.time, options.hostTimeZone);
+    if (startsAt.getTime() <= now) return [];
+
+    const createdAt = parseCmsTimestamp(booking.created_at)?.getTime() ?? -Infinity;
+    const passed = options.offsetsMinutes.filter((offset) => {
+      const sendAt = startsAt.getTime() - offset * MINUTE;
+      return sendAt <= now && sendAt >= createdAt;
+    });
+    if (passed.length === 0) return [];
+
+    const offsetMinutes = Math.min(...passed);
+    const key = `${booking.id}:${startsAt.toISOString()}:${offsetMinutes}`;
+    if (options.sent.has(key)) return [];
+
+    return [{ key, booking, offsetMinutes, startsAt: startsAt.toISOString() }];
+  });
+}
+
+// ==================== LOG ====================
+
+/**
+ * One log line's key and meeting start, or `null` when the line isn't a valid entry
+ */
+const parseLogEntry = (line: string): { key: string; startsAt: string } | null => {
+  try {
+    const entry = JSON.parse(line) as { key?: unknown; startsAt?: unknown } | null;
+    return typeof entry?.key === 'string' && typeof entry.startsAt === 'string'
+      ? { key: entry.key, startsAt: entry.startsAt }
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * JSON-lines log of sent reminders
+ *
+ * A sibling `.lock` file (see `lib/file-lock.ts`) keeps runs from overlapping, across processes
+ * sharing the file.
+ */
+export class ReminderLog {
+  private readonly lockPath: string;
+
+  constructor(private readonly filePath: string) {
+    this.lockPath = `${filePath}.lock`;
+  }
+
+  /**
+   * Keys of the reminders sent for meetings that haven't started yet
+   *
+   * Entries for meetings that have started can never be due again, so they are pruned from the
+   * file, which keeps it as small as the upcoming schedule. Lines that don't parse, such as one
+   * torn by a crash mid-append, are pruned as well. Call it inside `exclusive`.
+   */
+  async sentKeys(now: Date = new Date()): Promise<Set<string>> {
+    let contents: string;
+    try {
+      contents = await readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return new Set();
+      }
+      throw error;
+    }
+
+    const lines = contents.split('\n').filter((line) => line.trim().length > 0);
+    const upcoming = lines.flatMap((line) => {
+      const entry = parseLogEntry(line);
+      return entry && Date.parse(entry.startsAt) > now.getTime() ? [{ line, key: entry.key }] : [];
+    });
+    if (upcoming.length < lines.length) {
+      await this.rewrite(upcoming.map(({ line }) => line));
+    }
+
+    return new Set(upcoming.map(({ key }) => key));
+  }
+
+  async record(reminder: DueReminder, sentAt: Date): Promise<void> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+    const entry = {
+      key: reminder.key,
+      bookingId: reminder.booking.id,
+      offsetMinutes: reminder.offsetMinutes,
+      startsAt: reminder.startsAt,
+      sentAt: sentAt.toISOString(),
+    };
+    await appendFile(this.filePath, `${JSON.stringify(entry)}\n`, 'utf8');
+  }
+
+  /**
+   * Run `task` unless another run holds the lock
+   *
+   * @returns The task's result, or `null` when another run is in progress
+   */
+  async exclusive<T>(task: () => Promise<T>): Promise<T | null> {
+    const lock = await acquireFileLock(this.lockPath);
+    if (!lock) {
+      return null;
+    }
+
+    try {
+      return await task();
+    } finally {
+      await lock.release();
+    }
+  }
+
+  /**
+   * Replace the log through a temporary file, so a crash never leaves it half written
+   */
+  private async rewrite(lines: string[]): Promise<void> {
+    const tempPath = `${this.filePath}.${randomUUID()}.tmp`;
+    try {
+      await writeFile(tempPath, lines.map((line) => `${line}\n`).join(''), 'utf8');
+      await rename(tempPath, this.filePath);
+    } catch (error) {
+      await unlink(tempPath).catch(() => undefined);
+      throw error;
+    }
+  }
+}
+
+// ==================== RUN ====================
+
+/**
+ * Send every reminder that is due and not yet logged
+ *
+ * @returns The run's counts, or `null` when another run is in progress
+ * @throws Error when the CMS booking list can't be loaded
+ */
+export async function sendDueReminders(
+  options: ReminderRunOptions
+): Promise<ReminderRunReport | null> {
+  const { client, log, hostTimeZone } = options;
+
+  return log.exclusive(async () => {
+    const now = options.now ?? new Date();
+
+    // `from` is a host-local date; a day of slack covers meetings just after local midnight
+    const from = formatInTimeZone(new Date(now.getTime() - DAY), hostTimeZone).date;
+    const list = await client.bookings.list({ status: 'confirmed', from });
+    if (!list.success) {
+      throw new Error(`Failed to load bookings from the CMS: ${list.error}`);
+    }
+
+    const due = findDueReminders(list.data.data, {
+      offsetsMinutes: options.offsetsMinutes,
+      hostTimeZone,
+      now,
+      sent: await log.sentKeys(now),
+    });
+    if (due.length === 0) {
+      return { due: 0, sent: 0, failed: 0 };
+    }
+
+    // Names are nice to have; without the catalog the reminder just leaves the type out
+    const catalog = await client.bookings.meetingTypes();
+    const meetingTypeNames = new Map(
+      catalog.success ? catalog.data.meetingTypes.map(({ slug, name }) => [slug, name]) : []
+    );
+
+    let sent = 0;
+    for (const reminder of due) {
+      const { booking, startsAt, offsetMinutes } = reminder;
+      try {
+        await options.send(
+          renderNotification({
+            type: 'booking-reminder',
+            to: booking.email,
+            data: {
+              name: booking.name,
+              startsAt,
+              duration: booking.duration,
+              // Bookings made before the CMS stored the visitor's zone fall back to the host's
+              timeZone: booking.time_zone || hostTimeZone,
+              meetingType: booking.meeting_type
+                ? (meetingTypeNames.get(booking.meeting_type) ?? null)
+                : null,
+              meetingLink: booking.meeting_link,
+              manageUrl: (await options.manageUrl?.(booking, startsAt)) ?? null,
+              offsetMinutes,
+            },
+          })
+        );
+        await log.record(reminder, new Date());
+        sent++;
+      } catch (error) {
+        console.error(`Failed to send reminder ${reminder.key}:`, error);
+      }
+    }
+
+    return { due: due.length, sent, failed: due.length - sent };
+  });
+}
@@ -0,0 +1,194 @@
+/**
+ * Booking confirmation and manage tokens
+ *
+ * The CMS only lists bookings to admins and the site itself, so the visitor's handle on their
+ * booking is a signed snapshot of it: `<base64url JSON payload>.<HMAC-SHA256 signature>`. Anyone
+ * holding the token can view, reschedule or cancel the booking it describes, so it is only ever
+ * handed to the person who made the booking (the confirmation redirect and their email). Tokens
+ * expire when the meeting ends.
+ *
+ * Free of Node-only imports so pages, route handlers and the middleware can all verify tokens.
+ *
+ * @module lib/booking-token
+ */
+
+import { base64UrlDecodeText, base64UrlEncode, hmacSign, hmacVerify } from '@/lib/signing';
+
+const MIN_SECRET_LENGTH = 32;
+
+// ==================== TYPES ====================
+
+/**
+ * Booking details carried by a token
+ */
+export interface BookingTokenPayload {
+  /** CMS booking ID */
+  id: number;
+  name: string;
+  email: string;
+  /** Host-local `YYYY-MM-DD` */
+  date: string;
+  /** Host-local `HH:MM` */
+  time: string;
+  /** Minutes */
+  duration: number;
+  /** UTC ISO instant the meeting starts */
+  startsAt: string;
+  /** Host's IANA time zone */
+  hostTimeZone: string;
+  /** Visitor's IANA time zone */
+  timeZone: string;
+  meetingType?: string | null;
+  meetingLink?: string | null;
+  /** Issued-at time (seconds since epoch) */
+  iat: number;
+  /** Expiry time (seconds since epoch): the end of the meeting */
+  exp: number;
+}
+
+/**
+ * Reasons a booking token can be rejected
+ */
+export type BookingTokenFailure = 'missing' | 'malformed' | 'invalid_signature' | 'expired';
+
+/**
+ * Result of verifying a booking token
+ */
+export type BookingTokenVerification =
+  | { valid: true; booking: BookingTokenPayload }
+  | { valid: false; reason: BookingTokenFailure };
+
+// ==================== ENVIRONMENT ====================
+
+/**
+ * Read the booking token secret, falling back to the admin session secret.
+ *
+ * @returns The secret, or `null` when neither is configured
+ */
+export function getBookingTokenSecret(): string | null {
+  const secret = process.env.BOOKING_TOKEN_SECRET || process.env.ADMIN_SESSION_SECRET || '';
+  return secret.length >= MIN_SECRET_LENGTH ? secret : null;
+}
+
+// ==================== HELPERS ====================
+
+function isBookingTokenPayload(value: unknown): value is BookingTokenPayload {
+  if (!value || typeof value !== 'object') return false;
+  const payload = value as Record<string, unknown>;
+  return (
+    Number.isInteger(payload.id) &&
+    typeof payload.name === 'string' &&
+    typeof payload.email === 'string' &&
+    typeof payload.date === 'string' &&
+    typeof payload.time === 'string' &&
+    Number.isInteger(payload.duration) &&
+    typeof payload.startsAt === 'string' &&
+    typeof payload.hostTimeZone === 'string' &&
+    typeof payload.timeZone === 'string' &&
+    typeof payload.iat === 'number' &&
+    typeof payload.exp === 'number'
+  );
+}
+
+// ==================== SIGNING & VERIFICATION ====================
+
+/**
+ * Issue a token for a booking, valid until the meeting ends.
+ *
+ * @param booking - Booking details without `iat` and `exp`
+ * @param secret - HMAC secret
+ * @param now - Clock override in milliseconds
+ */
+export async function signBookingToken(
+  booking: Omit<BookingTokenPayload, 'iat' | 'exp'>,
+  secret: string,
+  now: number = Date.now()
+): Promise<string> {
+  const endsAt = Date.parse(booking.startsAt) + booking.duration * 60_000;
+  const payload: BookingTokenPayload = {
+    ...booking,
+    iat: Math.floor(now / 1000),
+    exp: Math.floor(endsAt / 1000),
+  };
+  const encodedPayload = base64UrlEncode(JSON.stringify(payload));
+  return `${encodedPayload}.${await hmacSign(secret, encodedPayload)}`;
+}
+
+/**
+ * Verify a token's signature and expiry and decode the booking it carries.
+ *
+ * @param token - Token from the URL
+ * @param secret - HMAC secret
+ * @param now - Clock override in milliseconds
+ */
+export async function verifyBookingToken(
+  token: string | null | undefined,
+  secret: string,
+  now: number = Date.now()
+): Promise<BookingTokenVerification> {
+  if (!token) {
+    return { valid: false, reason: 'missing' };
+  }
+
+  const segments = token.split('.');
+  if (segments.length !== 2) {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  const [encodedPayload, signature] = segments;
+  if (!(await hmacVerify(secret, encodedPayload, signature))) {
+    return { valid: false, reason: 'invalid_signature' };
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(base64UrlDecodeText(encodedPayload));
+  } catch {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  if (!isBookingTokenPayload(payload)) {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  if (payload.exp * 1000 <= now) {
+    return { valid: false, reason: 'expired' };
+  }
+
+  return { valid: true, booking: payload };
+}
+
+/**
+ * Verify a token with the configured secret.
+ *
+ * @returns Verification result; always invalid when no secret is configured
+ */
+export async function verifyRequestBookingToken(
+  token: string | null | undefined
+): Promise<BookingTokenVerification> {
+  const secret = getBookingTokenSecret();
+  if (!token) {
+    return { valid: false, reason: 'missing' };
+  }
+  if (!secret) {
+    return { valid: false, reason: 'invalid_signature' };
+  }
+  return verifyBookingToken(token, secret);
+}
+
+// ==================== CHANGE WINDOW ====================
+
+/**
+ * Whether a meeting is far enough away to be rescheduled or cancelled by the visitor
+ *
+ * @param startsAt - UTC ISO instant the meeting starts
+ * @param cutoffHours - Changes close this many hours before the start
+ * @param now - Clock override in milliseconds
+ */
+export function isBeforeChangeCutoff(
+  startsAt: string,
+  cutoffHours: number,
+  now: number = Date.now()
+): boolean {
+  return Date.parse(startsAt) - cutoffHours * 60 * 60 * 1000 > now;
+}
@@ -0,0 +1,478 @@
+import { z } from 'zod';
+
+import { apiLogger, LogLevel, REQUEST_ID_HEADER } from '@/lib/api-logger';
+import type { IntakeAnswer } from '@/lib/intake-questions';
+import type { ApiConfig, ApiResponse, ValidationError } from '@/lib/types';
+import {
+  bookingAvailabilitySchema,
+  bookingConfirmationSchema,
+  cmsAnalyticsBatchTrackedSchema,
+  cmsAnalyticsEventListResponseSchema,
+  cmsAnalyticsRealtimeResponseSchema,
+  cmsAnalyticsReportResponseSchema,
+  cmsAnalyticsTrackedSchema,
+  cmsBookingHoldResponseSchema,
+  cmsBookingListResponseSchema,
+  cmsErrorResponseSchema,
+  cmsGuestBookingResponseSchema,
+  cmsMeetingTypeListResponseSchema,
+  cmsMessageCreatedSchema,
+  cmsProjectListResponseSchema,
+  cmsProjectResponseSchema,
+  cmsWaitlistEntryResponseSchema,
+  cmsWaitlistOfferResponseSchema,
+  formatZodErrors,
+} from '@/lib/validations';
+
+/**
+ * Typed CMS client
+ *
+ * Every call resolves to an `ApiResponse` carrying the HTTP status, never throws, and only
+ * reports success once the body has passed its zod schema. Idempotent requests are retried on
+ * network errors, timeouts and 429/5xx responses with exponential backoff; writes are sent
+ * exactly once so a slow CMS can't produce duplicate bookings.
+ *
+ * The configured instance lives in `lib/cms-client.ts`; this module has no environment access so
+ * it can be pointed at any server.
+ *
+ * @module lib/cms-api
+ */
+
+// ==================== TYPES ====================
+
+/**
+ * CMS result: an `ApiResponse` plus the status the route should mirror
+ */
+export type CmsResponse<T> = ApiResponse<T> & { status: number };
+
+/**
+ * Failed CMS result
+ */
+export type CmsFailure = Extract<ApiResponse<never>, { success: false }> & { status: number };
+
+/**
+ * Per-request options
+ */
+export interface CmsRequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  body?: unknown;
+  /** Cache successful GETs for `ApiConfig.cacheTime` seconds (default false) */
+  cache?: boolean;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Minutes kept free around a meeting
+ */
+export interface MeetingBuffers {
+  before: number;
+  after: number;
+}
+
+/**
+ * Options for `bookings.availability`
+ */
+export interface CmsAvailabilityOptions {
+  buffers?: MeetingBuffers;
+  /** The visitor's own hold */
+  holdId?: string;
+  /** Booking being rescheduled, whose current slot doesn't count as taken */
+  excludeBookingId?: number;
+}
+
+/**
+ * Slot reservation sent to `POST /api/bookings/holds`
+ */
+export interface CmsBookingHoldRequest {
+  date: string;
+  time: string;
+  duration: number;
+  bufferBefore: number;
+  bufferAfter: number;
+  expiresInMinutes: number;
+  /** Previous hold of the same visitor, released first */
+  replaceHoldId?: string;
+}
+
+/**
+ * Waitlist signup sent to `POST /api/bookings/waitlist`
+ */
+export interface CmsWaitlistRequest {
+  name: string;
+  email: string;
+  date: string;
+  meetingType: string;
+}
+
+/**
+ * Booking fields sent to `POST /api/bookings`
+ */
+export interface CmsBookingRequest {
+  name: string;
+  email: string;
+  phone?: string | null;
+  date: string;
+  time: string;
+  duration: number;
+  meetingType?: string | null;
+  notes?: string | null;
+  /** Visitor's IANA time zone */
+  timeZone?: string;
+  /** UTC instant of `date` + `time` in the host's zone */
+  startsAt?: string;
+  /** Answers to the meeting type's intake questions */
+  intakeAnswers?: IntakeAnswer[];
+  /** Hold on the slot, consumed by the booking */
+  holdId?: string | null;
+  /** Whether the CMS emails its own confirmation to the guest (default true) */
+  notifyGuest?: boolean;
+}
+
+/**
+ * Filters for `GET /api/bookings`
+ */
+export interface CmsBookingListFilter {
+  status?: 'confirmed' | 'cancelled' | 'completed' | 'no-show';
+  /** Host-local `YYYY-MM-DD`; only bookings on or after it */
+  from?: string;
+}
+
+/**
+ * Filters for `GET /api/analytics/events`
+ */
+export interface CmsAnalyticsEventFilter {
+  eventTypes?: string[];
+  /** Only events recorded at or after this instant; the CMS defaults to 7 days ago */
+  from?: Date;
+  /** Newest first; the CMS defaults to 5000 and caps at 20000 */
+  limit?: number;
+}
+
+/**
+ * Options for `GET /api/analytics/report`
+ */
+export interface CmsAnalyticsReportOptions {
+  /** Start of the range; the CMS defaults to 7 days ago */
+  from?: Date;
+  /** Time series granularity; the CMS defaults to `day` */
+  bucket?: 'hour' | 'day';
+}
+
+/**
+ * Options for `GET /api/analytics/report/realtime`
+ */
+export interface CmsAnalyticsRealtimeOptions {
+  /** Sessions seen since; the CMS defaults to 5 minutes ago */
+  from?: Date;
+  /** Latest events to list; the CMS defaults to 20 and caps at 100 */
+  limit?: number;
+}
+
+/**
+ * Message fields sent to `POST /api/messages`
+ */
+export interface CmsMessageRequest {
+  name: string;
+  email: string;
+  subject: string;
+  message: string;
+}
+
+/**
+ * Event fields sent to `POST /api/analytics/track` and, in batches, `/api/analytics/track/batch`
+ */
+export interface CmsAnalyticsEventRequest {
+  event_type: string;
+  event_data: Record<string, unknown>;
+  page_url: string;
+  referrer: string;
+  session_id?: string;
+  /** When the event happened; the CMS falls back to the time it's stored */
+  timestamp?: string;
+}
+
+/**
+ * Hook for validating configuration before each request, e.g. a required API key
+ *
+ * @returns An error message to fail the request with, or `null`
+ */
+export type CmsPreflightCheck = () => string | null;
+
+/**
+ * Hook returning the ID of the request being served, sent to the CMS as `x-request-id` and
+ * attached to the client's logs. Not called for cached GETs, whose cache key would include it.
+ */
+export type CmsCorrelationId = () => Promise<string | null>;
+
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+
+const BASE_BACKOFF_MS = 100;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const failure = (status: number, error: string, details?: ValidationError[]): CmsFailure => ({
+  success: false,
+  error,
+  details,
+  status,
+});
+
+// ==================== CLIENT ====================
+
+/**
+ * Create a CMS client
+ *
+ * @param config - Base URL, per-attempt timeout (ms), retry count, cache time (s) and headers
+ * @param preflight - Optional check run before every request
+ * @param correlationId - Optional source of the current request's ID
+ *
+ * @example
+ * const cms = createCmsClient({ baseUrl, timeout: 5000, retries: 2, cacheTime: 60, headers });
+ * const result = await cms.bookings.availability('2025-01-06', 30);
+ * if (!result.success) return NextResponse.json({ error: result.error }, { status: result.status });
+ */
+export function createCmsClient(
+  config: ApiConfig,
+  preflight?: CmsPreflightCheck,
+  correlationId?: CmsCorrelationId
+) {
+  const baseUrl = config.baseUrl.replace(/\/$/, '');
+
+  async function request<S extends z.ZodTypeAny>(
+    path: string,
+    schema: S,
+    options: CmsRequestOptions = {}
+  ): Promise<CmsResponse<z.infer<S>>> {
+    const method = options.method ?? 'GET';
+    const label = `${method} ${path}`;
+    const cached = method === 'GET' && options.cache === true && config.cacheTime > 0;
+    const requestId = (!cached && (await correlationId?.())) || undefined;
+    const log = (level: LogLevel, message: string, metadata?: Record<string, unknown>) =>
+      apiLogger.log(level, requestId, `[cms] ${label} ${message}`, metadata);
+
+    const preflightError = preflight?.();
+    if (preflightError) {
+      log(LogLevel.ERROR, `not sent: ${preflightError}`);
+      return failure(503, preflightError);
+    }
+
+    const headers = new Headers({
+      Accept: 'application/json',
+      ...config.headers,
+      ...options.headers,
+    });
+    if (options.body !== undefined) {
+      headers.set('Content-Type', 'application/json');
+    }
+    if (requestId) {
+      headers.set(REQUEST_ID_HEADER, requestId);
+    }
+
+    const attempts = method === 'GET' ? config.retries + 1 : 1;
+
+    let lastFailure = failure(502, 'CMS request failed');
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      if (attempt > 1) {
+        // Exponential backoff with jitter: ~100ms, ~200ms, ~400ms...
+        await sleep(BASE_BACKOFF_MS * 2 ** (attempt - 2) * (0.5 + Math.random()));
+      }
+
+      let response: Response;
+      try {
+        response = await fetch(`${baseUrl}${path}`, {
+          method,
+          headers,
+          body: options.body === undefined ? undefined : JSON.stringify(options.body),
+          signal: AbortSignal.timeout(config.timeout),
+          ...(cached ? { next: { revalidate: config.cacheTime } } : { cache: 'no-store' }),
+        });
+      } catch (error) {
+        const timedOut = (error as Error).name === 'TimeoutError';
+        lastFailure = timedOut
+          ? failure(504, `CMS did not respond within ${config.timeout}ms`)
+          : failure(502, 'CMS is unreachable');
+        log(LogLevel.ERROR, `attempt ${attempt}/${attempts}: ${lastFailure.error}`);
+        continue;
+      }
+
+      if (!response.ok) {
+        const payload = cmsErrorResponseSchema.safeParse(await response.json().catch(() => null));
+        lastFailure = failure(
+          response.status,
+          payload.success ? payload.data.error : `CMS responded with ${response.status}`,
+          payload.success
+            ? payload.data.details?.map((detail) => ({ ...detail, code: 'cms_validation' }))
+            : undefined
+        );
+
+        if (RETRYABLE_STATUSES.has(response.status)) {
+          log(LogLevel.ERROR, `attempt ${attempt}/${attempts}: ${response.status}`);
+          continue;
+        }
+
+        log(LogLevel.WARN, `${response.status} ${lastFailure.error}`);
+        return lastFailure;
+      }
+
+      const parsed = schema.safeParse(await response.json().catch(() => undefined));
+      if (!parsed.success) {
+        log(LogLevel.ERROR, 'returned an unexpected body', { issues: parsed.error.issues });
+        return failure(502, 'Unexpected response from CMS', formatZodErrors(parsed.error));
+      }
+
+      return { success: true, data: parsed.data, status: response.status };
+    }
+
+    return lastFailure;
+  }
+
+  return {
+    request,
+
+    projects: {
+      /** Published projects, featured first */
+      list: () => request('/api/projects/public', cmsProjectListResponseSchema, { cache: true }),
+      /** Projects flagged for the homepage */
+      featured: () =>
+        request('/api/projects/featured', cmsProjectListResponseSchema, { cache: true }),
+      /** A single project with its gallery and long-form content */
+      get: (id: string | number) =>
+        request(`/api/projects/public/${encodeURIComponent(id)}`, cmsProjectResponseSchema, {
+          cache: true,
+        }),
+    },
+
+    bookings: {
+      /**
+       * Open slots on a date for a meeting of `duration` minutes, optionally padded by the
+       * meeting type's buffers. Slots held by other visitors are excluded; pass the visitor's own
+       * `holdId` to keep theirs, or `excludeBookingId` when offering slots for a reschedule.
+       */
+      availability: (date: string, duration: number, options: CmsAvailabilityOptions = {}) => {
+        const query = new URLSearchParams({ duration: String(duration) });
+        if (options.buffers) {
+          query.set('bufferBefore', String(options.buffers.before));
+          query.set('bufferAfter', String(options.buffers.after));
+        }
+        if (options.holdId) query.set('holdId', options.holdId);
+        if (options.excludeBookingId) {
+          query.set('excludeBookingId', String(options.excludeBookingId));
+        }
+        return request(
+          `/api/bookings/availability/${encodeURIComponent(date)}?${query}`,
+          bookingAvailabilitySchema
+        );
+      },
+      /** Reserve a slot for a few minutes; fails with status 409 when it is taken or held */
+      hold: (hold: CmsBookingHoldRequest) =>
+        request('/api/bookings/holds', cmsBookingHoldResponseSchema, {
+          method: 'POST',
+          body: hold,
+        }),
+      /** Join the waitlist for a date; fails with status 409 when already on it */
+      joinWaitlist: (entry: CmsWaitlistRequest) =>
+        request('/api/bookings/waitlist', cmsWaitlistEntryResponseSchema, {
+          method: 'POST',
+          body: entry,
+        }),
+      /** An open waitlist offer by its claim token; 404 once claimed or expired */
+      waitlistOffer: (token: string) =>
+        request(
+          `/api/bookings/waitlist/offers/${encodeURIComponent(token)}`,
+          cmsWaitlistOfferResponseSchema
+        ),
+      /** The meeting-type catalog, disabled types included */
+      meetingTypes: () =>
+        request('/api/bookings/meeting-types', cmsMeetingTypeListResponseSchema, { cache: true }),
+      /** Book a slot; fails with status 409 when it was taken in the meantime */
+      create: (booking: CmsBookingRequest) =>
+        request('/api/bookings', bookingConfirmationSchema, { method: 'POST', body: booking }),
+      /** Bookings in date and time order; the CMS only lists them to the service key */
+      list: (filter: CmsBookingListFilter = {}) => {
+        const query = new URLSearchParams();
+        if (filter.status) query.set('status', filter.status);
+        if (filter.from) query.set('from', filter.from);
+        return request(
+          `/api/bookings${query.size > 0 ? `?${query}` : ''}`,
+          cmsBookingListResponseSchema
+        );
+      },
+      /** A visitor's own booking; 404 unless `email` matches */
+      get: (id: number, email: string) =>
+        request(
+          `/api/bookings/${id}/guest?email=${encodeURIComponent(email)}`,
+          cmsGuestBookingResponseSchema
+        ),
+      /** Move a visitor's booking to another host-local slot; 409 when the slot is taken */
+      reschedule: (id: number, change: { email: string; date: string; time: string }) =>
+        request(`/api/bookings/${id}/guest`, cmsGuestBookingResponseSchema, {
+          method: 'PUT',
+          body: change,
+        }),
+      /** Cancel a visitor's booking; 409 unless it is still confirmed */
+      cancel: (id: number, email: string) =>
+        request(`/api/bookings/${id}/guest`, cmsGuestBookingResponseSchema, {
+          method: 'DELETE',
+          body: { email },
+        }),
+    },
+
+    messages: {
+      /** Store a contact form message */
+      create: (message: CmsMessageRequest) =>
+        request('/api/messages', cmsMessageCreatedSchema, { method: 'POST', body: message }),
+    },
+
+    analytics: {
+      /** Record a single analytics event */
+      track: (event: CmsAnalyticsEventRequest) =>
+        request('/api/analytics/track', cmsAnalyticsTrackedSchema, { method: 'POST', body: event }),
+
+      /** Record up to 50 events at once; the CMS stores all of them or none */
+      trackBatch: (events: CmsAnalyticsEventRequest[]) =>
+        request('/api/analytics/track/batch', cmsAnalyticsBatchTrackedSchema, {
+          method: 'POST',
+          body: { events },
+        }),
+      /** Raw events, newest first, for admin reports */
+      events: (filter: CmsAnalyticsEventFilter = {}) => {
+        const query = new URLSearchParams();
+        if (filter.eventTypes?.length) query.set('event_type', filter.eventTypes.join(','));
+        if (filter.from) query.set('from', filter.from.toISOString());
+        if (filter.limit) query.set('limit', String(filter.limit));
+        return request(
+          `/api/analytics/events${query.size > 0 ? `?${query}` : ''}`,
+          cmsAnalyticsEventListResponseSchema
+        );
+      },
+
+      /** Dashboard aggregates over every event since `from` */
+      report: (options: CmsAnalyticsReportOptions = {}) => {
+        const query = new URLSearchParams();
+        if (options.from) query.set('from', options.from.toISOString());
+        if (options.bucket) query.set('bucket', options.bucket);
+        return request(
+          `/api/analytics/report${query.size > 0 ? `?${query}` : ''}`,
+          cmsAnalyticsReportResponseSchema
+        );
+      },
+
+      /** Sessions active since `from` and the latest events */
+      realtime: (options: CmsAnalyticsRealtimeOptions = {}) => {
+        const query = new URLSearchParams();
+        if (options.from) query.set('from', options.from.toISOString());
+        if (options.limit) query.set('limit', String(options.limit));
+        return request(
+          `/api/analytics/report/realtime${query.size > 0 ? `?${query}` : ''}`,
+          cmsAnalyticsRealtimeResponseSchema
+        );
+      },
+    },
+  };
+}
+
+/**
+ * Client returned by `createCmsClient`
+ */
+export type CmsClient = ReturnType<typeof createCmsClient>;
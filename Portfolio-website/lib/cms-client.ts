@@ -1,46 +1,36 @@
 import 'server-only';
 
-import { CMS_API_KEY, buildCmsUrl } from '@/lib/env';
-
-export class MissingCmsApiKeyError extends Error {
-  constructor() {
-    super('CMS_API_KEY is not configured.');
-    this.name = 'MissingCmsApiKeyError';
-  }
-}
-
-const ensureCmsApiKey = () => {
-  if (!CMS_API_KEY) {
-    throw new MissingCmsApiKeyError();
+import { headers } from 'next/headers';
+import { REQUEST_ID_HEADER } from '@/lib/api-logger';
+import { createCmsClient } from '@/lib/cms-api';
+import { CMS_API_KEY, CMS_BASE_URL, CMS_CACHE_TIME, CMS_RETRIES, CMS_TIMEOUT_MS } from '@/lib/env';
+
+/**
+ * CMS client configured from the environment
+ *
+ * Every request carries `CMS_API_KEY`; without it requests fail with a 503 instead of being sent
+ * anonymously. Requests made while serving a request also carry the `x-request-id` the middleware
+ * assigned it.
+ *
+ * @module lib/cms-client
+ */
+export const cms = createCmsClient(
+  {
+    baseUrl: CMS_BASE_URL,
+    timeout: CMS_TIMEOUT_MS,
+    retries: CMS_RETRIES,
+    cacheTime: CMS_CACHE_TIME,
+    headers: { 'x-cms-api-key': CMS_API_KEY },
+  },
+  () => (CMS_API_KEY ? null : 'CMS_API_KEY is not configured.'),
+  async () => {
+    try {
+      return (await headers()).get(REQUEST_ID_HEADER);
+    } catch {
+      // Outside a request, e.g. the reminder timer
+      return null;
+    }
   }
-};
-
-type FetchOptions = RequestInit & {
-  headers?: HeadersInit;
-};
-
-export const fetchFromCms = async (path: string, init: FetchOptions = {}) => {
-  ensureCmsApiKey();
-
-  const headers = new Headers(init.headers);
-  if (!headers.has('x-cms-api-key')) {
-    headers.set('x-cms-api-key', CMS_API_KEY);
-  }
-
-  return fetch(buildCmsUrl(path), {
-    ...init,
-    headers,
-  });
-};
-
-export const fetchJsonFromCms = async (path: string, init: FetchOptions = {}) => {
-  const response = await fetchFromCms(path, {
-    ...init,
-    headers: {
-      'Content-Type': 'application/json',
-      ...(init.headers ?? {}),
-    },
-  });
+);
 
-  return response;
-};
+export type { CmsResponse } from '@/lib/cms-api';
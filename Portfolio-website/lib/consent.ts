@@ -0,0 +1,140 @@
+/**
+ * Visitor consent for optional tracking
+ *
+ * The choice made in the consent banner is stored in the `consent` cookie, which is only written
+ * once the visitor has chosen; until then nothing optional runs and no cookie is set. A Do Not
+ * Track or Global Privacy Control signal counts as declining everything, and the banner isn't
+ * shown. Shared by the browser (`ConsentProvider`) and route handlers, which check the same
+ * cookie and headers before recording anything.
+ *
+ * @module lib/consent
+ */
+
+export const CONSENT_COOKIE = 'consent';
+
+/** Re-ask once a year */
+export const CONSENT_MAX_AGE_SECONDS = 365 * 24 * 60 * 60;
+
+/** Bump when categories change, so visitors are asked again */
+const CONSENT_VERSION = 'v1';
+
+/**
+ * Optional categories a visitor can allow
+ */
+export type ConsentCategory = 'analytics' | 'performance';
+
+export type ConsentPreferences = Record<ConsentCategory, boolean>;
+
+/**
+ * Categories as listed in the banner. `necessary` covers the consent cookie itself and the admin
+ * session and CSRF cookies, and can't be turned off.
+ */
+export const CONSENT_CATEGORIES: Array<{
+  id: ConsentCategory | 'necessary';
+  label: string;
+  description: string;
+}> = [
+  {
+    id: 'necessary',
+    label: 'Necessary',
+    description: 'Remembers this choice and keeps forms secure. Always on.',
+  },
+  {
+    id: 'analytics',
+    label: 'Analytics',
+    description:
+      'Anonymous page views, clicks and scroll depth. No cookies; visits are grouped by an ID that changes daily.',
+  },
+  {
+    id: 'performance',
+    label: 'Performance',
+    description: 'Page load timings and error reports, to find slow or broken pages.',
+  },
+];
+
+export const NO_CONSENT: ConsentPreferences = { analytics: false, performance: false };
+export const FULL_CONSENT: ConsentPreferences = { analytics: true, performance: true };
+
+/**
+ * Cookie value for a set of preferences, e.g. `v1:analytics,performance`
+ */
+export function serializeConsent(preferences: ConsentPreferences): string {
+  const allowed = (Object.keys(preferences) as ConsentCategory[]).filter((key) => preferences[key]);
+  return `${CONSENT_VERSION}:${allowed.join(',')}`;
+}
+
+/**
+ * Read a `consent` cookie value
+ *
+ * @returns The stored preferences, or `null` when the visitor hasn't chosen (or chose before the
+ * categories last changed, or the cookie is malformed)
+ */
+export function parseConsent(value: string | null | undefined): ConsentPreferences | null {
+  if (!value) return null;
+
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(value);
+  } catch {
+    return null;
+  }
+
+  const [version, allowed = ''] = decoded.split(':');
+  if (version !== CONSENT_VERSION) return null;
+
+  const categories = new Set(allowed.split(','));
+  return { analytics: categories.has('analytics'), performance: categories.has('performance') };
+}
+
+/**
+ * Whether a request carries `DNT: 1` or `Sec-GPC: 1`
+ */
+export function hasPrivacySignal(headers: Pick<Headers, 'get'>): boolean {
+  return headers.get('dnt') === '1' || headers.get('sec-gpc') === '1';
+}
+
+/**
+ * Server-side check that a request may be tracked in `category`
+ *
+ * @param cookieValue - The request's `consent` cookie
+ */
+export function requestAllows(
+  category: ConsentCategory,
+  cookieValue: string | undefined,
+  headers: Pick<Headers, 'get'>
+): boolean {
+  return !hasPrivacySignal(headers) && parseConsent(cookieValue)?.[category] === true;
+}
+
+// ==================== BROWSER ====================
+
+/**
+ * Whether the browser sends Do Not Track or Global Privacy Control
+ */
+export function browserPrivacySignal(): boolean {
+  const nav = navigator as Navigator & { globalPrivacyControl?: boolean };
+  const win = window as Window & { doNotTrack?: string };
+  return nav.globalPrivacyControl === true || nav.doNotTrack === '1' || win.doNotTrack === '1';
+}
+
+/**
+ * Preferences from `document.cookie`, or `null` when the visitor hasn't chosen
+ */
+export function readConsentCookie(): ConsentPreferences | null {
+  const match = document.cookie
+    .split('; ')
+    .find((cookie) => cookie.startsWith(`${CONSENT_COOKIE}=`));
+  return parseConsent(match?.slice(CONSENT_COOKIE.length + 1));
+}
+
+export function writeConsentCookie(preferences: ConsentPreferences): void {
+  const secure = window.location.protocol === 'https:' ? '; Secure' : '';
+  document.cookie = `${CONSENT_COOKIE}=${encodeURIComponent(serializeConsent(preferences))}; Max-Age=${CONSENT_MAX_AGE_SECONDS}; Path=/; SameSite=Lax${secure}`;
+}
+
+/**
+ * Whether the browser may record events in `category` right now
+ */
+export function browserAllows(category: ConsentCategory): boolean {
+  return !browserPrivacySignal() && readConsentCookie()?.[category] === true;
+}
@@ -0,0 +1,79 @@
+/**
+ * Browser fetch wrapper that attaches the CSRF double-submit header
+ *
+ * @module lib/csrf-client
+ */
+
+import { CSRF_COOKIE, CSRF_HEADER } from '@/lib/csrf';
+
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+/**
+ * Error message returned by the middleware when the CSRF check fails
+ */
+const CSRF_FAILURE_MESSAGE = 'CSRF token validation failed';
+
+let pendingToken: Promise<string> | null = null;
+
+function readTokenCookie(): string | null {
+  const match = document.cookie.split('; ').find((cookie) => cookie.startsWith(`${CSRF_COOKIE}=`));
+  return match ? decodeURIComponent(match.slice(CSRF_COOKIE.length + 1)) : null;
+}
+
+async function requestToken(): Promise<string> {
+  pendingToken ??= fetch('/api/csrf', { credentials: 'same-origin', cache: 'no-store' })
+    .then(async (response) => {
+      const result = await response.json().catch(() => null);
+      if (!response.ok || !result?.token) {
+        throw new Error(result?.error || 'Failed to obtain CSRF token');
+      }
+      return result.token as string;
+    })
+    .finally(() => {
+      pendingToken = null;
+    });
+
+  return pendingToken;
+}
+
+async function isCsrfFailure(response: Response): Promise<boolean> {
+  if (response.status !== 403) return false;
+  const body = await response
+    .clone()
+    .json()
+    .catch(() => null);
+  return body?.error === CSRF_FAILURE_MESSAGE;
+}
+
+/**
+ * `fetch` for admin forms. State-changing requests carry the `x-csrf-token` header, using the
+ * token from the `csrf-token` cookie or fetching one from `/api/csrf` when it is missing. A
+ * request rejected for an expired token is retried once with a fresh token.
+ *
+ * @param input - Request URL
+ * @param init - Standard fetch options
+ * @returns Fetch response
+ */
+export async function csrfFetch(
+  input: RequestInfo | URL,
+  init: RequestInit = {}
+): Promise<Response> {
+  const method = (init.method || 'GET').toUpperCase();
+  if (SAFE_METHODS.has(method)) {
+    return fetch(input, init);
+  }
+
+  const send = (token: string) => {
+    const headers = new Headers(init.headers);
+    headers.set(CSRF_HEADER, token);
+    return fetch(input, { ...init, headers, credentials: init.credentials ?? 'same-origin' });
+  };
+
+  const response = await send(readTokenCookie() ?? (await requestToken()));
+
+  if (await isCsrfFailure(response)) {
+    return send(await requestToken());
+  }
+
+  return response;
+}
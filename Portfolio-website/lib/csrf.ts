@@ -0,0 +1,158 @@
+/**
+ * CSRF double-submit tokens
+ *
+ * `/api/csrf` issues a random nonce signed with HMAC-SHA256 and stores it in the `csrf-token`
+ * cookie. Clients echo the same value in the `x-csrf-token` header; the middleware accepts a
+ * state-changing request only when both copies match and the signature verifies.
+ *
+ * The signature also covers the request's `admin-session` cookie (empty before sign-in), so a
+ * token is only valid alongside the session it was issued to. A token planted by a sibling
+ * subdomain or injected cookie can't be forged without the secret, and one obtained in another
+ * session, or before signing in, is rejected. Sign-in and sign-out issue a fresh token.
+ *
+ * Used by the edge middleware, so this module must stay free of Node-only imports.
+ *
+ * @module lib/csrf
+ */
+
+import type { NextResponse } from 'next/server';
+
+import { constantTimeEqual, hmacSign, hmacVerify, randomToken } from '@/lib/signing';
+
+/**
+ * Cookie holding the signed token
+ */
+export const CSRF_COOKIE = 'csrf-token';
+
+/**
+ * Header clients must echo the token in
+ */
+export const CSRF_HEADER = 'x-csrf-token';
+
+/**
+ * Token lifetime in seconds (12 hours)
+ */
+export const CSRF_TOKEN_TTL_SECONDS = 60 * 60 * 12;
+
+const MIN_SECRET_LENGTH = 32;
+
+/**
+ * Read the CSRF signing secret, falling back to the admin session secret.
+ *
+ * @returns The secret, or `null` when neither is configured
+ */
+export function getCsrfSecret(): string | null {
+  const secret = process.env.CSRF_SECRET || process.env.ADMIN_SESSION_SECRET || '';
+  return secret.length >= MIN_SECRET_LENGTH ? secret : null;
+}
+
+/**
+ * Options for the `csrf-token` cookie. It is deliberately readable from JavaScript so
+ * `csrfFetch` can echo it in the `x-csrf-token` header.
+ */
+export const CSRF_COOKIE_OPTIONS = {
+  httpOnly: false,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'strict',
+  path: '/',
+  maxAge: CSRF_TOKEN_TTL_SECONDS,
+} as const;
+
+/**
+ * Signed part of a token; the session comes last since it may itself contain dots
+ */
+const signedPayload = (nonce: string, issuedAt: string, session: string | undefined) =>
+  `${nonce}.${issuedAt}.${session ?? ''}`;
+
+/**
+ * Issue a signed token of the form `<nonce>.<issued at>.<signature>`.
+ *
+ * @param secret - HMAC secret
+ * @param session - `admin-session` cookie the token is bound to; `undefined` before sign-in
+ * @param now - Clock override in milliseconds
+ */
+export async function issueCsrfToken(
+  secret: string,
+  session: string | undefined,
+  now: number = Date.now()
+): Promise<string> {
+  const nonce = randomToken(24);
+  const issuedAt = String(Math.floor(now / 1000));
+  return `${nonce}.${issuedAt}.${await hmacSign(secret, signedPayload(nonce, issuedAt, session))}`;
+}
+
+/**
+ * Replace the `csrf-token` cookie with one bound to `session`, for responses that sign in or out.
+ * Does nothing when no secret is configured.
+ *
+ * @param response - Response setting the new `admin-session` cookie
+ * @param session - The new `admin-session` value; `undefined` when signing out
+ */
+export async function refreshCsrfCookie(
+  response: NextResponse,
+  session: string | undefined
+): Promise<void> {
+  const secret = getCsrfSecret();
+  if (secret) {
+    response.cookies.set(CSRF_COOKIE, await issueCsrfToken(secret, session), CSRF_COOKIE_OPTIONS);
+  }
+}
+
+/**
+ * Verify a token's signature, age and session binding.
+ *
+ * @param token - Token from the cookie or header
+ * @param secret - HMAC secret
+ * @param session - `admin-session` cookie sent with the request
+ * @param now - Clock override in milliseconds
+ */
+export async function verifyCsrfToken(
+  token: string | null | undefined,
+  secret: string,
+  session: string | undefined,
+  now: number = Date.now()
+): Promise<boolean> {
+  const parts = token?.split('.');
+  if (!parts || parts.length !== 3) {
+    return false;
+  }
+
+  const [nonce, issuedAt, signature] = parts;
+  const issuedAtSeconds = Number(issuedAt);
+  if (!nonce || !Number.isInteger(issuedAtSeconds)) {
+    return false;
+  }
+
+  const ageSeconds = now / 1000 - issuedAtSeconds;
+  if (ageSeconds < -60 || ageSeconds > CSRF_TOKEN_TTL_SECONDS) {
+    return false;
+  }
+
+  return hmacVerify(secret, signedPayload(nonce, issuedAt, session), signature);
+}
+
+/**
+ * Double-submit check: the header and cookie must carry the same token, validly signed for the
+ * request's session.
+ *
+ * @param headerToken - Value of the `x-csrf-token` header
+ * @param cookieToken - Value of the `csrf-token` cookie
+ * @param session - Value of the `admin-session` cookie
+ * @returns `false` when no secret is configured
+ */
+export async function validateDoubleSubmitToken(
+  headerToken: string | null,
+  cookieToken: string | undefined,
+  session: string | undefined
+): Promise<boolean> {
+  const secret = getCsrfSecret();
+  if (!secret || !headerToken || !cookieToken) {
+    return false;
+  }
+
+  if (!constantTimeEqual(headerToken, cookieToken)) {
+    return false;
+  }
+
+  return verifyCsrfToken(cookieToken, secret, session);
+}
@@ -1,5 +1,8 @@
 import 'server-only';
 
+import { randomToken } from '@/lib/signing';
+import { isValidTimeZone } from '@/lib/timezones';
+
 /**
  * Resolve CMS base URL with sensible fallbacks.
  * Preference order:
@@ -36,3 +39,225 @@ export const buildCmsUrl = (path: string): string => {
   }
   return `${CMS_BASE_URL}${path}`;
 };
+
+/**
+ * Storage drivers supported by the portfolio repository.
+ */
+export type PortfolioStorageDriver = 'json' | 'sqlite';
+
+const portfolioStorageDrivers: PortfolioStorageDriver[] = ['json', 'sqlite'];
+
+/**
+ * Portfolio storage driver (`json` by default). An unknown value throws rather than silently
+ * storing edits somewhere else.
+ */
+export const PORTFOLIO_STORAGE: PortfolioStorageDriver = (() => {
+  const driver = process.env.PORTFOLIO_STORAGE || 'json';
+  if (!portfolioStorageDrivers.includes(driver as PortfolioStorageDriver)) {
+    throw new Error(
+      `PORTFOLIO_STORAGE must be one of ${portfolioStorageDrivers.join(', ')}; got '${driver}'.`
+    );
+  }
+  return driver as PortfolioStorageDriver;
+})();
+
+/**
+ * Location of the JSON document used by the `json` storage driver.
+ */
+export const PORTFOLIO_DATA_FILE =
+  process.env.PORTFOLIO_DATA_FILE || `${process.cwd()}/data/portfolio.json`;
+
+/**
+ * Location of the database used by the `sqlite` storage driver.
+ */
+export const PORTFOLIO_SQLITE_FILE =
+  process.env.PORTFOLIO_SQLITE_FILE || `${process.cwd()}/data/portfolio.db`;
+
+/**
+ * Username accepted by `/api/admin/login`.
+ */
+export const ADMIN_USERNAME = process.env.ADMIN_USERNAME || '';
+
+/**
+ * scrypt hash of the admin password, formatted as `scrypt:<salt hex>:<hash hex>`.
+ */
+export const ADMIN_PASSWORD_HASH = process.env.ADMIN_PASSWORD_HASH || '';
+
+/**
+ * Directory uploaded files are written to. Served publicly under `/uploads`.
+ */
+export const UPLOAD_DIR = process.env.UPLOAD_DIR || `${process.cwd()}/public/uploads`;
+
+/**
+ * Directory holding one metadata record per upload.
+ */
+export const UPLOAD_METADATA_DIR =
+  process.env.UPLOAD_METADATA_DIR || `${process.cwd()}/data/uploads`;
+
+/**
+ * Per-attempt timeout for CMS requests, in milliseconds.
+ */
+export const CMS_TIMEOUT_MS = Number(process.env.CMS_TIMEOUT_MS) || 5000;
+
+/**
+ * Extra attempts for failed idempotent CMS requests.
+ */
+export const CMS_RETRIES = Number(process.env.CMS_RETRIES ?? 2);
+
+/**
+ * How long cacheable CMS responses (public project data) are reused, in seconds.
+ */
+export const CMS_CACHE_TIME = Number(process.env.CMS_CACHE_TIME ?? 60);
+
+/**
+ * IANA time zone the CMS working hours and booking times are expressed in.
+ */
+export const BOOKING_TIMEZONE = isValidTimeZone(process.env.BOOKING_TIMEZONE)
+  ? process.env.BOOKING_TIMEZONE
+  : 'UTC';
+
+/**
+ * Visitors can reschedule or cancel a booking until this many hours before it starts.
+ */
+export const BOOKING_CHANGE_CUTOFF_HOURS = Number(process.env.BOOKING_CHANGE_CUTOFF_HOURS ?? 24);
+
+/**
+ * How long selecting a slot in the booking calendar reserves it, in minutes (1-30).
+ */
+export const BOOKING_HOLD_MINUTES = Math.min(
+  30,
+  Math.max(1, Math.round(Number(process.env.BOOKING_HOLD_MINUTES ?? 5)) || 5)
+);
+
+/**
+ * Notification transports: `smtp`, `file` (writes `.eml` files), `console` or `off`.
+ */
+export type NotificationTransportName = 'smtp' | 'file' | 'console' | 'off';
+
+const notificationTransports: NotificationTransportName[] = ['smtp', 'file', 'console', 'off'];
+
+/**
+ * How visitor notifications are delivered. Defaults to `smtp` when `SMTP_HOST` is set, else `off`.
+ */
+export const NOTIFICATIONS_TRANSPORT: NotificationTransportName = notificationTransports.includes(
+  process.env.NOTIFICATIONS_TRANSPORT as NotificationTransportName
+)
+  ? (process.env.NOTIFICATIONS_TRANSPORT as NotificationTransportName)
+  : process.env.SMTP_HOST
+    ? 'smtp'
+    : 'off';
+
+/**
+ * SMTP relay used by the `smtp` notification transport.
+ */
+export const SMTP_HOST = process.env.SMTP_HOST || '';
+
+/**
+ * Implicit TLS (port 465). Without it, STARTTLS is used when the server offers it.
+ */
+export const SMTP_SECURE = process.env.SMTP_SECURE === 'true';
+
+export const SMTP_PORT = Number(process.env.SMTP_PORT) || (SMTP_SECURE ? 465 : 587);
+
+export const SMTP_USER = process.env.SMTP_USER || '';
+
+export const SMTP_PASS = process.env.SMTP_PASS || '';
+
+/**
+ * Send `SMTP_USER`/`SMTP_PASS` even when the relay offers no TLS. Only for local test relays.
+ */
+export const SMTP_ALLOW_INSECURE_AUTH = process.env.SMTP_ALLOW_INSECURE_AUTH === 'true';
+
+/**
+ * Sender of visitor notifications, e.g. `Jacob Creations <hello@example.com>`.
+ */
+export const EMAIL_FROM = process.env.EMAIL_FROM || 'noreply@localhost';
+
+/**
+ * Directory the `file` notification transport writes to.
+ */
+export const NOTIFICATIONS_DIR = process.env.NOTIFICATIONS_DIR || `${process.cwd()}/data/outbox`;
+
+/**
+ * Delivery attempts per notification before it is dropped.
+ */
+export const NOTIFICATIONS_MAX_ATTEMPTS = Number(process.env.NOTIFICATIONS_MAX_ATTEMPTS ?? 5);
+
+/**
+ * Public origin of the site for links in notifications. Empty means the request origin is used.
+ */
+export const SITE_URL = (process.env.NEXT_PUBLIC_SITE_URL || '').replace(/\/$/, '');
+
+/**
+ * Parse `24h,1h,30m` into minutes, largest first. Invalid entries are ignored.
+ */
+const parseReminderOffsets = (value: string): number[] => {
+  const offsets = value
+    .split(',')
+    .map((entry) => /^(\d+)\s*([hm])$/i.exec(entry.trim()))
+    .filter((match) => match !== null)
+    .map(([, amount, unit]) => Number(amount) * (unit.toLowerCase() === 'h' ? 60 : 1))
+    .filter((minutes) => minutes > 0);
+  return [...new Set(offsets)].sort((a, b) => b - a);
+};
+
+/**
+ * How long before a meeting reminders go out, in minutes (`BOOKING_REMINDER_OFFSETS=24h,1h`).
+ */
+export const BOOKING_REMINDER_OFFSETS = parseReminderOffsets(
+  process.env.BOOKING_REMINDER_OFFSETS || '24h,1h'
+);
+
+/**
+ * Log of sent reminders, so a restart never sends one twice.
+ */
+export const BOOKING_REMINDERS_FILE =
+  process.env.BOOKING_REMINDERS_FILE || `${process.cwd()}/data/booking-reminders.jsonl`;
+
+/**
+ * Run the reminder job in-process every this many minutes. `0` leaves it to an external cron.
+ */
+export const BOOKING_REMINDERS_INTERVAL_MINUTES = Math.max(
+  0,
+  Number(process.env.BOOKING_REMINDERS_INTERVAL_MINUTES ?? 0) || 0
+);
+
+/**
+ * Secret the daily analytics session salts are derived from. Without one, each process picks a
+ * random secret and session IDs change whenever it restarts.
+ */
+export const ANALYTICS_SALT_SECRET =
+  process.env.ANALYTICS_SALT_SECRET || process.env.ADMIN_SESSION_SECRET || randomToken();
+
+/**
+ * Log sinks: `stdout`, `file` (rotating JSON lines) and `http` (a collector), comma-separated.
+ * Unknown names are ignored; an empty list falls back to `stdout`.
+ */
+export type LogSinkName = 'stdout' | 'file' | 'http';
+
+const logSinkNames: LogSinkName[] = ['stdout', 'file', 'http'];
+
+export const LOG_SINKS: LogSinkName[] = (() => {
+  const sinks = (process.env.LOG_SINKS || 'stdout')
+    .split(',')
+    .map((name) => name.trim().toLowerCase() as LogSinkName)
+    .filter((name) => logSinkNames.includes(name));
+  return sinks.length > 0 ? [...new Set(sinks)] : ['stdout'];
+})();
+
+/**
+ * File the `file` log sink appends to, rotated at `LOG_FILE_MAX_BYTES` into `LOG_FILE_MAX_FILES`
+ * older files.
+ */
+export const LOG_FILE = process.env.LOG_FILE || `${process.cwd()}/data/logs/api.log`;
+
+export const LOG_FILE_MAX_BYTES = Number(process.env.LOG_FILE_MAX_BYTES) || 10 * 1024 * 1024;
+
+export const LOG_FILE_MAX_FILES = Number(process.env.LOG_FILE_MAX_FILES) || 5;
+
+/**
+ * Collector the `http` log sink POSTs JSON lines to, with an optional bearer token.
+ */
+export const LOG_HTTP_URL = process.env.LOG_HTTP_URL || '';
+
+export const LOG_HTTP_TOKEN = process.env.LOG_HTTP_TOKEN || '';
@@ -0,0 +1,120 @@
+import { randomUUID } from 'crypto';
+import { link, mkdir, open, readFile, rename, stat, unlink, utimes } from 'fs/promises';
+import { dirname } from 'path';
+
+/**
+ * Lock files shared between processes (Node.js runtime only)
+ *
+ * A lock is a file created with `O_EXCL` that holds the owner's pid and a random token. While it
+ * is held its mtime is refreshed, so a lock that stops being refreshed for `STALE_LOCK_MS` was
+ * left behind by a crashed process and may be broken. Breaking renames the lock aside and only
+ * deletes it if it still holds the contents that were judged stale; otherwise it belonged to a
+ * process that just took the lock, and it is put back.
+ *
+ * @module lib/file-lock
+ */
+
+/** Age of an unrefreshed lock after which it is treated as abandoned */
+export const STALE_LOCK_MS = 30 * 1000;
+
+const HEARTBEAT_MS = STALE_LOCK_MS / 3;
+
+const RETRY_MS = 50;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * A held lock
+ */
+export interface FileLock {
+  /** Release the lock, unless it was broken and someone else holds it now */
+  release(): Promise<void>;
+}
+
+export interface FileLockOptions {
+  /** How long to wait for a held lock; `0` gives up at once (default) */
+  timeoutMs?: number;
+}
+
+/**
+ * Remove a stale lock, unless it was replaced since `contents` were read
+ */
+async function breakStaleLock(lockPath: string, contents: string): Promise<void> {
+  const asidePath = `${lockPath}.${randomUUID()}.stale`;
+  try {
+    await rename(lockPath, asidePath);
+  } catch {
+    // Another process broke it first
+    return;
+  }
+
+  const moved = await readFile(asidePath, 'utf8').catch(() => null);
+  if (moved !== contents) {
+    // A fresh lock was taken between reading and renaming; fails if yet another one exists
+    await link(asidePath, lockPath).catch(() => undefined);
+  }
+  await unlink(asidePath).catch(() => undefined);
+}
+
+/**
+ * Take an exclusive lock on `lockPath`
+ *
+ * @returns The lock, or `null` when another process still holds it after `timeoutMs`
+ */
+export async function acquireFileLock(
+  lockPath: string,
+  { timeoutMs = 0 }: FileLockOptions = {}
+): Promise<FileLock | null> {
+  await mkdir(dirname(lockPath), { recursive: true });
+
+  const token = `${process.pid}:${randomUUID()}`;
+  const startedAt = Date.now();
+
+  for (;;) {
+    try {
+      const handle = await open(lockPath, 'wx');
+      try {
+        await handle.writeFile(token);
+      } finally {
+        await handle.close();
+      }
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    const contents = await readFile(lockPath, 'utf8').catch(() => null);
+    const lockStat = await stat(lockPath).catch(() => null);
+    if (contents === null || !lockStat) {
+      // Released while we looked
+      continue;
+    }
+    if (Date.now() - lockStat.mtimeMs > STALE_LOCK_MS) {
+      await breakStaleLock(lockPath, contents);
+      continue;
+    }
+
+    if (Date.now() - startedAt >= timeoutMs) {
+      return null;
+    }
+    await sleep(RETRY_MS);
+  }
+
+  const heartbeat = setInterval(() => {
+    const now = new Date();
+    void utimes(lockPath, now, now).catch(() => undefined);
+  }, HEARTBEAT_MS);
+  heartbeat.unref();
+
+  return {
+    async release() {
+      clearInterval(heartbeat);
+      const contents = await readFile(lockPath, 'utf8').catch(() => null);
+      if (contents === token) {
+        await unlink(lockPath).catch(() => undefined);
+      }
+    },
+  };
+}
@@ -0,0 +1,179 @@
+import { getTimeZoneLabel, getTimeZoneOffset } from '@/lib/timezones';
+
+/**
+ * iCalendar (RFC 5545) export
+ *
+ * Builds single-event calendars for booked meetings. Events are anchored in the host's time zone
+ * with a `VTIMEZONE` describing its offset at the meeting, so calendar apps that don't know the
+ * IANA name still place the meeting correctly.
+ *
+ * @module lib/ics
+ */
+
+/**
+ * Person attached to an event
+ */
+export interface CalendarParticipant {
+  name: string;
+  email: string;
+}
+
+/**
+ * Event written by `buildCalendarEvent`
+ */
+export interface CalendarEvent {
+  /** Globally unique, stable across re-downloads so apps update instead of duplicating */
+  uid: string;
+  /** UTC instant the event starts */
+  start: Date;
+  /** Minutes */
+  duration: number;
+  /** IANA zone the event is shown in, usually the host's */
+  timeZone: string;
+  summary: string;
+  description?: string;
+  /** Meeting link or address */
+  location?: string;
+  url?: string;
+  organizer: CalendarParticipant;
+  attendee?: CalendarParticipant;
+  /** When the calendar was generated; defaults to now */
+  stamp?: Date;
+  /** `cancelled` tells apps to drop the event; defaults to `confirmed` */
+  status?: 'confirmed' | 'cancelled';
+  /** Revision of the event; apps only apply a re-download whose sequence is higher */
+  sequence?: number;
+}
+
+const PRODUCT_ID = '-//Jacob Creations//Bookings//EN';
+
+/**
+ * Escape a TEXT value (RFC 5545 §3.3.11)
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line to 75 octets (RFC 5545 §3.1) without splitting UTF-8 sequences
+ */
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards their 75 octets
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      chunks.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+}
+
+const pad = (value: number) => String(Math.abs(value)).padStart(2, '0');
+
+/**
+ * `YYYYMMDDTHHMMSSZ`
+ */
+function formatUtc(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+/**
+ * `YYYYMMDDTHHMMSS` wall-clock time of an instant in a zone
+ */
+function formatLocal(date: Date, offsetMinutes: number): string {
+  return formatUtc(new Date(date.getTime() + offsetMinutes * 60_000)).replace(/Z$/, '');
+}
+
+/**
+ * `+HHMM` / `-HHMM`
+ */
+function formatOffset(offsetMinutes: number): string {
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  return `${sign}${pad(Math.trunc(offsetMinutes / 60))}${pad(offsetMinutes % 60)}`;
+}
+
+const participant = (property: string, person: CalendarParticipant, params = '') =>
+  `${property};CN="${person.name.replace(/"/g, "'")}"${params}:mailto:${person.email}`;
+
+/**
+ * Build a calendar containing one event
+ *
+ * @returns `text/calendar` body with CRLF line endings
+ */
+export function buildCalendarEvent(event: CalendarEvent): string {
+  const isUtc = event.timeZone === 'UTC' || event.timeZone === 'Etc/UTC';
+  const offset = isUtc ? 0 : getTimeZoneOffset(event.start, event.timeZone);
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ];
+
+  if (!isUtc) {
+    // One observance covering the meeting is enough to resolve its local time
+    lines.push(
+      'BEGIN:VTIMEZONE',
+      `TZID:${event.timeZone}`,
+      'BEGIN:STANDARD',
+      'DTSTART:19700101T000000',
+      `TZOFFSETFROM:${formatOffset(offset)}`,
+      `TZOFFSETTO:${formatOffset(offset)}`,
+      `TZNAME:${escapeText(getTimeZoneLabel(event.start, event.timeZone))}`,
+      'END:STANDARD',
+      'END:VTIMEZONE'
+    );
+  }
+
+  lines.push(
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatUtc(event.stamp ?? new Date())}`,
+    isUtc
+      ? `DTSTART:${formatUtc(event.start)}`
+      : `DTSTART;TZID=${event.timeZone}:${formatLocal(event.start, offset)}`,
+    `DURATION:PT${event.duration}M`,
+    `SUMMARY:${escapeText(event.summary)}`
+  );
+
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+
+  lines.push(participant('ORGANIZER', event.organizer));
+  if (event.attendee) {
+    lines.push(
+      participant('ATTENDEE', event.attendee, ';ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED;RSVP=FALSE')
+    );
+  }
+
+  lines.push(
+    `STATUS:${(event.status ?? 'confirmed').toUpperCase()}`,
+    `SEQUENCE:${event.sequence ?? 0}`,
+    'END:VEVENT',
+    'END:VCALENDAR'
+  );
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
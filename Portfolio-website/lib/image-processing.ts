@@ -0,0 +1,139 @@
+import sharp from 'sharp';
+
+import type { ImageVariantFormat, UploadMimeType } from '@/lib/types';
+
+/**
+ * Image processing for uploads
+ *
+ * Re-encodes uploaded images without their metadata, renders responsive WebP/AVIF variants and
+ * a tiny blurred placeholder. Uses sharp, so this module only runs in the Node.js runtime.
+ *
+ * @module lib/image-processing
+ */
+
+/**
+ * Variant widths; must match `images.deviceSizes` in `next.config.ts`
+ */
+export const IMAGE_VARIANT_WIDTHS = [640, 750, 828, 1080, 1200, 1920, 2048, 3840];
+
+/**
+ * Formats every variant width is rendered in
+ */
+export const IMAGE_VARIANT_FORMATS: ImageVariantFormat[] = ['avif', 'webp'];
+
+/**
+ * Width of the placeholder image encoded into `blurDataURL`
+ */
+const PLACEHOLDER_WIDTH = 16;
+
+/**
+ * Upload types that are processed; GIFs keep their animation and PDFs are stored as-is
+ */
+const PROCESSABLE_TYPES = new Set<UploadMimeType>([
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/avif',
+]);
+
+/**
+ * Rendered variant, before it is written to storage
+ */
+export interface RenderedImageVariant {
+  width: number;
+  height: number;
+  format: ImageVariantFormat;
+  buffer: Buffer;
+}
+
+/**
+ * Output of `processImage`
+ */
+export interface ProcessedImage {
+  /** Original re-encoded in its own format, upright and without EXIF/XMP/ICC metadata */
+  original: Buffer;
+  width: number;
+  height: number;
+  variants: RenderedImageVariant[];
+  /** Base64 WebP data URL for `next/image` `placeholder="blur"` */
+  blurDataURL: string;
+}
+
+/**
+ * Whether `processImage` handles a type
+ */
+export function isProcessableImage(mimeType: UploadMimeType): boolean {
+  return PROCESSABLE_TYPES.has(mimeType);
+}
+
+/**
+ * Widths to render for an image: every breakpoint that doesn't upscale it, or its own width
+ * when it is narrower than the smallest breakpoint
+ *
+ * @param originalWidth - Width of the upright original
+ */
+export function selectVariantWidths(originalWidth: number): number[] {
+  const widths = IMAGE_VARIANT_WIDTHS.filter((width) => width <= originalWidth);
+  return widths.length > 0 ? widths : [originalWidth];
+}
+
+/**
+ * Strip metadata from an image and render its variants and placeholder
+ *
+ * @param buffer - Uploaded file contents
+ * @param mimeType - Sniffed type; must satisfy `isProcessableImage`
+ */
+export async function processImage(
+  buffer: Buffer,
+  mimeType: UploadMimeType
+): Promise<ProcessedImage> {
+  // `rotate()` applies the EXIF orientation before the metadata is dropped
+  const upright = sharp(buffer, { failOn: 'error' }).rotate();
+
+  const original = await encodeOriginal(upright.clone(), mimeType);
+  const { width = 0, height = 0 } = await sharp(original).metadata();
+
+  const variants: RenderedImageVariant[] = [];
+  for (const variantWidth of selectVariantWidths(width)) {
+    for (const format of IMAGE_VARIANT_FORMATS) {
+      const resized = upright.clone().resize({ width: variantWidth, withoutEnlargement: true });
+      const { data, info } = await (
+        format === 'avif'
+          ? resized.avif({ quality: 55, effort: 4 })
+          : resized.webp({ quality: 75, effort: 4 })
+      ).toBuffer({ resolveWithObject: true });
+
+      variants.push({ width: info.width, height: info.height, format, buffer: data });
+    }
+  }
+
+  const placeholder = await upright
+    .clone()
+    .resize({ width: PLACEHOLDER_WIDTH })
+    .blur()
+    .webp({ quality: 40 })
+    .toBuffer();
+
+  return {
+    original,
+    width,
+    height,
+    variants,
+    blurDataURL: `data:image/webp;base64,${placeholder.toString('base64')}`,
+  };
+}
+
+function encodeOriginal(image: sharp.Sharp, mimeType: UploadMimeType): Promise<Buffer> {
+  switch (mimeType) {
+    case 'image/jpeg':
+      return image.jpeg({ quality: 90, mozjpeg: true }).toBuffer();
+    case 'image/png':
+      return image.png().toBuffer();
+    case 'image/webp':
+      return image.webp({ quality: 90 }).toBuffer();
+    case 'image/avif':
+      return image.avif({ quality: 70 }).toBuffer();
+    default:
+      throw new Error(`Cannot process ${mimeType} uploads`);
+  }
+}
@@ -0,0 +1,103 @@
+import { z } from 'zod';
+
+import type { MeetingTypeIntakeQuestion } from '@/lib/validations';
+
+/**
+ * Booking intake forms
+ *
+ * Each meeting type carries its intake questions as data. The booking calendar renders them, and
+ * the booking route turns the same definitions into a zod schema for the submitted answers.
+ * Answers are forwarded to the CMS together with their question labels so a booking still reads
+ * correctly after the questions are edited.
+ *
+ * @module lib/intake-questions
+ */
+
+export type IntakeAnswerValue = string | boolean;
+
+/**
+ * Answers keyed by question ID, as submitted by the booking form
+ */
+export type IntakeAnswers = Record<string, IntakeAnswerValue>;
+
+/**
+ * Answer as stored with the booking in the CMS
+ */
+export interface IntakeAnswer {
+  id: string;
+  label: string;
+  answer: IntakeAnswerValue;
+}
+
+const blankToUndefined = (value: unknown) =>
+  typeof value === 'string' && value.trim() === '' ? undefined : value;
+
+const stripTags = (multiline: boolean) => (value: string) => {
+  const withoutTags = value.replace(/<[^>]*>/g, '');
+  return (
+    multiline ? withoutTags.replace(/\r\n?/g, '\n') : withoutTags.replace(/\s+/g, ' ')
+  ).trim();
+};
+
+function buildAnswerSchema(question: MeetingTypeIntakeQuestion) {
+  const { label } = question;
+
+  let schema: z.ZodType<IntakeAnswerValue>;
+  switch (question.type) {
+    case 'text':
+      schema = z
+        .string(`${label} must be text`)
+        .max(question.maxLength, `${label} must be at most ${question.maxLength} characters`)
+        .transform(stripTags(question.multiline));
+      break;
+    case 'select':
+      schema = z.enum(question.options as [string, ...string[]], `Choose an option for ${label}`);
+      break;
+    case 'checkbox':
+      if (!question.required) {
+        // An unticked box is an answer too
+        return z.boolean(`${label} must be true or false`).default(false);
+      }
+      schema = z.literal(true, `${label} must be checked`);
+      break;
+    case 'url':
+      schema = z
+        .url({ protocol: /^https?$/, error: `${label} must be an http(s) URL` })
+        .max(2000, `${label} must be at most 2000 characters`);
+      break;
+  }
+
+  const answer = z.preprocess(blankToUndefined, schema.optional());
+  return question.required
+    ? answer.refine((value) => value !== undefined, `${label} is required`)
+    : answer;
+}
+
+/**
+ * Zod schema for the answers to a meeting type's intake questions
+ *
+ * Blank optional answers are dropped; answers to questions that aren't in the definition are
+ * ignored.
+ *
+ * @example
+ * const schema = buildIntakeAnswersSchema(meetingType.intakeQuestions);
+ * const result = schema.safeParse(body.answers ?? {});
+ */
+export function buildIntakeAnswersSchema(questions: MeetingTypeIntakeQuestion[]) {
+  return z.object(
+    Object.fromEntries(questions.map((question) => [question.id, buildAnswerSchema(question)]))
+  );
+}
+
+/**
+ * Pair validated answers with their questions, in question order
+ */
+export function toIntakeAnswers(
+  questions: MeetingTypeIntakeQuestion[],
+  answers: Partial<IntakeAnswers>
+): IntakeAnswer[] {
+  return questions.flatMap((question) => {
+    const answer = answers[question.id];
+    return answer === undefined ? [] : [{ id: question.id, label: question.label, answer }];
+  });
+}
@@ -0,0 +1,74 @@
+import { appendFile, mkdir, rename, rm, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { formatLogEntry, type LogEntry, type LogSink } from '@/lib/api-logger';
+
+/**
+ * Rotating JSON-lines log file (Node.js runtime only)
+ *
+ * @module lib/log-file-sink
+ */
+
+export interface RotatingFileSinkOptions {
+  /** Size at which the file is rotated (default 10 MB) */
+  maxBytes?: number;
+  /** Rotated files kept as `<file>.1` (newest) to `<file>.<maxFiles>` (default 5) */
+  maxFiles?: number;
+}
+
+/**
+ * Appends JSON lines to a file, rotating it once it reaches `maxBytes`. Writes are queued so
+ * lines stay in order and never interleave.
+ */
+export class RotatingFileSink implements LogSink {
+  private queue: Promise<void> = Promise.resolve();
+  private size: number | null = null;
+
+  constructor(
+    private readonly file: string,
+    private readonly options: RotatingFileSinkOptions = {}
+  ) {}
+
+  write(entry: LogEntry): void {
+    const line = `${formatLogEntry(entry)}\n`;
+    this.queue = this.queue
+      .then(() => this.append(line))
+      .catch((error) => {
+        // Not through the logger, which would queue another line here
+        console.error(`Could not write log file ${this.file}:`, (error as Error).message);
+        this.size = null;
+      });
+  }
+
+  flush(): Promise<void> {
+    return this.queue;
+  }
+
+  private async append(line: string): Promise<void> {
+    if (this.size === null) {
+      await mkdir(path.dirname(this.file), { recursive: true });
+      this.size = await stat(this.file).then(
+        (stats) => stats.size,
+        () => 0
+      );
+    }
+
+    const bytes = Buffer.byteLength(line);
+    if (this.size > 0 && this.size + bytes > (this.options.maxBytes ?? 10 * 1024 * 1024)) {
+      await this.rotate();
+    }
+
+    await appendFile(this.file, line);
+    this.size += bytes;
+  }
+
+  private async rotate(): Promise<void> {
+    const maxFiles = this.options.maxFiles ?? 5;
+
+    await rm(`${this.file}.${maxFiles}`, { force: true });
+    for (let index = maxFiles - 1; index >= 1; index--) {
+      await rename(`${this.file}.${index}`, `${this.file}.${index + 1}`).catch(() => undefined);
+    }
+    await rename(this.file, `${this.file}.1`);
+    this.size = 0;
+  }
+}
@@ -0,0 +1,49 @@
+import 'server-only';
+
+import { apiLogger, HttpSink, StdoutSink, type LogSink } from '@/lib/api-logger';
+import {
+  LOG_FILE,
+  LOG_FILE_MAX_BYTES,
+  LOG_FILE_MAX_FILES,
+  LOG_HTTP_TOKEN,
+  LOG_HTTP_URL,
+  LOG_SINKS,
+} from '@/lib/env';
+import { RotatingFileSink } from '@/lib/log-file-sink';
+
+/**
+ * Log sinks configured from `LOG_SINKS` and the `LOG_FILE*` / `LOG_HTTP*` variables
+ *
+ * Applied to the Node.js runtime's `apiLogger` from `instrumentation.ts`. The middleware runs on
+ * the edge runtime, where files can't be written, and keeps logging to stdout.
+ *
+ * @module lib/log-sinks
+ */
+
+function createSink(name: (typeof LOG_SINKS)[number]): LogSink | null {
+  switch (name) {
+    case 'stdout':
+      return new StdoutSink();
+    case 'file':
+      return new RotatingFileSink(LOG_FILE, {
+        maxBytes: LOG_FILE_MAX_BYTES,
+        maxFiles: LOG_FILE_MAX_FILES,
+      });
+    case 'http':
+      if (!LOG_HTTP_URL) {
+        console.warn('LOG_SINKS includes http but LOG_HTTP_URL is not set; skipping it');
+        return null;
+      }
+      return new HttpSink({ url: LOG_HTTP_URL, token: LOG_HTTP_TOKEN || undefined });
+  }
+}
+
+/**
+ * Point `apiLogger` at the configured sinks and deliver buffered entries on shutdown
+ */
+export function configureApiLogger(): void {
+  const sinks = LOG_SINKS.map(createSink).filter((sink) => sink !== null);
+  apiLogger.setSinks(sinks.length > 0 ? sinks : [new StdoutSink()]);
+
+  process.once('beforeExit', () => void apiLogger.flush());
+}
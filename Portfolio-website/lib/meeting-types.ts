@@ -0,0 +1,101 @@
+import type { CmsClient, CmsResponse, MeetingBuffers } from '@/lib/cms-api';
+import type { MeetingType } from '@/lib/validations';
+
+/**
+ * Meeting-type catalog
+ *
+ * The catalog is managed in the CMS. Visitors only see enabled types, but availability and
+ * existing bookings may still refer to a type that has since been disabled.
+ *
+ * @module lib/meeting-types
+ */
+
+/**
+ * Result of checking a booking's `meetingType`/`duration` pair
+ */
+export type MeetingTypeSelection =
+  | { valid: true; meetingType: MeetingType }
+  | { valid: false; field: 'meetingType' | 'duration'; message: string };
+
+/**
+ * Look up a meeting type by slug
+ *
+ * @param types - Catalog from the CMS
+ * @param slug - Meeting type slug, e.g. `30min`
+ * @param includeDisabled - Also match types that are no longer offered
+ */
+export function findMeetingType(
+  types: MeetingType[],
+  slug: string | null | undefined,
+  includeDisabled = false
+): MeetingType | undefined {
+  if (!slug) return undefined;
+  return types.find((type) => type.slug === slug && (includeDisabled || type.enabled));
+}
+
+/**
+ * Types offered to visitors, in catalog order
+ */
+export function listEnabledMeetingTypes(types: MeetingType[]): MeetingType[] {
+  return types
+    .filter((type) => type.enabled)
+    .sort((a, b) => a.sortOrder - b.sortOrder || a.duration - b.duration);
+}
+
+/**
+ * Check that a booking names an enabled meeting type and uses that type's duration
+ *
+ * @example
+ * validateMeetingTypeSelection(types, '60min', 30)
+ * // { valid: false, field: 'duration', message: '60 Min Session meetings last 60 minutes' }
+ */
+export function validateMeetingTypeSelection(
+  types: MeetingType[],
+  slug: string | null | undefined,
+  duration: number
+): MeetingTypeSelection {
+  const meetingType = findMeetingType(types, slug);
+
+  if (!meetingType) {
+    return {
+      valid: false,
+      field: 'meetingType',
+      message: slug ? `Unknown meeting type: ${slug}` : 'Meeting type is required',
+    };
+  }
+
+  if (meetingType.duration !== duration) {
+    return {
+      valid: false,
+      field: 'duration',
+      message: `${meetingType.name} meetings last ${meetingType.duration} minutes`,
+    };
+  }
+
+  return { valid: true, meetingType };
+}
+
+/**
+ * Buffers to pass to the CMS availability lookup
+ */
+export function getMeetingBuffers(type: MeetingType): MeetingBuffers {
+  return { before: type.bufferBefore, after: type.bufferAfter };
+}
+
+/**
+ * Load a single meeting type from the CMS, disabled types included
+ *
+ * @returns The type, or a 400 failure when the catalog has no such slug
+ */
+export async function loadMeetingType(
+  client: CmsClient,
+  slug: string
+): Promise<CmsResponse<MeetingType>> {
+  const result = await client.bookings.meetingTypes();
+  if (!result.success) return result;
+
+  const meetingType = findMeetingType(result.data.meetingTypes, slug, true);
+  return meetingType
+    ? { success: true, data: meetingType, status: 200 }
+    : { success: false, error: `Unknown meeting type: ${slug}`, status: 400 };
+}
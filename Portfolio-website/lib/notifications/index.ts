@@ -0,0 +1,112 @@
+import 'server-only';
+
+import {
+  EMAIL_FROM,
+  NOTIFICATIONS_DIR,
+  NOTIFICATIONS_MAX_ATTEMPTS,
+  NOTIFICATIONS_TRANSPORT,
+  SITE_URL,
+  SMTP_ALLOW_INSECURE_AUTH,
+  SMTP_HOST,
+  SMTP_PASS,
+  SMTP_PORT,
+  SMTP_SECURE,
+  SMTP_USER,
+} from '@/lib/env';
+import { NotificationOutbox } from '@/lib/notifications/outbox';
+import { renderNotification, type Notification } from '@/lib/notifications/templates';
+import {
+  ConsoleTransport,
+  FileTransport,
+  SmtpTransport,
+  type NotificationTransport,
+} from '@/lib/notifications/transports';
+
+/**
+ * Visitor notifications
+ *
+ * Configured from `NOTIFICATIONS_TRANSPORT` and the `SMTP_*` variables. One outbox is shared by
+ * every route in the process.
+ *
+ * @module lib/notifications
+ */
+
+export type { Notification } from '@/lib/notifications/templates';
+
+/**
+ * Whether notifications are delivered at all. While they are off, the CMS keeps sending its own
+ * booking confirmations.
+ */
+export const NOTIFICATIONS_ENABLED = NOTIFICATIONS_TRANSPORT !== 'off';
+
+function createTransport(): NotificationTransport | null {
+  switch (NOTIFICATIONS_TRANSPORT) {
+    case 'smtp':
+      return new SmtpTransport(
+        {
+          host: SMTP_HOST,
+          port: SMTP_PORT,
+          secure: SMTP_SECURE,
+          user: SMTP_USER || undefined,
+          pass: SMTP_PASS || undefined,
+          allowInsecureAuth: SMTP_ALLOW_INSECURE_AUTH,
+          clientName: SITE_URL ? new URL(SITE_URL).hostname : undefined,
+        },
+        EMAIL_FROM
+      );
+    case 'file':
+      return new FileTransport(NOTIFICATIONS_DIR, EMAIL_FROM);
+    case 'console':
+      return new ConsoleTransport();
+    case 'off':
+      return null;
+  }
+}
+
+let transport: NotificationTransport | null | undefined;
+let outbox: NotificationOutbox | null | undefined;
+
+/**
+ * Configured transport, or null when notifications are off. For jobs that retry on their own
+ * schedule; routes should use `notify`.
+ */
+export function getNotificationTransport(): NotificationTransport | null {
+  if (transport === undefined) {
+    transport = createTransport();
+  }
+  return transport;
+}
+
+/**
+ * Shared outbox, or null when notifications are off
+ */
+export function getNotificationOutbox(): NotificationOutbox | null {
+  if (outbox === undefined) {
+    const configured = getNotificationTransport();
+    outbox = configured
+      ? new NotificationOutbox(configured, { maxAttempts: NOTIFICATIONS_MAX_ATTEMPTS })
+      : null;
+  }
+  return outbox;
+}
+
+/**
+ * Render and queue a notification. Never throws: a failed email must not fail the request that
+ * triggered it.
+ */
+export function notify(notification: Notification): void {
+  try {
+    getNotificationOutbox()?.enqueue(renderNotification(notification));
+  } catch (error) {
+    console.error(`Failed to queue ${notification.type} notification:`, error);
+  }
+}
+
+/**
+ * Absolute URL for a link in a notification
+ *
+ * @param origin - Fallback when `NEXT_PUBLIC_SITE_URL` is not set, usually the request origin
+ */
+export function siteUrl(path: string, origin: string): string {
+  return `${SITE_URL || origin}${path}`;
+}
@@ -0,0 +1,89 @@
+import { randomBytes } from 'node:crypto';
+import type { EmailMessage } from '@/lib/notifications/templates';
+
+/**
+ * MIME encoding for outgoing email
+ *
+ * Builds a `multipart/alternative` message with a plain-text and an HTML part. Bodies are base64
+ * encoded, so the message is 7-bit clean and no line exceeds the SMTP limit.
+ *
+ * @module lib/notifications/mime
+ */
+
+/**
+ * Envelope headers that are not part of the rendered message
+ */
+export interface MimeHeaders {
+  from: string;
+  date?: Date;
+  /** Defaults to a random ID on the sender's domain */
+  messageId?: string;
+}
+
+/**
+ * Remove CR/LF so visitor input can't inject extra headers
+ */
+export function sanitizeHeader(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ').trim();
+}
+
+/**
+ * RFC 2047 encoded-word for non-ASCII header values; ASCII values pass through unchanged
+ */
+export function encodeHeader(value: string): string {
+  const clean = sanitizeHeader(value);
+  if (/^[\x20-\x7e]*$/.test(clean)) return clean;
+  return `=?UTF-8?B?${Buffer.from(clean, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * Base64 wrapped at 76 characters per line
+ */
+function encodeBody(body: string): string {
+  return (
+    Buffer.from(body, 'utf8')
+      .toString('base64')
+      .match(/.{1,76}/g)
+      ?.join('\r\n') ?? ''
+  );
+}
+
+/**
+ * Extract the bare address from `Name <address>` or `address`
+ */
+export function parseAddress(value: string): string {
+  const match = /<([^>]+)>/.exec(value);
+  return sanitizeHeader(match ? match[1] : value);
+}
+
+/**
+ * Serialize a rendered message with CRLF line endings
+ */
+export function buildMimeMessage(message: EmailMessage, headers: MimeHeaders): string {
+  const boundary = `----=_Part_${randomBytes(12).toString('hex')}`;
+  const domain = parseAddress(headers.from).split('@')[1] || 'localhost';
+  const messageId = headers.messageId ?? `<${randomBytes(16).toString('hex')}@${domain}>`;
+
+  return [
+    `From: ${sanitizeHeader(headers.from)}`,
+    `To: ${sanitizeHeader(message.to)}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${(headers.date ?? new Date()).toUTCString()}`,
+    `Message-ID: ${sanitizeHeader(messageId)}`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
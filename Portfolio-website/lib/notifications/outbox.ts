@@ -0,0 +1,141 @@
+import { SmtpError } from '@/lib/notifications/smtp';
+import type { EmailMessage } from '@/lib/notifications/templates';
+import type { NotificationTransport } from '@/lib/notifications/transports';
+
+/**
+ * Retrying notification outbox
+ *
+ * Routes enqueue a message and respond right away; the outbox delivers in the background and
+ * retries failed sends with exponential backoff. Permanent rejections (SMTP 5xx) are not retried.
+ * The queue lives in memory, so messages still pending when the process exits are lost.
+ *
+ * @module lib/notifications/outbox
+ */
+
+/**
+ * Outbox tuning
+ */
+export interface NotificationOutboxOptions {
+  /** Delivery attempts per message, including the first (default 5) */
+  maxAttempts?: number;
+  /** Delay before the first retry; doubles after each failure (default 30s) */
+  baseDelayMs?: number;
+  /** Upper bound for the retry delay (default 15 minutes) */
+  maxDelayMs?: number;
+  /** Called when a message is given up on */
+  onFailure?: (message: EmailMessage, error: unknown) => void;
+}
+
+interface OutboxEntry {
+  message: EmailMessage;
+  attempts: number;
+  nextAttemptAt: number;
+}
+
+const logFailure = (message: EmailMessage, error: unknown) => {
+  console.error(`Giving up on notification "${message.subject}" to ${message.to}:`, error);
+};
+
+export class NotificationOutbox {
+  private readonly maxAttempts: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly onFailure: (message: EmailMessage, error: unknown) => void;
+
+  private queue: OutboxEntry[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running: Promise<void> | null = null;
+
+  constructor(
+    private readonly transport: NotificationTransport,
+    options: NotificationOutboxOptions = {}
+  ) {
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? 5);
+    this.baseDelayMs = options.baseDelayMs ?? 30_000;
+    this.maxDelayMs = options.maxDelayMs ?? 15 * 60_000;
+    this.onFailure = options.onFailure ?? logFailure;
+  }
+
+  /**
+   * Number of messages waiting for (re)delivery
+   */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Queue a message for delivery
+   */
+  enqueue(message: EmailMessage): void {
+    this.queue.push({ message, attempts: 0, nextAttemptAt: Date.now() });
+    this.schedule();
+  }
+
+  /**
+   * Deliver or give up on every queued message, waiting out retry delays
+   */
+  async drain(): Promise<void> {
+    while (this.queue.length > 0) {
+      const wait = this.nextAttemptAt() - Date.now();
+      if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+      await this.flush();
+    }
+  }
+
+  private nextAttemptAt(): number {
+    return Math.min(...this.queue.map(({ nextAttemptAt }) => nextAttemptAt));
+  }
+
+  private schedule(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    if (this.queue.length === 0) return;
+
+    this.timer = setTimeout(
+      () => {
+        this.timer = null;
+        void this.flush();
+      },
+      Math.max(0, this.nextAttemptAt() - Date.now())
+    );
+    // Pending retries must not keep the process alive
+    this.timer.unref?.();
+  }
+
+  /**
+   * Attempt every due message once; runs are never concurrent
+   */
+  private flush(): Promise<void> {
+    this.running ??= this.deliverDue().finally(() => {
+      this.running = null;
+      this.schedule();
+    });
+    return this.running;
+  }
+
+  private async deliverDue(): Promise<void> {
+    const now = Date.now();
+    const due = this.queue.filter(({ nextAttemptAt }) => nextAttemptAt <= now);
+
+    for (const entry of due) {
+      entry.attempts++;
+      try {
+        await this.transport.send(entry.message);
+        this.remove(entry);
+      } catch (error) {
+        const permanent = error instanceof SmtpError && error.permanent;
+        if (permanent || entry.attempts >= this.maxAttempts) {
+          this.remove(entry);
+          this.onFailure(entry.message, error);
+          continue;
+        }
+        const delay = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** (entry.attempts - 1));
+        entry.nextAttemptAt = Date.now() + delay;
+      }
+    }
+  }
+
+  private remove(entry: OutboxEntry): void {
+    this.queue = this.queue.filter((queued) => queued !== entry);
+  }
+}
@@ -0,0 +1,317 @@
+import { connect as connectTcp, Socket } from 'node:net';
+import { connect as connectTls, type ConnectionOptions } from 'node:tls';
+
+/**
+ * Minimal SMTP client
+ *
+ * Enough of RFC 5321 to hand a message to a relay: EHLO, opportunistic STARTTLS, AUTH PLAIN or
+ * LOGIN (only once the connection is encrypted), and a single transaction per connection. Like the
+ * Redis store it talks to the server directly, so the site needs no mail library.
+ *
+ * @module lib/notifications/smtp
+ */
+
+// ==================== TYPES ====================
+
+/**
+ * Connection settings for an SMTP relay
+ */
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  /** Implicit TLS from the first byte (port 465). Otherwise STARTTLS is used when offered. */
+  secure?: boolean;
+  user?: string;
+  pass?: string;
+  /** Send credentials over an unencrypted connection, e.g. to a local test relay (default off) */
+  allowInsecureAuth?: boolean;
+  /** Host name announced in EHLO (default `localhost`) */
+  clientName?: string;
+  /** Idle timeout for every reply, in milliseconds (default 10000) */
+  timeoutMs?: number;
+  /** Extra TLS options, e.g. a private CA */
+  tls?: ConnectionOptions;
+}
+
+/**
+ * Envelope addresses; they may differ from the message headers
+ */
+export interface SmtpEnvelope {
+  from: string;
+  to: string[];
+}
+
+/**
+ * Reply with an unexpected status code
+ */
+export class SmtpError extends Error {
+  constructor(
+    message: string,
+    readonly code: number
+  ) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+
+  /** 5xx replies won't succeed on a retry */
+  get permanent(): boolean {
+    return this.code >= 500;
+  }
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+// ==================== ENCODING ====================
+
+/**
+ * Normalize line endings to CRLF and escape lines starting with a dot (RFC 5321 4.5.2)
+ */
+export function dotStuff(data: string): string {
+  return data
+    .replace(/\r?\n/g, '\r\n')
+    .split('\r\n')
+    .map((line) => (line.startsWith('.') ? `.${line}` : line))
+    .join('\r\n');
+}
+
+/**
+ * Parse EHLO reply lines into upper-cased keywords and their parameters
+ */
+export function parseCapabilities(reply: SmtpReply): Map<string, string> {
+  const capabilities = new Map<string, string>();
+  // The first line is the server greeting
+  for (const line of reply.lines.slice(1)) {
+    const [keyword, ...params] = line.trim().split(/\s+/);
+    if (keyword) capabilities.set(keyword.toUpperCase(), params.join(' ').toUpperCase());
+  }
+  return capabilities;
+}
+
+// ==================== SESSION ====================
+
+/**
+ * One SMTP connection; replies are read strictly in order
+ */
+class SmtpSession {
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null =
+    null;
+  private failure: Error | null = null;
+
+  private constructor(
+    private socket: Socket,
+    private readonly timeoutMs: number
+  ) {
+    this.attach(socket);
+  }
+
+  static async open(options: SmtpOptions): Promise<SmtpSession> {
+    const timeoutMs = options.timeoutMs ?? 10000;
+    const socket = await new Promise<Socket>((resolve, reject) => {
+      const onConnect = () => resolve(socket);
+      const socket: Socket = options.secure
+        ? connectTls(
+            { host: options.host, port: options.port, servername: options.host, ...options.tls },
+            onConnect
+          )
+        : connectTcp({ host: options.host, port: options.port }, onConnect);
+
+      socket.setTimeout(timeoutMs, () => {
+        socket.destroy(new Error(`Timed out connecting to SMTP server at ${options.host}`));
+      });
+      socket.once('error', reject);
+    });
+    return new SmtpSession(socket, timeoutMs);
+  }
+
+  get encrypted(): boolean {
+    return 'encrypted' in this.socket && this.socket.encrypted === true;
+  }
+
+  /**
+   * Wait for the next reply and check its code
+   *
+   * @throws SmtpError when the code is not one of `expected`
+   */
+  async expect(expected: number[], label: string): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new SmtpError(
+        `SMTP ${label} failed: ${reply.code} ${reply.lines.join(' ')}`,
+        reply.code
+      );
+    }
+    return reply;
+  }
+
+  /**
+   * Send a command line and check the reply. `label` replaces the command in errors, so
+   * credentials never end up in logs.
+   */
+  command(line: string, expected: number[], label = line.split(' ')[0]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected, label);
+  }
+
+  /**
+   * Switch the connection to TLS after a successful STARTTLS
+   */
+  async upgrade(options: SmtpOptions): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('error');
+    plain.removeAllListeners('close');
+    plain.setTimeout(0);
+
+    const secure = await new Promise<Socket>((resolve, reject) => {
+      const socket = connectTls({ socket: plain, servername: options.host, ...options.tls }, () =>
+        resolve(socket)
+      );
+      socket.once('error', reject);
+    });
+    this.buffer = '';
+    this.lines = [];
+    this.attach(secure);
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+
+  private attach(socket: Socket): void {
+    this.socket = socket;
+    socket.setTimeout(this.timeoutMs, () => {
+      socket.destroy(new Error('SMTP server stopped responding'));
+    });
+    socket.on('data', (chunk: Buffer) => this.onData(chunk));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer += chunk.toString('utf8');
+
+    let lineEnd: number;
+    while ((lineEnd = this.buffer.indexOf('\r\n')) !== -1) {
+      const line = this.buffer.slice(0, lineEnd);
+      this.buffer = this.buffer.slice(lineEnd + 2);
+
+      // `250-...` continues a multiline reply, `250 ...` ends it
+      this.lines.push(line.slice(4));
+      if (line[3] === '-') continue;
+
+      const reply = { code: Number(line.slice(0, 3)), lines: this.lines };
+      this.lines = [];
+      if (this.waiting) {
+        this.waiting.resolve(reply);
+        this.waiting = null;
+      } else {
+        this.replies.push(reply);
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    this.waiting?.reject(error);
+    this.waiting = null;
+  }
+}
+
+// ==================== SENDING ====================
+
+async function hello(session: SmtpSession, clientName: string): Promise<Map<string, string>> {
+  try {
+    return parseCapabilities(await session.command(`EHLO ${clientName}`, [250]));
+  } catch (error) {
+    // Servers from before ESMTP only know HELO
+    if (!(error instanceof SmtpError) || error.code < 500) throw error;
+    await session.command(`HELO ${clientName}`, [250]);
+    return new Map();
+  }
+}
+
+async function authenticate(
+  session: SmtpSession,
+  capabilities: Map<string, string>,
+  user: string,
+  pass: string
+): Promise<void> {
+  const mechanisms = (capabilities.get('AUTH') ?? '').split(' ');
+  const base64 = (value: string) => Buffer.from(value, 'utf8').toString('base64');
+
+  if (mechanisms.includes('LOGIN') && !mechanisms.includes('PLAIN')) {
+    await session.command('AUTH LOGIN', [334]);
+    await session.command(base64(user), [334], 'AUTH LOGIN');
+    await session.command(base64(pass), [235], 'AUTH LOGIN');
+    return;
+  }
+
+  await session.command(`AUTH PLAIN ${base64(`\0${user}\0${pass}`)}`, [235], 'AUTH PLAIN');
+}
+
+/**
+ * Deliver one message to the relay
+ *
+ * @param data - Complete message (headers and body)
+ * @throws SmtpError for rejected commands, or credentials set on a connection without TLS;
+ * other errors for network problems
+ */
+export async function sendMail(
+  options: SmtpOptions,
+  envelope: SmtpEnvelope,
+  data: string
+): Promise<void> {
+  const session = await SmtpSession.open(options);
+  const clientName = options.clientName ?? 'localhost';
+
+  try {
+    await session.expect([220], 'greeting');
+    let capabilities = await hello(session, clientName);
+
+    if (!session.encrypted && capabilities.has('STARTTLS')) {
+      await session.command('STARTTLS', [220]);
+      await session.upgrade(options);
+      capabilities = await hello(session, clientName);
+    }
+
+    if (options.user) {
+      if (!session.encrypted && !options.allowInsecureAuth) {
+        // 530 is what servers answer when TLS is required first (RFC 3207); retrying won't help
+        throw new SmtpError(
+          'Refusing to send SMTP credentials over an unencrypted connection',
+          530
+        );
+      }
+      await authenticate(session, capabilities, options.user, options.pass ?? '');
+    }
+
+    await session.command(`MAIL FROM:<${envelope.from}>`, [250], 'MAIL FROM');
+    for (const recipient of envelope.to) {
+      await session.command(`RCPT TO:<${recipient}>`, [250, 251], 'RCPT TO');
+    }
+    await session.command('DATA', [354]);
+
+    const body = dotStuff(data);
+    await session.command(`${body}${body.endsWith('\r\n') ? '' : '\r\n'}.`, [250], 'DATA');
+
+    // The message is accepted at this point; a failed QUIT doesn't matter
+    await session.command('QUIT', [221]).catch(() => undefined);
+  } finally {
+    session.close();
+  }
+}
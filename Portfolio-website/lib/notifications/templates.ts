@@ -0,0 +1,259 @@
+import { getTimeZoneLabel } from '@/lib/timezones';
+
+/**
+ * Notification templates
+ *
+ * Each notification type renders to a plain-text and an HTML body. Every interpolated value is
+ * escaped in the HTML version, so visitor input can be echoed back safely.
+ *
+ * @module lib/notifications/templates
+ */
+
+// ==================== TYPES ====================
+
+/**
+ * Rendered email, ready for a transport
+ */
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Booking details shown in booking notifications
+ */
+export interface BookingNotificationDetails {
+  name: string;
+  /** UTC ISO instant the meeting starts */
+  startsAt: string;
+  /** Minutes */
+  duration: number;
+  /** Visitor's IANA time zone; times are shown in it */
+  timeZone: string;
+  /** Display name of the meeting type */
+  meetingType?: string | null;
+  meetingLink?: string | null;
+  /** Absolute URL of the booking's manage page */
+  manageUrl?: string | null;
+}
+
+export type Notification =
+  | {
+      type: 'contact-acknowledgement';
+      to: string;
+      data: { name: string; subject: string; message: string };
+    }
+  | { type: 'booking-confirmation'; to: string; data: BookingNotificationDetails }
+  | {
+      type: 'booking-reminder';
+      to: string;
+      /** `offsetMinutes`: how long before the start the reminder goes out */
+      data: BookingNotificationDetails & { offsetMinutes: number };
+    }
+  | {
+      type: 'booking-cancellation';
+      to: string;
+      /** `bookUrl`: where to book a new meeting */
+      data: BookingNotificationDetails & { bookUrl?: string | null };
+    };
+
+export type NotificationType = Notification['type'];
+
+// ==================== HELPERS ====================
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * Escape a value for use in HTML text and attribute values
+ */
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+/**
+ * `Wednesday, January 8, 2025 at 14:00 GMT+1` in the given zone
+ */
+export function formatMeetingTime(startsAt: string, timeZone: string): string {
+  const instant = new Date(startsAt);
+  const formatted = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).format(instant);
+  return `${formatted} ${getTimeZoneLabel(instant, timeZone)}`;
+}
+
+/**
+ * `24 hours`, `1 hour`, `30 minutes`
+ */
+export function formatOffset(minutes: number): string {
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return `${hours} hour${hours === 1 ? '' : 's'}`;
+  }
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+interface Section {
+  /** Paragraphs of plain text */
+  paragraphs: string[];
+  /** Label/value rows, e.g. the meeting details */
+  details?: [string, string][];
+  /** Call-to-action links */
+  links?: { label: string; url: string }[];
+}
+
+function renderText({ paragraphs, details = [], links = [] }: Section, greeting: string): string {
+  return [
+    greeting,
+    '',
+    ...paragraphs.flatMap((paragraph) => [paragraph, '']),
+    ...(details.length > 0 ? [...details.map(([label, value]) => `${label}: ${value}`), ''] : []),
+    ...(links.length > 0 ? [...links.map(({ label, url }) => `${label}: ${url}`), ''] : []),
+    '— Jacob Creations',
+  ].join('\n');
+}
+
+function renderHtml(
+  { paragraphs, details = [], links = [] }: Section,
+  title: string,
+  greeting: string
+): string {
+  const detailRows = details
+    .map(
+      ([label, value]) =>
+        `<tr><td style="padding:4px 12px 4px 0;color:#64748b;">${escapeHtml(label)}</td><td style="padding:4px 0;">${escapeHtml(value)}</td></tr>`
+    )
+    .join('');
+  const buttons = links
+    .map(
+      ({ label, url }) =>
+        `<a href="${escapeHtml(url)}" style="display:inline-block;margin:8px 8px 0 0;padding:12px 24px;background:#00d9ff;color:#0a0e1a;text-decoration:none;border-radius:6px;font-weight:600;">${escapeHtml(label)}</a>`
+    )
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#f8fafc;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',sans-serif;color:#1e293b;">
+<div style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:12px;padding:32px;">
+<h1 style="margin:0 0 24px;font-size:22px;">${escapeHtml(title)}</h1>
+<p>${escapeHtml(greeting)}</p>
+${paragraphs.map((paragraph) => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`).join('\n')}
+${detailRows ? `<table style="margin:16px 0;border-collapse:collapse;">${detailRows}</table>` : ''}
+${buttons ? `<p>${buttons}</p>` : ''}
+<p style="margin-top:32px;color:#64748b;font-size:14px;">— Jacob Creations</p>
+</div>
+</body>
+</html>`;
+}
+
+function meetingDetails(booking: BookingNotificationDetails): [string, string][] {
+  return [
+    ['When', formatMeetingTime(booking.startsAt, booking.timeZone)],
+    ['Duration', `${booking.duration} minutes`],
+    ...(booking.meetingType ? [['Session', booking.meetingType] as [string, string]] : []),
+  ];
+}
+
+function bookingLinks(booking: BookingNotificationDetails) {
+  return [
+    ...(booking.meetingLink ? [{ label: 'Join meeting', url: booking.meetingLink }] : []),
+    ...(booking.manageUrl ? [{ label: 'Reschedule or cancel', url: booking.manageUrl }] : []),
+  ];
+}
+
+// ==================== RENDERING ====================
+
+interface NotificationContent {
+  name: string;
+  title: string;
+  subject: string;
+  section: Section;
+}
+
+function describe(notification: Notification): NotificationContent {
+  switch (notification.type) {
+    case 'contact-acknowledgement': {
+      const { data } = notification;
+      return {
+        name: data.name,
+        title: 'Thanks for getting in touch',
+        subject: 'Thanks for your message',
+        section: {
+          paragraphs: [
+            'Your message arrived safely. I read every message myself and usually reply within two business days.',
+            `For reference, here is what you sent:\n\n${data.subject}\n${data.message}`,
+          ],
+        },
+      };
+    }
+    case 'booking-confirmation': {
+      const { data } = notification;
+      return {
+        name: data.name,
+        title: 'Your meeting is booked',
+        subject: `Meeting confirmed: ${formatMeetingTime(data.startsAt, data.timeZone)}`,
+        section: {
+          paragraphs: ['Thanks for booking a meeting. Here are the details:'],
+          details: meetingDetails(data),
+          links: bookingLinks(data),
+        },
+      };
+    }
+    case 'booking-reminder': {
+      const { data } = notification;
+      const startsIn = formatOffset(data.offsetMinutes);
+      return {
+        name: data.name,
+        title: `Your meeting starts in ${startsIn}`,
+        subject: `Reminder: your meeting starts in ${startsIn}`,
+        section: {
+          paragraphs: ['This is a quick reminder of your upcoming meeting.'],
+          details: meetingDetails(data),
+          links: bookingLinks(data),
+        },
+      };
+    }
+    case 'booking-cancellation': {
+      const { data } = notification;
+      return {
+        name: data.name,
+        title: 'Your meeting was cancelled',
+        subject: `Meeting cancelled: ${formatMeetingTime(data.startsAt, data.timeZone)}`,
+        section: {
+          paragraphs: ['The following meeting has been cancelled:'],
+          details: meetingDetails(data),
+          links: data.bookUrl ? [{ label: 'Book another time', url: data.bookUrl }] : [],
+        },
+      };
+    }
+  }
+}
+
+/**
+ * Render a notification to its subject and bodies
+ */
+export function renderNotification(notification: Notification): EmailMessage {
+  const { name, title, subject, section } = describe(notification);
+  const greeting = `Hi ${name},`;
+
+  return {
+    to: notification.to,
+    subject,
+    text: renderText(section, greeting),
+    html: renderHtml(section, title, greeting),
+  };
+}
@@ -0,0 +1,70 @@
+import { randomBytes } from 'node:crypto';
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { buildMimeMessage, parseAddress } from '@/lib/notifications/mime';
+import { sendMail, type SmtpOptions } from '@/lib/notifications/smtp';
+import type { EmailMessage } from '@/lib/notifications/templates';
+
+/**
+ * Notification transports
+ *
+ * A transport delivers one rendered message or throws. Retrying is the outbox's job.
+ *
+ * @module lib/notifications/transports
+ */
+
+/**
+ * Delivers rendered messages
+ */
+export interface NotificationTransport {
+  send(message: EmailMessage): Promise<void>;
+}
+
+/**
+ * Sends through an SMTP relay
+ */
+export class SmtpTransport implements NotificationTransport {
+  constructor(
+    private readonly options: SmtpOptions,
+    private readonly from: string
+  ) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    await sendMail(
+      this.options,
+      { from: parseAddress(this.from), to: [parseAddress(message.to)] },
+      buildMimeMessage(message, { from: this.from })
+    );
+  }
+}
+
+/**
+ * Writes every message as an `.eml` file, for development and staging
+ */
+export class FileTransport implements NotificationTransport {
+  constructor(
+    private readonly directory: string,
+    private readonly from: string
+  ) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const recipient = parseAddress(message.to).replace(/[^a-z0-9@.-]/gi, '_');
+    const file = path.join(
+      this.directory,
+      `${Date.now()}-${randomBytes(4).toString('hex')}-${recipient}.eml`
+    );
+    await writeFile(file, buildMimeMessage(message, { from: this.from }));
+  }
+}
+
+/**
+ * Logs the plain-text version of every message
+ */
+export class ConsoleTransport implements NotificationTransport {
+  async send(message: EmailMessage): Promise<void> {
+    console.info(
+      `[notifications] To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`
+    );
+  }
+}
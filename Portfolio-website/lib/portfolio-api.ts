@@ -0,0 +1,172 @@
+import 'server-only';
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { apiLogger } from '@/lib/api-logger';
+import {
+  ADMIN_SESSION_COOKIE,
+  isValidAdminApiKey,
+  verifyRequestSession,
+} from '@/lib/admin-session';
+import { PortfolioVersionConflictError } from '@/lib/portfolio-data';
+import { ValidationError } from '@/lib/types';
+
+/**
+ * Shared response helpers for the `/api/portfolio` route family
+ *
+ * @module lib/portfolio-api
+ */
+
+/**
+ * Portfolio API Response Type
+ */
+export interface PortfolioApiResponse<T = any> {
+  success: boolean;
+  data?: T;
+  message?: string;
+  timestamp: string;
+  requestId?: string;
+}
+
+/**
+ * Error Response Type
+ */
+export interface ErrorResponse {
+  success: false;
+  error: string;
+  details?: ValidationError[];
+  timestamp: string;
+  requestId?: string;
+  stack?: string;
+}
+
+/**
+ * CORS headers configuration
+ */
+export const CORS_HEADERS = {
+  'Access-Control-Allow-Origin':
+    process.env.NODE_ENV === 'development' ? '*' : 'https://jxcobcreations.com',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers':
+    'Content-Type, Authorization, X-CSRF-Token, X-Requested-With, If-Match, If-None-Match',
+  'Access-Control-Expose-Headers': 'ETag',
+  'Access-Control-Max-Age': '86400', // 24 hours
+};
+
+/**
+ * Format a version as a strong entity tag
+ *
+ * @param version - Unquoted version string
+ * @returns Quoted ETag header value
+ */
+export function toEntityTag(version: string): string {
+  return `"${version}"`;
+}
+
+/**
+ * Create standardized API response
+ *
+ * @param data - Response data
+ * @param success - Success status
+ * @param message - Optional message
+ * @param requestId - Request ID for tracking
+ * @returns Formatted API response
+ */
+export function createApiResponse<T>(
+  data?: T,
+  success: boolean = true,
+  message?: string,
+  requestId?: string
+): PortfolioApiResponse<T> {
+  return {
+    success,
+    data,
+    message,
+    timestamp: new Date().toISOString(),
+    requestId,
+  };
+}
+
+/**
+ * Create error response
+ *
+ * @param error - Error message
+ * @param details - Validation error details
+ * @param requestId - Request ID for tracking
+ * @returns Formatted error response
+ */
+export function createErrorResponse(
+  error: string,
+  details?: ValidationError[],
+  requestId?: string
+): ErrorResponse {
+  return {
+    success: false,
+    error,
+    details,
+    timestamp: new Date().toISOString(),
+    requestId,
+    ...(process.env.NODE_ENV === 'development' && { stack: new Error().stack }),
+  };
+}
+
+/**
+ * Build the 428 response returned when a write omits `If-Match`
+ *
+ * @param requestId - Request ID for tracking
+ * @returns Precondition required response
+ */
+export function createPreconditionRequiredResponse(requestId: string): NextResponse {
+  apiLogger.logWarning(requestId, 'Missing If-Match header on write request');
+
+  return NextResponse.json(
+    createErrorResponse(
+      'If-Match header is required. Fetch the section first and send its ETag.',
+      undefined,
+      requestId
+    ),
+    {
+      status: 428,
+      headers: CORS_HEADERS,
+    }
+  );
+}
+
+/**
+ * Build the 412 response returned when a write targets a stale section version
+ *
+ * @param error - Conflict raised by the portfolio store
+ * @param requestId - Request ID for tracking
+ * @param duration - Elapsed request time in milliseconds
+ * @returns Precondition failed response carrying the current ETag
+ */
+export function createConflictResponse(
+  error: PortfolioVersionConflictError,
+  requestId: string,
+  duration: number
+): NextResponse {
+  apiLogger.logWarning(requestId, error.message, { section: error.section });
+  apiLogger.logResponse(requestId, 412, duration, 'Precondition failed');
+
+  return NextResponse.json(createErrorResponse(error.message, undefined, requestId), {
+    status: 412,
+    headers: { ...CORS_HEADERS, ETag: toEntityTag(error.currentVersion) },
+  });
+}
+
+/**
+ * Identify who performed a portfolio write, for revision history
+ *
+ * @param request - Next.js request object
+ * @returns `session:<username>` for signed-in admins, `api-key` for ADMIN_API_KEY callers
+ */
+export async function getRequestActor(request: NextRequest): Promise<string> {
+  const verification = await verifyRequestSession(
+    request.cookies.get(ADMIN_SESSION_COOKIE)?.value,
+    request.headers.get('authorization')
+  );
+
+  if (verification.valid) return `session:${verification.session.sub}`;
+  if (isValidAdminApiKey(request.headers.get('x-api-key'))) return 'api-key';
+  return 'anonymous';
+}
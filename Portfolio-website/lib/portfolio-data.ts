@@ -1,7 +1,17 @@
-import { PortfolioData } from '@/lib/types';
+import 'server-only';
+
+import { createHash } from 'crypto';
+
+import { getPortfolioRepository } from '@/lib/portfolio-repository';
+import {
+  PortfolioData,
+  PortfolioRevision,
+  PortfolioRevisionAction,
+  PortfolioRevisionContext,
+} from '@/lib/types';
 
 /**
- * Mock portfolio database - In production, this would be replaced with actual database queries
+ * Seed portfolio data - Used to initialise the configured repository when it is empty
  *
  * @description Contains all portfolio data including personal info, skills, projects, and testimonials
  * @version 1.0.0
@@ -208,13 +218,136 @@ When I'm not coding, you'll find me exploring new technologies, optimizing workf
   ],
 };
 
+const repository = () => getPortfolioRepository(portfolioData as unknown as PortfolioData);
+
+/**
+ * Thrown when a conditional write targets a section version that is no longer current
+ */
+export class PortfolioVersionConflictError extends Error {
+  constructor(
+    public readonly section: keyof PortfolioData,
+    public readonly currentVersion: string
+  ) {
+    super(`Portfolio section '${section}' has been modified since it was read.`);
+    this.name = 'PortfolioVersionConflictError';
+  }
+}
+
+/**
+ * Thrown when a revision ID does not exist
+ */
+export class PortfolioRevisionNotFoundError extends Error {
+  constructor(public readonly revisionId: string) {
+    super(`Portfolio revision '${revisionId}' was not found.`);
+    this.name = 'PortfolioRevisionNotFoundError';
+  }
+}
+
+/**
+ * Options for conditional, audited writes
+ */
+export interface PortfolioWriteOptions {
+  /**
+   * Raw `If-Match` header value; the write is rejected unless it matches the section version
+   */
+  ifMatch?: string | null;
+
+  /**
+   * Who performed the write (recorded in revision history)
+   */
+  actor?: string;
+
+  /**
+   * Request ID from `apiLogger` (recorded in revision history)
+   */
+  requestId?: string;
+}
+
+const toRevisionContext = (
+  action: PortfolioRevisionAction,
+  options?: PortfolioWriteOptions,
+  restoredFrom?: string
+): PortfolioRevisionContext => ({
+  action,
+  actor: options?.actor ?? 'system',
+  requestId: options?.requestId,
+  restoredFrom,
+});
+
+/**
+ * Compute the content-hash version of a portfolio section
+ *
+ * @param data - Portfolio data snapshot
+ * @param section - The section to hash
+ * @returns Opaque version string (unquoted)
+ */
+export function getSectionVersion(data: PortfolioData, section: keyof PortfolioData): string {
+  return createHash('sha256')
+    .update(JSON.stringify(data[section]))
+    .digest('base64url')
+    .slice(0, 27);
+}
+
+/**
+ * Compute the version of the whole portfolio document from its section versions
+ *
+ * @param data - Portfolio data snapshot
+ * @returns Opaque version string (unquoted)
+ */
+export function getPortfolioVersion(data: PortfolioData): string {
+  const sections = (Object.keys(data) as Array<keyof PortfolioData>).sort();
+  return createHash('sha256')
+    .update(sections.map((section) => `${section}:${getSectionVersion(data, section)}`).join('|'))
+    .digest('base64url')
+    .slice(0, 27);
+}
+
+/**
+ * Check whether an `If-Match` / `If-None-Match` header value matches a version
+ *
+ * `If-None-Match` uses weak comparison, so `W/"<version>"` matches. `If-Match` must use strong
+ * comparison (RFC 9110, section 13.1.1), where a weak tag never matches.
+ *
+ * @param header - Raw header value (may contain a list, weak validators or `*`)
+ * @param version - Current unquoted version
+ * @param options.strong - Reject weak validators
+ * @returns True if any listed entity tag matches
+ */
+export function entityTagMatches(
+  header: string,
+  version: string,
+  { strong = false }: { strong?: boolean } = {}
+): boolean {
+  return header
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter((tag) => !(strong && tag.startsWith('W/')))
+    .map((tag) => tag.replace(/^W\//, ''))
+    .some((tag) => tag === '*' || tag === `"${version}"`);
+}
+
+const assertSectionVersion = (
+  current: PortfolioData,
+  section: keyof PortfolioData,
+  options?: PortfolioWriteOptions
+) => {
+  if (options?.ifMatch === undefined) {
+    return;
+  }
+
+  const currentVersion = getSectionVersion(current, section);
+  if (!options.ifMatch || !entityTagMatches(options.ifMatch, currentVersion, { strong: true })) {
+    throw new PortfolioVersionConflictError(section, currentVersion);
+  }
+};
+
 /**
  * Get a deep copy of portfolio data to prevent mutations
  *
- * @returns {PortfolioData} Deep copy of portfolio data
+ * @returns {Promise<PortfolioData>} Deep copy of portfolio data
  */
-export function getPortfolioData(): PortfolioData {
-  return JSON.parse(JSON.stringify(portfolioData));
+export async function getPortfolioData(): Promise<PortfolioData> {
+  return repository().read();
 }
 
 /**
@@ -223,8 +356,11 @@ export function getPortfolioData(): PortfolioData {
  * @param section - The section to retrieve
  * @returns The requested section data
  */
-export function getPortfolioSection<K extends keyof PortfolioData>(section: K): PortfolioData[K] {
-  return JSON.parse(JSON.stringify(portfolioData[section]));
+export async function getPortfolioSection<K extends keyof PortfolioData>(
+  section: K
+): Promise<PortfolioData[K]> {
+  const data = await repository().read();
+  return data[section];
 }
 
 /**
@@ -232,14 +368,25 @@ export function getPortfolioSection<K extends keyof PortfolioData>(section: K):
  *
  * @param section - The section to update
  * @param data - The new data for the section
+ * @param options - Conditional write options
  * @returns Updated portfolio data
+ * @throws {PortfolioVersionConflictError} When `options.ifMatch` no longer matches
  */
-export function updatePortfolioSection<K extends keyof PortfolioData>(
+export async function updatePortfolioSection<K extends keyof PortfolioData>(
   section: K,
-  data: PortfolioData[K]
-): PortfolioData {
-  (portfolioData as any)[section] = JSON.parse(JSON.stringify(data));
-  return getPortfolioData();
+  data: PortfolioData[K],
+  options?: PortfolioWriteOptions
+): Promise<PortfolioData> {
+  return repository().update(
+    (current) => {
+      assertSectionVersion(current, section, options);
+      return {
+        ...current,
+        [section]: JSON.parse(JSON.stringify(data)),
+      };
+    },
+    toRevisionContext('update', options)
+  );
 }
 
 /**
@@ -247,16 +394,27 @@ export function updatePortfolioSection<K extends keyof PortfolioData>(
  *
  * @param section - The array section to add to
  * @param item - The item to add
+ * @param options - Conditional write options
  * @returns Updated portfolio data
+ * @throws {PortfolioVersionConflictError} When `options.ifMatch` no longer matches
  */
-export function addPortfolioItem<K extends 'skills' | 'projects' | 'testimonials'>(
+export async function addPortfolioItem<K extends 'skills' | 'projects' | 'testimonials'>(
   section: K,
-  item: PortfolioData[K] extends Array<infer T> ? Omit<T, 'id'> : never
-): PortfolioData {
-  const newId = Math.max(...(portfolioData[section] as any[]).map((i: any) => i.id || 0)) + 1;
-  const newItem = { ...item, id: newId };
-  (portfolioData[section] as any[]).push(newItem);
-  return getPortfolioData();
+  item: PortfolioData[K] extends Array<infer T> ? Omit<T, 'id'> : never,
+  options?: PortfolioWriteOptions
+): Promise<PortfolioData> {
+  return repository().update(
+    (current) => {
+      assertSectionVersion(current, section, options);
+      const items = current[section] as Array<{ id?: number | string }>;
+      const newId = Math.max(0, ...items.map((i) => Number(i.id) || 0)) + 1;
+      return {
+        ...current,
+        [section]: [...items, { ...item, id: newId }],
+      };
+    },
+    toRevisionContext('add', options)
+  );
 }
 
 /**
@@ -264,14 +422,83 @@ export function addPortfolioItem<K extends 'skills' | 'projects' | 'testimonials
  *
  * @param section - The array section to remove from
  * @param id - The ID of the item to remove
+ * @param options - Conditional write options
  * @returns Updated portfolio data
+ * @throws {PortfolioVersionConflictError} When `options.ifMatch` no longer matches
  */
-export function removePortfolioItem<K extends 'skills' | 'projects' | 'testimonials'>(
+export async function removePortfolioItem<K extends 'skills' | 'projects' | 'testimonials'>(
   section: K,
-  id: number
-): PortfolioData {
-  (portfolioData[section] as any[]) = (portfolioData[section] as any[]).filter(
-    (item: any) => item.id !== id
+  id: number,
+  options?: PortfolioWriteOptions
+): Promise<PortfolioData> {
+  return repository().update(
+    (current) => {
+      assertSectionVersion(current, section, options);
+      return {
+        ...current,
+        [section]: (current[section] as Array<{ id?: number | string }>).filter(
+          (item) => item.id !== id
+        ),
+      };
+    },
+    toRevisionContext('remove', options)
   );
-  return getPortfolioData();
+}
+
+/**
+ * List recorded revisions of a section, newest first
+ *
+ * @param section - The section to list revisions for
+ * @param limit - Maximum number of revisions to return
+ * @returns Revisions including diff and snapshot
+ */
+export async function listPortfolioRevisions(
+  section: keyof PortfolioData,
+  limit?: number
+): Promise<PortfolioRevision[]> {
+  return repository().listRevisions(section, limit);
+}
+
+/**
+ * Get a single revision
+ *
+ * @param id - Revision ID
+ * @returns The revision, or null if it does not exist
+ */
+export async function getPortfolioRevision(id: string): Promise<PortfolioRevision | null> {
+  return repository().getRevision(id);
+}
+
+/**
+ * Restore a section to the snapshot stored in a previous revision
+ *
+ * The restore is itself recorded as a new revision pointing at the source revision.
+ *
+ * @param id - Revision ID to restore
+ * @param options - Conditional write options
+ * @returns Updated portfolio data and the section that was restored
+ * @throws {PortfolioRevisionNotFoundError} When the revision does not exist
+ * @throws {PortfolioVersionConflictError} When `options.ifMatch` no longer matches
+ */
+export async function restorePortfolioRevision(
+  id: string,
+  options?: PortfolioWriteOptions
+): Promise<{ section: keyof PortfolioData; data: PortfolioData }> {
+  const revision = await repository().getRevision(id);
+  if (!revision) {
+    throw new PortfolioRevisionNotFoundError(id);
+  }
+
+  const data = await repository().update(
+    (current) => {
+      assertSectionVersion(current, revision.section, options);
+      return {
+        ...current,
+        [revision.section]: JSON.parse(JSON.stringify(revision.snapshot)),
+      };
+    },
+    toRevisionContext('restore', options, revision.id)
+  );
+
+  return { section: revision.section, data };
 }
@@ -0,0 +1,75 @@
+import { PortfolioDiffEntry } from '@/lib/types';
+
+/**
+ * Structural diff for portfolio JSON documents
+ *
+ * @module lib/portfolio-diff
+ */
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Escape a key for use inside a JSON Pointer
+ */
+const escapePointerSegment = (segment: string | number): string =>
+  String(segment).replace(/~/g, '~0').replace(/\//g, '~1');
+
+/**
+ * Compute the list of changes needed to turn `before` into `after`
+ *
+ * Objects are compared key by key and arrays index by index; any other change is
+ * reported as a `replace` of the whole value.
+ *
+ * @param before - Previous value
+ * @param after - Next value
+ * @param path - JSON Pointer of the values being compared
+ * @returns Ordered list of diff entries (empty when the values are equal)
+ */
+export function diffPortfolioValues(
+  before: unknown,
+  after: unknown,
+  path = ''
+): PortfolioDiffEntry[] {
+  if (JSON.stringify(before) === JSON.stringify(after)) {
+    return [];
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const entries: PortfolioDiffEntry[] = [];
+    const length = Math.max(before.length, after.length);
+
+    for (let index = 0; index < length; index++) {
+      const childPath = `${path}/${index}`;
+      if (index >= before.length) {
+        entries.push({ op: 'add', path: childPath, to: after[index] });
+      } else if (index >= after.length) {
+        entries.push({ op: 'remove', path: childPath, from: before[index] });
+      } else {
+        entries.push(...diffPortfolioValues(before[index], after[index], childPath));
+      }
+    }
+
+    return entries;
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const entries: PortfolioDiffEntry[] = [];
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+    for (const key of keys) {
+      const childPath = `${path}/${escapePointerSegment(key)}`;
+      if (!(key in before)) {
+        entries.push({ op: 'add', path: childPath, to: after[key] });
+      } else if (!(key in after)) {
+        entries.push({ op: 'remove', path: childPath, from: before[key] });
+      } else {
+        entries.push(...diffPortfolioValues(before[key], after[key], childPath));
+      }
+    }
+
+    return entries;
+  }
+
+  return [{ op: 'replace', path: path || '/', from: before, to: after }];
+}
@@ -0,0 +1,478 @@
+import 'server-only';
+
+import { randomUUID } from 'crypto';
+import { createReadStream } from 'fs';
+import { appendFile, mkdir, readFile, rename, unlink, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { createInterface } from 'readline';
+import type { Database } from 'sqlite3';
+
+import {
+  PORTFOLIO_DATA_FILE,
+  PORTFOLIO_SQLITE_FILE,
+  PORTFOLIO_STORAGE,
+  type PortfolioStorageDriver,
+} from '@/lib/env';
+import { acquireFileLock } from '@/lib/file-lock';
+import { diffPortfolioValues } from '@/lib/portfolio-diff';
+import { PortfolioData, PortfolioRevision, PortfolioRevisionContext } from '@/lib/types';
+
+/**
+ * Portfolio persistence layer
+ *
+ * The portfolio API reads and writes through a `PortfolioRepository` so that edits survive
+ * restarts and are shared between server instances. The adapter is selected with the
+ * `PORTFOLIO_STORAGE` environment variable (see `lib/env.ts`).
+ *
+ * @module lib/portfolio-repository
+ */
+
+/**
+ * Function applied to the current portfolio snapshot inside a write lock
+ */
+export type PortfolioMutator = (current: PortfolioData) => PortfolioData;
+
+/**
+ * Storage contract for portfolio data
+ */
+export interface PortfolioRepository {
+  /**
+   * Read the full portfolio document
+   */
+  read(): Promise<PortfolioData>;
+
+  /**
+   * Apply a mutation atomically and persist the result
+   *
+   * Implementations must hold an exclusive lock for the whole read-modify-write cycle so
+   * concurrent writers never lose each other's changes. When a revision context is given,
+   * one revision is recorded for every section the mutation changed.
+   */
+  update(mutator: PortfolioMutator, context?: PortfolioRevisionContext): Promise<PortfolioData>;
+
+  /**
+   * List revisions of a section, newest first
+   */
+  listRevisions(section: keyof PortfolioData, limit?: number): Promise<PortfolioRevision[]>;
+
+  /**
+   * Get a single revision by ID
+   */
+  getRevision(id: string): Promise<PortfolioRevision | null>;
+}
+
+const LOCK_TIMEOUT_MS = 5000;
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const SECTIONS: Array<keyof PortfolioData> = ['personal', 'skills', 'projects', 'testimonials'];
+
+const DEFAULT_REVISION_LIMIT = 50;
+
+/**
+ * Build one revision per section that differs between two snapshots
+ */
+const buildRevisions = (
+  before: PortfolioData,
+  after: PortfolioData,
+  context: PortfolioRevisionContext
+): PortfolioRevision[] => {
+  const timestamp = new Date().toISOString();
+
+  return SECTIONS.flatMap((section) => {
+    const diff = diffPortfolioValues(before[section], after[section]);
+    if (diff.length === 0) {
+      return [];
+    }
+
+    return [
+      {
+        id: randomUUID(),
+        section,
+        action: context.action,
+        diff,
+        snapshot: clone(after[section]),
+        requestId: context.requestId,
+        actor: context.actor,
+        timestamp,
+        restoredFrom: context.restoredFrom,
+      },
+    ];
+  });
+};
+
+/**
+ * Serialize async operations inside a single process
+ */
+class AsyncQueue {
+  private tail: Promise<unknown> = Promise.resolve();
+
+  run<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.tail.then(task, task);
+    this.tail = result.catch(() => undefined);
+    return result;
+  }
+}
+
+// ==================== JSON FILE ADAPTER ====================
+
+/**
+ * Stores the portfolio as a single JSON document
+ *
+ * Writes go to a temporary file that is renamed over the original, so readers never see a
+ * partially written document. A sibling `.lock` file (see `lib/file-lock.ts`) guards
+ * read-modify-write cycles across processes.
+ */
+export class JsonFilePortfolioRepository implements PortfolioRepository {
+  private readonly lockPath: string;
+  private readonly revisionsPath: string;
+  private readonly queue = new AsyncQueue();
+
+  constructor(
+    private readonly filePath: string,
+    private readonly seed: PortfolioData
+  ) {
+    this.lockPath = `${filePath}.lock`;
+    this.revisionsPath = `${filePath.replace(/\.json$/, '')}.revisions.jsonl`;
+  }
+
+  async read(): Promise<PortfolioData> {
+    try {
+      const contents = await readFile(this.filePath, 'utf8');
+      return JSON.parse(contents) as PortfolioData;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return clone(this.seed);
+      }
+      throw error;
+    }
+  }
+
+  update(mutator: PortfolioMutator, context?: PortfolioRevisionContext): Promise<PortfolioData> {
+    return this.queue.run(() =>
+      this.withFileLock(async () => {
+        const current = await this.read();
+        const next = mutator(clone(current));
+
+        // Revisions go first, so a crash in between can leave a revision for a change that never
+        // landed but never a change missing from the history
+        if (context) {
+          const revisions = buildRevisions(current, next, context);
+          if (revisions.length > 0) {
+            await mkdir(dirname(this.revisionsPath), { recursive: true });
+            await appendFile(
+              this.revisionsPath,
+              revisions.map((revision) => JSON.stringify(revision)).join('\n') + '\n',
+              'utf8'
+            );
+          }
+        }
+
+        await this.writeAtomic(next);
+        return clone(next);
+      })
+    );
+  }
+
+  async listRevisions(
+    section: keyof PortfolioData,
+    limit = DEFAULT_REVISION_LIMIT
+  ): Promise<PortfolioRevision[]> {
+    // Keep only the newest `limit` matches while streaming, so memory doesn't grow with history
+    const newest: PortfolioRevision[] = [];
+    for await (const revision of this.readRevisions()) {
+      if (revision.section !== section) continue;
+      newest.push(revision);
+      if (newest.length > limit) newest.shift();
+    }
+    return newest.reverse();
+  }
+
+  async getRevision(id: string): Promise<PortfolioRevision | null> {
+    for await (const revision of this.readRevisions()) {
+      if (revision.id === id) return revision;
+    }
+    return null;
+  }
+
+  /**
+   * Stream the revision log, oldest first
+   */
+  private async *readRevisions(): AsyncGenerator<PortfolioRevision> {
+    const stream = createReadStream(this.revisionsPath, { encoding: 'utf8' });
+    try {
+      for await (const line of createInterface({ input: stream, crlfDelay: Infinity })) {
+        if (line.trim().length > 0) {
+          yield JSON.parse(line) as PortfolioRevision;
+        }
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    } finally {
+      stream.destroy();
+    }
+  }
+
+  private async writeAtomic(data: PortfolioData): Promise<void> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+
+    const tempPath = `${this.filePath}.${randomUUID()}.tmp`;
+    try {
+      await writeFile(tempPath, JSON.stringify(data, null, 2), 'utf8');
+      await rename(tempPath, this.filePath);
+    } catch (error) {
+      await unlink(tempPath).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  private async withFileLock<T>(task: () => Promise<T>): Promise<T> {
+    const lock = await acquireFileLock(this.lockPath, { timeoutMs: LOCK_TIMEOUT_MS });
+    if (!lock) {
+      throw new Error(`Timed out waiting for portfolio lock: ${this.lockPath}`);
+    }
+
+    try {
+      return await task();
+    } finally {
+      await lock.release();
+    }
+  }
+}
+
+// ==================== SQLITE ADAPTER ====================
+
+interface RevisionRow {
+  id: string;
+  section: keyof PortfolioData;
+  action: PortfolioRevision['action'];
+  diff: string;
+  snapshot: string;
+  request_id: string | null;
+  actor: string;
+  created_at: string;
+  restored_from: string | null;
+}
+
+const toRevision = (row: RevisionRow): PortfolioRevision => ({
+  id: row.id,
+  section: row.section,
+  action: row.action,
+  diff: JSON.parse(row.diff),
+  snapshot: JSON.parse(row.snapshot),
+  requestId: row.request_id ?? undefined,
+  actor: row.actor,
+  timestamp: row.created_at,
+  restoredFrom: row.restored_from ?? undefined,
+});
+
+/**
+ * Stores each portfolio section as a JSON row in a SQLite table
+ *
+ * Updates run inside `BEGIN IMMEDIATE` so the write lock is taken before the current state
+ * is read, which serializes writers across processes sharing the same database file.
+ */
+export class SqlitePortfolioRepository implements PortfolioRepository {
+  private database: Promise<Database> | null = null;
+  private readonly queue = new AsyncQueue();
+
+  constructor(
+    private readonly filePath: string,
+    private readonly seed: PortfolioData
+  ) {}
+
+  async read(): Promise<PortfolioData> {
+    const db = await this.connect();
+    return this.readSections(db);
+  }
+
+  update(mutator: PortfolioMutator, context?: PortfolioRevisionContext): Promise<PortfolioData> {
+    return this.queue.run(async () => {
+      const db = await this.connect();
+
+      await this.exec(db, 'BEGIN IMMEDIATE');
+      try {
+        const current = await this.readSections(db);
+        const next = mutator(clone(current));
+        for (const section of SECTIONS) {
+          await this.run(
+            db,
+            `INSERT INTO portfolio_sections (section, data, updated_at)
+             VALUES (?, ?, CURRENT_TIMESTAMP)
+             ON CONFLICT(section) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`,
+            [section, JSON.stringify(next[section])]
+          );
+        }
+
+        if (context) {
+          for (const revision of buildRevisions(current, next, context)) {
+            await this.run(
+              db,
+              `INSERT INTO portfolio_revisions
+                 (id, section, action, diff, snapshot, request_id, actor, created_at, restored_from)
+               VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+              [
+                revision.id,
+                revision.section,
+                revision.action,
+                JSON.stringify(revision.diff),
+                JSON.stringify(revision.snapshot),
+                revision.requestId ?? null,
+                revision.actor,
+                revision.timestamp,
+                revision.restoredFrom ?? null,
+              ]
+            );
+          }
+        }
+
+        await this.exec(db, 'COMMIT');
+        return clone(next);
+      } catch (error) {
+        await this.exec(db, 'ROLLBACK').catch(() => undefined);
+        throw error;
+      }
+    });
+  }
+
+  async listRevisions(
+    section: keyof PortfolioData,
+    limit = DEFAULT_REVISION_LIMIT
+  ): Promise<PortfolioRevision[]> {
+    const db = await this.connect();
+    const rows = await this.all<RevisionRow>(
+      db,
+      'SELECT * FROM portfolio_revisions WHERE section = ? ORDER BY created_at DESC, rowid DESC LIMIT ?',
+      [section, limit]
+    );
+    return rows.map(toRevision);
+  }
+
+  async getRevision(id: string): Promise<PortfolioRevision | null> {
+    const db = await this.connect();
+    const rows = await this.all<RevisionRow>(db, 'SELECT * FROM portfolio_revisions WHERE id = ?', [
+      id,
+    ]);
+    return rows[0] ? toRevision(rows[0]) : null;
+  }
+
+  private connect(): Promise<Database> {
+    if (!this.database) {
+      this.database = (async () => {
+        await mkdir(dirname(this.filePath), { recursive: true });
+        const sqlite3 = await import('sqlite3');
+
+        const db = await new Promise<Database>((resolve, reject) => {
+          const instance = new sqlite3.default.Database(this.filePath, (error) =>
+            error ? reject(error) : resolve(instance)
+          );
+        });
+
+        db.configure('busyTimeout', LOCK_TIMEOUT_MS);
+        await this.exec(
+          db,
+          `CREATE TABLE IF NOT EXISTS portfolio_sections (
+             section TEXT PRIMARY KEY,
+             data TEXT NOT NULL,
+             updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+           );
+           CREATE TABLE IF NOT EXISTS portfolio_revisions (
+             id TEXT PRIMARY KEY,
+             section TEXT NOT NULL,
+             action TEXT NOT NULL,
+             diff TEXT NOT NULL,
+             snapshot TEXT NOT NULL,
+             request_id TEXT,
+             actor TEXT NOT NULL,
+             created_at TEXT NOT NULL,
+             restored_from TEXT
+           );
+           CREATE INDEX IF NOT EXISTS idx_portfolio_revisions_section
+             ON portfolio_revisions (section, created_at)`
+        );
+
+        return db;
+      })();
+
+      this.database.catch(() => {
+        this.database = null;
+      });
+    }
+
+    return this.database;
+  }
+
+  private async readSections(db: Database): Promise<PortfolioData> {
+    const rows = await this.all<{ section: keyof PortfolioData; data: string }>(
+      db,
+      'SELECT section, data FROM portfolio_sections',
+      []
+    );
+
+    const data = clone(this.seed);
+    for (const row of rows) {
+      if (SECTIONS.includes(row.section)) {
+        (data as Record<keyof PortfolioData, unknown>)[row.section] = JSON.parse(row.data);
+      }
+    }
+    return data;
+  }
+
+  private exec(db: Database, sql: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      db.exec(sql, (error) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  private all<T>(db: Database, sql: string, params: unknown[]): Promise<T[]> {
+    return new Promise((resolve, reject) => {
+      db.all(sql, params, (error, rows) => (error ? reject(error) : resolve(rows as T[])));
+    });
+  }
+
+  private run(db: Database, sql: string, params: unknown[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+      db.run(sql, params, (error) => (error ? reject(error) : resolve()));
+    });
+  }
+}
+
+// ==================== FACTORY ====================
+
+/**
+ * Create a repository for the given storage driver
+ *
+ * @param driver - Storage driver name
+ * @param seed - Data used when the store is empty
+ * @returns Repository instance
+ */
+export function createPortfolioRepository(
+  driver: PortfolioStorageDriver,
+  seed: PortfolioData
+): PortfolioRepository {
+  switch (driver) {
+    case 'sqlite':
+      return new SqlitePortfolioRepository(PORTFOLIO_SQLITE_FILE, seed);
+    case 'json':
+    default:
+      return new JsonFilePortfolioRepository(PORTFOLIO_DATA_FILE, seed);
+  }
+}
+
+let repository: PortfolioRepository | null = null;
+
+/**
+ * Get the process-wide repository configured by `PORTFOLIO_STORAGE`
+ *
+ * @param seed - Data used when the store is empty
+ * @returns Shared repository instance
+ */
+export function getPortfolioRepository(seed: PortfolioData): PortfolioRepository {
+  if (!repository) {
+    repository = createPortfolioRepository(PORTFOLIO_STORAGE, seed);
+  }
+  return repository;
+}
@@ -141,6 +141,21 @@ export const portfolioQuerySchema = z.object({
     .transform((val) => (val ? parseInt(val, 10) : undefined)),
 });
 
+// Revision history query validation
+export const portfolioRevisionQuerySchema = z.object({
+  section: z.enum(['personal', 'skills', 'projects', 'testimonials']),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : undefined))
+    .pipe(z.number().int().min(1).max(200).optional()),
+});
+
+export const portfolioRevisionDiffQuerySchema = z.object({
+  from: z.string().uuid('Invalid revision ID'),
+  to: z.string().uuid('Invalid revision ID'),
+});
+
 /**
  * Sanitize input data by removing potentially harmful content
  *
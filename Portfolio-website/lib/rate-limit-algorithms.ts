@@ -0,0 +1,186 @@
+import { RateLimitAlgorithm, RateLimitInfo, RateLimitRule } from '@/lib/types';
+
+/**
+ * Rate limiting algorithms
+ *
+ * Each algorithm is a pure function from the previously stored state to the next state plus a
+ * decision, so every `RateLimitStore` can apply them atomically in whatever way its backend
+ * supports. State is serialised as JSON.
+ *
+ * @module lib/rate-limit-algorithms
+ */
+
+/**
+ * Outcome of a rate limit check
+ */
+export type RateLimitResult = RateLimitInfo & { allowed: boolean };
+
+/**
+ * Next state to persist and how long it needs to live
+ */
+export interface RateLimitTransition {
+  value: string;
+  ttlMs: number;
+  result: RateLimitResult;
+}
+
+interface FixedWindowState {
+  count: number;
+  resetTime: number;
+}
+
+interface SlidingWindowState {
+  windowStart: number;
+  count: number;
+  previousCount: number;
+}
+
+interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+function parseState<T>(raw: string | null): T | null {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return null;
+  }
+}
+
+function toSeconds(ms: number): number {
+  return Math.ceil(ms / 1000);
+}
+
+/**
+ * Classic fixed window: the counter resets `windowMs` after the first request of a window
+ */
+function fixedWindow(rule: RateLimitRule, raw: string | null, now: number): RateLimitTransition {
+  const previous = parseState<FixedWindowState>(raw);
+  const state: FixedWindowState =
+    previous && now <= previous.resetTime
+      ? { count: previous.count + 1, resetTime: previous.resetTime }
+      : { count: 1, resetTime: now + rule.windowMs };
+
+  const allowed = state.count <= rule.requests;
+
+  return {
+    value: JSON.stringify(state),
+    ttlMs: state.resetTime - now,
+    result: {
+      allowed,
+      limit: rule.requests,
+      remaining: Math.max(0, rule.requests - state.count),
+      reset: toSeconds(state.resetTime),
+      ...(allowed ? {} : { retryAfter: toSeconds(state.resetTime - now) }),
+    },
+  };
+}
+
+/**
+ * Sliding window counter: weights the previous window's count by how much of it still overlaps
+ * the trailing `windowMs`, which smooths out bursts at window boundaries in O(1) space.
+ */
+function slidingWindow(rule: RateLimitRule, raw: string | null, now: number): RateLimitTransition {
+  const currentWindowStart = now - (now % rule.windowMs);
+  const previous = parseState<SlidingWindowState>(raw);
+
+  let state: SlidingWindowState;
+  if (previous && previous.windowStart === currentWindowStart) {
+    state = previous;
+  } else if (previous && previous.windowStart === currentWindowStart - rule.windowMs) {
+    state = { windowStart: currentWindowStart, count: 0, previousCount: previous.count };
+  } else {
+    state = { windowStart: currentWindowStart, count: 0, previousCount: 0 };
+  }
+
+  const overlap = 1 - (now - currentWindowStart) / rule.windowMs;
+  const weighted = state.previousCount * overlap + state.count;
+  const allowed = weighted + 1 <= rule.requests;
+
+  if (allowed) {
+    state = { ...state, count: state.count + 1 };
+  }
+
+  const windowEnd = currentWindowStart + rule.windowMs;
+  let retryAfterMs = 0;
+  if (!allowed) {
+    // Time until enough of the previous window slides out to admit one more request
+    const needed = weighted + 1 - rule.requests;
+    retryAfterMs =
+      state.previousCount > 0 && needed <= state.previousCount * overlap
+        ? (needed / state.previousCount) * rule.windowMs
+        : windowEnd - now;
+  }
+
+  return {
+    value: JSON.stringify(state),
+    ttlMs: windowEnd + rule.windowMs - now,
+    result: {
+      allowed,
+      limit: rule.requests,
+      remaining: Math.max(0, Math.floor(rule.requests - weighted - (allowed ? 1 : 0))),
+      reset: toSeconds(windowEnd),
+      ...(allowed ? {} : { retryAfter: Math.max(1, toSeconds(retryAfterMs)) }),
+    },
+  };
+}
+
+/**
+ * Token bucket: holds up to `requests` tokens and refills continuously at
+ * `requests / windowMs`, allowing short bursts while enforcing the average rate.
+ */
+function tokenBucket(rule: RateLimitRule, raw: string | null, now: number): RateLimitTransition {
+  const refillPerMs = rule.requests / rule.windowMs;
+  const previous = parseState<TokenBucketState>(raw);
+
+  const available = previous
+    ? Math.min(rule.requests, previous.tokens + (now - previous.updatedAt) * refillPerMs)
+    : rule.requests;
+
+  const allowed = available >= 1;
+  const tokens = allowed ? available - 1 : available;
+  const state: TokenBucketState = { tokens, updatedAt: now };
+
+  const msUntilFull = (rule.requests - tokens) / refillPerMs;
+
+  return {
+    value: JSON.stringify(state),
+    ttlMs: Math.ceil(msUntilFull) + 1000,
+    result: {
+      allowed,
+      limit: rule.requests,
+      remaining: Math.floor(tokens),
+      reset: toSeconds(now + msUntilFull),
+      ...(allowed ? {} : { retryAfter: Math.max(1, toSeconds((1 - tokens) / refillPerMs)) }),
+    },
+  };
+}
+
+const ALGORITHMS: Record<
+  RateLimitAlgorithm,
+  (rule: RateLimitRule, raw: string | null, now: number) => RateLimitTransition
+> = {
+  'fixed-window': fixedWindow,
+  'sliding-window': slidingWindow,
+  'token-bucket': tokenBucket,
+};
+
+/**
+ * Apply a rule to the stored state
+ *
+ * @param rule - Limit to enforce
+ * @param algorithm - Counting strategy
+ * @param raw - Previously stored state, or `null` for a new client
+ * @param now - Current time in milliseconds
+ * @returns The state to persist and the decision for this request
+ */
+export function applyRateLimit(
+  rule: RateLimitRule,
+  algorithm: RateLimitAlgorithm,
+  raw: string | null,
+  now: number
+): RateLimitTransition {
+  return ALGORITHMS[algorithm](rule, raw, now);
+}
@@ -0,0 +1,200 @@
+import { RateLimitPolicy } from '@/lib/types';
+
+/**
+ * Rate limit policy table
+ *
+ * Every matching policy is enforced, each with its own counter. Policies marked `shared`, and
+ * all `ip+email` policies, are enforced by their route handlers through `checkRateLimit` and
+ * counted in the configured store, so with Redis they hold across instances. The rest are
+ * enforced by `middleware.ts`, which runs on the edge runtime and counts per instance: the
+ * high-volume read and beacon limits, where a per-instance cap is enough. Routes without a
+ * policy fall back to the per-method defaults in `RATE_LIMITS`.
+ *
+ * @module lib/rate-limit-policies
+ */
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+export const RATE_LIMIT_POLICIES: RateLimitPolicy[] = [
+  // ==================== PUBLIC SUBMISSIONS ====================
+  {
+    name: 'contact-ip',
+    pattern: '/api/contact',
+    methods: ['POST'],
+    requests: 10,
+    windowMs: HOUR,
+    key: 'ip',
+    shared: true,
+  },
+  {
+    name: 'contact-email',
+    pattern: '/api/contact',
+    methods: ['POST'],
+    requests: 3,
+    windowMs: HOUR,
+    key: 'ip+email',
+  },
+  {
+    name: 'booking-ip',
+    pattern: '/api/bookings',
+    methods: ['POST'],
+    requests: 10,
+    windowMs: HOUR,
+    key: 'ip',
+    shared: true,
+  },
+  {
+    name: 'booking-email',
+    pattern: '/api/bookings',
+    methods: ['POST'],
+    requests: 3,
+    windowMs: HOUR,
+    key: 'ip+email',
+  },
+  {
+    // Visitors may click through several slots before settling on one
+    name: 'booking-hold',
+    pattern: '/api/bookings/hold',
+    methods: ['POST'],
+    requests: 30,
+    windowMs: 15 * MINUTE,
+    key: 'ip',
+  },
+  {
+    name: 'booking-waitlist-ip',
+    pattern: '/api/bookings/waitlist',
+    methods: ['POST'],
+    requests: 10,
+    windowMs: HOUR,
+    key: 'ip',
+    shared: true,
+  },
+  {
+    name: 'booking-waitlist-email',
+    pattern: '/api/bookings/waitlist',
+    methods: ['POST'],
+    requests: 3,
+    windowMs: HOUR,
+    key: 'ip+email',
+  },
+  {
+    name: 'booking-manage',
+    pattern: '/api/bookings/*',
+    methods: ['PATCH', 'DELETE'],
+    requests: 10,
+    windowMs: HOUR,
+    key: 'ip',
+  },
+  {
+    name: 'booking-availability',
+    pattern: '/api/bookings/**',
+    methods: ['GET'],
+    requests: 120,
+    windowMs: 15 * MINUTE,
+    key: 'ip',
+  },
+  {
+    // Beacons arrive in bursts (page load, visibility changes), so allow bursts and refill
+    name: 'analytics',
+    pattern: '/api/analytics',
+    methods: ['POST'],
+    requests: 300,
+    windowMs: 15 * MINUTE,
+    algorithm: 'token-bucket',
+    key: 'ip',
+  },
+
+  // ==================== ADMIN ====================
+  {
+    name: 'admin-login',
+    pattern: '/api/admin/login',
+    methods: ['POST'],
+    requests: 5,
+    windowMs: 15 * MINUTE,
+    algorithm: 'sliding-window',
+    key: 'ip',
+    shared: true,
+  },
+  {
+    name: 'portfolio-read',
+    pattern: '/api/portfolio/**',
+    methods: ['GET'],
+    requests: 300,
+    windowMs: 15 * MINUTE,
+    key: 'session',
+    shared: true,
+  },
+  {
+    name: 'portfolio-write',
+    pattern: '/api/portfolio/**',
+    methods: ['POST', 'PUT', 'DELETE'],
+    requests: 60,
+    windowMs: 15 * MINUTE,
+    key: 'session',
+    shared: true,
+  },
+  {
+    name: 'upload',
+    pattern: '/api/upload/**',
+    methods: ['POST', 'DELETE'],
+    requests: 30,
+    windowMs: 15 * MINUTE,
+    key: 'session',
+    shared: true,
+  },
+];
+
+const patternCache = new Map<string, RegExp>();
+
+function compilePattern(pattern: string): RegExp {
+  let regex = patternCache.get(pattern);
+  if (!regex) {
+    const source = pattern
+      .split('/')
+      .filter(Boolean)
+      .map((segment, index, segments) => {
+        if (segment === '**' && index === segments.length - 1) return '(?:/.*)?';
+        if (segment === '*') return '/[^/]+';
+        return `/${segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`;
+      })
+      .join('');
+
+    regex = new RegExp(`^${source}$`);
+    patternCache.set(pattern, regex);
+  }
+  return regex;
+}
+
+/**
+ * Check whether a path matches a policy pattern
+ *
+ * @example
+ * matchesRoutePattern('/api/portfolio/**', '/api/portfolio') // true
+ * matchesRoutePattern('/api/bookings/*', '/api/bookings/abc') // true
+ */
+export function matchesRoutePattern(pattern: string, pathname: string): boolean {
+  return compilePattern(pattern).test(pathname);
+}
+
+/**
+ * Whether a policy is enforced by route handlers in the configured store, not by the middleware
+ */
+export function isSharedPolicy(policy: RateLimitPolicy): boolean {
+  return policy.shared === true || policy.key === 'ip+email';
+}
+
+/**
+ * All policies that apply to a request
+ *
+ * @param pathname - Request path
+ * @param method - HTTP method
+ */
+export function findRateLimitPolicies(pathname: string, method: string): RateLimitPolicy[] {
+  const upperMethod = method.toUpperCase();
+  return RATE_LIMIT_POLICIES.filter(
+    (policy) =>
+      (!policy.methods || policy.methods.includes(upperMethod)) &&
+      matchesRoutePattern(policy.pattern, pathname)
+  );
+}
@@ -0,0 +1,361 @@
+import { connect as connectTcp, Socket } from 'node:net';
+import { connect as connectTls } from 'node:tls';
+import type { RateLimitStore, RateLimitStoreUpdate } from '@/lib/rate-limit-store';
+
+/**
+ * Redis-backed rate limit store
+ *
+ * Speaks RESP2 directly over TCP (or TLS for `rediss://` URLs) so any Redis-compatible server
+ * works without an extra client dependency. Node runtime only: the edge middleware keeps using
+ * the in-memory store.
+ *
+ * @module lib/rate-limit-redis
+ */
+
+// ==================== TYPES ====================
+
+/**
+ * Decoded RESP reply
+ */
+export type RedisReply = string | number | null | RedisReply[];
+
+/**
+ * Error reply sent by the server (`-ERR ...`)
+ */
+export class RedisReplyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RedisReplyError';
+  }
+}
+
+/**
+ * Error thrown when a compare-and-set loop keeps losing to concurrent writers
+ */
+export class RateLimitStoreConflictError extends Error {
+  constructor(key: string, attempts: number) {
+    super(`Rate limit state for '${key}' changed concurrently ${attempts} times in a row`);
+    this.name = 'RateLimitStoreConflictError';
+  }
+}
+
+interface PendingReply {
+  resolve: (reply: RedisReply) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+// ==================== RESP CODEC ====================
+
+/**
+ * Encode a command as a RESP array of bulk strings
+ */
+export function encodeCommand(args: (string | number)[]): Buffer {
+  const parts = [`*${args.length}\r\n`];
+  for (const arg of args) {
+    const value = String(arg);
+    parts.push(`$${Buffer.byteLength(value)}\r\n${value}\r\n`);
+  }
+  return Buffer.from(parts.join(''));
+}
+
+/**
+ * Incremental RESP2 decoder. Feed it socket chunks and it yields complete replies.
+ */
+export class RespParser {
+  private buffer: Buffer = Buffer.alloc(0);
+
+  /**
+   * Append a chunk and return every reply that is now complete
+   */
+  push(chunk: Buffer): (RedisReply | RedisReplyError)[] {
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+    const replies: (RedisReply | RedisReplyError)[] = [];
+    for (;;) {
+      const parsed = this.parse(0);
+      if (!parsed) break;
+      replies.push(parsed.value);
+      this.buffer = this.buffer.subarray(parsed.offset);
+    }
+    return replies;
+  }
+
+  private parse(offset: number): { value: RedisReply | RedisReplyError; offset: number } | null {
+    const lineEnd = this.buffer.indexOf('\r\n', offset);
+    if (lineEnd === -1) return null;
+
+    const type = String.fromCharCode(this.buffer[offset]);
+    const line = this.buffer.toString('utf8', offset + 1, lineEnd);
+    const next = lineEnd + 2;
+
+    switch (type) {
+      case '+':
+        return { value: line, offset: next };
+      case '-':
+        return { value: new RedisReplyError(line), offset: next };
+      case ':':
+        return { value: Number(line), offset: next };
+      case '$': {
+        const length = Number(line);
+        if (length === -1) return { value: null, offset: next };
+        if (this.buffer.length < next + length + 2) return null;
+        return {
+          value: this.buffer.toString('utf8', next, next + length),
+          offset: next + length + 2,
+        };
+      }
+      case '*': {
+        const count = Number(line);
+        if (count === -1) return { value: null, offset: next };
+
+        // An error nested in an array (e.g. a failed command inside EXEC) fails the whole reply
+        const items: RedisReply[] = [];
+        let firstError: RedisReplyError | null = null;
+        let cursor = next;
+        for (let i = 0; i < count; i++) {
+          const item = this.parse(cursor);
+          if (!item) return null;
+          if (item.value instanceof RedisReplyError) {
+            firstError ??= item.value;
+          } else {
+            items.push(item.value);
+          }
+          cursor = item.offset;
+        }
+        return { value: firstError ?? items, offset: cursor };
+      }
+      default:
+        throw new Error(`Unexpected RESP type byte '${type}'`);
+    }
+  }
+}
+
+// ==================== CONNECTION ====================
+
+/**
+ * Single Redis connection with lazy (re)connect and pipelined commands
+ *
+ * A command that gets no reply within `commandTimeoutMs` drops the connection, failing every
+ * command pipelined behind it; the next command reconnects.
+ */
+export class RedisConnection {
+  /** Authenticated socket handed out for commands */
+  private socket: Socket | null = null;
+  /** Socket whose replies are read, which may still be authenticating */
+  private live: Socket | null = null;
+  private connecting: Promise<Socket> | null = null;
+  private parser = new RespParser();
+  private pending: PendingReply[] = [];
+
+  constructor(
+    private readonly url: string,
+    private readonly connectTimeoutMs: number = 2000,
+    private readonly commandTimeoutMs: number = 1000
+  ) {}
+
+  /**
+   * Send a command and wait for its reply
+   *
+   * @throws RedisReplyError for error replies
+   */
+  async command(...args: (string | number)[]): Promise<RedisReply> {
+    const socket = await this.getSocket();
+    return this.send(socket, args);
+  }
+
+  /**
+   * Close the connection; pending commands are rejected
+   */
+  close(): void {
+    const socket = this.live;
+    if (!socket) return;
+    this.reset(socket, new Error('Redis connection closed'));
+    socket.end();
+  }
+
+  private send(socket: Socket, args: (string | number)[]): Promise<RedisReply> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.reset(
+          socket,
+          new Error(`Redis command ${args[0]} timed out after ${this.commandTimeoutMs}ms`)
+        );
+        socket.destroy();
+      }, this.commandTimeoutMs);
+
+      this.pending.push({ resolve, reject, timer });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private async getSocket(): Promise<Socket> {
+    if (this.socket) return this.socket;
+    this.connecting ??= this.open().finally(() => {
+      this.connecting = null;
+    });
+    return this.connecting;
+  }
+
+  private async open(): Promise<Socket> {
+    const url = new URL(this.url);
+    const port = Number(url.port || 6379);
+    const secure = url.protocol === 'rediss:';
+
+    const socket = await new Promise<Socket>((resolve, reject) => {
+      const onConnect = () => {
+        socket.setTimeout(0);
+        resolve(socket);
+      };
+      const socket: Socket = secure
+        ? connectTls({ host: url.hostname, port, servername: url.hostname }, onConnect)
+        : connectTcp({ host: url.hostname, port }, onConnect);
+
+      socket.setTimeout(this.connectTimeoutMs, () => {
+        socket.destroy(new Error(`Timed out connecting to Redis at ${url.host}`));
+      });
+      socket.once('error', reject);
+    });
+
+    socket.setNoDelay(true);
+    socket.on('data', (chunk: Buffer) => this.onData(chunk));
+    socket.on('error', (error) => this.reset(socket, error));
+    socket.on('close', () => this.reset(socket, new Error('Redis connection closed')));
+
+    this.parser = new RespParser();
+    this.live = socket;
+
+    // Commands wait for `connecting` until the socket is authenticated and on the right database
+    try {
+      const password = decodeURIComponent(url.password);
+      const username = decodeURIComponent(url.username);
+      if (password) {
+        await this.send(socket, username ? ['AUTH', username, password] : ['AUTH', password]);
+      }
+
+      const db = url.pathname.replace('/', '');
+      if (db) {
+        await this.send(socket, ['SELECT', db]);
+      }
+    } catch (error) {
+      // Don't keep an unauthenticated socket around; the next command connects afresh
+      this.reset(socket, error as Error);
+      socket.destroy();
+      throw error;
+    }
+
+    this.socket = socket;
+    return socket;
+  }
+
+  private onData(chunk: Buffer): void {
+    let replies: (RedisReply | RedisReplyError)[];
+    try {
+      replies = this.parser.push(chunk);
+    } catch (error) {
+      this.live?.destroy(error as Error);
+      return;
+    }
+
+    for (const reply of replies) {
+      const pending = this.pending.shift();
+      if (!pending) continue;
+      clearTimeout(pending.timer);
+      if (reply instanceof RedisReplyError) {
+        pending.reject(reply);
+      } else {
+        pending.resolve(reply);
+      }
+    }
+  }
+
+  /**
+   * Forget `socket` and fail its pending commands; late events from a replaced socket are ignored
+   */
+  private reset(socket: Socket, error: Error): void {
+    if (this.live !== socket) return;
+    this.live = null;
+    this.socket = null;
+    const pending = this.pending;
+    this.pending = [];
+    pending.forEach(({ reject, timer }) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+  }
+}
+
+// ==================== STORE ====================
+
+/**
+ * Options for the Redis store
+ */
+export interface RedisRateLimitStoreOptions {
+  /** Prefix for every key written (default `ratelimit:`) */
+  keyPrefix?: string;
+  /** Compare-and-set attempts before giving up (default 10) */
+  maxAttempts?: number;
+}
+
+/**
+ * Writes `ARGV[2]` with a `PX` of `ARGV[3]` only if the key still holds `ARGV[1]` (`''` for a
+ * missing key). Returns 1 when written, 0 when another client got there first.
+ */
+const COMPARE_AND_SET_SCRIPT = `
+if (redis.call('GET', KEYS[1]) or '') ~= ARGV[1] then return 0 end
+redis.call('SET', KEYS[1], ARGV[2], 'PX', ARGV[3])
+return 1
+`;
+
+/**
+ * Rate limit store shared by every instance pointing at the same Redis server.
+ *
+ * Updates are optimistic: the state is read, transformed in JavaScript and written back by a
+ * compare-and-set script that fails if another client changed the key in between, retrying
+ * otherwise. The script runs atomically and keeps no per-connection state, so concurrent updates
+ * share one pipelined connection. Keys expire through `PX`, so Redis does the cleanup.
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  private readonly keyPrefix: string;
+  private readonly maxAttempts: number;
+
+  constructor(
+    private readonly connection: RedisConnection,
+    options: RedisRateLimitStoreOptions = {}
+  ) {
+    this.keyPrefix = options.keyPrefix ?? 'ratelimit:';
+    this.maxAttempts = options.maxAttempts ?? 10;
+  }
+
+  async update<T>(
+    key: string,
+    updater: (current: string | null) => RateLimitStoreUpdate<T>
+  ): Promise<T> {
+    const redisKey = `${this.keyPrefix}${key}`;
+
+    for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+      const current = await this.connection.command('GET', redisKey);
+      const previous = typeof current === 'string' ? current : null;
+      const next = updater(previous);
+
+      const committed = await this.connection.command(
+        'EVAL',
+        COMPARE_AND_SET_SCRIPT,
+        1,
+        redisKey,
+        previous ?? '',
+        next.value,
+        Math.max(1, Math.ceil(next.ttlMs))
+      );
+
+      if (committed === 1) {
+        return next.result;
+      }
+
+      // Back off with jitter so racing instances stop invalidating each other in lockstep
+      await new Promise((resolve) => setTimeout(resolve, Math.random() * attempt * 5));
+    }
+
+    throw new RateLimitStoreConflictError(redisKey, this.maxAttempts);
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Rate limit storage
+ *
+ * @module lib/rate-limit-store
+ */
+
+/**
+ * Result of an atomic state update
+ */
+export interface RateLimitStoreUpdate<T> {
+  /** New serialised state */
+  value: string;
+  /** How long the state must be kept */
+  ttlMs: number;
+  /** Value handed back to the caller */
+  result: T;
+}
+
+/**
+ * Backend holding rate limit counters.
+ *
+ * `update` must run the updater atomically with respect to other updates of the same key, across
+ * every process sharing the store.
+ */
+export interface RateLimitStore {
+  update<T>(key: string, updater: (current: string | null) => RateLimitStoreUpdate<T>): Promise<T>;
+}
+
+interface MemoryEntry {
+  value: string;
+  expiresAt: number;
+}
+
+/**
+ * Default sweep interval for expired in-memory entries (1 minute)
+ */
+const DEFAULT_SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Process-local store. Counters are not shared between instances.
+ *
+ * Expired entries are ignored on read and swept at most once per `sweepIntervalMs`, so the cost
+ * of cleanup no longer grows with every request.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly entries = new Map<string, MemoryEntry>();
+  private lastSweep: number;
+
+  constructor(
+    private readonly sweepIntervalMs: number = DEFAULT_SWEEP_INTERVAL_MS,
+    private readonly clock: () => number = Date.now
+  ) {
+    this.lastSweep = clock();
+  }
+
+  async update<T>(
+    key: string,
+    updater: (current: string | null) => RateLimitStoreUpdate<T>
+  ): Promise<T> {
+    const now = this.clock();
+    this.sweepIfDue(now);
+
+    const entry = this.entries.get(key);
+    const current = entry && entry.expiresAt > now ? entry.value : null;
+    const next = updater(current);
+
+    this.entries.set(key, { value: next.value, expiresAt: now + next.ttlMs });
+
+    return next.result;
+  }
+
+  /**
+   * Number of live and not-yet-swept entries
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private sweepIfDue(now: number): void {
+    if (now - this.lastSweep < this.sweepIntervalMs) {
+      return;
+    }
+
+    this.lastSweep = now;
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
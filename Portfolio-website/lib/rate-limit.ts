@@ -1,28 +1,83 @@
-import { NextRequest } from 'next/server';
-import { RateLimitInfo } from '@/lib/types';
+import { NextRequest, NextResponse } from 'next/server';
+import { RateLimitAlgorithm, RateLimitInfo, RateLimitPolicy, RateLimitRule } from '@/lib/types';
+import { applyRateLimit, RateLimitResult } from '@/lib/rate-limit-algorithms';
+import { findRateLimitPolicies, isSharedPolicy } from '@/lib/rate-limit-policies';
+import { MemoryRateLimitStore, RateLimitStore } from '@/lib/rate-limit-store';
+import { ADMIN_SESSION_COOKIE, verifyRequestSession } from '@/lib/admin-session';
+import { base64UrlEncode } from '@/lib/signing';
 
 /**
- * Simple in-memory rate limiter for API endpoints
- * In production, use Redis or a dedicated rate limiting service
+ * Rate limiter for API endpoints
+ *
+ * Counters live in a pluggable `RateLimitStore`. The in-memory store is the default; set
+ * `RATE_LIMIT_STORE=redis` and `REDIS_URL` to share counters between instances. The Redis store
+ * is only loaded in the Node runtime, so only the shared policies, which route handlers enforce,
+ * are counted in it. The other policies run in the edge middleware and are always counted per
+ * instance, in memory.
  */
 
-interface RateLimitEntry {
-  count: number;
-  resetTime: number;
-  firstRequest: number;
-}
-
-const rateLimitStore = new Map<string, RateLimitEntry>();
+/**
+ * Algorithm used when a rule doesn't specify one (`RATE_LIMIT_ALGORITHM`)
+ */
+const DEFAULT_ALGORITHM: RateLimitAlgorithm =
+  process.env.RATE_LIMIT_ALGORITHM === 'sliding-window' ||
+  process.env.RATE_LIMIT_ALGORITHM === 'token-bucket'
+    ? process.env.RATE_LIMIT_ALGORITHM
+    : 'fixed-window';
 
 /**
- * Rate limiting configuration
+ * Default limits for routes without a policy in `RATE_LIMIT_POLICIES`
  */
-export const RATE_LIMITS = {
+export const RATE_LIMITS: Record<'GET' | 'POST' | 'PUT' | 'DELETE', RateLimitRule> = {
   GET: { requests: 100, windowMs: 15 * 60 * 1000 }, // 100 requests per 15 minutes
   POST: { requests: 20, windowMs: 15 * 60 * 1000 }, // 20 requests per 15 minutes
   PUT: { requests: 10, windowMs: 15 * 60 * 1000 }, // 10 requests per 15 minutes
   DELETE: { requests: 5, windowMs: 15 * 60 * 1000 }, // 5 requests per 15 minutes
-} as const;
+};
+
+// ==================== STORE ====================
+
+let activeStore: RateLimitStore | null = null;
+let storePromise: Promise<RateLimitStore> | null = null;
+
+/**
+ * Used when the configured store fails, so an outage degrades to per-instance limits
+ */
+const fallbackStore = new MemoryRateLimitStore();
+
+async function createConfiguredStore(): Promise<RateLimitStore> {
+  // Replaced at build time, so the edge bundle never includes the Node-only Redis client
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    if (process.env.RATE_LIMIT_STORE === 'redis' && process.env.REDIS_URL) {
+      const { RedisConnection, RedisRateLimitStore } = await import('@/lib/rate-limit-redis');
+      return new RedisRateLimitStore(new RedisConnection(process.env.REDIS_URL));
+    }
+  }
+
+  return new MemoryRateLimitStore();
+}
+
+/**
+ * Resolve the active store, creating the configured one on first use
+ */
+export async function getRateLimitStore(): Promise<RateLimitStore> {
+  if (activeStore) return activeStore;
+
+  storePromise ??= createConfiguredStore().then((store) => {
+    activeStore = store;
+    return store;
+  });
+
+  return storePromise;
+}
+
+/**
+ * Replace the active store (e.g. from `instrumentation.ts` or tests)
+ */
+export function setRateLimitStore(store: RateLimitStore): void {
+  activeStore = store;
+  storePromise = null;
+}
 
 /**
  * Get client identifier from request
@@ -44,88 +99,145 @@ function getClientId(request: NextRequest): string {
 }
 
 /**
- * Clean up expired entries from rate limit store
+ * Apply a rule to a key in the active store
+ *
+ * @param key - Counter key
+ * @param rule - Limit to enforce
+ * @returns Decision and rate limit information
  */
-function cleanupExpiredEntries(): void {
-  const now = Date.now();
-  for (const [key, entry] of rateLimitStore.entries()) {
-    if (now > entry.resetTime) {
-      rateLimitStore.delete(key);
+export async function consumeRateLimit(key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+  const algorithm = rule.algorithm ?? DEFAULT_ALGORITHM;
+  const updater = (current: string | null) => applyRateLimit(rule, algorithm, current, Date.now());
+
+  try {
+    const store = await getRateLimitStore();
+    return await store.update(key, updater);
+  } catch (error) {
+    console.error('Rate limit store unavailable, falling back to in-memory counters:', error);
+    return fallbackStore.update(key, updater);
+  }
+}
+
+/**
+ * Identifiers only known once a route handler has parsed the request body
+ */
+export interface RateLimitIdentifiers {
+  email?: string;
+}
+
+async function hashIdentifier(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return base64UrlEncode(new Uint8Array(digest)).slice(0, 22);
+}
+
+/**
+ * Build the counter key for a policy
+ */
+async function getPolicyKey(
+  request: NextRequest,
+  policy: RateLimitPolicy,
+  identifiers: RateLimitIdentifiers | undefined
+): Promise<string> {
+  const clientId = getClientId(request);
+
+  switch (policy.key) {
+    case 'ip+email': {
+      const email = identifiers?.email?.trim().toLowerCase();
+      return `${policy.name}:${clientId}:${email ? await hashIdentifier(email) : 'none'}`;
+    }
+    case 'session': {
+      const verification = await verifyRequestSession(
+        request.cookies.get(ADMIN_SESSION_COOKIE)?.value,
+        request.headers.get('authorization')
+      );
+      return verification.valid
+        ? `${policy.name}:session:${verification.session.sub}`
+        : `${policy.name}:${clientId}`;
     }
+    default:
+      return `${policy.name}:${clientId}`;
   }
 }
 
+/**
+ * Pick the result to report when several policies apply: any rejection wins, otherwise the
+ * policy closest to its limit
+ */
+function mostRestrictive(results: RateLimitResult[]): RateLimitResult {
+  return results.reduce((worst, result) => {
+    if (worst.allowed !== result.allowed) return result.allowed ? worst : result;
+    return result.remaining < worst.remaining ? result : worst;
+  });
+}
+
 /**
  * Check if request is within rate limit
  *
+ * Without `identifiers` (the middleware), enforces the policies matching the request that aren't
+ * shared. With `identifiers` (route handlers, `{}` when there is no email), enforces the shared
+ * ones instead, so each policy is counted exactly once per request.
+ *
  * @param request - Next.js request object
- * @param method - HTTP method
- * @returns Rate limit information
+ * @param identifiers - Submitter details parsed from the body
+ * @returns Rate limit information for the most restrictive applicable policy; for the
+ * middleware, `null` when all of the route's policies are shared
  */
-export function checkRateLimit(
+export async function checkRateLimit(request: NextRequest): Promise<RateLimitResult | null>;
+export async function checkRateLimit(
   request: NextRequest,
-  method: keyof typeof RATE_LIMITS
-): RateLimitInfo & { allowed: boolean } {
-  cleanupExpiredEntries();
+  identifiers: RateLimitIdentifiers
+): Promise<RateLimitResult>;
+export async function checkRateLimit(
+  request: NextRequest,
+  identifiers?: RateLimitIdentifiers
+): Promise<RateLimitResult | null> {
+  const method = (
+    request.method in RATE_LIMITS ? request.method : 'GET'
+  ) as keyof typeof RATE_LIMITS;
+  const usesIdentifiers = identifiers !== undefined;
 
-  const clientId = getClientId(request);
-  const key = `${clientId}_${method}`;
-  const limit = RATE_LIMITS[method];
-  const now = Date.now();
-
-  let entry = rateLimitStore.get(key);
-
-  if (!entry) {
-    // First request from this client for this method
-    entry = {
-      count: 1,
-      resetTime: now + limit.windowMs,
-      firstRequest: now,
-    };
-    rateLimitStore.set(key, entry);
-
-    return {
-      allowed: true,
-      limit: limit.requests,
-      remaining: limit.requests - 1,
-      reset: Math.ceil(entry.resetTime / 1000),
-    };
-  }
+  const matching = findRateLimitPolicies(request.nextUrl.pathname, request.method);
+  let policies = matching.filter((policy) => isSharedPolicy(policy) === usesIdentifiers);
 
-  if (now > entry.resetTime) {
-    // Reset window has passed
-    entry.count = 1;
-    entry.resetTime = now + limit.windowMs;
-    entry.firstRequest = now;
-
-    return {
-      allowed: true,
-      limit: limit.requests,
-      remaining: limit.requests - 1,
-      reset: Math.ceil(entry.resetTime / 1000),
-    };
-  }
+  if (policies.length === 0) {
+    if (matching.length > 0 && !usesIdentifiers) return null;
 
-  // Within the current window
-  entry.count++;
-
-  if (entry.count > limit.requests) {
-    // Rate limit exceeded
-    return {
-      allowed: false,
-      limit: limit.requests,
-      remaining: 0,
-      reset: Math.ceil(entry.resetTime / 1000),
-      retryAfter: Math.ceil((entry.resetTime - now) / 1000),
-    };
+    policies = [
+      {
+        ...RATE_LIMITS[method],
+        name: `default-${method.toLowerCase()}`,
+        pattern: '/**',
+        key: usesIdentifiers ? 'ip+email' : 'ip',
+      },
+    ];
   }
 
-  return {
-    allowed: true,
-    limit: limit.requests,
-    remaining: limit.requests - entry.count,
-    reset: Math.ceil(entry.resetTime / 1000),
-  };
+  const results = await Promise.all(
+    policies.map(async (policy) =>
+      consumeRateLimit(await getPolicyKey(request, policy, identifiers), policy)
+    )
+  );
+
+  return mostRestrictive(results);
+}
+
+/**
+ * Enforce a route's shared policies from its handler
+ *
+ * @returns A 429 response when the request is over a limit, otherwise `null`
+ */
+export async function enforceSharedRateLimit(request: NextRequest): Promise<NextResponse | null> {
+  const result = await checkRateLimit(request, {});
+  if (result.allowed) return null;
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Rate limit exceeded',
+      message: `Too many requests. Please try again in ${result.retryAfter} seconds.`,
+    },
+    { status: 429, headers: getRateLimitHeaders(result) }
+  );
 }
 
 /**
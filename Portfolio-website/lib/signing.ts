@@ -0,0 +1,117 @@
+/**
+ * HMAC signing primitives
+ *
+ * Web Crypto based helpers shared by the session, CSRF and booking token modules. Everything here
+ * runs unchanged in the edge middleware and in Node route handlers, so keep it free of Node-only
+ * imports.
+ *
+ * @module lib/signing
+ */
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// ==================== ENCODING ====================
+
+/**
+ * Encode bytes or a UTF-8 string as unpadded base64url
+ */
+export function base64UrlEncode(input: Uint8Array | string): string {
+  const bytes = typeof input === 'string' ? encoder.encode(input) : input;
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode an unpadded base64url string
+ *
+ * @throws Error if the input contains characters outside the base64url alphabet
+ */
+export function base64UrlDecode(value: string): Uint8Array<ArrayBuffer> {
+  if (!/^[A-Za-z0-9_-]*$/.test(value)) {
+    throw new Error('Invalid base64url segment');
+  }
+
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Decode a base64url segment into a UTF-8 string
+ */
+export function base64UrlDecodeText(value: string): string {
+  return decoder.decode(base64UrlDecode(value));
+}
+
+/**
+ * Generate `byteLength` random bytes encoded as base64url
+ */
+export function randomToken(byteLength = 32): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+// ==================== HMAC ====================
+
+async function importHmacKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+/**
+ * Sign a message with HMAC-SHA256
+ *
+ * @returns base64url signature
+ */
+export async function hmacSign(secret: string, message: string): Promise<string> {
+  const key = await importHmacKey(secret);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+  return base64UrlEncode(new Uint8Array(signature));
+}
+
+/**
+ * Verify an HMAC-SHA256 signature. `crypto.subtle.verify` compares in constant time.
+ *
+ * @returns `false` for malformed or mismatching signatures
+ */
+export async function hmacVerify(
+  secret: string,
+  message: string,
+  signature: string
+): Promise<boolean> {
+  let signatureBytes: Uint8Array<ArrayBuffer>;
+  try {
+    signatureBytes = base64UrlDecode(signature);
+  } catch {
+    return false;
+  }
+
+  const key = await importHmacKey(secret);
+  return crypto.subtle.verify('HMAC', key, signatureBytes, encoder.encode(message));
+}
+
+/**
+ * Compare two strings without short-circuiting on the first differing character
+ */
+export function constantTimeEqual(a: string, b: string): boolean {
+  const left = encoder.encode(a);
+  const right = encoder.encode(b);
+  let mismatch = left.length ^ right.length;
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    mismatch |= (left[i] ?? 0) ^ (right[i] ?? 0);
+  }
+  return mismatch === 0;
+}
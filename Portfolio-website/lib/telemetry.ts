@@ -0,0 +1,246 @@
+/**
+ * Performance and error telemetry
+ *
+ * Web vitals and uncaught client errors travel through the analytics queue and `/api/analytics`
+ * as typed `web_vital` and `client_error` events, under the visitor's `performance` consent.
+ * This module has what the browser, the analytics route and the admin vitals report share.
+ *
+ * @module lib/telemetry
+ */
+
+import { getBrowserAnalyticsQueue } from '@/lib/analytics-queue';
+import { browserAllows, type ConsentCategory } from '@/lib/consent';
+import {
+  webVitalEventDataSchema,
+  type ClientErrorEventData,
+  type CmsAnalyticsEvent,
+  type WebVitalEventData,
+} from '@/lib/validations';
+
+export const TELEMETRY_EVENT_TYPES = ['web_vital', 'client_error'] as const;
+
+/**
+ * Identifies the deployment, from `BUILD_ID`, the commit, or `unknown` (see `next.config.ts`)
+ */
+export const BUILD_ID = process.env.NEXT_PUBLIC_BUILD_ID || 'unknown';
+
+/** Dynamic routes under `app/`, so reports group `/projects/42` with `/projects/7` */
+const DYNAMIC_ROUTES = ['/projects/[id]', '/book/confirmed/[token]'];
+
+/**
+ * Consent category an event type is recorded under
+ */
+export function consentCategoryFor(eventType: string): ConsentCategory {
+  return (TELEMETRY_EVENT_TYPES as readonly string[]).includes(eventType)
+    ? 'performance'
+    : 'analytics';
+}
+
+/**
+ * Route pattern for a path, e.g. `/projects/[id]` for `/projects/42`
+ */
+export function routePattern(pathname: string): string {
+  const segments = pathname.replace(/\/+$/, '').split('/');
+
+  const match = DYNAMIC_ROUTES.find((route) => {
+    const pattern = route.split('/');
+    return (
+      pattern.length === segments.length &&
+      pattern.every((part, index) => part.startsWith('[') || part === segments[index])
+    );
+  });
+  return match ?? (segments.join('/') || '/');
+}
+
+// ==================== AGGREGATION ====================
+
+export type WebVitalName = WebVitalEventData['name'];
+export type WebVitalRating = WebVitalEventData['rating'];
+
+/**
+ * Upper bounds of "good" and "needs improvement", from web.dev
+ */
+export const WEB_VITAL_THRESHOLDS: Record<WebVitalName, [good: number, poor: number]> = {
+  LCP: [2500, 4000],
+  CLS: [0.1, 0.25],
+  INP: [200, 500],
+  TTFB: [800, 1800],
+  FCP: [1800, 3000],
+};
+
+/**
+ * 75th percentile of a metric on one route
+ */
+export interface WebVitalSummary {
+  p75: number;
+  samples: number;
+  rating: WebVitalRating;
+}
+
+export interface RouteWebVitals {
+  route: string;
+  metrics: Partial<Record<WebVitalName, WebVitalSummary>>;
+}
+
+/**
+ * Nearest-rank percentile
+ *
+ * @param p - Between 0 and 100
+ */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) return NaN;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.max(rank - 1, 0)];
+}
+
+export function rateWebVital(name: WebVitalName, value: number): WebVitalRating {
+  const [good, poor] = WEB_VITAL_THRESHOLDS[name];
+  if (value <= good) return 'good';
+  return value <= poor ? 'needs-improvement' : 'poor';
+}
+
+/**
+ * p75 of each metric per route, busiest routes first
+ *
+ * Events that don't match `webVitalEventDataSchema` are skipped, as are repeats of a metric ID
+ * (a beacon can deliver an event a fetch already sent).
+ *
+ * @param options.buildId - Only count this deployment
+ */
+export function aggregateWebVitals(
+  events: CmsAnalyticsEvent[],
+  options: { buildId?: string } = {}
+): RouteWebVitals[] {
+  const seen = new Set<string>();
+  const samples = new Map<string, Map<WebVitalName, number[]>>();
+
+  for (const event of events) {
+    if (event.event_type !== 'web_vital') continue;
+
+    const parsed = webVitalEventDataSchema.safeParse(event.event_data);
+    if (!parsed.success) continue;
+
+    const { id, name, value, route, buildId } = parsed.data;
+    if (options.buildId && buildId !== options.buildId) continue;
+    if (seen.has(`${id}:${name}`)) continue;
+    seen.add(`${id}:${name}`);
+
+    const metrics = samples.get(route) ?? new Map<WebVitalName, number[]>();
+    metrics.set(name, [...(metrics.get(name) ?? []), value]);
+    samples.set(route, metrics);
+  }
+
+  const total = (metrics: Map<WebVitalName, number[]>) =>
+    Math.max(...[...metrics.values()].map((values) => values.length));
+
+  return [...samples.entries()]
+    .sort(([, a], [, b]) => total(b) - total(a))
+    .map(([route, metrics]) => ({
+      route,
+      metrics: Object.fromEntries(
+        [...metrics.entries()].map(([name, values]) => {
+          const p75 = percentile(values, 75);
+          return [name, { p75, samples: values.length, rating: rateWebVital(name, p75) }];
+        })
+      ),
+    }));
+}
+
+// ==================== BROWSER ====================
+
+/** Errors reported per page load, so a render loop can't flood the queue */
+const MAX_ERRORS_PER_PAGE = 10;
+
+const reportedErrors = new Set<string>();
+
+/**
+ * Metric passed to `useReportWebVitals`
+ */
+export interface ReportedWebVital {
+  name: string;
+  value: number;
+  rating: WebVitalRating;
+  id: string;
+  navigationType?: string;
+}
+
+const enqueue = (
+  eventType: (typeof TELEMETRY_EVENT_TYPES)[number],
+  data: WebVitalEventData | ClientErrorEventData
+) => {
+  if (!browserAllows('performance')) return;
+
+  getBrowserAnalyticsQueue().enqueue({
+    event_type: eventType,
+    event_data: data,
+    page_url: window.location.href,
+    timestamp: new Date().toISOString(),
+  });
+};
+
+/**
+ * Queue a web vital; metrics other than LCP, CLS, INP, TTFB and FCP are ignored
+ */
+export function reportWebVital(metric: ReportedWebVital): void {
+  if (!(metric.name in WEB_VITAL_THRESHOLDS)) return;
+
+  enqueue('web_vital', {
+    name: metric.name as WebVitalName,
+    value: Math.max(metric.value, 0),
+    rating: metric.rating,
+    id: metric.id,
+    navigationType: metric.navigationType,
+    route: routePattern(window.location.pathname),
+    buildId: BUILD_ID,
+  });
+}
+
+/**
+ * Queue an error with its stack, route and build. Repeats of the same error are reported once.
+ */
+export function reportClientError(
+  error: unknown,
+  source: ClientErrorEventData['source'],
+  componentStack?: string
+): void {
+  const { message, stack } =
+    error instanceof Error ? error : { message: String(error), stack: undefined };
+
+  const key = `${message}\n${stack?.split('\n')[1] ?? ''}`;
+  if (reportedErrors.has(key) || reportedErrors.size >= MAX_ERRORS_PER_PAGE) return;
+  reportedErrors.add(key);
+
+  enqueue('client_error', {
+    message: (message || 'Unknown error').slice(0, 1000),
+    stack: stack?.slice(0, 8000),
+    componentStack: componentStack?.slice(0, 8000),
+    source,
+    route: routePattern(window.location.pathname),
+    buildId: BUILD_ID,
+  });
+}
+
+/**
+ * Report uncaught errors and unhandled promise rejections
+ *
+ * @returns Removes the listeners
+ */
+export function installErrorHandlers(): () => void {
+  const onError = (event: ErrorEvent) => {
+    // Failed script or image loads have no error object and say nothing useful
+    if (!event.error && !event.message) return;
+    reportClientError(event.error ?? event.message, 'window-error');
+  };
+  const onRejection = (event: PromiseRejectionEvent) => {
+    reportClientError(event.reason, 'unhandled-rejection');
+  };
+
+  window.addEventListener('error', onError);
+  window.addEventListener('unhandledrejection', onRejection);
+
+  return () => {
+    window.removeEventListener('error', onError);
+    window.removeEventListener('unhandledrejection', onRejection);
+  };
+}
@@ -0,0 +1,175 @@
+/**
+ * Time zone helpers for bookings
+ *
+ * The CMS stores bookings as a wall-clock date and time in the host's time zone. These helpers
+ * convert between that representation, UTC instants and the visitor's zone using only `Intl`,
+ * so they run in the browser, the edge runtime and Node.js alike.
+ *
+ * @module lib/timezones
+ */
+
+import type { BookingSlot } from '@/lib/types';
+
+/**
+ * Wall-clock date (`YYYY-MM-DD`) and time (`HH:MM`) in some time zone
+ */
+export interface ZonedDateTime {
+  date: string;
+  time: string;
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function getParts(instant: Date, timeZone: string): Record<string, number> {
+  const parts: Record<string, number> = {};
+  for (const { type, value } of getFormatter(timeZone).formatToParts(instant)) {
+    if (type !== 'literal') {
+      parts[type] = Number(value);
+    }
+  }
+  return parts;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Whether a string is an IANA time zone name the runtime knows, e.g. `Europe/Berlin`
+ */
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== 'string' || timeZone.length === 0 || timeZone.length > 64) {
+    return false;
+  }
+
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Offset of a time zone from UTC at an instant, in minutes (positive east of Greenwich)
+ */
+export function getTimeZoneOffset(instant: Date, timeZone: string): number {
+  const parts = getParts(instant, timeZone);
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  return Math.round((asUtc - Math.floor(instant.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * Convert a wall-clock date and time in a time zone to the UTC instant it denotes
+ *
+ * Times skipped by a DST change are moved forward by the length of the gap; repeated times
+ * resolve to their first occurrence.
+ *
+ * @param date - `YYYY-MM-DD`
+ * @param time - `HH:MM`
+ * @param timeZone - IANA time zone name
+ *
+ * @example
+ * zonedTimeToUtc('2025-03-10', '09:00', 'America/New_York').toISOString();
+ * // '2025-03-10T13:00:00.000Z'
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // The offset at the guess can differ from the offset at the answer across a DST change, so
+  // try the offsets just before and after and keep the earliest candidate that round-trips
+  const before = getTimeZoneOffset(new Date(wallClock - 86_400_000), timeZone);
+  const after = getTimeZoneOffset(new Date(wallClock + 86_400_000), timeZone);
+  const candidates = [...new Set([before, after])]
+    .map((offset) => wallClock - offset * 60_000)
+    .sort((a, b) => a - b);
+
+  const exact = candidates.find(
+    (candidate) =>
+      getTimeZoneOffset(new Date(candidate), timeZone) * 60_000 === wallClock - candidate
+  );
+
+  return new Date(exact ?? Math.max(...candidates));
+}
+
+/**
+ * Wall-clock date and time of an instant in a time zone
+ */
+export function formatInTimeZone(instant: Date, timeZone: string): ZonedDateTime {
+  const parts = getParts(instant, timeZone);
+  return {
+    date: `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`,
+    time: `${pad(parts.hour)}:${pad(parts.minute)}`,
+  };
+}
+
+/**
+ * `YYYY-MM-DD` for a `Date` using its local calendar components
+ *
+ * Use this instead of `toISOString()`, which reports the UTC date and is off by one for
+ * visitors far enough from Greenwich.
+ */
+export function toDateKey(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Short display name of a time zone at an instant, e.g. `CET` or `GMT+2`
+ */
+export function getTimeZoneLabel(instant: Date, timeZone: string): string {
+  const part = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+    .formatToParts(instant)
+    .find(({ type }) => type === 'timeZoneName');
+  return part?.value ?? timeZone;
+}
+
+/**
+ * Attach UTC instants and visitor-local times to host-local slot times
+ *
+ * @param date - Host-local `YYYY-MM-DD` the slots belong to
+ * @param times - Host-local `HH:MM` start times
+ * @param hostTimeZone - Zone the CMS working hours are expressed in
+ * @param visitorTimeZone - Zone to render the slots in for the visitor
+ */
+export function toBookingSlots(
+  date: string,
+  times: string[],
+  hostTimeZone: string,
+  visitorTimeZone: string
+): BookingSlot[] {
+  return times.map((time) => {
+    const startsAt = zonedTimeToUtc(date, time, hostTimeZone);
+    const visitor = formatInTimeZone(startsAt, visitorTimeZone);
+    return {
+      time,
+      startsAt: startsAt.toISOString(),
+      visitorDate: visitor.date,
+      visitorTime: visitor.time,
+    };
+  });
+}
@@ -110,6 +110,22 @@ export interface Technology {
  */
 export type ImageType = 'cover' | 'gallery' | 'thumbnail' | 'screenshot';
 
+/**
+ * Formats responsive image variants are rendered in
+ */
+export type ImageVariantFormat = 'webp' | 'avif';
+
+/**
+ * Pre-rendered resized copy of an uploaded image
+ */
+export interface ImageVariant {
+  url: string;
+  width: number;
+  height: number;
+  format: ImageVariantFormat;
+  size: number; // in bytes
+}
+
 /**
  * Project image
  */
@@ -123,6 +139,11 @@ export interface ProjectImage {
   height?: number;
   format?: 'jpeg' | 'png' | 'webp' | 'avif';
   size?: number; // in bytes
+  /** Base64 data URL for `next/image` `placeholder="blur"` */
+  blurDataURL?: string;
+  variants?: ImageVariant[];
+  /** ID of the `/api/upload` record the image was created from */
+  uploadId?: string;
 }
 
 /**
@@ -416,6 +437,46 @@ export interface PortfolioDeleteRequest {
   id: number | string;
 }
 
+/**
+ * Single change between two JSON values, addressed by JSON Pointer (RFC 6901)
+ */
+export interface PortfolioDiffEntry {
+  op: 'add' | 'remove' | 'replace';
+  path: string;
+  from?: unknown;
+  to?: unknown;
+}
+
+/**
+ * Kind of write that produced a portfolio revision
+ */
+export type PortfolioRevisionAction = 'update' | 'add' | 'remove' | 'restore';
+
+/**
+ * Recorded state of a portfolio section after a write
+ */
+export interface PortfolioRevision {
+  id: string;
+  section: keyof PortfolioData;
+  action: PortfolioRevisionAction;
+  diff: PortfolioDiffEntry[];
+  snapshot: unknown;
+  requestId?: string;
+  actor: string;
+  timestamp: string;
+  restoredFrom?: string;
+}
+
+/**
+ * Who and what caused a portfolio write, recorded with each revision
+ */
+export interface PortfolioRevisionContext {
+  action: PortfolioRevisionAction;
+  actor: string;
+  requestId?: string;
+  restoredFrom?: string;
+}
+
 /**
  * Validation error details
  */
@@ -437,6 +498,47 @@ export interface RateLimitInfo {
   retryAfter?: number;
 }
 
+/**
+ * Counting strategy used by the rate limiter
+ */
+export type RateLimitAlgorithm = 'fixed-window' | 'sliding-window' | 'token-bucket';
+
+/**
+ * A single rate limit: at most `requests` per `windowMs`
+ */
+export interface RateLimitRule {
+  requests: number;
+  windowMs: number;
+  algorithm?: RateLimitAlgorithm;
+}
+
+/**
+ * What a rate limit counter is keyed on
+ *
+ * - `ip`: client IP (plus a user-agent fingerprint)
+ * - `ip+email`: client IP and the submitted email address; enforced by route handlers
+ * - `session`: the signed-in admin, falling back to `ip` for anonymous requests
+ */
+export type RateLimitKeyStrategy = 'ip' | 'ip+email' | 'session';
+
+/**
+ * Declarative rate limit policy for a set of routes
+ */
+export interface RateLimitPolicy extends RateLimitRule {
+  /** Stable name, used in counter keys */
+  name: string;
+  /** Path pattern; `*` matches one segment, a trailing `**` any remainder */
+  pattern: string;
+  /** Methods the policy applies to (all when omitted) */
+  methods?: string[];
+  key: RateLimitKeyStrategy;
+  /**
+   * Enforced by the route handler, so the counter lives in the configured store and is shared
+   * between instances. `ip+email` policies always are.
+   */
+  shared?: boolean;
+}
+
 /**
  * Request metadata for logging
  */
@@ -452,6 +554,100 @@ export interface RequestMetadata {
   requestId?: string;
 }
 
+/**
+ * File types accepted by `/api/upload`, as detected from the file contents
+ */
+export type UploadMimeType =
+  | 'image/jpeg'
+  | 'image/png'
+  | 'image/webp'
+  | 'image/avif'
+  | 'image/gif'
+  | 'application/pdf';
+
+/**
+ * Metadata recorded for every stored upload
+ */
+export interface UploadRecord {
+  id: string;
+  fileName: string;
+  originalName: string;
+  url: string;
+  mimeType: UploadMimeType;
+  size: number; // in bytes
+  width?: number;
+  height?: number;
+  /** Hex SHA-256 of the stored file contents */
+  checksum: string;
+  variants?: ImageVariant[];
+  blurDataURL?: string;
+  projectId?: string;
+  /** Actor that uploaded the file, as returned by `getRequestActor` */
+  owner: string;
+  createdAt: string;
+}
+
+/**
+ * Bookable slot with the instant it starts and how it reads in the visitor's time zone
+ */
+export interface BookingSlot {
+  /** `HH:MM` in the host's time zone, as stored by the CMS */
+  time: string;
+  /** UTC ISO instant the slot starts */
+  startsAt: string;
+  /** `YYYY-MM-DD` in the visitor's time zone; can differ from the requested date */
+  visitorDate: string;
+  /** `HH:MM` in the visitor's time zone */
+  visitorTime: string;
+}
+
+/**
+ * `GET /api/bookings/availability/:date` response
+ */
+export interface BookingAvailabilityResponse {
+  date: string;
+  isAvailable: boolean;
+  reason?: string | null;
+  duration?: number;
+  /** Host-local `HH:MM` start times */
+  availableSlots: string[];
+  slots: BookingSlot[];
+  /** Host's IANA time zone */
+  timeZone: string;
+  visitorTimeZone: string;
+}
+
+/**
+ * Bookability of a day: `open` has free slots, `full` is booked out, `closed` has no working
+ * hours or was blocked by an availability override
+ */
+export type BookingDayStatus = 'open' | 'full' | 'closed';
+
+/**
+ * Per-day capacity returned by `GET /api/bookings/availability?from=&to=`
+ */
+export interface BookingDaySummary {
+  date: string;
+  status: BookingDayStatus;
+  /** Free slots of the requested duration */
+  availableSlots: number;
+  /** Slots of the requested duration that fit the day's working hours */
+  totalSlots: number;
+  reason?: string;
+}
+
+/**
+ * `GET /api/bookings/availability?from=&to=` response
+ */
+export interface BookingAvailabilityRangeResponse {
+  from: string;
+  to: string;
+  duration: number;
+  /** Host's IANA time zone the dates are in */
+  timeZone: string;
+  days: BookingDaySummary[];
+}
+
 // ==================== FORM TYPES ====================
 
 /**
@@ -0,0 +1,353 @@
+import 'server-only';
+
+import { createHash, randomUUID } from 'crypto';
+import { mkdir, readdir, readFile, rename, stat, unlink, writeFile } from 'fs/promises';
+import { join, resolve, sep } from 'path';
+
+import { UPLOAD_DIR, UPLOAD_METADATA_DIR } from '@/lib/env';
+import { isProcessableImage, processImage } from '@/lib/image-processing';
+import {
+  buildUploadFileName,
+  buildVariantFileName,
+  readImageDimensions,
+  sanitizeOriginalName,
+  sniffMimeType,
+  UPLOAD_TYPES,
+} from '@/lib/uploads';
+import { ImageVariant, UploadRecord } from '@/lib/types';
+
+/**
+ * Upload storage
+ *
+ * Files live in `UPLOAD_DIR` (served under `/uploads`) and every file has a JSON metadata record
+ * in `UPLOAD_METADATA_DIR`, named after the upload ID. Files are written before their record and
+ * removed before it, so an interrupted write or delete leaves either an orphaned file or a record
+ * without a file — both of which `collectUploadGarbage` cleans up.
+ *
+ * JPEG, PNG, WebP and AVIF uploads are stored without their metadata, alongside responsive
+ * variants listed in the record (see `lib/image-processing.ts`).
+ *
+ * @module lib/upload-store
+ */
+
+/**
+ * Error thrown when an upload is refused because of its contents
+ */
+export class UploadRejectedError extends Error {
+  constructor(
+    message: string,
+    public readonly status: 413 | 415
+  ) {
+    super(message);
+    this.name = 'UploadRejectedError';
+  }
+}
+
+/**
+ * Error thrown when an upload ID has no record
+ */
+export class UploadNotFoundError extends Error {
+  constructor(public readonly id: string) {
+    super(`Upload '${id}' not found`);
+    this.name = 'UploadNotFoundError';
+  }
+}
+
+/**
+ * Error thrown when someone other than the uploader tries to delete a file
+ */
+export class UploadOwnershipError extends Error {
+  constructor(public readonly id: string) {
+    super(`Upload '${id}' belongs to another user`);
+    this.name = 'UploadOwnershipError';
+  }
+}
+
+/**
+ * Input for `saveUpload`
+ */
+export interface SaveUploadInput {
+  buffer: Buffer;
+  originalName: string;
+  owner: string;
+  projectId?: string;
+}
+
+/**
+ * Options for `collectUploadGarbage`
+ */
+export interface UploadGarbageOptions {
+  /** Public URLs still in use; uploads not listed here are removed once past the grace period */
+  referencedUrls: Set<string>;
+  /** Minimum age before an unreferenced or orphaned file is removed (default 24 hours) */
+  graceMs?: number;
+  /** Report what would be removed without deleting anything */
+  dryRun?: boolean;
+  now?: number;
+}
+
+/**
+ * What a garbage collection pass removed (or would remove, for dry runs)
+ */
+export interface UploadGarbageReport {
+  /** Files in the upload directory with no metadata record */
+  orphanedFiles: string[];
+  /** Records whose file no longer exists */
+  missingFiles: string[];
+  /** Uploads no longer referenced by the portfolio */
+  unreferenced: string[];
+}
+
+const DEFAULT_GRACE_MS = 24 * 60 * 60 * 1000;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/**
+ * Resolve a name inside a directory, refusing anything that would escape it
+ */
+function resolveInside(directory: string, name: string): string {
+  const root = resolve(directory);
+  const target = resolve(root, name);
+  if (!target.startsWith(root + sep)) {
+    throw new Error(`Refusing to access '${name}' outside ${root}`);
+  }
+  return target;
+}
+
+const recordPath = (id: string): string => resolveInside(UPLOAD_METADATA_DIR, `${id}.json`);
+
+const isMissing = (error: unknown): boolean => (error as NodeJS.ErrnoException).code === 'ENOENT';
+
+/**
+ * Validate, store and record an uploaded file
+ *
+ * @throws UploadRejectedError when the contents are not an allowed type or exceed its size limit
+ */
+export async function saveUpload(input: SaveUploadInput): Promise<UploadRecord> {
+  const mimeType = sniffMimeType(input.buffer);
+  if (!mimeType) {
+    throw new UploadRejectedError(
+      `Unsupported file type. Allowed types: ${Object.keys(UPLOAD_TYPES).join(', ')}`,
+      415
+    );
+  }
+
+  const { maxBytes } = UPLOAD_TYPES[mimeType];
+  if (input.buffer.length > maxBytes) {
+    throw new UploadRejectedError(
+      `File exceeds the ${Math.round(maxBytes / (1024 * 1024))} MB limit for ${mimeType}`,
+      413
+    );
+  }
+
+  const id = randomUUID();
+  const fileName = buildUploadFileName(id, mimeType, input.projectId);
+
+  let stored = input.buffer;
+  let dimensions = readImageDimensions(input.buffer, mimeType);
+  let variants: ImageVariant[] | undefined;
+  let blurDataURL: string | undefined;
+  const writtenFiles: string[] = [];
+
+  await mkdir(UPLOAD_DIR, { recursive: true });
+  await mkdir(UPLOAD_METADATA_DIR, { recursive: true });
+
+  try {
+    if (isProcessableImage(mimeType)) {
+      let processed;
+      try {
+        processed = await processImage(input.buffer, mimeType);
+      } catch {
+        throw new UploadRejectedError('Image could not be decoded', 415);
+      }
+
+      stored = processed.original;
+      dimensions = { width: processed.width, height: processed.height };
+      blurDataURL = processed.blurDataURL;
+      variants = [];
+
+      for (const variant of processed.variants) {
+        const variantName = buildVariantFileName(fileName, variant.width, variant.format);
+        await writeFile(resolveInside(UPLOAD_DIR, variantName), variant.buffer, { flag: 'wx' });
+        writtenFiles.push(variantName);
+
+        variants.push({
+          url: `/uploads/${variantName}`,
+          width: variant.width,
+          height: variant.height,
+          format: variant.format,
+          size: variant.buffer.length,
+        });
+      }
+    }
+
+    await writeFile(resolveInside(UPLOAD_DIR, fileName), stored, { flag: 'wx' });
+    writtenFiles.push(fileName);
+  } catch (error) {
+    await Promise.all(
+      writtenFiles.map((name) => unlink(resolveInside(UPLOAD_DIR, name)).catch(() => undefined))
+    );
+    throw error;
+  }
+
+  const record: UploadRecord = {
+    id,
+    fileName,
+    originalName: sanitizeOriginalName(input.originalName),
+    url: `/uploads/${fileName}`,
+    mimeType,
+    size: stored.length,
+    ...(dimensions && { width: dimensions.width, height: dimensions.height }),
+    checksum: createHash('sha256').update(stored).digest('hex'),
+    variants,
+    blurDataURL,
+    projectId: input.projectId,
+    owner: input.owner,
+    createdAt: new Date().toISOString(),
+  };
+
+  const tempPath = `${recordPath(id)}.tmp`;
+  await writeFile(tempPath, JSON.stringify(record, null, 2), 'utf8');
+  await rename(tempPath, recordPath(id));
+
+  return record;
+}
+
+/**
+ * Get an upload's metadata record
+ *
+ * @returns The record, or `null` for unknown or malformed IDs
+ */
+export async function getUpload(id: string): Promise<UploadRecord | null> {
+  if (!UUID_PATTERN.test(id)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(await readFile(recordPath(id), 'utf8')) as UploadRecord;
+  } catch (error) {
+    if (isMissing(error)) return null;
+    throw error;
+  }
+}
+
+/**
+ * List upload records, newest first
+ *
+ * @param filter - Optionally restrict the listing to one project
+ */
+export async function listUploads(filter: { projectId?: string } = {}): Promise<UploadRecord[]> {
+  let names: string[];
+  try {
+    names = await readdir(UPLOAD_METADATA_DIR);
+  } catch (error) {
+    if (isMissing(error)) return [];
+    throw error;
+  }
+
+  const records = await Promise.all(
+    names
+      .filter((name) => name.endsWith('.json'))
+      .map((name) => getUpload(name.slice(0, -'.json'.length)))
+  );
+
+  return records
+    .filter((record): record is UploadRecord => record !== null)
+    .filter((record) => !filter.projectId || record.projectId === filter.projectId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Delete an upload and its record
+ *
+ * @param id - Upload ID
+ * @param actor - Requesting actor; must be the one that uploaded the file
+ * @throws UploadNotFoundError when the upload does not exist
+ * @throws UploadOwnershipError when the actor is not the owner
+ */
+export async function deleteUpload(id: string, actor: string): Promise<UploadRecord> {
+  const record = await getUpload(id);
+  if (!record) {
+    throw new UploadNotFoundError(id);
+  }
+
+  if (actor === 'anonymous' || record.owner !== actor) {
+    throw new UploadOwnershipError(id);
+  }
+
+  await removeUpload(record);
+  return record;
+}
+
+/**
+ * Every file stored for an upload: the original and its variants
+ */
+const uploadFileNames = (record: UploadRecord): string[] => [
+  record.fileName,
+  ...(record.variants ?? []).map((variant) => variant.url.replace('/uploads/', '')),
+];
+
+async function removeUpload(record: UploadRecord): Promise<void> {
+  for (const fileName of uploadFileNames(record)) {
+    await unlink(resolveInside(UPLOAD_DIR, fileName)).catch((error) => {
+      if (!isMissing(error)) throw error;
+    });
+  }
+  await unlink(recordPath(record.id)).catch((error) => {
+    if (!isMissing(error)) throw error;
+  });
+}
+
+/**
+ * Remove orphaned files, dangling records and uploads nothing references any more
+ */
+export async function collectUploadGarbage(
+  options: UploadGarbageOptions
+): Promise<UploadGarbageReport> {
+  const now = options.now ?? Date.now();
+  const graceMs = options.graceMs ?? DEFAULT_GRACE_MS;
+  const report: UploadGarbageReport = { orphanedFiles: [], missingFiles: [], unreferenced: [] };
+
+  const records = await listUploads();
+  const recordedFiles = new Set(records.flatMap(uploadFileNames));
+
+  let fileNames: string[] = [];
+  try {
+    fileNames = await readdir(UPLOAD_DIR);
+  } catch (error) {
+    if (!isMissing(error)) throw error;
+  }
+  const existingFiles = new Set(fileNames);
+
+  for (const fileName of fileNames) {
+    if (recordedFiles.has(fileName)) continue;
+
+    // Give in-flight uploads time to write their record
+    const fileStat = await stat(join(UPLOAD_DIR, fileName)).catch(() => null);
+    if (!fileStat?.isFile() || now - fileStat.mtimeMs < graceMs) continue;
+
+    report.orphanedFiles.push(fileName);
+    if (!options.dryRun) {
+      await unlink(resolveInside(UPLOAD_DIR, fileName)).catch(() => undefined);
+    }
+  }
+
+  for (const record of records) {
+    if (!existingFiles.has(record.fileName)) {
+      report.missingFiles.push(record.id);
+    } else if (
+      !uploadFileNames(record).some((name) => options.referencedUrls.has(`/uploads/${name}`)) &&
+      now - Date.parse(record.createdAt) >= graceMs
+    ) {
+      report.unreferenced.push(record.id);
+    } else {
+      continue;
+    }
+
+    if (!options.dryRun) {
+      await removeUpload(record);
+    }
+  }
+
+  return report;
+}
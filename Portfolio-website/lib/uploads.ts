@@ -0,0 +1,258 @@
+import type {
+  ImageType,
+  ImageVariantFormat,
+  ProjectImage,
+  UploadMimeType,
+  UploadRecord,
+} from '@/lib/types';
+
+/**
+ * Upload inspection helpers
+ *
+ * Everything here works on the uploaded bytes only: the client-supplied file name and
+ * `Content-Type` are never trusted to decide what a file is or what it is called on disk.
+ *
+ * @module lib/uploads
+ */
+
+const MB = 1024 * 1024;
+
+/**
+ * Accepted upload types, keyed by sniffed MIME type
+ *
+ * SVG is deliberately absent: it can carry scripts and is served from the site's own origin.
+ */
+export const UPLOAD_TYPES: Record<UploadMimeType, { extension: string; maxBytes: number }> = {
+  'image/jpeg': { extension: 'jpg', maxBytes: 10 * MB },
+  'image/png': { extension: 'png', maxBytes: 10 * MB },
+  'image/webp': { extension: 'webp', maxBytes: 10 * MB },
+  'image/avif': { extension: 'avif', maxBytes: 10 * MB },
+  'image/gif': { extension: 'gif', maxBytes: 5 * MB },
+  'application/pdf': { extension: 'pdf', maxBytes: 20 * MB },
+};
+
+/**
+ * Largest file accepted for any type, used to reject oversized bodies before parsing them
+ */
+export const MAX_UPLOAD_BYTES = Math.max(...Object.values(UPLOAD_TYPES).map((t) => t.maxBytes));
+
+const startsWith = (buffer: Buffer, signature: number[], offset = 0): boolean =>
+  buffer.length >= offset + signature.length &&
+  signature.every((byte, index) => buffer[offset + index] === byte);
+
+const ascii = (buffer: Buffer, start: number, end: number): string =>
+  buffer.length >= end ? buffer.toString('latin1', start, end) : '';
+
+/**
+ * Detect the type of a file from its leading magic bytes
+ *
+ * @param buffer - File contents
+ * @returns Allowlisted MIME type, or `null` when the file is not an accepted type
+ */
+export function sniffMimeType(buffer: Buffer): UploadMimeType | null {
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (ascii(buffer, 0, 6) === 'GIF87a' || ascii(buffer, 0, 6) === 'GIF89a') return 'image/gif';
+  if (ascii(buffer, 0, 4) === 'RIFF' && ascii(buffer, 8, 12) === 'WEBP') return 'image/webp';
+  if (ascii(buffer, 4, 8) === 'ftyp' && ['avif', 'avis'].includes(ascii(buffer, 8, 12))) {
+    return 'image/avif';
+  }
+  if (ascii(buffer, 0, 5) === '%PDF-') return 'application/pdf';
+  return null;
+}
+
+/**
+ * Read the pixel dimensions from an image header
+ *
+ * @param buffer - File contents
+ * @param mimeType - Sniffed type of the file
+ * @returns Width and height, or `null` for PDFs and unreadable headers
+ */
+export function readImageDimensions(
+  buffer: Buffer,
+  mimeType: UploadMimeType
+): { width: number; height: number } | null {
+  try {
+    switch (mimeType) {
+      case 'image/png':
+        return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+      case 'image/gif':
+        return { width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) };
+      case 'image/jpeg':
+        return readJpegDimensions(buffer);
+      case 'image/webp':
+        return readWebpDimensions(buffer);
+      case 'image/avif':
+        return readAvifDimensions(buffer);
+      default:
+        return null;
+    }
+  } catch {
+    // Truncated headers surface as RangeErrors from the buffer reads
+    return null;
+  }
+}
+
+function readJpegDimensions(buffer: Buffer): { width: number; height: number } | null {
+  let offset = 2;
+  while (offset + 9 < buffer.length) {
+    if (buffer[offset] !== 0xff) return null;
+    const marker = buffer[offset + 1];
+
+    // SOF0-SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      return { height: buffer.readUInt16BE(offset + 5), width: buffer.readUInt16BE(offset + 7) };
+    }
+
+    offset += 2 + buffer.readUInt16BE(offset + 2);
+  }
+  return null;
+}
+
+function readWebpDimensions(buffer: Buffer): { width: number; height: number } | null {
+  switch (ascii(buffer, 12, 16)) {
+    case 'VP8 ':
+      return {
+        width: buffer.readUInt16LE(26) & 0x3fff,
+        height: buffer.readUInt16LE(28) & 0x3fff,
+      };
+    case 'VP8L': {
+      const bits = buffer.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    case 'VP8X':
+      return { width: buffer.readUIntLE(24, 3) + 1, height: buffer.readUIntLE(27, 3) + 1 };
+    default:
+      return null;
+  }
+}
+
+function readAvifDimensions(buffer: Buffer): { width: number; height: number } | null {
+  // The image spatial extents property: size, 'ispe', version/flags, width, height
+  const index = buffer.indexOf('ispe', 0, 'latin1');
+  if (index === -1) return null;
+  return { width: buffer.readUInt32BE(index + 8), height: buffer.readUInt32BE(index + 12) };
+}
+
+/**
+ * Build the on-disk name for an upload
+ *
+ * The name is derived from server-controlled values only: an optional project slug, the upload
+ * ID and the extension of the sniffed type. It never contains path separators.
+ *
+ * @param id - Upload ID
+ * @param mimeType - Sniffed type of the file
+ * @param projectId - Validated project identifier
+ */
+export function buildUploadFileName(
+  id: string,
+  mimeType: UploadMimeType,
+  projectId?: string
+): string {
+  const prefix = projectId ? `project-${projectId.toLowerCase()}` : 'upload';
+  return `${prefix}-${id}.${UPLOAD_TYPES[mimeType].extension}`;
+}
+
+/**
+ * Build the on-disk name of a resized variant
+ *
+ * @param fileName - Stored name of the original
+ * @param width - Variant width in pixels
+ * @param format - Variant format
+ * @example buildVariantFileName('upload-<id>.jpg', 640, 'webp') // 'upload-<id>-640w.webp'
+ */
+export function buildVariantFileName(
+  fileName: string,
+  width: number,
+  format: ImageVariantFormat
+): string {
+  return `${fileName.replace(/\.[a-z0-9]+$/, '')}-${width}w.${format}`;
+}
+
+/**
+ * Clean a client-supplied file name for display in listings
+ *
+ * @param name - Original file name
+ * @returns Base name without control characters or path components, at most 255 characters
+ */
+export function sanitizeOriginalName(name: string): string {
+  const base = name.split(/[\\/]/).pop() ?? '';
+  const cleaned = base
+    .replace(/[\u0000-\u001f\u007f]/g, '')
+    .trim()
+    .slice(0, 255);
+  return cleaned || 'file';
+}
+
+/**
+ * Find every `/uploads/...` URL referenced anywhere in a document
+ *
+ * @param value - Any JSON-serialisable value, such as the portfolio data
+ * @returns Set of referenced upload URLs, without query strings or origins
+ */
+export function collectUploadUrls(value: unknown): Set<string> {
+  const urls = new Set<string>();
+  const visit = (node: unknown): void => {
+    if (typeof node === 'string') {
+      for (const match of node.matchAll(/\/uploads\/[^\s"'?#)]+/g)) {
+        urls.add(match[0]);
+      }
+    } else if (Array.isArray(node)) {
+      node.forEach(visit);
+    } else if (node && typeof node === 'object') {
+      Object.values(node).forEach(visit);
+    }
+  };
+  visit(value);
+  return urls;
+}
+
+/**
+ * Caller-supplied details for turning an upload into a project image
+ */
+export interface ProjectImageDetails {
+  alternativeText?: string;
+  caption?: string;
+  imageType?: ImageType;
+}
+
+const PROJECT_IMAGE_FORMATS: Partial<Record<UploadMimeType, ProjectImage['format']>> = {
+  'image/jpeg': 'jpeg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+};
+
+/**
+ * Build the `ProjectImage` for an uploaded image
+ *
+ * Project images need absolute URLs and a numeric ID; the ID is derived from the upload ID so the
+ * same upload always maps to the same image.
+ *
+ * @param record - Upload metadata record
+ * @param details - Alt text, caption and image type from the upload form
+ * @param origin - Site origin the `/uploads` URLs are resolved against
+ */
+export function toProjectImage(
+  record: UploadRecord,
+  details: ProjectImageDetails,
+  origin: string
+): ProjectImage {
+  const absolute = (url: string) => new URL(url, origin).toString();
+
+  return {
+    id: Number.parseInt(record.id.replace(/-/g, '').slice(0, 12), 16) || 1,
+    url: absolute(record.url),
+    alternativeText:
+      details.alternativeText || record.originalName.replace(/\.[^.]+$/, '') || 'Project image',
+    caption: details.caption,
+    image_type: details.imageType ?? 'gallery',
+    width: record.width,
+    height: record.height,
+    format: PROJECT_IMAGE_FORMATS[record.mimeType],
+    size: record.size,
+    blurDataURL: record.blurDataURL,
+    variants: record.variants?.map((variant) => ({ ...variant, url: absolute(variant.url) })),
+    uploadId: record.id,
+  };
+}
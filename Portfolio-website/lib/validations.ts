@@ -233,6 +233,23 @@ export const projectImageSchema = z.object({
   height: z.number().int().positive().optional(),
   format: z.enum(['jpeg', 'png', 'webp', 'avif'] as const).optional(),
   size: z.number().int().positive().optional(),
+  blurDataURL: z
+    .string()
+    .regex(/^data:image\/(webp|png|jpeg);base64,[A-Za-z0-9+/=]+$/, 'Invalid placeholder data URL')
+    .max(4096)
+    .optional(),
+  variants: z
+    .array(
+      z.object({
+        url: urlSchema,
+        width: z.number().int().positive(),
+        height: z.number().int().positive(),
+        format: z.enum(['webp', 'avif'] as const),
+        size: z.number().int().positive(),
+      })
+    )
+    .optional(),
+  uploadId: z.uuid().optional(),
 });
 
 /**
@@ -462,32 +479,100 @@ export const messageSchema = z.object({
   repliedAt: z.string().datetime().optional(),
 });
 
+/**
+ * `event_data` of a `web_vital` event, reported from `useReportWebVitals`
+ */
+export const webVitalEventDataSchema = z.object({
+  name: z.enum(['LCP', 'CLS', 'INP', 'TTFB', 'FCP'] as const),
+  /** Milliseconds, except CLS which is unitless */
+  value: z.number().min(0).max(600000),
+  rating: z.enum(['good', 'needs-improvement', 'poor'] as const),
+  /** Unique per page load and metric */
+  id: z.string().max(100),
+  navigationType: z.string().max(50).optional(),
+  /** Route pattern, e.g. `/projects/[id]` */
+  route: z.string().max(300),
+  buildId: z.string().max(100),
+});
+
+/**
+ * `event_data` of a `client_error` event
+ */
+export const clientErrorEventDataSchema = z.object({
+  message: z.string().max(1000),
+  stack: z.string().max(8000).optional(),
+  componentStack: z.string().max(8000).optional(),
+  source: z.enum(['error-boundary', 'window-error', 'unhandled-rejection'] as const),
+  route: z.string().max(300),
+  buildId: z.string().max(100),
+});
+
+const telemetryEventDataSchemas = {
+  web_vital: webVitalEventDataSchema,
+  client_error: clientErrorEventDataSchema,
+} as const;
+
 /**
  * Analytics event schema
  */
-export const analyticsEventSchema = z.object({
-  id: z.string().uuid().optional(),
-  event_type: z.enum([
-    'page_view',
-    'button_click',
-    'link_click',
-    'form_submit',
-    'download',
-    'scroll',
-    'custom',
-  ] as const),
-  event_data: z.record(z.string(), z.any()).optional(),
-  page_url: optionalUrlSchema,
-  page_title: z.string().max(300).optional(),
-  referrer: optionalUrlSchema,
-  user_id: z.string().optional(),
-  session_id: z.string().optional(),
-  device_type: z.enum(['desktop', 'mobile', 'tablet'] as const).optional(),
-  browser: z.string().max(100).optional(),
-  os: z.string().max(100).optional(),
-  country: z.string().max(100).optional(),
-  timestamp: z.string().datetime().optional(),
-  duration: z.number().min(0).optional(),
+export const analyticsEventSchema = z
+  .object({
+    id: z.string().uuid().optional(),
+    event_type: z.enum([
+      'page_view',
+      'button_click',
+      'link_click',
+      'form_submit',
+      'download',
+      'scroll',
+      'custom',
+      // Sent by `useAnalytics`
+      'project_view',
+      'file_download',
+      'external_link_click',
+      'form_submission',
+      'scroll_depth',
+      'time_on_page',
+      'error',
+      // Telemetry; `event_data` must match the schemas below
+      'web_vital',
+      'client_error',
+    ] as const),
+    event_data: z.record(z.string(), z.any()).optional(),
+    page_url: optionalUrlSchema,
+    page_title: z.string().max(300).optional(),
+    referrer: optionalUrlSchema,
+    user_id: z.string().optional(),
+    session_id: z.string().optional(),
+    device_type: z.enum(['desktop', 'mobile', 'tablet'] as const).optional(),
+    browser: z.string().max(100).optional(),
+    os: z.string().max(100).optional(),
+    country: z.string().max(100).optional(),
+    timestamp: z.string().datetime().optional(),
+    duration: z.number().min(0).optional(),
+  })
+  .superRefine((event, ctx) => {
+    if (event.event_type !== 'web_vital' && event.event_type !== 'client_error') return;
+
+    const data = telemetryEventDataSchemas[event.event_type].safeParse(event.event_data);
+    if (!data.success) {
+      data.error.issues.forEach((issue) =>
+        ctx.addIssue({ ...issue, path: ['event_data', ...issue.path] })
+      );
+    }
+  });
+
+/**
+ * Most events accepted in one batch, matching the CMS limit
+ */
+export const MAX_ANALYTICS_BATCH = 50;
+
+/**
+ * Batch of queued analytics events. Each event is validated against `analyticsEventSchema` on its
+ * own, so one bad event doesn't drop the rest.
+ */
+export const analyticsBatchSchema = z.object({
+  events: z.array(z.unknown()).min(1).max(MAX_ANALYTICS_BATCH),
 });
 
 // ==================== FORM SCHEMAS ====================
@@ -535,6 +620,14 @@ export const contactFormWithHoneypotSchema = contactFormSchema.refine(
   }
 );
 
+/**
+ * Admin login form schema
+ */
+export const adminLoginSchema = z.object({
+  username: z.string().trim().min(1, 'Username is required').max(100),
+  password: z.string().min(1, 'Password is required').max(200),
+});
+
 // ==================== API REQUEST/RESPONSE SCHEMAS ====================
 
 /**
@@ -597,6 +690,125 @@ export const portfolioDeleteRequestSchema = z.object({
   id: z.union([z.number(), z.string()]),
 });
 
+/**
+ * Project identifier attached to uploads; becomes part of the stored file name
+ */
+export const uploadProjectIdSchema = z
+  .string()
+  .trim()
+  .regex(/^[a-zA-Z0-9-]{1,64}$/, 'Project ID may only contain letters, numbers and hyphens');
+
+/**
+ * Optional project image details sent alongside an uploaded image
+ */
+export const uploadImageDetailsSchema = z.object({
+  alternativeText: z.string().trim().max(255).transform(sanitizeInput).optional(),
+  caption: z.string().trim().max(500).optional(),
+  imageType: imageTypeSchema.optional(),
+});
+
+/**
+ * Multipart fields accepted by `POST /api/upload` besides the file
+ */
+export const uploadFormSchema = uploadImageDetailsSchema.extend({
+  projectId: uploadProjectIdSchema.optional(),
+});
+
+/**
+ * Upload listing query schema
+ */
+export const uploadListQuerySchema = z.object({
+  projectId: uploadProjectIdSchema.optional(),
+});
+
+/**
+ * Upload delete request schema
+ */
+export const uploadDeleteRequestSchema = z.object({
+  id: z.uuid('Upload ID must be a UUID'),
+});
+
+/**
+ * Upload garbage collection request schema
+ */
+export const uploadGarbageCollectionRequestSchema = z.object({
+  dryRun: z.boolean().default(false),
+  graceHours: z
+    .number()
+    .min(0)
+    .max(24 * 30)
+    .default(24),
+});
+
+/**
+ * Longest range `GET /api/bookings/availability?from=&to=` accepts, in days
+ */
+export const MAX_AVAILABILITY_RANGE_DAYS = 62;
+
+/**
+ * Booking availability range query schema
+ */
+export const bookingAvailabilityRangeQuerySchema = z
+  .object({
+    from: z.iso.date('from must be formatted as YYYY-MM-DD'),
+    to: z.iso.date('to must be formatted as YYYY-MM-DD'),
+    duration: z.coerce
+      .number()
+      .int()
+      .min(15, 'Duration must be between 15 and 240 minutes')
+      .max(240, 'Duration must be between 15 and 240 minutes')
+      .default(30),
+    meetingType: z.string().trim().min(1).max(50).optional(),
+  })
+  .refine(({ from, to }) => from <= to, { message: 'from must not be after to', path: ['to'] })
+  .refine(
+    ({ from, to }) =>
+      (Date.parse(to) - Date.parse(from)) / 86_400_000 < MAX_AVAILABILITY_RANGE_DAYS,
+    { message: `Ranges are limited to ${MAX_AVAILABILITY_RANGE_DAYS} days`, path: ['to'] }
+  );
+
+/**
+ * Booking reschedule request schema; `date` and `time` are host-local like `POST /api/bookings`
+ */
+export const bookingRescheduleRequestSchema = z.object({
+  date: z.iso.date('Date must be formatted as YYYY-MM-DD'),
+  time: z.string().regex(/^(?:[01]\d|2[0-3]):[0-5]\d$/, 'Time must be formatted as HH:MM'),
+  startsAt: z.iso.datetime({ message: 'startsAt must be a UTC ISO 8601 timestamp' }),
+});
+
+/**
+ * Booking hold request schema; reserves a slot while the visitor fills in the form
+ */
+export const bookingHoldRequestSchema = z.object({
+  date: z.iso.date('Date must be formatted as YYYY-MM-DD'),
+  time: z.string().regex(/^(?:[01]\d|2[0-3]):[0-5]\d$/, 'Time must be formatted as HH:MM'),
+  startsAt: z.iso.datetime({ message: 'startsAt must be a UTC ISO 8601 timestamp' }),
+  meetingType: z.string().trim().min(1, 'Meeting type is required').max(50),
+  /** The visitor's previous hold, released in favour of the new one */
+  holdId: z.uuid('Invalid hold ID').optional(),
+});
+
+/**
+ * Booking waitlist request schema; for a fully booked date and meeting type
+ */
+export const bookingWaitlistRequestSchema = z.object({
+  name: z
+    .string()
+    .min(2, 'Name must be at least 2 characters')
+    .max(100, 'Name must be less than 100 characters')
+    .transform(sanitizeInput),
+  email: emailSchema,
+  date: z.iso.date('Date must be formatted as YYYY-MM-DD'),
+  meetingType: z.string().trim().min(1, 'Meeting type is required').max(50),
+});
+
+/**
+ * Claim token from a waitlist offer email
+ */
+export const waitlistClaimTokenSchema = z
+  .string()
+  .regex(/^[a-f0-9]{64}$/, 'Invalid claim token');
+
 /**
  * Generic API response schema
  */
@@ -648,6 +860,344 @@ export const paginatedResponseSchema = <T extends z.ZodTypeAny>(dataSchema: T) =
     error: z.string().optional(),
   });
 
+// ==================== CMS RESPONSE SCHEMAS ====================
+
+/**
+ * Error body returned by the CMS for non-2xx responses
+ */
+export const cmsErrorResponseSchema = z.object({
+  error: z.string(),
+  details: z.array(z.object({ field: z.string(), message: z.string() })).optional(),
+});
+
+/**
+ * Technology as listed on CMS projects
+ */
+export const cmsTechnologySchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+});
+
+/**
+ * Project summary returned by the public CMS project endpoints
+ *
+ * Unknown fields are kept so newer CMS versions don't break older site deployments.
+ */
+export const cmsProjectSummarySchema = z.looseObject({
+  id: z.number().int(),
+  title: z.string(),
+  slug: z.string().nullable(),
+  description: z.string().nullable().optional(),
+  status: z.string(),
+  liveUrl: z.string().nullable().optional(),
+  repoUrl: z.string().nullable().optional(),
+  coverImage: z.object({ url: z.string(), alternativeText: z.string() }).nullable().optional(),
+  technologies: z.array(cmsTechnologySchema).default([]),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+/**
+ * Full project returned by `GET /api/projects/public/:id`
+ */
+export const cmsProjectDetailSchema = cmsProjectSummarySchema.extend({
+  galleryImages: z.array(z.looseObject({ image_url: z.string() })).default([]),
+  detailedContent: z.string().nullable().optional(),
+  client: z.string().nullable().optional(),
+  duration: z.string().nullable().optional(),
+  role: z.string().nullable().optional(),
+  teamSize: z.number().nullable().optional(),
+});
+
+/**
+ * `GET /api/projects/public` and `GET /api/projects/featured`
+ */
+export const cmsProjectListResponseSchema = z.object({
+  projects: z.array(cmsProjectSummarySchema),
+  total: z.number().int().nonnegative(),
+});
+
+/**
+ * `GET /api/projects/public/:id`
+ */
+export const cmsProjectResponseSchema = z.object({
+  project: cmsProjectDetailSchema,
+});
+
+/**
+ * `GET /api/bookings/availability/:date`
+ */
+export const bookingAvailabilitySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  dayOfWeek: z.number().int().min(0).max(6),
+  isAvailable: z.boolean(),
+  duration: z.number().int().positive().optional(),
+  workingHours: z.array(z.object({ start: z.string(), end: z.string() })).default([]),
+  availableSlots: z.array(z.string().regex(/^\d{2}:\d{2}$/)),
+  bookedCount: z.number().int().nonnegative(),
+  blockedCount: z.number().int().nonnegative(),
+  reason: z.string().nullable().optional(),
+});
+
+/**
+ * `POST /api/bookings`
+ */
+export const bookingConfirmationSchema = z.object({
+  success: z.literal(true),
+  bookingId: z.number().int(),
+  booking: z.object({
+    id: z.number().int(),
+    name: z.string(),
+    email: z.string(),
+    date: z.string(),
+    time: z.string(),
+    duration: z.number().int(),
+    meetingLink: z.string().nullable().optional(),
+  }),
+  message: z.string().optional(),
+});
+
+/**
+ * `GET|PUT|DELETE /api/bookings/:id/guest`
+ */
+export const cmsGuestBookingResponseSchema = z.object({
+  booking: z.object({
+    id: z.number().int(),
+    name: z.string(),
+    email: z.string(),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+    time: z.string().regex(/^\d{2}:\d{2}$/),
+    duration: z.number().int(),
+    status: z.enum(['confirmed', 'cancelled', 'completed', 'no-show']),
+    meetingType: z.string().nullable().optional(),
+    meetingLink: z.string().nullable().optional(),
+    /** Visitor's IANA zone; missing on bookings made before the CMS stored it */
+    timeZone: z.string().nullable().optional(),
+    /** SQLite `CURRENT_TIMESTAMP`s (UTC); `updatedAt` moves on every reschedule or status change */
+    createdAt: z.string().nullable().optional(),
+    updatedAt: z.string().nullable().optional(),
+  }),
+});
+
+/**
+ * `GET /api/bookings` (service key or admin session); rows use the CMS column names
+ */
+export const cmsBookingListResponseSchema = z.object({
+  data: z.array(
+    z.object({
+      id: z.number().int(),
+      name: z.string(),
+      email: z.string(),
+      date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+      time: z.string().regex(/^\d{2}:\d{2}$/),
+      duration: z.number().int(),
+      status: z.enum(['confirmed', 'cancelled', 'completed', 'no-show']),
+      meeting_type: z.string().nullable().optional(),
+      meeting_link: z.string().nullable().optional(),
+      time_zone: z.string().nullable().optional(),
+      /** SQLite `CURRENT_TIMESTAMP`: `YYYY-MM-DD HH:MM:SS` in UTC */
+      created_at: z.string().nullable().optional(),
+    })
+  ),
+});
+
+/**
+ * `GET /api/analytics/events`
+ */
+export const cmsAnalyticsEventListResponseSchema = z.object({
+  data: z.array(
+    z.object({
+      id: z.number().int(),
+      event_type: z.string(),
+      event_data: z.record(z.string(), z.unknown()),
+      page_url: z.string().nullable(),
+      referrer: z.string().nullable(),
+      session_id: z.string().nullable(),
+      /** SQLite `CURRENT_TIMESTAMP`: `YYYY-MM-DD HH:MM:SS` in UTC */
+      created_at: z.string(),
+    })
+  ),
+  meta: z.object({ count: z.number().int(), limit: z.number().int() }),
+});
+
+const countSchema = z.number().int().nonnegative();
+
+/**
+ * `GET /api/analytics/report`: page views, projects, entrances and scroll depth, aggregated by
+ * the CMS
+ */
+export const cmsAnalyticsReportResponseSchema = z.object({
+  from: z.string(),
+  bucket: z.enum(['hour', 'day']),
+  summary: z.object({
+    pageViews: countSchema,
+    sessions: countSchema,
+    projectViews: countSchema,
+    /** Mean seconds from `time_on_page`, `null` without samples */
+    avgTimeOnPage: z.number().nullable(),
+  }),
+  /** Hours or days with page views, oldest first, by their UTC start as an ISO string */
+  timeSeries: z.array(
+    z.object({ start: z.string(), pageViews: countSchema, sessions: countSchema })
+  ),
+  /** Most viewed first; `title` is the one sent with the latest view */
+  projects: z.array(
+    z.object({
+      projectId: z.string(),
+      title: z.string().nullable(),
+      views: countSchema,
+      sessions: countSchema,
+    })
+  ),
+  /** First page view of each session, grouped by page and referrer */
+  entrances: z.array(
+    z.object({ page: z.string(), referrer: z.string().nullable(), sessions: countSchema })
+  ),
+  /** Sessions that viewed each page, and how many of them scrolled at least each depth */
+  pages: z.array(
+    z.object({
+      page: z.string(),
+      sessions: countSchema,
+      reached: z.object({ 25: countSchema, 50: countSchema, 75: countSchema, 100: countSchema }),
+    })
+  ),
+});
+
+/**
+ * `GET /api/analytics/report/realtime`
+ */
+export const cmsAnalyticsRealtimeResponseSchema = z.object({
+  from: z.string(),
+  /** Sessions by the page they were last seen on */
+  pages: z.array(z.object({ page: z.string(), sessions: countSchema })),
+  /** Latest events, newest first; `at` is an ISO string */
+  recent: z.array(z.object({ type: z.string(), page: z.string(), at: z.string() })),
+});
+
+const intakeQuestionBaseSchema = z.object({
+  /** Key the answer is submitted under */
+  id: z.string().regex(/^[a-z][a-z0-9_]{0,49}$/),
+  label: z.string().min(1).max(200),
+  required: z.boolean().default(false),
+  helpText: z.string().max(300).nullable().optional(),
+});
+
+/**
+ * Question a visitor answers when booking a meeting type
+ */
+export const meetingTypeIntakeQuestionSchema = z.discriminatedUnion('type', [
+  intakeQuestionBaseSchema.extend({
+    type: z.literal('text'),
+    multiline: z.boolean().default(false),
+    maxLength: z.number().int().min(1).max(2000).default(500),
+    placeholder: z.string().max(200).nullable().optional(),
+  }),
+  intakeQuestionBaseSchema.extend({
+    type: z.literal('select'),
+    options: z.array(z.string().min(1).max(200)).min(1).max(50),
+  }),
+  intakeQuestionBaseSchema.extend({
+    type: z.literal('checkbox'),
+  }),
+  intakeQuestionBaseSchema.extend({
+    type: z.literal('url'),
+    placeholder: z.string().max(200).nullable().optional(),
+  }),
+]);
+
+/**
+ * Entry in the meeting-type catalog
+ */
+export const meetingTypeSchema = z.object({
+  id: z.number().int(),
+  slug: z.string(),
+  name: z.string(),
+  description: z.string().nullable(),
+  duration: z.number().int().min(15).max(240),
+  bufferBefore: z.number().int().nonnegative().default(0),
+  bufferAfter: z.number().int().nonnegative().default(0),
+  locationType: z.enum(['video', 'phone']),
+  intakeQuestions: z.array(meetingTypeIntakeQuestionSchema).default([]),
+  enabled: z.boolean(),
+  sortOrder: z.number().int().default(0),
+});
+
+/**
+ * `GET /api/bookings/meeting-types`
+ */
+export const cmsMeetingTypeListResponseSchema = z.object({
+  meetingTypes: z.array(meetingTypeSchema),
+});
+
+/**
+ * `POST /api/bookings/holds`
+ */
+export const cmsBookingHoldResponseSchema = z.object({
+  hold: z.object({
+    id: z.string(),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+    time: z.string().regex(/^\d{2}:\d{2}$/),
+    duration: z.number().int(),
+    expiresAt: z.string(),
+  }),
+});
+
+/**
+ * `POST /api/bookings/waitlist`
+ */
+export const cmsWaitlistEntryResponseSchema = z.object({
+  entry: z.object({
+    id: z.number().int(),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+    meetingType: z.string(),
+    /** 1-based place among the visitors waiting for this date and type */
+    position: z.number().int(),
+  }),
+});
+
+/**
+ * `GET /api/bookings/waitlist/offers/:token`
+ */
+export const cmsWaitlistOfferResponseSchema = z.object({
+  offer: z.object({
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+    time: z.string().regex(/^\d{2}:\d{2}$/),
+    /** Minutes of the offered meeting type */
+    duration: z.number().int(),
+    meetingType: z.string(),
+    name: z.string(),
+    email: z.string(),
+    /** Hold keeping the slot free until the offer expires */
+    holdId: z.string(),
+    expiresAt: z.string(),
+  }),
+});
+
+/**
+ * `POST /api/messages`
+ */
+export const cmsMessageCreatedSchema = z.object({
+  success: z.literal(true),
+  messageId: z.number().int(),
+  message: z.string().optional(),
+});
+
+/**
+ * `POST /api/analytics/track`
+ */
+export const cmsAnalyticsTrackedSchema = z.object({
+  success: z.literal(true),
+  eventId: z.number().int(),
+});
+
+/**
+ * `POST /api/analytics/track/batch`
+ */
+export const cmsAnalyticsBatchTrackedSchema = z.object({
+  success: z.literal(true),
+  tracked: z.number().int(),
+});
+
 // ==================== TYPE INFERENCE HELPERS ====================
 
 /**
@@ -668,6 +1218,22 @@ export type AnalyticsEventInput = z.infer<typeof analyticsEventSchema>;
 export type ContactFormInput = z.infer<typeof contactFormSchema>;
 export type PaginationParamsInput = z.infer<typeof paginationParamsSchema>;
 export type QueryPaginationParamsInput = z.infer<typeof queryPaginationParamsSchema>;
+export type CmsProjectSummary = z.infer<typeof cmsProjectSummarySchema>;
+export type CmsProjectDetail = z.infer<typeof cmsProjectDetailSchema>;
+export type BookingAvailability = z.infer<typeof bookingAvailabilitySchema>;
+export type BookingConfirmation = z.infer<typeof bookingConfirmationSchema>;
+export type GuestBooking = z.infer<typeof cmsGuestBookingResponseSchema>['booking'];
+export type CmsBooking = z.infer<typeof cmsBookingListResponseSchema>['data'][number];
+export type CmsAnalyticsEvent = z.infer<typeof cmsAnalyticsEventListResponseSchema>['data'][number];
+export type CmsAnalyticsReport = z.infer<typeof cmsAnalyticsReportResponseSchema>;
+export type CmsAnalyticsRealtime = z.infer<typeof cmsAnalyticsRealtimeResponseSchema>;
+export type WebVitalEventData = z.infer<typeof webVitalEventDataSchema>;
+export type ClientErrorEventData = z.infer<typeof clientErrorEventDataSchema>;
+export type BookingHold = z.infer<typeof cmsBookingHoldResponseSchema>['hold'];
+export type WaitlistEntry = z.infer<typeof cmsWaitlistEntryResponseSchema>['entry'];
+export type WaitlistOffer = z.infer<typeof cmsWaitlistOfferResponseSchema>['offer'];
+export type MeetingType = z.infer<typeof meetingTypeSchema>;
+export type MeetingTypeIntakeQuestion = z.infer<typeof meetingTypeIntakeQuestionSchema>;
 
 // ==================== VALIDATION UTILITIES ====================
 
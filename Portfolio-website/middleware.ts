@@ -15,7 +15,14 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { apiLogger, LogLevel, REQUEST_ID_HEADER, resolveRequestId } from '@/lib/api-logger';
 import { checkRateLimit, getRateLimitHeaders } from '@/lib/rate-limit';
+import {
+  ADMIN_SESSION_COOKIE,
+  isValidAdminApiKey,
+  verifyRequestSession,
+} from '@/lib/admin-session';
+import { CSRF_COOKIE, CSRF_HEADER, validateDoubleSubmitToken } from '@/lib/csrf';
 
 // ==================== CONFIGURATION ====================
 
@@ -76,6 +83,11 @@ const ALLOWED_BOT_PATTERNS = [
  */
 const PROTECTED_ROUTES = ['/admin', '/api/portfolio', '/api/upload'];
 
+/**
+ * Routes under PROTECTED_ROUTES that must stay reachable without a session
+ */
+const PUBLIC_ADMIN_ROUTES = ['/admin/login'];
+
 /**
  * Public API routes that don't require authentication
  */
@@ -84,6 +96,7 @@ const PUBLIC_API_ROUTES = [
   '/api/analytics',
   '/api/projects',
   '/api/projects/featured',
+  '/api/bookings',
 ];
 
 /**
@@ -99,13 +112,6 @@ const RATE_LIMIT_BYPASS_ROUTES = [
 
 // ==================== UTILITY FUNCTIONS ====================
 
-/**
- * Generate unique request ID
- */
-function generateRequestId(): string {
-  return `req_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
-}
-
 /**
  * Get client IP address
  */
@@ -148,6 +154,10 @@ function isBadBot(userAgent: string): boolean {
  * Check if route is protected
  */
 function isProtectedRoute(pathname: string): boolean {
+  if (PUBLIC_ADMIN_ROUTES.some((route) => pathname.startsWith(route))) {
+    return false;
+  }
+
   return PROTECTED_ROUTES.some((route) => pathname.startsWith(route));
 }
 
@@ -189,8 +199,11 @@ function normalizeUrl(url: URL): string | null {
 
 /**
  * Validate CSRF token for state-changing requests
+ *
+ * The `x-csrf-token` header must equal the `csrf-token` cookie issued by `/api/csrf`, and the
+ * token's signature must verify for the request's `admin-session` cookie.
  */
-function validateCsrfToken(request: NextRequest): boolean {
+async function validateCsrfToken(request: NextRequest): Promise<boolean> {
   // Skip CSRF validation for GET and HEAD requests
   const method = request.method;
   if (method === 'GET' || method === 'HEAD') {
@@ -208,22 +221,20 @@ function validateCsrfToken(request: NextRequest): boolean {
     return true;
   }
 
-  // Get CSRF token from header or cookie
-  const csrfTokenHeader = request.headers.get('x-csrf-token');
-  const csrfTokenCookie = request.cookies.get('csrf-token')?.value;
-
-  // Validate that tokens match
-  if (!csrfTokenHeader || !csrfTokenCookie || csrfTokenHeader !== csrfTokenCookie) {
-    return false;
-  }
-
-  return true;
+  return validateDoubleSubmitToken(
+    request.headers.get(CSRF_HEADER),
+    request.cookies.get(CSRF_COOKIE)?.value,
+    request.cookies.get(ADMIN_SESSION_COOKIE)?.value
+  );
 }
 
 /**
  * Check authentication for protected routes
+ *
+ * Accepts a signed `admin-session` cookie, the same token as a bearer token, or an
+ * `x-api-key` matching ADMIN_API_KEY.
  */
-function checkAuthentication(request: NextRequest): boolean {
+async function checkAuthentication(request: NextRequest): Promise<boolean> {
   const pathname = request.nextUrl.pathname;
 
   // Skip auth check for non-protected routes
@@ -231,33 +242,56 @@ function checkAuthentication(request: NextRequest): boolean {
     return true;
   }
 
-  // Check for admin session cookie or API key
-  const sessionCookie = request.cookies.get('admin-session')?.value;
-  const apiKey = request.headers.get('x-api-key');
-  const authHeader = request.headers.get('authorization');
-
-  // In development, allow if any auth method is present
-  if (IS_DEVELOPMENT) {
-    return !!(sessionCookie || apiKey || authHeader);
+  if (isValidAdminApiKey(request.headers.get('x-api-key'))) {
+    return true;
   }
 
-  // In production, validate the session/token
-  // TODO: Implement proper session validation with your auth provider
-  // For now, just check if they exist
-  return !!(sessionCookie || apiKey || authHeader);
+  const verification = await verifyRequestSession(
+    request.cookies.get(ADMIN_SESSION_COOKIE)?.value,
+    request.headers.get('authorization')
+  );
+
+  return verification.valid;
 }
 
 /**
- * Log request for monitoring
+ * Log request for monitoring. Requests passed on to a route are debug-level; the route logs
+ * them itself under the same request ID.
  */
 function logRequest(
-  _requestId: string,
-  _request: NextRequest,
-  _startTime: number,
-  _statusCode?: number
+  requestId: string,
+  request: NextRequest,
+  startTime: number,
+  statusCode?: number
 ): void {
-  // Request logging removed for production
-  // Could be replaced with proper logging service in the future
+  const level =
+    statusCode === undefined || statusCode < 300
+      ? LogLevel.DEBUG
+      : statusCode >= 500
+        ? LogLevel.ERROR
+        : statusCode >= 400
+          ? LogLevel.WARN
+          : LogLevel.INFO;
+
+  apiLogger.log(
+    level,
+    requestId,
+    `Middleware: ${request.method} ${request.nextUrl.pathname} ${statusCode ?? 'passed on'}`,
+    {
+      ...apiLogger.extractRequestMetadata(request),
+      statusCode,
+      duration: Date.now() - startTime,
+    }
+  );
+}
+
+/**
+ * Continue to the route with the request ID in its headers, so route logs and CMS calls share it
+ */
+function forwardWithRequestId(request: NextRequest, requestId: string): NextResponse {
+  const headers = new Headers(request.headers);
+  headers.set(REQUEST_ID_HEADER, requestId);
+  return NextResponse.next({ request: { headers } });
 }
 
 // ==================== SECURITY HEADERS ====================
@@ -294,7 +328,7 @@ function addSecurityHeaders(response: NextResponse): void {
     response.headers.set('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
     response.headers.set(
       'Access-Control-Allow-Headers',
-      'Content-Type, Authorization, X-CSRF-Token, X-Requested-With'
+      'Content-Type, Authorization, X-CSRF-Token, X-Requested-With, If-Match, If-None-Match'
     );
   }
 }
@@ -328,7 +362,7 @@ function handleCorsPreFlight(request: NextRequest): NextResponse | null {
     response.headers.set('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
     response.headers.set(
       'Access-Control-Allow-Headers',
-      'Content-Type, Authorization, X-CSRF-Token, X-Requested-With'
+      'Content-Type, Authorization, X-CSRF-Token, X-Requested-With, If-Match, If-None-Match'
     );
     response.headers.set('Access-Control-Max-Age', '86400'); // 24 hours
 
@@ -345,9 +379,9 @@ function handleCorsPreFlight(request: NextRequest): NextResponse | null {
  */
 export async function middleware(request: NextRequest) {
   const startTime = Date.now();
-  const requestId = generateRequestId();
+  // Reuse an ID from an upstream proxy so its logs line up with ours
+  const requestId = resolveRequestId(request.headers.get(REQUEST_ID_HEADER));
   const pathname = request.nextUrl.pathname;
-  const method = request.method;
 
   // Handle CORS preflight
   const corsResponse = handleCorsPreFlight(request);
@@ -400,7 +434,7 @@ export async function middleware(request: NextRequest) {
     }
 
     // 4. Authentication check for protected routes
-    if (!checkAuthentication(request)) {
+    if (!(await checkAuthentication(request))) {
       logRequest(requestId, request, startTime, 401);
 
       // If it's an API route, return JSON
@@ -418,12 +452,22 @@ export async function middleware(request: NextRequest) {
         );
       }
 
-      // Otherwise redirect to login (you can customize this)
-      return NextResponse.redirect(new URL('/admin/login', request.url));
+      // Otherwise redirect to login, remembering where the user was headed
+      const loginUrl = new URL('/admin/login', request.url);
+      loginUrl.searchParams.set('next', `${pathname}${request.nextUrl.search}`);
+
+      const response = NextResponse.redirect(loginUrl);
+
+      // Drop expired or tampered session cookies so the browser stops sending them
+      if (request.cookies.has(ADMIN_SESSION_COOKIE)) {
+        response.cookies.delete(ADMIN_SESSION_COOKIE);
+      }
+
+      return response;
     }
 
     // 5. CSRF token validation
-    if (!validateCsrfToken(request)) {
+    if (!(await validateCsrfToken(request))) {
       logRequest(requestId, request, startTime, 403);
       return new NextResponse(
         JSON.stringify({
@@ -442,15 +486,11 @@ export async function middleware(request: NextRequest) {
 
     // Apply rate limiting to API routes (unless bypassed)
     if (pathname.startsWith('/api/') && !shouldBypassRateLimit(pathname)) {
-      // Type guard for HTTP methods
-      const httpMethod = ['GET', 'POST', 'PUT', 'DELETE'].includes(method)
-        ? (method as 'GET' | 'POST' | 'PUT' | 'DELETE')
-        : 'GET';
-
-      const rateLimitResult = checkRateLimit(request, httpMethod);
+      // Enforce the route's per-instance policies; route handlers enforce the shared ones
+      const rateLimitResult = await checkRateLimit(request);
 
       // If rate limit exceeded
-      if (!rateLimitResult.allowed) {
+      if (rateLimitResult && !rateLimitResult.allowed) {
         logRequest(requestId, request, startTime, 429);
 
         const rateLimitHeaders = getRateLimitHeaders(rateLimitResult);
@@ -473,11 +513,13 @@ export async function middleware(request: NextRequest) {
       }
 
       // Add rate limit headers to successful response
-      const response = NextResponse.next();
-      const rateLimitHeaders = getRateLimitHeaders(rateLimitResult);
-      Object.entries(rateLimitHeaders).forEach(([key, value]) => {
-        response.headers.set(key, value);
-      });
+      const response = forwardWithRequestId(request, requestId);
+      if (rateLimitResult) {
+        const rateLimitHeaders = getRateLimitHeaders(rateLimitResult);
+        Object.entries(rateLimitHeaders).forEach(([key, value]) => {
+          response.headers.set(key, value);
+        });
+      }
 
       // Add request metadata headers
       response.headers.set('X-Request-ID', requestId);
@@ -515,7 +557,7 @@ export async function middleware(request: NextRequest) {
 
     // ==================== DEFAULT RESPONSE ====================
 
-    const response = NextResponse.next();
+    const response = forwardWithRequestId(request, requestId);
 
     // Add request metadata headers
     response.headers.set('X-Request-ID', requestId);
@@ -530,7 +572,7 @@ export async function middleware(request: NextRequest) {
     return response;
   } catch (error) {
     // Handle middleware errors
-    console.error(`[${requestId}] Middleware error:`, error);
+    apiLogger.logError(requestId, error as Error, { stage: 'middleware' });
 
     logRequest(requestId, request, startTime, 500);
 
@@ -38,6 +38,25 @@ const ENABLE_BUNDLE_ANALYZER = process.env.ANALYZE === 'true';
 // Site URL for metadata and redirects
 const SITE_URL = process.env.NEXT_PUBLIC_SITE_URL || 'https://jxcobcreations.com';
 
+/**
+ * Deployment identifier for telemetry: `BUILD_ID`, the deployed commit, or the local checkout's.
+ * Left to Next (and reported as `unknown`) when none is available.
+ */
+const resolveBuildId = (): string | undefined => {
+  if (process.env.BUILD_ID) return process.env.BUILD_ID;
+  if (process.env.VERCEL_GIT_COMMIT_SHA) return process.env.VERCEL_GIT_COMMIT_SHA.slice(0, 12);
+  try {
+    const { execSync } = require('child_process');
+    return execSync('git rev-parse --short=12 HEAD', { stdio: ['ignore', 'pipe', 'ignore'] })
+      .toString()
+      .trim();
+  } catch {
+    return undefined;
+  }
+};
+
+const BUILD_ID = resolveBuildId();
+
 // ============================================================================
 // WEBPACK CONFIGURATION
 // ============================================================================
@@ -122,6 +141,15 @@ const nextConfig: NextConfig = {
    */
   productionBrowserSourceMaps: false, // Set to true for debugging
 
+  /**
+   * Stable build IDs, also exposed to the browser so error and web vitals reports name the
+   * deployment they came from
+   */
+  ...(BUILD_ID ? { generateBuildId: async () => BUILD_ID } : {}),
+  env: {
+    NEXT_PUBLIC_BUILD_ID: BUILD_ID ?? 'unknown',
+  },
+
   // ==================== IMAGE OPTIMIZATION ====================
 
   images: {
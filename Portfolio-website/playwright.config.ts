@@ -1,9 +1,19 @@
 import { defineConfig, devices } from '@playwright/test';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+// Specs import server modules directly; keep their portfolio store out of the working copy
+process.env.PORTFOLIO_DATA_FILE ??= path.join(
+  tmpdir(),
+  `portfolio-playwright-${process.pid}`,
+  'portfolio.json'
+);
 
 const baseURL = process.env.PLAYWRIGHT_BASE_URL || 'http://localhost:3000';
 
 export default defineConfig({
   testDir: './playwright',
+  tsconfig: './playwright/tsconfig.json',
   timeout: 60 * 1000,
   expect: {
     timeout: 10 * 1000,
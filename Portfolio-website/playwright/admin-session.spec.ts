@@ -0,0 +1,133 @@
+import { test, expect } from '@playwright/test';
+import { NextRequest } from 'next/server';
+import {
+  getBearerToken,
+  isAdminRequest,
+  isValidAdminApiKey,
+  signAdminSession,
+  verifyAdminSession,
+  verifyRequestSession,
+} from '../lib/admin-session';
+
+const SECRET = 'test-secret-that-is-at-least-32-characters';
+
+test.describe('Admin session tokens', () => {
+  test('accepts a freshly signed token', async () => {
+    const token = await signAdminSession('admin', SECRET, { ttlSeconds: 60 });
+    const result = await verifyAdminSession(token, SECRET);
+
+    expect(result.valid).toBe(true);
+    if (result.valid) {
+      expect(result.session.sub).toBe('admin');
+      expect(result.session.exp - result.session.iat).toBe(60);
+    }
+  });
+
+  test('rejects a missing token', async () => {
+    expect(await verifyAdminSession(undefined, SECRET)).toEqual({
+      valid: false,
+      reason: 'missing',
+    });
+    expect(await verifyAdminSession('', SECRET)).toEqual({ valid: false, reason: 'missing' });
+  });
+
+  test('rejects an expired token', async () => {
+    const issuedAt = Date.now() - 2 * 60 * 60 * 1000;
+    const token = await signAdminSession('admin', SECRET, { ttlSeconds: 60 * 60, now: issuedAt });
+
+    expect(await verifyAdminSession(token, SECRET)).toEqual({ valid: false, reason: 'expired' });
+  });
+
+  test('rejects a token with a tampered payload', async () => {
+    const token = await signAdminSession('admin', SECRET, { ttlSeconds: 60 });
+    const [header, , signature] = token.split('.');
+    const forgedPayload = Buffer.from(
+      JSON.stringify({ sub: 'intruder', iat: 0, exp: 4102444800 })
+    ).toString('base64url');
+
+    expect(await verifyAdminSession(`${header}.${forgedPayload}.${signature}`, SECRET)).toEqual({
+      valid: false,
+      reason: 'invalid_signature',
+    });
+  });
+
+  test('rejects a token signed with another secret', async () => {
+    const token = await signAdminSession('admin', `${SECRET}-other`, { ttlSeconds: 60 });
+
+    expect(await verifyAdminSession(token, SECRET)).toEqual({
+      valid: false,
+      reason: 'invalid_signature',
+    });
+  });
+
+  test('rejects tokens using a different algorithm', async () => {
+    const token = await signAdminSession('admin', SECRET, { ttlSeconds: 60 });
+    const [, payload] = token.split('.');
+    const noneHeader = Buffer.from(JSON.stringify({ alg: 'none', typ: 'JWT' })).toString(
+      'base64url'
+    );
+
+    expect(await verifyAdminSession(`${noneHeader}.${payload}.`, SECRET)).toEqual({
+      valid: false,
+      reason: 'malformed',
+    });
+  });
+
+  test('rejects malformed tokens', async () => {
+    expect((await verifyAdminSession('not-a-token', SECRET)).valid).toBe(false);
+    expect((await verifyAdminSession('a.b.c', SECRET)).valid).toBe(false);
+    expect((await verifyAdminSession('a.b!.c', SECRET)).valid).toBe(false);
+  });
+});
+
+test.describe('Request session verification', () => {
+  test.beforeEach(() => {
+    process.env.ADMIN_SESSION_SECRET = SECRET;
+    process.env.ADMIN_API_KEY = 'api-key-that-is-at-least-32-characters';
+  });
+
+  test.afterEach(() => {
+    delete process.env.ADMIN_SESSION_SECRET;
+    delete process.env.ADMIN_API_KEY;
+  });
+
+  test('reads the token from the cookie or a bearer header', async () => {
+    const token = await signAdminSession('admin', SECRET, { ttlSeconds: 60 });
+
+    expect((await verifyRequestSession(token, null)).valid).toBe(true);
+    expect((await verifyRequestSession(undefined, `Bearer ${token}`)).valid).toBe(true);
+    expect(await verifyRequestSession(undefined, null)).toEqual({
+      valid: false,
+      reason: 'missing',
+    });
+    expect(getBearerToken('Basic abc')).toBeNull();
+  });
+
+  test('rejects every token when no secret is configured', async () => {
+    const token = await signAdminSession('admin', SECRET, { ttlSeconds: 60 });
+    delete process.env.ADMIN_SESSION_SECRET;
+
+    expect((await verifyRequestSession(token, null)).valid).toBe(false);
+  });
+
+  test('only accepts the configured API key', () => {
+    expect(isValidAdminApiKey('api-key-that-is-at-least-32-characters')).toBe(true);
+    expect(isValidAdminApiKey('api-key-that-is-at-least-32-characterz')).toBe(false);
+    expect(isValidAdminApiKey('anything')).toBe(false);
+    expect(isValidAdminApiKey(null)).toBe(false);
+  });
+
+  test('admits requests with the API key, a session cookie or a bearer session', async () => {
+    const token = await signAdminSession('admin', SECRET, { ttlSeconds: 60 });
+    const request = (headers: Record<string, string>) =>
+      new NextRequest('https://example.com/api/analytics/realtime', { headers });
+
+    expect(
+      await isAdminRequest(request({ 'x-api-key': 'api-key-that-is-at-least-32-characters' }))
+    ).toBe(true);
+    expect(await isAdminRequest(request({ cookie: `admin-session=${token}` }))).toBe(true);
+    expect(await isAdminRequest(request({ authorization: `Bearer ${token}` }))).toBe(true);
+    expect(await isAdminRequest(request({ 'x-api-key': 'anything' }))).toBe(false);
+    expect(await isAdminRequest(request({}))).toBe(false);
+  });
+});
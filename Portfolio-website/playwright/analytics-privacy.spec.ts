@@ -0,0 +1,121 @@
+import { test, expect } from '@playwright/test';
+import {
+  anonymousSessionId,
+  scrubAnalyticsEvent,
+  scrubReferrer,
+  scrubUrl,
+} from '../lib/analytics-privacy';
+import {
+  FULL_CONSENT,
+  NO_CONSENT,
+  parseConsent,
+  requestAllows,
+  serializeConsent,
+} from '../lib/consent';
+
+const SECRET = 'a-test-secret-that-is-long-enough-0123';
+
+test.describe('Consent cookie', () => {
+  test('round-trip the chosen categories', () => {
+    expect(serializeConsent({ analytics: true, performance: false })).toBe('v1:analytics');
+    expect(parseConsent(serializeConsent(FULL_CONSENT))).toEqual(FULL_CONSENT);
+    expect(parseConsent(serializeConsent(NO_CONSENT))).toEqual(NO_CONSENT);
+    expect(parseConsent(encodeURIComponent('v1:analytics,performance'))).toEqual(FULL_CONSENT);
+  });
+
+  test('treat a missing or outdated cookie as no choice', () => {
+    expect(parseConsent(undefined)).toBeNull();
+    expect(parseConsent('v0:analytics')).toBeNull();
+  });
+
+  test('treat a malformed cookie as no choice', () => {
+    expect(parseConsent('v1:analytics%E0')).toBeNull();
+    expect(requestAllows('analytics', '%E0', new Headers())).toBe(false);
+  });
+
+  test('only allow requests with consent and without DNT or GPC', () => {
+    const cookie = serializeConsent(FULL_CONSENT);
+
+    expect(requestAllows('analytics', cookie, new Headers())).toBe(true);
+    expect(requestAllows('analytics', undefined, new Headers())).toBe(false);
+    expect(requestAllows('analytics', 'v1:performance', new Headers())).toBe(false);
+    expect(requestAllows('analytics', cookie, new Headers({ DNT: '1' }))).toBe(false);
+    expect(requestAllows('analytics', cookie, new Headers({ 'Sec-GPC': '1' }))).toBe(false);
+  });
+});
+
+test.describe('Scrubbing', () => {
+  test('keep origin, path and campaign parameters of page URLs', () => {
+    expect(scrubUrl('https://example.com/projects?utm_source=x&email=a@b.co#top')).toBe(
+      'https://example.com/projects?utm_source=x'
+    );
+    expect(scrubUrl('/relative')).toBeUndefined();
+    expect(scrubUrl('javascript:alert(1)')).toBeUndefined();
+  });
+
+  test('mask tokens and email addresses in paths', () => {
+    expect(scrubUrl(`https://example.com/book/confirmed/${'a'.repeat(120)}`)).toBe(
+      'https://example.com/book/confirmed/[token]'
+    );
+    expect(scrubUrl('https://example.com/u/ada@example.com')).toBe('https://example.com/u/[email]');
+  });
+
+  test('reduce other sites to their origin', () => {
+    const page = 'https://example.com/';
+    expect(scrubReferrer('https://mail.example.org/inbox/123?q=me', page)).toBe(
+      'https://mail.example.org/'
+    );
+    expect(scrubReferrer('https://example.com/projects?tab=1', page)).toBe(
+      'https://example.com/projects'
+    );
+  });
+
+  test('drop personal fields and client session IDs from events', () => {
+    const scrubbed = scrubAnalyticsEvent({
+      event_type: 'form_submission',
+      event_data: {
+        formName: 'contact',
+        email: 'ada@example.com',
+        user_agent: 'Mozilla/5.0',
+        details: { fullName: 'Ada Lovelace', note: 'write to ada@example.com' },
+      },
+      page_url: 'https://example.com/?email=ada@example.com',
+      user_id: 'user-1',
+      session_id: 'client-chosen',
+    });
+
+    expect(scrubbed).toMatchObject({
+      event_type: 'form_submission',
+      event_data: { formName: 'contact', details: { note: 'write to [email]' } },
+      page_url: 'https://example.com/',
+    });
+    expect(scrubbed.event_data).not.toHaveProperty('email');
+    expect(scrubbed.event_data).not.toHaveProperty('user_agent');
+    expect(scrubbed.user_id).toBeUndefined();
+    expect(scrubbed.session_id).toBeUndefined();
+  });
+});
+
+test.describe('Anonymous session IDs', () => {
+  const visitor = { address: '203.0.113.7', userAgent: 'Mozilla/5.0' };
+
+  test('stay the same within a day and change the next', async () => {
+    const morning = await anonymousSessionId(SECRET, visitor, new Date('2025-01-08T08:00:00Z'));
+    const evening = await anonymousSessionId(SECRET, visitor, new Date('2025-01-08T22:00:00Z'));
+    const nextDay = await anonymousSessionId(SECRET, visitor, new Date('2025-01-09T08:00:00Z'));
+
+    expect(morning).toBe(evening);
+    expect(nextDay).not.toBe(morning);
+    expect(morning).toMatch(/^[A-Za-z0-9_-]{22}$/);
+  });
+
+  test('differ between visitors and secrets', async () => {
+    const now = new Date('2025-01-08T08:00:00Z');
+    const id = await anonymousSessionId(SECRET, visitor, now);
+
+    expect(await anonymousSessionId(SECRET, { ...visitor, address: '203.0.113.8' }, now)).not.toBe(
+      id
+    );
+    expect(await anonymousSessionId(`${SECRET}-rotated`, visitor, now)).not.toBe(id);
+  });
+});
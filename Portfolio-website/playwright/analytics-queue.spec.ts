@@ -0,0 +1,174 @@
+import { test, expect } from '@playwright/test';
+import { AnalyticsQueue, type AnalyticsQueueStorage } from '../lib/analytics-queue';
+import { analyticsEventSchema, type AnalyticsEventInput } from '../lib/validations';
+import { StubCms, startStubCms } from './stub-cms';
+
+const event = (page = 'https://example.com/'): AnalyticsEventInput => ({
+  event_type: 'page_view',
+  page_url: page,
+  timestamp: new Date().toISOString(),
+});
+
+class MemoryStorage implements AnalyticsQueueStorage {
+  readonly items = new Map<string, string>();
+
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+}
+
+const fakeFetch = (status: number | 'offline', bodies: unknown[]): typeof fetch =>
+  (async (_input: RequestInfo | URL, init?: RequestInit) => {
+    bodies.push(JSON.parse(String(init?.body)));
+    if (status === 'offline') throw new TypeError('Failed to fetch');
+    return new Response('{}', { status });
+  }) as typeof fetch;
+
+test.describe('Analytics queue', () => {
+  test('send queued events together on flush', async () => {
+    const bodies: unknown[] = [];
+    const queue = new AnalyticsQueue({ fetch: fakeFetch(200, bodies) });
+
+    queue.enqueue(event('https://example.com/a'));
+    queue.enqueue(event('https://example.com/b'));
+    await queue.flush();
+
+    expect(bodies).toHaveLength(1);
+    expect((bodies[0] as { events: AnalyticsEventInput[] }).events.map((e) => e.page_url)).toEqual([
+      'https://example.com/a',
+      'https://example.com/b',
+    ]);
+    expect(queue.size).toBe(0);
+  });
+
+  test('send a batch as soon as it fills up', async () => {
+    const bodies: unknown[] = [];
+    const queue = new AnalyticsQueue({ fetch: fakeFetch(200, bodies), batchSize: 2 });
+
+    queue.enqueue(event());
+    expect(bodies).toHaveLength(0);
+    queue.enqueue(event());
+    expect(bodies).toHaveLength(1);
+  });
+
+  test('keep events for the next flush when sending fails', async () => {
+    const queue = new AnalyticsQueue({ fetch: fakeFetch('offline', []) });
+    queue.enqueue(event());
+    await queue.flush();
+    expect(queue.size).toBe(1);
+
+    const retry = new AnalyticsQueue({ fetch: fakeFetch(503, []) });
+    retry.enqueue(event());
+    await retry.flush();
+    expect(retry.size).toBe(1);
+  });
+
+  test('drop a batch the route rejects as invalid', async () => {
+    const queue = new AnalyticsQueue({ fetch: fakeFetch(400, []) });
+    queue.enqueue(event());
+    await queue.flush();
+    expect(queue.size).toBe(0);
+  });
+
+  test('restore unsent events from storage, except stale ones', async () => {
+    const storage = new MemoryStorage();
+    const first = new AnalyticsQueue({ storage, fetch: fakeFetch('offline', []) });
+    first.enqueue(event('https://example.com/kept'));
+    first.enqueue({ ...event(), timestamp: new Date(Date.now() - 25 * 3600_000).toISOString() });
+
+    const bodies: unknown[] = [];
+    const second = new AnalyticsQueue({ storage, fetch: fakeFetch(200, bodies) });
+    expect(second.size).toBe(1);
+
+    await second.flush();
+    expect((bodies[0] as { events: AnalyticsEventInput[] }).events[0].page_url).toBe(
+      'https://example.com/kept'
+    );
+    expect(storage.items.size).toBe(0);
+  });
+
+  test('beacon out every queued event when the page goes away', async () => {
+    const beacons: string[] = [];
+    const queue = new AnalyticsQueue({
+      batchSize: 2,
+      fetch: fakeFetch(200, []),
+      sendBeacon: (url, data) => {
+        beacons.push(url);
+        return data.type === 'application/json';
+      },
+    });
+    queue.enqueue(event());
+    queue.enqueue(event());
+    queue.enqueue(event());
+
+    // The full batch is already in flight and isn't sent twice
+    queue.flushWithBeacon();
+    expect(beacons).toEqual(['/api/analytics']);
+    expect(queue.size).toBe(2);
+  });
+
+  test('keep events the browser refuses to beacon', () => {
+    const queue = new AnalyticsQueue({ sendBeacon: () => false });
+    queue.enqueue(event());
+    queue.flushWithBeacon();
+    expect(queue.size).toBe(1);
+  });
+
+  test('cap the queue at maxQueued, dropping the oldest', () => {
+    const queue = new AnalyticsQueue({ maxQueued: 2, fetch: fakeFetch('offline', []) });
+    queue.enqueue(event());
+    queue.enqueue(event());
+    queue.enqueue(event());
+    expect(queue.size).toBe(2);
+  });
+});
+
+test.describe('Analytics event schema', () => {
+  test('accept the events useAnalytics sends', () => {
+    for (const type of ['project_view', 'scroll_depth', 'time_on_page', 'error'] as const) {
+      expect(analyticsEventSchema.safeParse({ ...event(), event_type: type }).success).toBe(true);
+    }
+  });
+
+  test('reject unknown event types and relative page URLs', () => {
+    expect(analyticsEventSchema.safeParse({ event_type: 'nope' }).success).toBe(false);
+    expect(analyticsEventSchema.safeParse({ ...event(), page_url: '/about' }).success).toBe(false);
+  });
+});
+
+test.describe('CMS batch tracking', () => {
+  let cms: StubCms;
+
+  test.beforeEach(async () => {
+    cms = await startStubCms(() => ({ body: { success: true, tracked: 2 } }));
+  });
+
+  test.afterEach(async () => {
+    await cms.close();
+  });
+
+  test('post the events to the batch endpoint', async () => {
+    const client = cms.client();
+    const events = [1, 2].map(() => ({
+      event_type: 'page_view',
+      event_data: {},
+      page_url: 'https://example.com/',
+      referrer: '',
+    }));
+
+    const result = await client.analytics.trackBatch(events);
+
+    expect(result.success && result.data.tracked).toBe(2);
+    expect(cms.requests).toEqual([
+      expect.objectContaining({ url: '/api/analytics/track/batch', body: { events } }),
+    ]);
+  });
+});
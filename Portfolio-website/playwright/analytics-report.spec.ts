@@ -0,0 +1,268 @@
+import { test, expect } from '@playwright/test';
+import {
+  ANALYTICS_RANGES,
+  buildAnalyticsReport,
+  buildRealtimeSnapshot,
+  parseAnalyticsRange,
+  REALTIME_WINDOW_MS,
+  trafficSource,
+  type AnalyticsRange,
+} from '../lib/analytics-report';
+import { CMS_INSTALLED, CmsServer, startCmsServer } from './cms-server';
+
+const NOW = new Date('2025-01-08T12:30:00Z');
+
+interface StoredEvent {
+  eventType: string;
+  createdAt: string;
+  eventData?: Record<string, unknown> | string;
+  pageUrl?: string;
+  referrer?: string | null;
+  sessionId?: string | null;
+}
+
+const event = (
+  eventType: string,
+  createdAt: string,
+  overrides: Partial<StoredEvent> = {}
+): StoredEvent => ({ eventType, createdAt, sessionId: 's1', ...overrides });
+
+test.describe('Ranges', () => {
+  test('default to seven days', () => {
+    expect(parseAnalyticsRange('30d')).toBe('30d');
+    expect(parseAnalyticsRange('1y')).toBe('7d');
+    expect(parseAnalyticsRange(null)).toBe('7d');
+  });
+
+  test('ignore inherited object keys', () => {
+    expect(parseAnalyticsRange('toString')).toBe('7d');
+    expect(parseAnalyticsRange('constructor')).toBe('7d');
+    expect(parseAnalyticsRange('__proto__')).toBe('7d');
+  });
+});
+
+test.describe('Traffic sources', () => {
+  test('prefer campaign sources and ignore in-site referrers', () => {
+    expect(
+      trafficSource('https://example.com/?utm_source=newsletter', 'https://mail.example.org/')
+    ).toBe('newsletter');
+    expect(trafficSource('https://example.com/', 'https://example.com/projects')).toBe('Direct');
+    expect(trafficSource('/projects', 'https://news.ycombinator.com/')).toBe(
+      'news.ycombinator.com'
+    );
+  });
+});
+
+test.describe('CMS analytics reports', () => {
+  test.skip(!CMS_INSTALLED, 'Portfolio-CMS dependencies are not installed');
+
+  let cms: CmsServer;
+
+  test.beforeAll(async () => {
+    cms = await startCmsServer();
+  });
+
+  test.afterAll(async () => {
+    await cms?.stop();
+  });
+
+  test.beforeEach(async () => {
+    await cms.query('DELETE FROM analytics');
+  });
+
+  const store = async (...events: StoredEvent[]) => {
+    for (const stored of events) {
+      await cms.query(
+        `INSERT INTO analytics (event_type, event_data, page_url, referrer, session_id, created_at)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [
+          stored.eventType,
+          typeof stored.eventData === 'string'
+            ? stored.eventData
+            : JSON.stringify(stored.eventData ?? {}),
+          stored.pageUrl ?? 'https://example.com/',
+          stored.referrer ?? null,
+          stored.sessionId ?? null,
+          stored.createdAt,
+        ]
+      );
+    }
+  };
+
+  const report = async (range: AnalyticsRange) => {
+    const { duration, bucket } = ANALYTICS_RANGES[range];
+    const result = await cms
+      .client()
+      .analytics.report({ from: new Date(NOW.getTime() - duration), bucket });
+    if (!result.success) throw new Error(result.error);
+    return buildAnalyticsReport(result.data, range, NOW);
+  };
+
+  test('count page views and sessions per day, including empty days', async () => {
+    await store(
+      event('page_view', '2025-01-08 09:00:00'),
+      event('page_view', '2025-01-08 10:00:00'),
+      event('page_view', '2025-01-06 10:00:00', { sessionId: 's2' }),
+      event('page_view', '2024-12-01 10:00:00', { sessionId: 'old' })
+    );
+
+    const { summary, timeSeries } = await report('7d');
+
+    expect(summary).toMatchObject({ pageViews: 3, sessions: 2 });
+    expect(timeSeries).toHaveLength(8);
+    expect(timeSeries.at(-1)).toEqual({
+      start: '2025-01-08T00:00:00.000Z',
+      pageViews: 2,
+      sessions: 1,
+    });
+    expect(timeSeries.find(({ start }) => start.startsWith('2025-01-07'))).toMatchObject({
+      pageViews: 0,
+    });
+  });
+
+  test('bucket the last day by hour', async () => {
+    await store(event('page_view', '2025-01-08 12:05:00'));
+
+    const { timeSeries } = await report('1d');
+
+    expect(timeSeries).toHaveLength(25);
+    expect(timeSeries.at(-1)).toEqual({
+      start: '2025-01-08T12:00:00.000Z',
+      pageViews: 1,
+      sessions: 1,
+    });
+  });
+
+  test('count every event in a busy range', async () => {
+    await cms.query(
+      `WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n WHERE i < 25000)
+       INSERT INTO analytics (event_type, event_data, page_url, session_id, created_at)
+       SELECT 'page_view', '{}', 'https://example.com/', 'visitor-' || (i % 500),
+         '2025-01-07 10:00:00'
+       FROM n`
+    );
+
+    const { summary } = await report('30d');
+
+    expect(summary).toMatchObject({ pageViews: 25000, sessions: 500 });
+  });
+
+  test('rank projects by views under their latest title', async () => {
+    const view = (id: string | number, title: string, at: string, session = 's1') =>
+      event('project_view', at, {
+        eventData: { projectId: id, projectTitle: title },
+        sessionId: session,
+      });
+
+    await store(
+      view('4', 'Old name', '2025-01-07 10:00:00'),
+      view('4', 'Robot arm', '2025-01-08 10:00:00', 's2'),
+      view('4', 'Robot arm', '2025-01-08 11:00:00', 's2'),
+      view(7, 'Website', '2025-01-08 10:00:00')
+    );
+
+    const { topProjects, summary } = await report('7d');
+
+    expect(summary.projectViews).toBe(4);
+    expect(topProjects).toEqual([
+      { projectId: '4', title: 'Robot arm', views: 3, sessions: 2 },
+      { projectId: '7', title: 'Website', views: 1, sessions: 1 },
+    ]);
+  });
+
+  test('attribute each session to the referrer of its first page view', async () => {
+    await store(
+      event('page_view', '2025-01-08 10:00:00', { referrer: 'https://news.ycombinator.com/' }),
+      event('page_view', '2025-01-08 10:01:00', { referrer: 'https://example.com/' }),
+      event('page_view', '2025-01-08 10:00:00', { sessionId: 's2' }),
+      event('page_view', '2025-01-08 10:00:00', {
+        sessionId: 's3',
+        referrer: 'https://news.ycombinator.com/',
+      })
+    );
+
+    const { referrers } = await report('7d');
+
+    expect(referrers).toEqual([
+      { source: 'news.ycombinator.com', sessions: 2 },
+      { source: 'Direct', sessions: 1 },
+    ]);
+  });
+
+  test('funnel scroll depth per route from sessions that viewed it', async () => {
+    const page = 'https://example.com/projects/4';
+    const scroll = (percentage: number, session: string) =>
+      event('scroll_depth', '2025-01-08 10:00:00', {
+        pageUrl: page,
+        sessionId: session,
+        eventData: { percentage },
+      });
+
+    await store(
+      event('page_view', '2025-01-08 10:00:00', { pageUrl: page, sessionId: 'a' }),
+      event('page_view', '2025-01-08 10:00:00', {
+        pageUrl: 'https://example.com/projects/7',
+        sessionId: 'b',
+      }),
+      event('scroll_depth', '2025-01-08 10:00:00', {
+        pageUrl: 'https://example.com/projects/7',
+        sessionId: 'b',
+        eventData: { percentage: 50 },
+      }),
+      scroll(25, 'a'),
+      scroll(75, 'a'),
+      event('scroll_depth', '2025-01-08 10:00:00', {
+        pageUrl: page,
+        sessionId: 'a',
+        eventData: { percentage: 'all' },
+      }),
+      scroll(100, 'no-page-view')
+    );
+
+    const { scrollFunnels } = await report('7d');
+
+    expect(scrollFunnels).toEqual([
+      { route: '/projects/[id]', sessions: 2, reached: { 25: 2, 50: 2, 75: 1, 100: 0 } },
+    ]);
+  });
+
+  test('average time on page and skip unreadable event data', async () => {
+    await store(
+      event('time_on_page', '2025-01-08 10:00:00', { eventData: { timeSpent: 30 } }),
+      event('time_on_page', '2025-01-08 10:00:00', { eventData: { timeSpent: 45 } }),
+      event('time_on_page', '2025-01-08 10:00:00', { eventData: { timeSpent: 'long' } }),
+      event('time_on_page', '2025-01-08 10:00:00', { eventData: '{not json' }),
+      event('page_view', '2025-01-08 10:00:00', { sessionId: null })
+    );
+
+    const { summary } = await report('7d');
+
+    expect(summary).toEqual({ pageViews: 1, sessions: 1, projectViews: 0, avgTimeOnPage: 38 });
+  });
+
+  test('place sessions active in the last five minutes on their latest page', async () => {
+    await store(
+      event('page_view', '2025-01-08 12:27:00', { pageUrl: 'https://example.com/' }),
+      event('page_view', '2025-01-08 12:29:00', { pageUrl: 'https://example.com/projects' }),
+      event('page_view', '2025-01-08 12:28:00', {
+        sessionId: 's2',
+        pageUrl: 'https://example.com/projects?utm_source=newsletter',
+      }),
+      event('page_view', '2025-01-08 12:20:00', { sessionId: 'gone' })
+    );
+
+    const result = await cms
+      .client()
+      .analytics.realtime({ from: new Date(NOW.getTime() - REALTIME_WINDOW_MS) });
+    if (!result.success) throw new Error(result.error);
+    const snapshot = buildRealtimeSnapshot(result.data);
+
+    expect(snapshot.activeSessions).toBe(2);
+    expect(snapshot.pages).toEqual([{ page: '/projects', sessions: 2 }]);
+    expect(snapshot.recent.map(({ at }) => at)).toEqual([
+      '2025-01-08T12:29:00.000Z',
+      '2025-01-08T12:28:00.000Z',
+      '2025-01-08T12:27:00.000Z',
+    ]);
+  });
+});
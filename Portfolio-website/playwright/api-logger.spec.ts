@@ -0,0 +1,227 @@
+import { test, expect } from '@playwright/test';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import type { NextRequest } from 'next/server';
+import {
+  apiLogger,
+  formatLogEntry,
+  HttpSink,
+  LogLevel,
+  MemorySink,
+  parseLogLevel,
+  resolveRequestId,
+  StdoutSink,
+  type LogEntry,
+} from '../lib/api-logger';
+import { RotatingFileSink } from '../lib/log-file-sink';
+import { StubCms, startStubCms } from './stub-cms';
+
+const entry = (message: string, overrides: Partial<LogEntry> = {}): LogEntry => ({
+  level: LogLevel.INFO,
+  message,
+  timestamp: '2025-01-08T12:00:00.000Z',
+  requestId: 'req_1736337600000_abc123def',
+  ...overrides,
+});
+
+test.describe('Log entries', () => {
+  test('serialize to one JSON line with the error stack', () => {
+    const error = new Error('boom');
+    const line = formatLogEntry(entry('API Error: boom', { level: LogLevel.ERROR, error }));
+
+    expect(line).not.toContain('\n');
+    expect(JSON.parse(line)).toMatchObject({
+      timestamp: '2025-01-08T12:00:00.000Z',
+      level: 'ERROR',
+      requestId: 'req_1736337600000_abc123def',
+      message: 'API Error: boom',
+      error: { name: 'Error', message: 'boom', stack: error.stack },
+    });
+  });
+
+  test('parse LOG_LEVEL case-insensitively', () => {
+    expect(parseLogLevel('warn', LogLevel.INFO)).toBe(LogLevel.WARN);
+    expect(parseLogLevel('verbose', LogLevel.INFO)).toBe(LogLevel.INFO);
+    expect(parseLogLevel(undefined, LogLevel.DEBUG)).toBe(LogLevel.DEBUG);
+  });
+
+  test('reuse well-formed upstream request IDs only', () => {
+    expect(resolveRequestId('req_1736337600000_abc123def')).toBe('req_1736337600000_abc123def');
+    expect(resolveRequestId('short')).toMatch(/^req_\d+_[a-z0-9]+$/);
+    expect(resolveRequestId('bad id\nwith newline')).toMatch(/^req_/);
+    expect(resolveRequestId(null)).toMatch(/^req_/);
+  });
+});
+
+test.describe('Logger', () => {
+  let memory: MemorySink;
+
+  test.beforeEach(() => {
+    memory = new MemorySink();
+    apiLogger.setSinks([memory]);
+    apiLogger.setLevel(LogLevel.INFO);
+  });
+
+  test.afterEach(() => {
+    apiLogger.setSinks([new StdoutSink()]);
+  });
+
+  test('drop entries below the configured level', () => {
+    apiLogger.logDebug('req-a', 'hidden');
+    apiLogger.logWarning('req-a', 'shown');
+
+    expect(memory.recent().map(({ message }) => message)).toEqual(['API Warning: shown']);
+  });
+
+  test('log route requests under the ID the middleware forwarded', () => {
+    const request = new Request('https://example.com/api/upload?limit=5', {
+      headers: { 'x-request-id': 'req_1736337600000_abc123def' },
+    }) as unknown as NextRequest;
+
+    const requestId = apiLogger.logRequest(request, undefined, 'list_uploads');
+    apiLogger.logResponse(requestId, 200, 12);
+
+    expect(requestId).toBe('req_1736337600000_abc123def');
+    expect(memory.byRequestId(requestId)).toHaveLength(2);
+    expect(memory.recent()[0].metadata).toMatchObject({
+      method: 'GET',
+      url: '/api/upload?limit=5',
+      action: 'list_uploads',
+    });
+  });
+
+  test('keep other sinks writing when one throws', () => {
+    apiLogger.setSinks([
+      {
+        write: () => {
+          throw new Error('disk full');
+        },
+      },
+      memory,
+    ]);
+
+    apiLogger.logWarning(undefined, 'still logged');
+
+    expect(memory.recent()).toHaveLength(1);
+  });
+});
+
+test.describe('HTTP sink', () => {
+  test('POST batches of JSON lines with the bearer token', async () => {
+    const requests: { body: string; headers: Headers }[] = [];
+    const sink = new HttpSink({
+      url: 'https://logs.example.com/ingest',
+      token: 'secret',
+      batchSize: 2,
+      flushIntervalMs: 60_000,
+      fetch: async (_url, init) => {
+        requests.push({ body: String(init?.body), headers: new Headers(init?.headers) });
+        return new Response(null, { status: 204 });
+      },
+    });
+
+    sink.write(entry('one'));
+    sink.write(entry('two'));
+    sink.write(entry('three'));
+    await sink.flush();
+
+    expect(requests).toHaveLength(2);
+    expect(requests[0].headers.get('authorization')).toBe('Bearer secret');
+    expect(requests[0].headers.get('content-type')).toBe('application/x-ndjson');
+    expect(
+      requests[0].body
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line).message)
+    ).toEqual(['one', 'two']);
+    expect(JSON.parse(requests[1].body).message).toBe('three');
+  });
+});
+
+test.describe('Rotating file sink', () => {
+  let directory: string;
+
+  test.beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'api-logs-'));
+  });
+
+  test.afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  test('rotate at the size limit and keep a bounded number of files', async () => {
+    const file = path.join(directory, 'logs', 'api.log');
+    const lineBytes = formatLogEntry(entry('line 0')).length + 1;
+    const sink = new RotatingFileSink(file, { maxBytes: lineBytes * 2, maxFiles: 2 });
+
+    for (let index = 0; index < 7; index++) {
+      sink.write(entry(`line ${index}`));
+    }
+    await sink.flush();
+
+    const messages = async (name: string) =>
+      (await readFile(path.join(directory, 'logs', name), 'utf8'))
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line).message);
+
+    expect((await readdir(path.join(directory, 'logs'))).sort()).toEqual([
+      'api.log',
+      'api.log.1',
+      'api.log.2',
+    ]);
+    expect(await messages('api.log')).toEqual(['line 6']);
+    expect(await messages('api.log.1')).toEqual(['line 4', 'line 5']);
+    expect(await messages('api.log.2')).toEqual(['line 2', 'line 3']);
+  });
+});
+
+test.describe('CMS correlation', () => {
+  let cms: StubCms;
+
+  test.beforeEach(async () => {
+    cms = await startStubCms(() => ({ body: { data: [] } }));
+  });
+
+  test.afterEach(async () => {
+    await cms.close();
+  });
+
+  test('send the current request ID, except on cached requests', async () => {
+    const requestId = async () => 'req_1736337600000_abc123def';
+    const client = cms.client({}, undefined, requestId);
+    const cachedClient = cms.client({ cacheTime: 60 }, undefined, requestId);
+
+    await client.projects.list();
+    await cachedClient.projects.list();
+
+    expect(cms.requests.map(({ headers }) => headers['x-request-id'])).toEqual([
+      'req_1736337600000_abc123def',
+      undefined,
+    ]);
+  });
+
+  test('log CMS failures under the request ID', async () => {
+    const memory = new MemorySink();
+    apiLogger.setSinks([memory]);
+    const client = cms.client(
+      {},
+      () => 'CMS_API_KEY is not configured.',
+      async () => 'req_1736337600000_abc123def'
+    );
+
+    try {
+      await client.projects.list();
+    } finally {
+      apiLogger.setSinks([new StdoutSink()]);
+    }
+
+    expect(memory.byRequestId('req_1736337600000_abc123def')).toEqual([
+      expect.objectContaining({
+        level: LogLevel.ERROR,
+        message: '[cms] GET /api/projects/public not sent: CMS_API_KEY is not configured.',
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,114 @@
+import { test, expect } from '@playwright/test';
+import {
+  getAvailabilityRange,
+  listDates,
+  summarizeAvailability,
+} from '../lib/booking-availability';
+import { bookingAvailabilityRangeQuerySchema } from '../lib/validations';
+import { StubCms, startStubCms } from './stub-cms';
+
+const day = (date: string, overrides = {}) => ({
+  date,
+  dayOfWeek: new Date(`${date}T00:00:00Z`).getUTCDay(),
+  isAvailable: true,
+  duration: 60,
+  workingHours: [{ start: '09:00', end: '12:00' }],
+  availableSlots: ['09:00', '10:00', '11:00'],
+  bookedCount: 0,
+  blockedCount: 0,
+  ...overrides,
+});
+
+test.describe('Booking availability summaries', () => {
+  test('lists every date in an inclusive range across month ends', () => {
+    expect(listDates('2025-01-30', '2025-02-02')).toEqual([
+      '2025-01-30',
+      '2025-01-31',
+      '2025-02-01',
+      '2025-02-02',
+    ]);
+  });
+
+  test('counts free and total slots for open days', () => {
+    const summary = summarizeAvailability(day('2025-01-06', { availableSlots: ['11:00'] }), 60);
+
+    expect(summary).toEqual({
+      date: '2025-01-06',
+      status: 'open',
+      availableSlots: 1,
+      totalSlots: 3,
+    });
+  });
+
+  test('tells fully booked days apart from closed ones', () => {
+    const booked = day('2025-01-06', { isAvailable: false, availableSlots: [], bookedCount: 3 });
+    const blocked = day('2025-01-07', { isAvailable: false, availableSlots: [], blockedCount: 1 });
+    const override = {
+      date: '2025-01-08',
+      dayOfWeek: 3,
+      isAvailable: false,
+      reason: 'Conference',
+      workingHours: [],
+      availableSlots: [],
+      bookedCount: 0,
+      blockedCount: 0,
+    };
+
+    expect(summarizeAvailability(booked, 60).status).toBe('full');
+    expect(summarizeAvailability(blocked, 60).status).toBe('closed');
+    expect(summarizeAvailability(override, 60)).toMatchObject({
+      status: 'closed',
+      totalSlots: 0,
+      reason: 'Conference',
+    });
+  });
+
+  test('limits ranges to whole, ordered date spans', () => {
+    const parse = (query: Record<string, string>) =>
+      bookingAvailabilityRangeQuerySchema.safeParse(query).success;
+
+    expect(parse({ from: '2025-01-01', to: '2025-01-31' })).toBe(true);
+    expect(parse({ from: '2025-01-31', to: '2025-01-01' })).toBe(false);
+    expect(parse({ from: '2025-01-01', to: '2025-06-01' })).toBe(false);
+    expect(parse({ from: '2025-01-01', to: '2025-01-31', duration: '5' })).toBe(false);
+  });
+});
+
+test.describe('Booking availability ranges', () => {
+  let cms: StubCms;
+  let failDate: string | null;
+
+  test.beforeEach(async () => {
+    failDate = null;
+    cms = await startStubCms(({ url }) => {
+      const date = new URL(url, 'http://localhost').pathname.split('/').pop() ?? '';
+      return date === failDate ? { status: 503, body: { error: 'Down' } } : { body: day(date) };
+    });
+  });
+
+  test.afterEach(async () => {
+    await cms.close();
+  });
+
+  const client = () => cms.client();
+
+  test('returns one summary per day in order', async () => {
+    const result = await getAvailabilityRange(client(), '2025-01-06', '2025-01-15', 60);
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.map(({ date }) => date)).toEqual(listDates('2025-01-06', '2025-01-15'));
+      expect(result.data.every(({ status }) => status === 'open')).toBe(true);
+    }
+    expect(cms.requests).toHaveLength(10);
+  });
+
+  test('fails the whole range when a day fails', async () => {
+    failDate = '2025-01-07';
+
+    const result = await getAvailabilityRange(client(), '2025-01-06', '2025-01-31', 60);
+
+    expect(result).toMatchObject({ success: false, status: 503 });
+    expect(cms.requests.length).toBeLessThan(26);
+  });
+});
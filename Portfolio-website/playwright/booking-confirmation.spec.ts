@@ -0,0 +1,134 @@
+import { test, expect } from '@playwright/test';
+import { isBeforeChangeCutoff, signBookingToken, verifyBookingToken } from '../lib/booking-token';
+import { buildCalendarEvent, escapeText, foldLine } from '../lib/ics';
+
+const SECRET = 'booking-token-secret-for-tests-0123456789';
+
+const BOOKING = {
+  id: 42,
+  name: 'Ada Lovelace',
+  email: 'ada@example.com',
+  date: '2025-01-06',
+  time: '09:00',
+  duration: 30,
+  startsAt: '2025-01-06T08:00:00.000Z',
+  hostTimeZone: 'Europe/Berlin',
+  timeZone: 'America/New_York',
+  meetingType: '30min',
+  meetingLink: 'https://meet.google.com/abc-defg-hij',
+};
+
+test.describe('Booking tokens', () => {
+  test('round-trips the booking it was issued for', async () => {
+    const token = await signBookingToken(BOOKING, SECRET, Date.UTC(2025, 0, 1));
+    const verification = await verifyBookingToken(token, SECRET, Date.UTC(2025, 0, 2));
+
+    expect(verification).toEqual({
+      valid: true,
+      booking: {
+        ...BOOKING,
+        iat: Date.UTC(2025, 0, 1) / 1000,
+        exp: Date.parse('2025-01-06T08:30:00.000Z') / 1000,
+      },
+    });
+  });
+
+  test('expires when the meeting ends', async () => {
+    const token = await signBookingToken(BOOKING, SECRET, Date.UTC(2025, 0, 1));
+
+    expect(
+      (await verifyBookingToken(token, SECRET, Date.parse('2025-01-06T08:29:59.000Z'))).valid
+    ).toBe(true);
+    expect(await verifyBookingToken(token, SECRET, Date.parse('2025-01-06T08:30:00.000Z'))).toEqual(
+      { valid: false, reason: 'expired' }
+    );
+  });
+
+  test('closes changes at the configured cutoff before the start', () => {
+    const startsAt = '2025-01-06T08:00:00.000Z';
+
+    expect(isBeforeChangeCutoff(startsAt, 24, Date.parse('2025-01-05T07:59:00.000Z'))).toBe(true);
+    expect(isBeforeChangeCutoff(startsAt, 24, Date.parse('2025-01-05T08:00:00.000Z'))).toBe(false);
+    expect(isBeforeChangeCutoff(startsAt, 0, Date.parse('2025-01-06T07:59:00.000Z'))).toBe(true);
+  });
+
+  test('rejects tampered, foreign and malformed tokens', async () => {
+    const now = Date.UTC(2025, 0, 1);
+    const token = await signBookingToken(BOOKING, SECRET, now);
+    const [, signature] = token.split('.');
+    const forged = Buffer.from(JSON.stringify({ ...BOOKING, id: 43, iat: 0 })).toString(
+      'base64url'
+    );
+
+    expect(await verifyBookingToken(`${forged}.${signature}`, SECRET, now)).toEqual({
+      valid: false,
+      reason: 'invalid_signature',
+    });
+    expect((await verifyBookingToken(token, `${SECRET}-rotated`, now)).valid).toBe(false);
+    expect(await verifyBookingToken('not-a-token', SECRET)).toEqual({
+      valid: false,
+      reason: 'malformed',
+    });
+    expect(await verifyBookingToken(undefined, SECRET)).toEqual({
+      valid: false,
+      reason: 'missing',
+    });
+  });
+});
+
+test.describe('iCalendar export', () => {
+  const event = {
+    uid: 'booking-42@example.com',
+    start: new Date(BOOKING.startsAt),
+    duration: 30,
+    timeZone: 'Europe/Berlin',
+    summary: '30 min session with Jacob',
+    description: 'Join: https://meet.google.com/abc-defg-hij',
+    location: BOOKING.meetingLink,
+    organizer: { name: 'Jacob', email: 'hello@example.com' },
+    attendee: { name: BOOKING.name, email: BOOKING.email },
+    stamp: new Date('2025-01-01T12:00:00.000Z'),
+  };
+
+  test('anchors the event in the host zone with organizer and duration', () => {
+    const ics = buildCalendarEvent(event);
+    const lines = ics.split('\r\n');
+
+    expect(ics.endsWith('\r\n')).toBe(true);
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines).toContain('VERSION:2.0');
+    expect(lines).toContain('TZID:Europe/Berlin');
+    expect(lines).toContain('TZOFFSETTO:+0100');
+    expect(lines).toContain('DTSTART;TZID=Europe/Berlin:20250106T090000');
+    expect(lines).toContain('DURATION:PT30M');
+    expect(lines).toContain('DTSTAMP:20250101T120000Z');
+    expect(lines).toContain('ORGANIZER;CN="Jacob":mailto:hello@example.com');
+    expect(ics).toContain('ATTENDEE;CN="Ada Lovelace";ROLE=REQ-PARTICIPANT');
+    expect(lines.at(-2)).toBe('END:VCALENDAR');
+  });
+
+  test('writes UTC events without a VTIMEZONE', () => {
+    const ics = buildCalendarEvent({ ...event, timeZone: 'UTC' });
+
+    expect(ics).not.toContain('VTIMEZONE');
+    expect(ics).toContain('DTSTART:20250106T080000Z');
+  });
+
+  test('uses the offset in force at the meeting for negative, fractional zones', () => {
+    const ics = buildCalendarEvent({ ...event, timeZone: 'America/St_Johns' });
+
+    expect(ics).toContain('TZOFFSETTO:-0330');
+    expect(ics).toContain('DTSTART;TZID=America/St_Johns:20250106T043000');
+  });
+
+  test('escapes text and folds long lines at 75 octets', () => {
+    expect(escapeText('a,b;c\\d\ne')).toBe('a\\,b\\;c\\\\d\\ne');
+
+    const folded = foldLine(`DESCRIPTION:${'é'.repeat(60)}`);
+    const encoder = new TextEncoder();
+    for (const line of folded.split('\r\n')) {
+      expect(encoder.encode(line).length).toBeLessThanOrEqual(75);
+    }
+    expect(folded.replace(/\r\n /g, '')).toBe(`DESCRIPTION:${'é'.repeat(60)}`);
+  });
+});
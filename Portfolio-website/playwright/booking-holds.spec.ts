@@ -0,0 +1,214 @@
+import { test, expect } from '@playwright/test';
+import { apiLogger, MemorySink, StdoutSink } from '../lib/api-logger';
+import { bookingHoldRequestSchema } from '../lib/validations';
+import { CMS_INSTALLED, CmsServer, startCmsServer } from './cms-server';
+import { StubCms, startStubCms } from './stub-cms';
+
+const holdId = '0b8e5a56-3c0f-4f43-9d0e-5b6f1b2f9a11';
+
+const holdRequest = {
+  date: '2025-01-08',
+  time: '14:00',
+  startsAt: '2025-01-08T13:00:00.000Z',
+  meetingType: '30min',
+};
+
+test.describe('Booking hold requests', () => {
+  test('accept a slot with or without a previous hold', () => {
+    expect(bookingHoldRequestSchema.safeParse(holdRequest).success).toBe(true);
+    expect(bookingHoldRequestSchema.safeParse({ ...holdRequest, holdId }).success).toBe(true);
+  });
+
+  test('reject malformed hold IDs and missing meeting types', () => {
+    const fields = (body: Record<string, unknown>) => {
+      const result = bookingHoldRequestSchema.safeParse(body);
+      return result.success ? [] : result.error.issues.map(({ path }) => path.join('.'));
+    };
+
+    expect(fields({ ...holdRequest, holdId: 'hold-1' })).toEqual(['holdId']);
+    expect(fields({ ...holdRequest, meetingType: ' ' })).toEqual(['meetingType']);
+  });
+});
+
+test.describe('Booking holds in the CMS', () => {
+  let cms: StubCms;
+  let holdTaken: boolean;
+
+  test.beforeEach(async () => {
+    holdTaken = false;
+    cms = await startStubCms(({ url }) => {
+      if (url === '/api/bookings/holds') {
+        return holdTaken
+          ? { status: 409, body: { error: 'Time slot no longer available' } }
+          : {
+              status: 201,
+              body: {
+                hold: {
+                  id: holdId,
+                  date: '2025-01-08',
+                  time: '14:00',
+                  duration: 30,
+                  expiresAt: '2025-01-06T10:05:00.000Z',
+                },
+              },
+            };
+      }
+
+      return {
+        body: {
+          date: '2025-01-08',
+          dayOfWeek: 3,
+          isAvailable: true,
+          availableSlots: ['14:00'],
+          bookedCount: 0,
+          blockedCount: 0,
+        },
+      };
+    });
+  });
+
+  test.afterEach(async () => {
+    await cms.close();
+  });
+
+  const hold = {
+    date: '2025-01-08',
+    time: '14:00',
+    duration: 30,
+    bufferBefore: 0,
+    bufferAfter: 15,
+    expiresInMinutes: 5,
+  };
+
+  test('posts the slot and returns the hold', async () => {
+    const result = await cms.client().bookings.hold({ ...hold, replaceHoldId: holdId });
+
+    expect(result).toMatchObject({ success: true, data: { hold: { id: holdId, duration: 30 } } });
+    expect(cms.requests).toEqual([
+      expect.objectContaining({
+        method: 'POST',
+        url: '/api/bookings/holds',
+        body: { ...hold, replaceHoldId: holdId },
+      }),
+    ]);
+  });
+
+  test('reports a slot held by someone else as a conflict', async () => {
+    holdTaken = true;
+
+    expect(await cms.client().bookings.hold(hold)).toMatchObject({
+      success: false,
+      status: 409,
+      error: 'Time slot no longer available',
+    });
+  });
+
+  test('passes the visitor hold to the availability lookup', async () => {
+    await cms.client().bookings.availability('2025-01-08', 30, {
+      buffers: { before: 0, after: 15 },
+      holdId,
+    });
+
+    expect(cms.requests.map(({ url }) => url)).toEqual([
+      `/api/bookings/availability/2025-01-08?duration=30&bufferBefore=0&bufferAfter=15&holdId=${holdId}`,
+    ]);
+  });
+});
+
+test.describe('Booking hold handlers', () => {
+  test.skip(!CMS_INSTALLED, 'Portfolio-CMS dependencies are not installed');
+
+  let cms: CmsServer;
+
+  // A Monday; the default working hours are 09:00-12:00 and 13:00-17:00
+  const date = '2099-01-05';
+  const slot = {
+    date,
+    time: '10:00',
+    duration: 30,
+    bufferBefore: 0,
+    bufferAfter: 0,
+    expiresInMinutes: 5,
+  };
+  const visitor = { name: 'Ada Lovelace', email: 'ada@example.com', meetingType: '30min' };
+
+  test.beforeAll(async () => {
+    apiLogger.setSinks([new MemorySink()]);
+    cms = await startCmsServer();
+  });
+
+  test.afterAll(async () => {
+    await cms?.stop();
+    apiLogger.setSinks([new StdoutSink()]);
+  });
+
+  test.beforeEach(async () => {
+    await cms.query('DELETE FROM bookings');
+    await cms.query('DELETE FROM booking_holds');
+  });
+
+  const openSlots = async (holdId?: string) => {
+    const result = await cms.client().bookings.availability(date, 30, { holdId });
+    if (!result.success) throw new Error(result.error);
+    return result.data.availableSlots;
+  };
+
+  const book = (time: string, holdId?: string) =>
+    cms.client().bookings.create({ ...visitor, date, time, duration: 30, holdId });
+
+  test('give a contested slot to exactly one visitor', async () => {
+    const results = await Promise.all(
+      Array.from({ length: 5 }, () => cms.client().bookings.hold(slot))
+    );
+
+    expect(results.filter((result) => result.success)).toHaveLength(1);
+    expect(results.filter((result) => !result.success).map(({ status }) => status)).toEqual([
+      409, 409, 409, 409,
+    ]);
+  });
+
+  test('reject holds whose buffers reach into a booking', async () => {
+    expect((await book('10:30')).success).toBe(true);
+
+    const padded = await cms.client().bookings.hold({ ...slot, bufferAfter: 15 });
+    const unpadded = await cms.client().bookings.hold(slot);
+
+    expect(padded).toMatchObject({ success: false, status: 409 });
+    expect(unpadded.success).toBe(true);
+  });
+
+  test('hide held slots from everyone but the holder', async () => {
+    const hold = await cms.client().bookings.hold(slot);
+    if (!hold.success) throw new Error(hold.error);
+
+    expect(await openSlots()).not.toContain('10:00');
+    expect(await openSlots(hold.data.hold.id)).toContain('10:00');
+  });
+
+  test('free the slot once the hold expires', async () => {
+    const hold = await cms.client().bookings.hold(slot);
+    if (!hold.success) throw new Error(hold.error);
+    await cms.query('UPDATE booking_holds SET expires_at = ?', [new Date(0).toISOString()]);
+
+    expect(await openSlots()).toContain('10:00');
+    expect((await cms.client().bookings.hold(slot)).success).toBe(true);
+  });
+
+  test('let only the holder book a held slot, consuming the hold', async () => {
+    const hold = await cms.client().bookings.hold(slot);
+    if (!hold.success) throw new Error(hold.error);
+
+    expect(await book('10:00')).toMatchObject({ success: false, status: 409 });
+    expect(await book('10:15')).toMatchObject({ success: false, status: 409 });
+    expect((await book('10:00', hold.data.hold.id)).success).toBe(true);
+    expect(await cms.query('SELECT id FROM booking_holds')).toEqual([]);
+    expect(await cms.client().bookings.hold(slot)).toMatchObject({ success: false, status: 409 });
+  });
+
+  test('never double-book overlapping slots without holds', async () => {
+    const results = await Promise.all([book('10:00'), book('10:15'), book('10:00')]);
+
+    expect(results.filter((result) => result.success)).toHaveLength(1);
+    expect(await cms.query('SELECT time FROM bookings')).toHaveLength(1);
+  });
+});
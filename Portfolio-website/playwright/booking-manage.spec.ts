@@ -0,0 +1,125 @@
+import { test, expect } from '@playwright/test';
+import { apiLogger, MemorySink, StdoutSink } from '../lib/api-logger';
+import { CMS_INSTALLED, CmsServer, startCmsServer } from './cms-server';
+
+test.describe('Guest booking handlers', () => {
+  test.skip(!CMS_INSTALLED, 'Portfolio-CMS dependencies are not installed');
+
+  let cms: CmsServer;
+
+  // A Monday
+  const date = '2099-01-05';
+  const visitor = { name: 'Ada Lovelace', email: 'ada@example.com', meetingType: '60min' };
+
+  test.beforeAll(async () => {
+    apiLogger.setSinks([new MemorySink()]);
+    cms = await startCmsServer();
+    // Hourly slots on the hour and on the half hour
+    await cms.query(
+      `INSERT INTO available_slots (date, start_time, end_time) VALUES (?, '09:00', '12:00'), (?, '09:30', '12:00')`,
+      [date, date]
+    );
+  });
+
+  test.afterAll(async () => {
+    await cms?.stop();
+    apiLogger.setSinks([new StdoutSink()]);
+  });
+
+  test.beforeEach(async () => {
+    await cms.query('DELETE FROM bookings');
+  });
+
+  const book = async (time: string, email = visitor.email) => {
+    const result = await cms
+      .client()
+      .bookings.create({ ...visitor, email, date, time, duration: 60 });
+    if (!result.success) throw new Error(result.error);
+    return result.data.bookingId;
+  };
+
+  const openSlots = async (excludeBookingId?: number) => {
+    const result = await cms.client().bookings.availability(date, 60, { excludeBookingId });
+    if (!result.success) throw new Error(result.error);
+    return result.data.availableSlots;
+  };
+
+  test("keep the visitor's time zone with the booking", async () => {
+    const created = await cms
+      .client()
+      .bookings.create({ ...visitor, date, time: '09:00', duration: 60, timeZone: 'Asia/Tokyo' });
+    if (!created.success) throw new Error(created.error);
+
+    expect(await cms.client().bookings.get(created.data.bookingId, visitor.email)).toMatchObject({
+      success: true,
+      data: { booking: { timeZone: 'Asia/Tokyo' } },
+    });
+    expect(
+      await cms.client().bookings.create({
+        ...visitor,
+        date,
+        time: '11:00',
+        duration: 60,
+        timeZone: 'Mars/Olympus',
+      })
+    ).toMatchObject({ success: false, status: 400 });
+  });
+
+  test('list slots overlapping the booking being moved', async () => {
+    const bookingId = await book('10:00');
+
+    expect(await openSlots()).not.toContain('10:30');
+    expect(await openSlots(bookingId)).toContain('10:30');
+  });
+
+  test('move a booking by less than its duration', async () => {
+    const bookingId = await book('10:00');
+
+    const result = await cms.client().bookings.reschedule(bookingId, {
+      email: visitor.email,
+      date,
+      time: '10:30',
+    });
+
+    expect(result).toMatchObject({ success: true, data: { booking: { time: '10:30' } } });
+    expect(await openSlots()).not.toContain('10:00');
+  });
+
+  test('report when the booking last changed', async () => {
+    const bookingId = await book('10:00');
+    await cms.query(
+      `UPDATE bookings SET created_at = '2098-12-01 08:00:00', updated_at = '2098-12-01 08:00:00'`
+    );
+
+    const result = await cms.client().bookings.reschedule(bookingId, {
+      email: visitor.email,
+      date,
+      time: '10:30',
+    });
+
+    expect(result).toMatchObject({
+      success: true,
+      data: { booking: { createdAt: '2098-12-01 08:00:00' } },
+    });
+    if (!result.success) throw new Error(result.error);
+    expect(result.data.booking.updatedAt).not.toBe('2098-12-01 08:00:00');
+    expect(await cms.client().bookings.get(bookingId, visitor.email)).toMatchObject({
+      success: true,
+      data: { booking: { updatedAt: result.data.booking.updatedAt } },
+    });
+  });
+
+  test('still refuse moves onto other bookings', async () => {
+    const bookingId = await book('10:00');
+    await book('11:00', 'grace@example.com');
+
+    expect(await openSlots(bookingId)).not.toContain('10:30');
+    expect(
+      await cms.client().bookings.reschedule(bookingId, {
+        email: visitor.email,
+        date,
+        time: '10:30',
+      })
+    ).toMatchObject({ success: false, status: 409 });
+  });
+});
@@ -0,0 +1,193 @@
+import { test, expect } from '@playwright/test';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { findDueReminders, ReminderLog, sendDueReminders } from '../lib/booking-reminders';
+import { formatMeetingTime, type EmailMessage } from '../lib/notifications/templates';
+import type { CmsBooking } from '../lib/validations';
+import { StubCms, startStubCms } from './stub-cms';
+
+const HOUR = 60 * 60 * 1000;
+const offsetsMinutes = [24 * 60, 60];
+
+// 2025-01-08 14:00 in Berlin
+const startsAt = new Date('2025-01-08T13:00:00.000Z');
+
+const booking: CmsBooking = {
+  id: 42,
+  name: 'Ada Lovelace',
+  email: 'ada@example.com',
+  date: '2025-01-08',
+  time: '14:00',
+  duration: 30,
+  status: 'confirmed',
+  meeting_type: '30min',
+  meeting_link: 'https://meet.example.com/abc',
+  created_at: '2025-01-01 09:00:00',
+};
+
+const dueAt = (hoursBefore: number, sent = new Set<string>(), bookings = [booking]) =>
+  findDueReminders(bookings, {
+    offsetsMinutes,
+    hostTimeZone: 'Europe/Berlin',
+    now: new Date(startsAt.getTime() - hoursBefore * HOUR),
+    sent,
+  }).map(({ key, offsetMinutes }) => ({ key, offsetMinutes }));
+
+test.describe('Due reminders', () => {
+  test('nothing is due before the first offset', () => {
+    expect(dueAt(25)).toEqual([]);
+  });
+
+  test('send the 24 hour reminder, then the 1 hour one', () => {
+    expect(dueAt(23)).toEqual([{ key: '42:2025-01-08T13:00:00.000Z:1440', offsetMinutes: 1440 }]);
+    expect(dueAt(0.5)).toEqual([{ key: '42:2025-01-08T13:00:00.000Z:60', offsetMinutes: 60 }]);
+  });
+
+  test('skip reminders that were already sent or whose meeting started', () => {
+    expect(dueAt(23, new Set(['42:2025-01-08T13:00:00.000Z:1440']))).toEqual([]);
+    expect(dueAt(-0.5)).toEqual([]);
+  });
+
+  test('skip offsets that had passed when the booking was made', () => {
+    const lastMinute = { ...booking, created_at: '2025-01-08 08:00:00' };
+
+    expect(dueAt(4, new Set(), [lastMinute])).toEqual([]);
+    expect(dueAt(0.5, new Set(), [lastMinute])).toHaveLength(1);
+  });
+
+  test('ignore bookings that are not confirmed', () => {
+    expect(dueAt(23, new Set(), [{ ...booking, status: 'cancelled' }])).toEqual([]);
+  });
+});
+
+test.describe('Reminder runs', () => {
+  let cms: StubCms;
+  let directory: string;
+  let sent: EmailMessage[];
+  let listed: CmsBooking[];
+
+  test.beforeEach(async () => {
+    sent = [];
+    listed = [booking];
+    directory = await mkdtemp(path.join(tmpdir(), 'reminders-'));
+    cms = await startStubCms(({ url }) => ({
+      body:
+        url === '/api/bookings/meeting-types'
+          ? {
+              meetingTypes: [
+                {
+                  id: 1,
+                  slug: '30min',
+                  name: 'Intro call',
+                  description: null,
+                  duration: 30,
+                  locationType: 'video',
+                  enabled: true,
+                },
+              ],
+            }
+          : { data: listed, meta: { total: listed.length, upcoming: listed.length } },
+    }));
+  });
+
+  test.afterEach(async () => {
+    await cms.close();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  const run = (log: ReminderLog, send = async (message: EmailMessage) => void sent.push(message)) =>
+    sendDueReminders({
+      client: cms.client(),
+      send,
+      log,
+      offsetsMinutes,
+      hostTimeZone: 'Europe/Berlin',
+      manageUrl: async ({ id }) => `https://example.com/manage/${id}`,
+      now: new Date(startsAt.getTime() - 23 * HOUR),
+    });
+
+  test('email the guest and log the reminder', async () => {
+    const file = path.join(directory, 'reminders.jsonl');
+
+    expect(await run(new ReminderLog(file))).toEqual({ due: 1, sent: 1, failed: 0 });
+    expect(cms.requests[0].url).toBe('/api/bookings?status=confirmed&from=2025-01-06');
+    expect(sent).toHaveLength(1);
+    expect(sent[0].to).toBe('ada@example.com');
+    expect(sent[0].subject).toBe('Reminder: your meeting starts in 24 hours');
+    expect(sent[0].text).toContain('Session: Intro call');
+    expect(sent[0].text).toContain('https://example.com/manage/42');
+    expect(JSON.parse(await readFile(file, 'utf8'))).toMatchObject({
+      key: '42:2025-01-08T13:00:00.000Z:1440',
+      bookingId: 42,
+    });
+  });
+
+  test("show the time in the visitor's zone when the CMS stored it", async () => {
+    const file = path.join(directory, 'reminders.jsonl');
+    listed = [{ ...booking, time_zone: 'America/New_York' }];
+
+    await run(new ReminderLog(file));
+
+    expect(sent[0].text).toContain(formatMeetingTime(startsAt.toISOString(), 'America/New_York'));
+  });
+
+  test('do not send again after a restart', async () => {
+    const file = path.join(directory, 'reminders.jsonl');
+    await run(new ReminderLog(file));
+
+    expect(await run(new ReminderLog(file))).toEqual({ due: 0, sent: 0, failed: 0 });
+    expect(sent).toHaveLength(1);
+  });
+
+  test('retry failed sends on the next run', async () => {
+    const file = path.join(directory, 'reminders.jsonl');
+    const failing = async () => {
+      throw new Error('SMTP down');
+    };
+
+    expect(await run(new ReminderLog(file), failing)).toEqual({ due: 1, sent: 0, failed: 1 });
+    expect(await run(new ReminderLog(file))).toEqual({ due: 1, sent: 1, failed: 0 });
+  });
+
+  test('skip the run while another one holds the lock', async () => {
+    const file = path.join(directory, 'reminders.jsonl');
+    await writeFile(`${file}.lock`, '1234');
+
+    expect(await run(new ReminderLog(file))).toBeNull();
+    expect(cms.requests).toEqual([]);
+  });
+
+  test('prune reminders for meetings that have started', async () => {
+    const file = path.join(directory, 'reminders.jsonl');
+    const entry = (key: string, entryStartsAt: string) =>
+      JSON.stringify({ key, bookingId: 1, offsetMinutes: 60, startsAt: entryStartsAt });
+    await writeFile(
+      file,
+      `${entry('1:past', '2025-01-01T09:00:00.000Z')}\n${entry('2:upcoming', startsAt.toISOString())}\n`
+    );
+
+    const keys = await new ReminderLog(file).sentKeys(new Date(startsAt.getTime() - HOUR));
+
+    expect([...keys]).toEqual(['2:upcoming']);
+    expect((await readFile(file, 'utf8')).trim().split('\n')).toHaveLength(1);
+  });
+
+  test('drop torn or malformed log lines', async () => {
+    const file = path.join(directory, 'reminders.jsonl');
+    const entry = JSON.stringify({
+      key: '2:upcoming',
+      bookingId: 2,
+      offsetMinutes: 60,
+      startsAt: startsAt.toISOString(),
+    });
+    await writeFile(file, `{"key":"1:torn","booking\n${entry}\nnull\n`);
+
+    const log = new ReminderLog(file);
+    const keys = await log.sentKeys(new Date(startsAt.getTime() - HOUR));
+
+    expect([...keys]).toEqual(['2:upcoming']);
+    expect(await readFile(file, 'utf8')).toBe(`${entry}\n`);
+    expect([...(await log.sentKeys(new Date(startsAt.getTime() - HOUR)))]).toEqual(['2:upcoming']);
+  });
+});
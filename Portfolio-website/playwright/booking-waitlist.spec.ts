@@ -0,0 +1,284 @@
+import { test, expect } from '@playwright/test';
+import { apiLogger, MemorySink, StdoutSink } from '../lib/api-logger';
+import { bookingWaitlistRequestSchema, waitlistClaimTokenSchema } from '../lib/validations';
+import { CMS_INSTALLED, CmsServer, startCmsServer } from './cms-server';
+import { StubCms, startStubCms } from './stub-cms';
+
+const claimToken = 'a'.repeat(64);
+
+const offer = {
+  date: '2025-01-08',
+  time: '14:00',
+  duration: 30,
+  meetingType: '30min',
+  name: 'Ada Lovelace',
+  email: 'ada@example.com',
+  holdId: '0b8e5a56-3c0f-4f43-9d0e-5b6f1b2f9a11',
+  expiresAt: '2025-01-06T11:00:00.000Z',
+};
+
+test.describe('Waitlist requests', () => {
+  const signup = {
+    name: 'Ada Lovelace',
+    email: 'ada@example.com',
+    date: '2025-01-08',
+    meetingType: '30min',
+  };
+
+  test('accept a signup and normalize whitespace in the name', () => {
+    const result = bookingWaitlistRequestSchema.safeParse({
+      ...signup,
+      name: '  Ada \n Lovelace ',
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.name).toBe('Ada Lovelace');
+  });
+
+  test('reject missing contact details, dates and meeting types', () => {
+    const result = bookingWaitlistRequestSchema.safeParse({
+      name: 'A',
+      email: 'not-an-email',
+      date: '08.01.2025',
+      meetingType: '',
+    });
+
+    expect(result.error?.issues.map(({ path }) => path.join('.')).sort()).toEqual([
+      'date',
+      'email',
+      'meetingType',
+      'name',
+    ]);
+  });
+
+  test('only accept well-formed claim tokens', () => {
+    expect(waitlistClaimTokenSchema.safeParse(claimToken).success).toBe(true);
+    expect(waitlistClaimTokenSchema.safeParse('A'.repeat(64)).success).toBe(false);
+    expect(waitlistClaimTokenSchema.safeParse('../holds').success).toBe(false);
+  });
+});
+
+test.describe('Waitlist in the CMS', () => {
+  let cms: StubCms;
+
+  test.beforeEach(async () => {
+    cms = await startStubCms(({ url, body }) => {
+      if (url === '/api/bookings/waitlist') {
+        const signup = body as { email: string; date: string; meetingType: string };
+        return signup.email === 'waiting@example.com'
+          ? { status: 409, body: { error: 'Already on the waitlist for this date' } }
+          : {
+              status: 201,
+              body: {
+                entry: { id: 7, date: signup.date, meetingType: signup.meetingType, position: 2 },
+              },
+            };
+      }
+
+      if (url === `/api/bookings/waitlist/offers/${claimToken}`) {
+        return { body: { offer } };
+      }
+
+      return { status: 404, body: { error: 'Offer not found or expired' } };
+    });
+  });
+
+  test.afterEach(async () => {
+    await cms.close();
+  });
+
+  const entry = {
+    name: 'Ada Lovelace',
+    email: 'ada@example.com',
+    date: '2025-01-08',
+    meetingType: '30min',
+  };
+
+  test('joins the waitlist and reports the position', async () => {
+    const result = await cms.client().bookings.joinWaitlist(entry);
+
+    expect(result).toMatchObject({ success: true, data: { entry: { id: 7, position: 2 } } });
+    expect(cms.requests).toEqual([
+      expect.objectContaining({ method: 'POST', url: '/api/bookings/waitlist', body: entry }),
+    ]);
+  });
+
+  test('reports a repeated signup as a conflict', async () => {
+    expect(
+      await cms.client().bookings.joinWaitlist({ ...entry, email: 'waiting@example.com' })
+    ).toMatchObject({
+      success: false,
+      status: 409,
+      error: 'Already on the waitlist for this date',
+    });
+  });
+
+  test('loads an open offer by its claim token', async () => {
+    expect(await cms.client().bookings.waitlistOffer(claimToken)).toEqual({
+      success: true,
+      data: { offer },
+      status: 200,
+    });
+  });
+
+  test('fails with 404 once the offer is gone', async () => {
+    expect(await cms.client().bookings.waitlistOffer('b'.repeat(64))).toMatchObject({
+      success: false,
+      status: 404,
+    });
+  });
+});
+
+test.describe('Waitlist handlers', () => {
+  test.skip(!CMS_INSTALLED, 'Portfolio-CMS dependencies are not installed');
+
+  let cms: CmsServer;
+
+  const date = '2099-01-05';
+
+  test.beforeAll(async () => {
+    apiLogger.setSinks([new MemorySink()]);
+    cms = await startCmsServer({ WAITLIST_SWEEP_SECONDS: '1' });
+  });
+
+  test.afterAll(async () => {
+    await cms?.stop();
+    apiLogger.setSinks([new StdoutSink()]);
+  });
+
+  test.beforeEach(async () => {
+    await cms.query('DELETE FROM bookings');
+    await cms.query('DELETE FROM booking_holds');
+    await cms.query('DELETE FROM booking_waitlist');
+  });
+
+  const book = async (email: string, time = '10:00') => {
+    const result = await cms.client().bookings.create({
+      name: 'Grace Hopper',
+      email,
+      date,
+      time,
+      duration: 30,
+      meetingType: '30min',
+      notifyGuest: false,
+    });
+    if (!result.success) throw new Error(result.error);
+    return result.data.booking.id;
+  };
+
+  const join = async (email: string, meetingType = '30min') => {
+    const result = await cms.client().bookings.joinWaitlist({
+      name: 'Waiting Visitor',
+      email,
+      date,
+      meetingType,
+    });
+    if (!result.success) throw new Error(result.error);
+  };
+
+  const statuses = () =>
+    cms.query<{ email: string; status: string }>(
+      'SELECT email, status FROM booking_waitlist ORDER BY id'
+    );
+
+  const offerFor = async (email: string) => {
+    const [entry] = await cms.query<{ claim_token: string }>(
+      "SELECT claim_token FROM booking_waitlist WHERE email = ? AND status = 'offered'",
+      [email]
+    );
+    return entry?.claim_token;
+  };
+
+  test('offer a cancelled slot to the first visitor in line whose meeting fits', async () => {
+    const bookingId = await book('grace@example.com');
+    await join('long@example.com', '60min');
+    await join('first@example.com');
+    await join('second@example.com');
+
+    await cms.client().bookings.cancel(bookingId, 'grace@example.com');
+
+    await expect.poll(statuses).toEqual([
+      { email: 'long@example.com', status: 'waiting' },
+      { email: 'first@example.com', status: 'offered' },
+      { email: 'second@example.com', status: 'waiting' },
+    ]);
+  });
+
+  test('let the visitor claim the offered slot', async () => {
+    const bookingId = await book('grace@example.com');
+    await join('first@example.com');
+    await cms.client().bookings.cancel(bookingId, 'grace@example.com');
+    await expect.poll(() => offerFor('first@example.com')).toBeTruthy();
+    const token = (await offerFor('first@example.com'))!;
+
+    const offer = await cms.client().bookings.waitlistOffer(token);
+    if (!offer.success) throw new Error(offer.error);
+    const { time, duration, meetingType, holdId } = offer.data.offer;
+    const claim = (email: string, hold: string | null) =>
+      cms.client().bookings.create({
+        name: 'Waiting Visitor',
+        email,
+        date,
+        time,
+        duration,
+        meetingType,
+        holdId: hold,
+        notifyGuest: false,
+      });
+
+    expect(time).toBe('10:00');
+    expect(await claim('other@example.com', null)).toMatchObject({ success: false, status: 409 });
+    expect((await claim('first@example.com', holdId)).success).toBe(true);
+    expect(await statuses()).toEqual([{ email: 'first@example.com', status: 'claimed' }]);
+    expect(await cms.client().bookings.waitlistOffer(token)).toMatchObject({
+      success: false,
+      status: 404,
+    });
+  });
+
+  test('pass a lapsed offer on to the next visitor', async () => {
+    const bookingId = await book('grace@example.com');
+    await join('first@example.com');
+    await join('second@example.com');
+    await cms.client().bookings.cancel(bookingId, 'grace@example.com');
+    await expect.poll(() => offerFor('first@example.com')).toBeTruthy();
+
+    const lapsed = new Date(Date.now() - 1000).toISOString();
+    await cms.query("UPDATE booking_waitlist SET offer_expires_at = ? WHERE status = 'offered'", [
+      lapsed,
+    ]);
+    await cms.query('UPDATE booking_holds SET expires_at = ?', [lapsed]);
+
+    await expect.poll(statuses, { timeout: 5000 }).toEqual([
+      { email: 'first@example.com', status: 'expired' },
+      { email: 'second@example.com', status: 'offered' },
+    ]);
+  });
+
+  test('offer the old slot after a guest reschedule', async () => {
+    const bookingId = await book('grace@example.com');
+    await join('first@example.com');
+
+    const moved = await cms.client().bookings.reschedule(bookingId, {
+      email: 'grace@example.com',
+      date,
+      time: '14:00',
+    });
+
+    expect(moved.success).toBe(true);
+    await expect.poll(statuses).toEqual([{ email: 'first@example.com', status: 'offered' }]);
+  });
+
+  test('offer the slot of a booking an admin deletes', async () => {
+    const bookingId = await book('grace@example.com');
+    await join('first@example.com');
+
+    const response = await fetch(`${cms.baseUrl}/api/bookings/${bookingId}`, {
+      method: 'DELETE',
+      headers: { Cookie: await cms.signIn() },
+    });
+
+    expect(response.status).toBe(200);
+    await expect.poll(statuses).toEqual([{ email: 'first@example.com', status: 'offered' }]);
+  });
+});
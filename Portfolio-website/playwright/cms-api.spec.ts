@@ -0,0 +1,143 @@
+import { test, expect } from '@playwright/test';
+import { StubCms, StubResponse, startStubCms } from './stub-cms';
+
+const AVAILABILITY = {
+  date: '2025-01-06',
+  dayOfWeek: 1,
+  isAvailable: true,
+  duration: 30,
+  workingHours: [{ start: '09:00', end: '17:00' }],
+  availableSlots: ['09:00', '09:30'],
+  bookedCount: 0,
+  blockedCount: 0,
+};
+
+const BOOKING = {
+  name: 'Ada',
+  email: 'ada@example.com',
+  date: '2025-01-06',
+  time: '09:00',
+  duration: 30,
+};
+
+test.describe('CMS client', () => {
+  let cms: StubCms;
+  /** Answers for the next requests, in order; `null` never answers */
+  let replies: (StubResponse | null)[];
+
+  test.beforeEach(async () => {
+    replies = [];
+    cms = await startStubCms(() => {
+      const reply = replies.shift();
+      return reply === undefined ? { status: 500, body: { error: 'No reply queued' } } : reply;
+    });
+  });
+
+  test.afterEach(async () => {
+    await cms.close();
+  });
+
+  const client = (overrides = {}) =>
+    cms.client({ retries: 2, headers: { 'x-cms-api-key': 'test-key' }, ...overrides });
+
+  test('returns validated data with the API key attached', async () => {
+    replies.push({ body: AVAILABILITY });
+
+    const result = await client().bookings.availability('2025-01-06', 30);
+
+    expect(result).toMatchObject({ success: true, status: 200, data: AVAILABILITY });
+    expect(cms.requests[0].url).toBe('/api/bookings/availability/2025-01-06?duration=30');
+    expect(cms.requests[0].headers['x-cms-api-key']).toBe('test-key');
+  });
+
+  test('retries idempotent requests on 5xx responses', async () => {
+    replies.push(
+      { status: 503, body: { error: 'Starting up' } },
+      { status: 502, body: { error: 'Bad gateway' } },
+      { body: AVAILABILITY }
+    );
+
+    const result = await client().bookings.availability('2025-01-06', 30);
+
+    expect(result.success).toBe(true);
+    expect(cms.requests).toHaveLength(3);
+  });
+
+  test('gives up after the configured retries', async () => {
+    replies.push(
+      { status: 503, body: { error: 'Down' } },
+      { status: 503, body: { error: 'Still down' } }
+    );
+
+    const result = await client({ retries: 1 }).bookings.availability('2025-01-06', 30);
+
+    expect(result).toMatchObject({ success: false, status: 503, error: 'Still down' });
+    expect(cms.requests).toHaveLength(2);
+  });
+
+  test('never retries writes', async () => {
+    replies.push({ status: 503, body: { error: 'Down' } });
+
+    const result = await client().bookings.create(BOOKING);
+
+    expect(result).toMatchObject({ success: false, status: 503 });
+    expect(cms.requests).toHaveLength(1);
+  });
+
+  test('passes client errors through without retrying', async () => {
+    replies.push({ status: 409, body: { error: 'Time slot no longer available' } });
+
+    const result = await client().bookings.create(BOOKING);
+
+    expect(result).toMatchObject({
+      success: false,
+      status: 409,
+      error: 'Time slot no longer available',
+    });
+    expect(cms.requests).toHaveLength(1);
+  });
+
+  test('addresses guest booking changes by ID and email', async () => {
+    const guestBooking = {
+      booking: { ...BOOKING, id: 7, status: 'cancelled', meetingLink: null },
+    };
+    replies.push({ body: guestBooking });
+
+    const result = await client().bookings.cancel(7, 'ada@example.com');
+
+    expect(result).toMatchObject({ success: true, data: guestBooking });
+    expect(cms.requests[0].method).toBe('DELETE');
+    expect(cms.requests[0].url).toBe('/api/bookings/7/guest');
+    expect(cms.requests[0].body).toEqual({ email: 'ada@example.com' });
+  });
+
+  test('times out slow responses', async () => {
+    replies.push(null, null);
+
+    const result = await client({ timeout: 100, retries: 1 }).projects.list();
+
+    expect(result).toMatchObject({ success: false, status: 504 });
+    expect(cms.requests).toHaveLength(2);
+  });
+
+  test('rejects responses that do not match the schema', async () => {
+    replies.push({ body: { ...AVAILABILITY, availableSlots: 'none' } });
+
+    const result = await client().bookings.availability('2025-01-06', 30);
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.status).toBe(502);
+      expect(result.details?.[0].field).toBe('availableSlots');
+    }
+  });
+
+  test('fails without sending when the preflight check fails', async () => {
+    const unconfigured = cms.client({}, () => 'CMS_API_KEY is not configured.');
+
+    const result = await unconfigured.projects.featured();
+
+    expect(result).toMatchObject({ success: false, status: 503 });
+    expect(cms.requests).toHaveLength(0);
+  });
+});
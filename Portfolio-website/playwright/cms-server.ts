@@ -0,0 +1,134 @@
+import { ChildProcess, spawn } from 'node:child_process';
+import { existsSync } from 'node:fs';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { createServer } from 'node:net';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import sqlite3 from 'sqlite3';
+import { createCmsClient } from '../lib/cms-api';
+
+/**
+ * Runs the real `Portfolio-CMS/server.js` against a throwaway SQLite database, for specs that
+ * exercise CMS handlers rather than a stub. The server opens `./cms_database.db`, so each
+ * instance gets its own working directory with the booking schema already applied.
+ */
+
+const CMS_DIRECTORY = path.join(__dirname, '..', '..', 'Portfolio-CMS');
+
+const API_KEY = 'playwright-cms-api-key';
+
+export const ADMIN_CREDENTIALS = { username: 'admin', password: 'playwright-admin-password' };
+
+/** The CMS is a separate app; its handler specs are skipped until its dependencies are installed */
+export const CMS_INSTALLED = existsSync(path.join(CMS_DIRECTORY, 'node_modules'));
+
+export interface CmsServer {
+  baseUrl: string;
+  /** Typed client sending the service API key */
+  client: () => ReturnType<typeof createCmsClient>;
+  /** Run SQL against the server's database */
+  query: <T = Record<string, unknown>>(sql: string, params?: unknown[]) => Promise<T[]>;
+  /** Sign in as the bootstrap admin and return the session cookie */
+  signIn: () => Promise<string>;
+  stop: () => Promise<void>;
+}
+
+const freePort = () =>
+  new Promise<number>((resolve, reject) => {
+    const probe = createServer();
+    probe.once('error', reject);
+    probe.listen(0, '127.0.0.1', () => {
+      const { port } = probe.address() as AddressInfo;
+      probe.close(() => resolve(port));
+    });
+  });
+
+const openDatabase = (filePath: string) =>
+  new Promise<sqlite3.Database>((resolve, reject) => {
+    const db = new sqlite3.Database(filePath, (error) => (error ? reject(error) : resolve(db)));
+  });
+
+const waitForStart = (child: ChildProcess, output: string[]) =>
+  new Promise<void>((resolve, reject) => {
+    const onData = (chunk: Buffer) => {
+      output.push(chunk.toString());
+      if (output.join('').includes('Server running on')) resolve();
+    };
+    child.stdout!.on('data', onData);
+    child.stderr!.on('data', (chunk: Buffer) => output.push(chunk.toString()));
+    child.once('exit', (code) =>
+      reject(new Error(`CMS exited with code ${code} before starting:\n${output.join('')}`))
+    );
+  });
+
+/**
+ * Start a CMS with an empty booking database; extra `env` overrides the defaults
+ */
+export async function startCmsServer(env: Record<string, string> = {}): Promise<CmsServer> {
+  const directory = await mkdtemp(path.join(tmpdir(), 'portfolio-cms-'));
+  const databasePath = path.join(directory, 'cms_database.db');
+
+  const db = await openDatabase(databasePath);
+  const schema = await readFile(path.join(CMS_DIRECTORY, 'scripts', 'booking-schema.sql'), 'utf8');
+  await new Promise<void>((resolve, reject) =>
+    db.exec(schema, (error) => (error ? reject(error) : resolve()))
+  );
+
+  const port = await freePort();
+  const output: string[] = [];
+  const child = spawn(process.execPath, [path.join(CMS_DIRECTORY, 'server.js')], {
+    cwd: directory,
+    env: {
+      PATH: process.env.PATH,
+      NODE_ENV: 'test',
+      CMS_PORT: String(port),
+      CMS_API_KEY: API_KEY,
+      SESSION_SECRET: 'playwright-session-secret',
+      CMS_BOOTSTRAP_ADMIN_USER: ADMIN_CREDENTIALS.username,
+      CMS_BOOTSTRAP_ADMIN_PASSWORD: ADMIN_CREDENTIALS.password,
+      // Nothing listens here, so emails fail at once and are only logged
+      SMTP_HOST: '127.0.0.1',
+      SMTP_PORT: '9',
+      ...env,
+    },
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+  await waitForStart(child, output);
+
+  const baseUrl = `http://127.0.0.1:${port}`;
+
+  return {
+    baseUrl,
+    client: () =>
+      createCmsClient({
+        baseUrl,
+        timeout: 2000,
+        retries: 0,
+        cacheTime: 0,
+        headers: { 'x-api-key': API_KEY },
+      }),
+    query: (sql, params = []) =>
+      new Promise((resolve, reject) =>
+        db.all(sql, params, (error, rows) => (error ? reject(error) : resolve(rows as never)))
+      ),
+    signIn: async () => {
+      const response = await fetch(`${baseUrl}/api/auth/login`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(ADMIN_CREDENTIALS),
+      });
+      if (!response.ok) throw new Error(`CMS sign-in failed with ${response.status}`);
+      return response.headers.get('set-cookie')!.split(';')[0];
+    },
+    stop: async () => {
+      if (child.exitCode === null) {
+        const exited = new Promise((resolve) => child.once('exit', resolve));
+        child.kill('SIGKILL');
+        await exited;
+      }
+      await new Promise((resolve) => db.close(resolve));
+      await rm(directory, { recursive: true, force: true });
+    },
+  };
+}
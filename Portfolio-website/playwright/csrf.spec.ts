@@ -0,0 +1,94 @@
+import { test, expect } from '@playwright/test';
+import {
+  CSRF_TOKEN_TTL_SECONDS,
+  issueCsrfToken,
+  validateDoubleSubmitToken,
+  verifyCsrfToken,
+} from '../lib/csrf';
+
+const SECRET = 'test-secret-that-is-at-least-32-characters';
+const SESSION = 'header.payload.signature';
+
+test.describe('CSRF tokens', () => {
+  test('verify for the session they were issued to', async () => {
+    const token = await issueCsrfToken(SECRET, SESSION);
+
+    expect(token.split('.')).toHaveLength(3);
+    expect(await verifyCsrfToken(token, SECRET, SESSION)).toBe(true);
+  });
+
+  test('reject another session, or none', async () => {
+    const token = await issueCsrfToken(SECRET, SESSION);
+
+    expect(await verifyCsrfToken(token, SECRET, 'header.payload.other')).toBe(false);
+    expect(await verifyCsrfToken(token, SECRET, undefined)).toBe(false);
+  });
+
+  test('issued before sign-in stop verifying once signed in', async () => {
+    const token = await issueCsrfToken(SECRET, undefined);
+
+    expect(await verifyCsrfToken(token, SECRET, undefined)).toBe(true);
+    expect(await verifyCsrfToken(token, SECRET, SESSION)).toBe(false);
+  });
+
+  test('reject tampered tokens', async () => {
+    const token = await issueCsrfToken(SECRET, SESSION);
+    const [nonce, issuedAt, signature] = token.split('.');
+
+    expect(await verifyCsrfToken(`${nonce}x.${issuedAt}.${signature}`, SECRET, SESSION)).toBe(
+      false
+    );
+    expect(
+      await verifyCsrfToken(`${nonce}.${Number(issuedAt) + 1}.${signature}`, SECRET, SESSION)
+    ).toBe(false);
+    expect(await verifyCsrfToken(token, `${SECRET}-other`, SESSION)).toBe(false);
+    expect(await verifyCsrfToken(`${nonce}.${issuedAt}`, SECRET, SESSION)).toBe(false);
+    expect(await verifyCsrfToken(undefined, SECRET, SESSION)).toBe(false);
+  });
+
+  test('expire after their lifetime', async () => {
+    const issuedAt = Date.parse('2025-01-08T12:00:00Z');
+    const token = await issueCsrfToken(SECRET, SESSION, issuedAt);
+
+    expect(
+      await verifyCsrfToken(token, SECRET, SESSION, issuedAt + CSRF_TOKEN_TTL_SECONDS * 1000)
+    ).toBe(true);
+    expect(
+      await verifyCsrfToken(token, SECRET, SESSION, issuedAt + CSRF_TOKEN_TTL_SECONDS * 1000 + 1000)
+    ).toBe(false);
+    expect(await verifyCsrfToken(token, SECRET, SESSION, issuedAt - 5 * 60 * 1000)).toBe(false);
+  });
+});
+
+test.describe('Double-submit check', () => {
+  test.beforeEach(() => {
+    process.env.CSRF_SECRET = SECRET;
+  });
+
+  test.afterEach(() => {
+    delete process.env.CSRF_SECRET;
+  });
+
+  test('require the header to match the cookie', async () => {
+    const token = await issueCsrfToken(SECRET, SESSION);
+    const other = await issueCsrfToken(SECRET, SESSION);
+
+    expect(await validateDoubleSubmitToken(token, token, SESSION)).toBe(true);
+    expect(await validateDoubleSubmitToken(other, token, SESSION)).toBe(false);
+    expect(await validateDoubleSubmitToken(null, token, SESSION)).toBe(false);
+    expect(await validateDoubleSubmitToken(token, undefined, SESSION)).toBe(false);
+  });
+
+  test('reject a matching pair bound to another session', async () => {
+    const token = await issueCsrfToken(SECRET, 'header.payload.attacker');
+
+    expect(await validateDoubleSubmitToken(token, token, SESSION)).toBe(false);
+  });
+
+  test('reject everything when no secret is configured', async () => {
+    const token = await issueCsrfToken(SECRET, SESSION);
+    delete process.env.CSRF_SECRET;
+
+    expect(await validateDoubleSubmitToken(token, token, SESSION)).toBe(false);
+  });
+});
@@ -0,0 +1,97 @@
+import { test, expect } from '@playwright/test';
+import sharp from 'sharp';
+import nextConfig from '../next.config';
+import { IMAGE_VARIANT_WIDTHS, processImage, selectVariantWidths } from '../lib/image-processing';
+import { toProjectImage } from '../lib/uploads';
+import { projectImageSchema } from '../lib/validations';
+import type { UploadRecord } from '../lib/types';
+
+const solid = (width: number, height: number) =>
+  sharp({ create: { width, height, channels: 3, background: '#f40' } });
+
+test.describe('Image processing', () => {
+  test('renders variants at the breakpoints configured for next/image', () => {
+    expect(IMAGE_VARIANT_WIDTHS).toEqual(nextConfig.images?.deviceSizes);
+  });
+
+  test('never upscales and keeps narrow images at their own width', () => {
+    expect(selectVariantWidths(900)).toEqual([640, 750, 828]);
+    expect(selectVariantWidths(320)).toEqual([320]);
+  });
+
+  test('strips EXIF and applies the orientation it carried', async () => {
+    const input = await solid(60, 40)
+      .jpeg()
+      .withMetadata({ orientation: 6, exif: { IFD0: { Artist: 'Someone', Copyright: 'Secret' } } })
+      .toBuffer();
+    expect((await sharp(input).metadata()).exif).toBeDefined();
+
+    const processed = await processImage(input, 'image/jpeg');
+    const metadata = await sharp(processed.original).metadata();
+
+    expect(metadata.format).toBe('jpeg');
+    expect(metadata.exif).toBeUndefined();
+    expect(metadata.orientation).toBeUndefined();
+    expect({ width: processed.width, height: processed.height }).toEqual({ width: 40, height: 60 });
+  });
+
+  test('produces WebP and AVIF variants and a blur placeholder', async () => {
+    const input = await solid(700, 35).png().toBuffer();
+    const processed = await processImage(input, 'image/png');
+
+    expect(processed.variants.map(({ width, format }) => `${width}:${format}`)).toEqual([
+      '640:avif',
+      '640:webp',
+    ]);
+    expect(processed.variants[0].height).toBe(32);
+    expect((await sharp(processed.variants[0].buffer).metadata()).format).toBe('heif');
+    expect((await sharp(processed.variants[1].buffer).metadata()).format).toBe('webp');
+
+    expect(processed.blurDataURL).toMatch(/^data:image\/webp;base64,/);
+    expect(processed.blurDataURL.length).toBeLessThan(1024);
+  });
+});
+
+test.describe('Project images from uploads', () => {
+  const record: UploadRecord = {
+    id: '3f2b8c1e-7d4a-4e5b-9c6d-1a2b3c4d5e6f',
+    fileName: 'upload-3f2b8c1e-7d4a-4e5b-9c6d-1a2b3c4d5e6f.jpg',
+    originalName: 'dashboard.jpg',
+    url: '/uploads/upload-3f2b8c1e-7d4a-4e5b-9c6d-1a2b3c4d5e6f.jpg',
+    mimeType: 'image/jpeg',
+    size: 12345,
+    width: 1280,
+    height: 720,
+    checksum: 'a'.repeat(64),
+    variants: [
+      {
+        url: '/uploads/upload-3f2b8c1e-7d4a-4e5b-9c6d-1a2b3c4d5e6f-640w.webp',
+        width: 640,
+        height: 360,
+        format: 'webp',
+        size: 2048,
+      },
+    ],
+    blurDataURL: 'data:image/webp;base64,UklGRg==',
+    owner: 'session:admin',
+    createdAt: '2025-01-01T00:00:00.000Z',
+  };
+
+  test('builds a populated image that passes the project image schema', () => {
+    const image = toProjectImage(record, { imageType: 'cover' }, 'https://example.com');
+
+    expect(image).toMatchObject({
+      url: `https://example.com${record.url}`,
+      alternativeText: 'dashboard',
+      image_type: 'cover',
+      width: 1280,
+      height: 720,
+      format: 'jpeg',
+      size: 12345,
+      uploadId: record.id,
+    });
+    expect(image.variants?.[0].url).toBe(`https://example.com${record.variants![0].url}`);
+    expect(projectImageSchema.safeParse(image).success).toBe(true);
+    expect(toProjectImage(record, {}, 'https://example.com').id).toBe(image.id);
+  });
+});
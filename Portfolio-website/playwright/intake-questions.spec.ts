@@ -0,0 +1,98 @@
+import { test, expect } from '@playwright/test';
+import { buildIntakeAnswersSchema, toIntakeAnswers } from '../lib/intake-questions';
+import { formatZodErrors, meetingTypeIntakeQuestionSchema } from '../lib/validations';
+
+const questions = [
+  { id: 'company', label: 'Company', type: 'text', required: true, maxLength: 20 },
+  { id: 'goals', label: 'Goals', type: 'text', multiline: true },
+  {
+    id: 'stage',
+    label: 'Project stage',
+    type: 'select',
+    options: ['Idea', 'Prototype', 'In production'],
+    required: true,
+  },
+  { id: 'repo', label: 'Repository', type: 'url' },
+  { id: 'nda', label: 'I need an NDA', type: 'checkbox' },
+  { id: 'consent', label: 'I agree to be recorded', type: 'checkbox', required: true },
+].map((question) => meetingTypeIntakeQuestionSchema.parse(question));
+
+const validAnswers = { company: 'Acme', stage: 'Idea', consent: true };
+
+test.describe('Intake question definitions', () => {
+  test('fill in defaults for optional settings', () => {
+    expect(questions[1]).toMatchObject({ required: false, multiline: true, maxLength: 500 });
+  });
+
+  test('reject unknown field types and selects without options', () => {
+    const parse = (question: Record<string, unknown>) =>
+      meetingTypeIntakeQuestionSchema.safeParse({ id: 'q', label: 'Q', ...question }).success;
+
+    expect(parse({ type: 'date' })).toBe(false);
+    expect(parse({ type: 'select', options: [] })).toBe(false);
+    expect(parse({ type: 'url' })).toBe(true);
+  });
+});
+
+test.describe('Intake answer schemas', () => {
+  const schema = buildIntakeAnswersSchema(questions);
+  const errors = (answers: unknown) => {
+    const result = schema.safeParse(answers);
+    return result.success
+      ? []
+      : formatZodErrors(result.error).map(({ field, message }) => ({ field, message }));
+  };
+
+  test('accept valid answers and drop blank optional ones', () => {
+    const result = schema.safeParse({ ...validAnswers, goals: '   ', repo: '' });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual({ company: 'Acme', stage: 'Idea', nda: false, consent: true });
+  });
+
+  test('report missing required answers by question', () => {
+    expect(errors({ company: ' ', consent: true })).toEqual([
+      { field: 'company', message: 'Company is required' },
+      { field: 'stage', message: 'Project stage is required' },
+    ]);
+  });
+
+  test('enforce each field type', () => {
+    expect(
+      errors({
+        company: 'A'.repeat(21),
+        stage: 'Shipped',
+        repo: 'javascript:alert(1)',
+        consent: false,
+      }).map(({ field }) => field)
+    ).toEqual(['company', 'stage', 'repo', 'consent']);
+  });
+
+  test('strip markup and ignore answers to unknown questions', () => {
+    const result = schema.safeParse({
+      ...validAnswers,
+      company: '<b>Acme</b>  Corp',
+      goals: 'Line one\r\nLine <i>two</i>',
+      extra: 'ignored',
+    });
+
+    expect(result.data).toEqual({
+      ...validAnswers,
+      company: 'Acme Corp',
+      goals: 'Line one\nLine two',
+      nda: false,
+    });
+  });
+
+  test('pair answers with their labels in question order', () => {
+    const answers = schema.parse({ repo: 'https://github.com/acme/app', ...validAnswers });
+
+    expect(toIntakeAnswers(questions, answers)).toEqual([
+      { id: 'company', label: 'Company', answer: 'Acme' },
+      { id: 'stage', label: 'Project stage', answer: 'Idea' },
+      { id: 'repo', label: 'Repository', answer: 'https://github.com/acme/app' },
+      { id: 'nda', label: 'I need an NDA', answer: false },
+      { id: 'consent', label: 'I agree to be recorded', answer: true },
+    ]);
+  });
+});
@@ -0,0 +1,149 @@
+import { test, expect } from '@playwright/test';
+import {
+  findMeetingType,
+  listEnabledMeetingTypes,
+  loadMeetingType,
+  validateMeetingTypeSelection,
+} from '../lib/meeting-types';
+import type { MeetingType } from '../lib/validations';
+import { StubCms, startStubCms } from './stub-cms';
+
+const meetingType = (slug: string, overrides: Partial<MeetingType> = {}): MeetingType => ({
+  id: 1,
+  slug,
+  name: `${slug} session`,
+  description: null,
+  duration: 30,
+  bufferBefore: 0,
+  bufferAfter: 0,
+  locationType: 'video',
+  intakeQuestions: [],
+  enabled: true,
+  sortOrder: 0,
+  ...overrides,
+});
+
+const catalog = [
+  meetingType('90min', { id: 3, duration: 90, sortOrder: 2 }),
+  meetingType('30min', { id: 1, duration: 30, sortOrder: 0 }),
+  meetingType('legacy', { id: 4, duration: 45, enabled: false }),
+  meetingType('60min', { id: 2, duration: 60, sortOrder: 1, bufferAfter: 15 }),
+];
+
+test.describe('Meeting type catalog', () => {
+  test('lists enabled types in catalog order', () => {
+    expect(listEnabledMeetingTypes(catalog).map(({ slug }) => slug)).toEqual([
+      '30min',
+      '60min',
+      '90min',
+    ]);
+  });
+
+  test('only finds disabled types when asked to', () => {
+    expect(findMeetingType(catalog, 'legacy')).toBeUndefined();
+    expect(findMeetingType(catalog, 'legacy', true)?.duration).toBe(45);
+    expect(findMeetingType(catalog, null)).toBeUndefined();
+  });
+
+  test('accepts an enabled type booked for its own duration', () => {
+    const selection = validateMeetingTypeSelection(catalog, '60min', 60);
+
+    expect(selection.valid).toBe(true);
+    if (selection.valid) {
+      expect(selection.meetingType.bufferAfter).toBe(15);
+    }
+  });
+
+  test('rejects unknown, missing and disabled types', () => {
+    expect(validateMeetingTypeSelection(catalog, 'workshop', 60)).toMatchObject({
+      valid: false,
+      field: 'meetingType',
+    });
+    expect(validateMeetingTypeSelection(catalog, null, 30)).toMatchObject({
+      valid: false,
+      message: 'Meeting type is required',
+    });
+    expect(validateMeetingTypeSelection(catalog, 'legacy', 45)).toMatchObject({
+      valid: false,
+      field: 'meetingType',
+    });
+  });
+
+  test('rejects a duration that does not match the type', () => {
+    expect(validateMeetingTypeSelection(catalog, '30min', 90)).toEqual({
+      valid: false,
+      field: 'duration',
+      message: '30min session meetings last 30 minutes',
+    });
+  });
+});
+
+test.describe('Meeting types from the CMS', () => {
+  let cms: StubCms;
+
+  test.beforeEach(async () => {
+    cms = await startStubCms(({ url }) => {
+      if (new URL(url, 'http://localhost').pathname === '/api/bookings/meeting-types') {
+        // A type without buffers, ordering or intake questions set
+        const minimal = {
+          id: 5,
+          slug: 'quick',
+          name: 'Quick call',
+          description: null,
+          duration: 15,
+          locationType: 'phone',
+          enabled: true,
+        };
+        return { body: { meetingTypes: [...catalog, minimal] } };
+      }
+
+      return {
+        body: {
+          date: '2025-01-06',
+          dayOfWeek: 1,
+          isAvailable: true,
+          availableSlots: ['09:00'],
+          bookedCount: 0,
+          blockedCount: 0,
+        },
+      };
+    });
+  });
+
+  test.afterEach(async () => {
+    await cms.close();
+  });
+
+  const client = () => cms.client();
+
+  test('loads a type, disabled ones included, with defaults filled in', async () => {
+    const legacy = await loadMeetingType(client(), 'legacy');
+    const minimal = await loadMeetingType(client(), 'quick');
+
+    expect(legacy).toMatchObject({ success: true, data: { duration: 45, enabled: false } });
+    expect(minimal).toMatchObject({
+      success: true,
+      data: { bufferBefore: 0, bufferAfter: 0, sortOrder: 0, intakeQuestions: [] },
+    });
+  });
+
+  test('fails with 400 for slugs missing from the catalog', async () => {
+    expect(await loadMeetingType(client(), 'workshop')).toMatchObject({
+      success: false,
+      status: 400,
+      error: 'Unknown meeting type: workshop',
+    });
+  });
+
+  test('passes buffers to the availability lookup', async () => {
+    await client().bookings.availability('2025-01-06', 60, {
+      buffers: { before: 5, after: 15 },
+    });
+    await client().bookings.availability('2025-01-06', 30);
+
+    expect(cms.requests.map(({ url }) => url)).toEqual([
+      '/api/bookings/availability/2025-01-06?duration=60&bufferBefore=5&bufferAfter=15',
+      '/api/bookings/availability/2025-01-06?duration=30',
+    ]);
+  });
+});
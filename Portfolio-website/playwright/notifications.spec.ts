@@ -0,0 +1,333 @@
+import { test, expect } from '@playwright/test';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { createServer, Server, Socket, type AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { buildMimeMessage, encodeHeader } from '../lib/notifications/mime';
+import { NotificationOutbox } from '../lib/notifications/outbox';
+import { sendMail, SmtpError } from '../lib/notifications/smtp';
+import { renderNotification, type EmailMessage } from '../lib/notifications/templates';
+import { FileTransport, SmtpTransport } from '../lib/notifications/transports';
+
+interface ReceivedMail {
+  from: string;
+  to: string[];
+  data: string;
+  auth: string | null;
+}
+
+/**
+ * Just enough of an SMTP server to accept mail: multiline EHLO, AUTH PLAIN, one transaction
+ * per connection. `dataReply` decides the answer to the end of DATA.
+ */
+function startFakeSmtp(dataReply: () => string = () => '250 2.0.0 queued') {
+  const received: ReceivedMail[] = [];
+  const commands: string[] = [];
+  const sockets = new Set<Socket>();
+
+  const server: Server = createServer((socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+
+    let buffer = '';
+    let mail: ReceivedMail = { from: '', to: [], data: '', auth: null };
+    let dataLines: string[] | null = null;
+
+    socket.write('220 fake.test ESMTP ready\r\n');
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+      let lineEnd: number;
+      while ((lineEnd = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, lineEnd);
+        buffer = buffer.slice(lineEnd + 2);
+
+        if (dataLines) {
+          if (line === '.') {
+            received.push({ ...mail, data: dataLines.join('\r\n') });
+            dataLines = null;
+            socket.write(`${dataReply()}\r\n`);
+          } else {
+            dataLines.push(line.startsWith('..') ? line.slice(1) : line);
+          }
+          continue;
+        }
+
+        commands.push(line);
+        const verb = line.split(' ')[0].toUpperCase();
+        if (verb === 'EHLO') {
+          socket.write('250-fake.test greets you\r\n250-SIZE 1000000\r\n250 AUTH PLAIN LOGIN\r\n');
+        } else if (verb === 'AUTH') {
+          mail.auth = Buffer.from(line.split(' ')[2], 'base64').toString('utf8');
+          socket.write('235 2.7.0 Authentication successful\r\n');
+        } else if (verb === 'MAIL') {
+          mail = { ...mail, from: /<(.*)>/.exec(line)![1], to: [] };
+          socket.write('250 OK\r\n');
+        } else if (verb === 'RCPT') {
+          mail.to.push(/<(.*)>/.exec(line)![1]);
+          socket.write('250 OK\r\n');
+        } else if (verb === 'DATA') {
+          dataLines = [];
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (verb === 'QUIT') {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('502 Command not implemented\r\n');
+        }
+      }
+    });
+  });
+
+  return new Promise<{
+    port: number;
+    received: ReceivedMail[];
+    commands: string[];
+    close: () => Promise<void>;
+  }>((resolve) =>
+    server.listen(0, '127.0.0.1', () =>
+      resolve({
+        port: (server.address() as AddressInfo).port,
+        received,
+        commands,
+        close: async () => {
+          sockets.forEach((socket) => socket.destroy());
+          await new Promise((done) => server.close(done));
+        },
+      })
+    )
+  );
+}
+
+/**
+ * Decode the base64 MIME part with the given content type
+ */
+const decodePart = (data: string, contentType: string) => {
+  const part = data
+    .split(/\r\n--/)
+    .find((section) => section.includes(`Content-Type: ${contentType}`));
+  const body = part!.split('\r\n\r\n')[1].replace(/\r\n/g, '');
+  return Buffer.from(body, 'base64').toString('utf8');
+};
+
+const booking = {
+  name: 'Ada Lovelace',
+  startsAt: '2025-01-08T13:00:00.000Z',
+  duration: 30,
+  timeZone: 'Europe/Berlin',
+  meetingType: 'Intro call',
+  meetingLink: 'https://meet.example.com/abc',
+  manageUrl: 'https://example.com/book/confirmed/token',
+};
+
+test.describe('Notification templates', () => {
+  test('render booking details in the visitor time zone', () => {
+    const message = renderNotification({
+      type: 'booking-confirmation',
+      to: 'ada@example.com',
+      data: booking,
+    });
+
+    expect(message.subject).toMatch(
+      /^Meeting confirmed: Wednesday, January 8, 2025\D+14:00 GMT\+1$/
+    );
+    expect(message.text).toContain('Duration: 30 minutes');
+    expect(message.text).toContain(
+      'Reschedule or cancel: https://example.com/book/confirmed/token'
+    );
+    expect(message.html).toContain('href="https://meet.example.com/abc"');
+  });
+
+  test('name the reminder offset in the subject', () => {
+    const subject = (offsetMinutes: number) =>
+      renderNotification({
+        type: 'booking-reminder',
+        to: 'ada@example.com',
+        data: { ...booking, offsetMinutes },
+      }).subject;
+
+    expect(subject(24 * 60)).toBe('Reminder: your meeting starts in 24 hours');
+    expect(subject(60)).toBe('Reminder: your meeting starts in 1 hour');
+  });
+
+  test('escape visitor input in the HTML body', () => {
+    const message = renderNotification({
+      type: 'contact-acknowledgement',
+      to: 'ada@example.com',
+      data: { name: '<b>Ada</b>', subject: 'Hi', message: '<script>alert(1)</script>' },
+    });
+
+    expect(message.html).not.toContain('<script>');
+    expect(message.html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(message.text).toContain('<script>alert(1)</script>');
+  });
+});
+
+test.describe('MIME encoding', () => {
+  const message: EmailMessage = {
+    to: 'ada@example.com\r\nBcc: everyone@example.com',
+    subject: 'Grüße',
+    text: 'Hällo',
+    html: '<p>Hällo</p>',
+  };
+
+  test('strip line breaks from headers and encode non-ASCII subjects', () => {
+    const mime = buildMimeMessage(message, { from: 'Site <hello@example.com>' });
+
+    expect(mime).not.toMatch(/^Bcc:/m);
+    expect(mime).toContain(`Subject: ${encodeHeader('Grüße')}`);
+    expect(encodeHeader('Grüße')).toBe('=?UTF-8?B?R3LDvMOfZQ==?=');
+  });
+});
+
+test.describe('SMTP delivery', () => {
+  let smtp: Awaited<ReturnType<typeof startFakeSmtp>>;
+  let dataReplies: string[];
+
+  test.beforeEach(async () => {
+    dataReplies = [];
+    smtp = await startFakeSmtp(() => dataReplies.shift() ?? '250 2.0.0 queued');
+  });
+
+  test.afterEach(async () => {
+    await smtp.close();
+  });
+
+  const options = () => ({ host: '127.0.0.1', port: smtp.port, timeoutMs: 2000 });
+
+  test('delivers a rendered message with decodable parts', async () => {
+    const message = renderNotification({
+      type: 'booking-cancellation',
+      to: 'Ada <ada@example.com>',
+      data: { ...booking, bookUrl: 'https://example.com/book' },
+    });
+
+    await new SmtpTransport(options(), 'Site <hello@example.com>').send(message);
+
+    expect(smtp.received).toHaveLength(1);
+    const [mail] = smtp.received;
+    expect(mail).toMatchObject({ from: 'hello@example.com', to: ['ada@example.com'], auth: null });
+    expect(mail.data).toMatch(/^Subject: Meeting cancelled: .+ 14:00 GMT\+1$/m);
+    expect(decodePart(mail.data, 'text/plain')).toBe(message.text);
+    expect(decodePart(mail.data, 'text/html')).toBe(message.html);
+    expect(smtp.commands.at(-1)).toBe('QUIT');
+  });
+
+  test('escapes lines that start with a dot', async () => {
+    await sendMail(
+      options(),
+      { from: 'hello@example.com', to: ['ada@example.com'] },
+      'Subject: dots\n\n.\n..two\nlast'
+    );
+
+    expect(smtp.received[0].data).toBe('Subject: dots\r\n\r\n.\r\n..two\r\nlast');
+  });
+
+  test('authenticates with AUTH PLAIN when credentials are set', async () => {
+    await sendMail(
+      { ...options(), user: 'mailer', pass: 's3cret', allowInsecureAuth: true },
+      { from: 'hello@example.com', to: ['ada@example.com'] },
+      'Subject: auth\r\n\r\nbody'
+    );
+
+    expect(smtp.received[0].auth).toBe('\0mailer\0s3cret');
+  });
+
+  test('refuses to send credentials without TLS unless allowed', async () => {
+    const error = await sendMail(
+      { ...options(), user: 'mailer', pass: 's3cret' },
+      { from: 'hello@example.com', to: ['ada@example.com'] },
+      'Subject: auth\r\n\r\nbody'
+    ).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(SmtpError);
+    expect(error).toMatchObject({ permanent: true });
+    expect(smtp.commands.some((command) => command.startsWith('AUTH'))).toBe(false);
+    expect(smtp.received).toHaveLength(0);
+  });
+
+  test('reports rejected messages with the reply code', async () => {
+    dataReplies.push('554 5.7.1 Rejected as spam');
+
+    const error = await sendMail(
+      options(),
+      { from: 'hello@example.com', to: ['ada@example.com'] },
+      'Subject: spam\r\n\r\nbody'
+    ).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(SmtpError);
+    expect(error).toMatchObject({ code: 554, permanent: true });
+  });
+
+  test('outbox retries temporary failures', async () => {
+    dataReplies.push('451 4.3.0 Try again later');
+    const failures: unknown[] = [];
+    const outbox = new NotificationOutbox(new SmtpTransport(options(), 'hello@example.com'), {
+      baseDelayMs: 10,
+      onFailure: (_message, error) => failures.push(error),
+    });
+
+    outbox.enqueue({ to: 'ada@example.com', subject: 'Retry', text: 'a', html: '<p>a</p>' });
+    await outbox.drain();
+
+    expect(smtp.received).toHaveLength(2);
+    expect(failures).toEqual([]);
+    expect(outbox.pending).toBe(0);
+  });
+
+  test('outbox gives up on permanent failures without retrying', async () => {
+    dataReplies.push('550 5.1.1 Mailbox does not exist');
+    const failures: unknown[] = [];
+    const outbox = new NotificationOutbox(new SmtpTransport(options(), 'hello@example.com'), {
+      baseDelayMs: 10,
+      onFailure: (_message, error) => failures.push(error),
+    });
+
+    outbox.enqueue({ to: 'nobody@example.com', subject: 'Bounce', text: 'a', html: '<p>a</p>' });
+    await outbox.drain();
+
+    expect(smtp.received).toHaveLength(1);
+    expect(failures).toHaveLength(1);
+    expect(failures[0]).toMatchObject({ code: 550 });
+  });
+
+  test('outbox stops after the maximum number of attempts', async () => {
+    dataReplies.push('451 busy', '451 busy', '451 busy');
+    const failures: unknown[] = [];
+    const outbox = new NotificationOutbox(new SmtpTransport(options(), 'hello@example.com'), {
+      maxAttempts: 2,
+      baseDelayMs: 10,
+      onFailure: (_message, error) => failures.push(error),
+    });
+
+    outbox.enqueue({ to: 'ada@example.com', subject: 'Busy', text: 'a', html: '<p>a</p>' });
+    await outbox.drain();
+
+    expect(smtp.received).toHaveLength(2);
+    expect(failures).toHaveLength(1);
+  });
+});
+
+test.describe('File transport', () => {
+  let directory: string;
+
+  test.beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'outbox-'));
+  });
+
+  test.afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  test('writes each message as an .eml file', async () => {
+    await new FileTransport(directory, 'hello@example.com').send({
+      to: 'ada@example.com',
+      subject: 'Saved',
+      text: 'a',
+      html: '<p>a</p>',
+    });
+
+    const files = await readdir(directory);
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatch(/-ada@example\.com\.eml$/);
+    expect(await readFile(path.join(directory, files[0]), 'utf8')).toContain('Subject: Saved');
+  });
+});
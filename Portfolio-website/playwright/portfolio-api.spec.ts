@@ -0,0 +1,125 @@
+import { test, expect } from '@playwright/test';
+import { rm } from 'node:fs/promises';
+import path from 'node:path';
+import { NextRequest } from 'next/server';
+import { GET, PUT } from '../app/api/portfolio/route';
+import { apiLogger, MemorySink, StdoutSink } from '../lib/api-logger';
+import { entityTagMatches } from '../lib/portfolio-data';
+
+// Points at a temporary directory, see `playwright.config.ts`
+const dataDirectory = path.dirname(process.env.PORTFOLIO_DATA_FILE!);
+
+const getSection = (section: string, headers: Record<string, string> = {}) =>
+  GET(new NextRequest(`https://example.com/api/portfolio?section=${section}`, { headers }));
+
+const putSection = (section: string, data: unknown, headers: Record<string, string> = {}) =>
+  PUT(
+    new NextRequest('https://example.com/api/portfolio', {
+      method: 'PUT',
+      headers: { 'content-type': 'application/json', ...headers },
+      body: JSON.stringify({ section, data }),
+    })
+  );
+
+// The seed's site-relative avatar and resume paths don't pass the update schema
+const editablePersonal = (personal: object, changes: object = {}) => ({
+  ...personal,
+  avatar: 'https://example.com/images/avatar.jpg',
+  resume: 'https://example.com/documents/resume.pdf',
+  ...changes,
+});
+
+test.describe('Entity tags', () => {
+  test('match weakly for If-None-Match and strongly for If-Match', () => {
+    expect(entityTagMatches('"abc"', 'abc')).toBe(true);
+    expect(entityTagMatches('W/"abc"', 'abc')).toBe(true);
+    expect(entityTagMatches('"xyz", W/"abc"', 'abc')).toBe(true);
+    expect(entityTagMatches('"abc"', 'abc', { strong: true })).toBe(true);
+    expect(entityTagMatches('W/"abc"', 'abc', { strong: true })).toBe(false);
+    expect(entityTagMatches('*', 'abc', { strong: true })).toBe(true);
+    expect(entityTagMatches('"xyz"', 'abc')).toBe(false);
+  });
+});
+
+test.describe('Portfolio API preconditions', () => {
+  test.beforeAll(() => {
+    apiLogger.setSinks([new MemorySink()]);
+  });
+
+  test.afterAll(async () => {
+    apiLogger.setSinks([new StdoutSink()]);
+    await rm(dataDirectory, { recursive: true, force: true });
+  });
+
+  test.beforeEach(async () => {
+    await rm(dataDirectory, { recursive: true, force: true });
+  });
+
+  test('answer a matching If-None-Match with 304', async () => {
+    const response = await getSection('personal');
+    const etag = response.headers.get('etag')!;
+
+    expect(response.status).toBe(200);
+    expect(etag).toMatch(/^"[\w-]+"$/);
+    expect((await getSection('personal', { 'if-none-match': etag })).status).toBe(304);
+    expect((await getSection('personal', { 'if-none-match': `W/${etag}` })).status).toBe(304);
+    expect((await getSection('skills', { 'if-none-match': etag })).status).toBe(200);
+  });
+
+  test('require If-Match on writes', async () => {
+    const { data } = await (await getSection('personal')).json();
+
+    const response = await putSection('personal', editablePersonal(data.personal));
+
+    expect(response.status).toBe(428);
+  });
+
+  test('round-trip the ETag through a write', async () => {
+    const read = await getSection('personal');
+    const { data } = await read.json();
+
+    const write = await putSection(
+      'personal',
+      editablePersonal(data.personal, { tagline: 'Updated tagline' }),
+      { 'if-match': read.headers.get('etag')! }
+    );
+    const reread = await getSection('personal');
+
+    expect(write.status).toBe(200);
+    expect(write.headers.get('etag')).not.toBe(read.headers.get('etag'));
+    expect(reread.headers.get('etag')).toBe(write.headers.get('etag'));
+    expect((await reread.json()).data.personal.tagline).toBe('Updated tagline');
+  });
+
+  test('reject a stale If-Match with 412 and the current ETag', async () => {
+    const read = await getSection('personal');
+    const staleEtag = read.headers.get('etag')!;
+    const { data } = await read.json();
+    const first = await putSection(
+      'personal',
+      editablePersonal(data.personal, { tagline: 'First edit' }),
+      { 'if-match': staleEtag }
+    );
+
+    const second = await putSection(
+      'personal',
+      editablePersonal(data.personal, { tagline: 'Second edit' }),
+      { 'if-match': staleEtag }
+    );
+
+    expect(second.status).toBe(412);
+    expect(second.headers.get('etag')).toBe(first.headers.get('etag'));
+    expect((await (await getSection('personal')).json()).data.personal.tagline).toBe('First edit');
+  });
+
+  test('reject a weak If-Match even when the version matches', async () => {
+    const read = await getSection('personal');
+    const { data } = await read.json();
+
+    const response = await putSection('personal', editablePersonal(data.personal), {
+      'if-match': `W/${read.headers.get('etag')}`,
+    });
+
+    expect(response.status).toBe(412);
+  });
+});
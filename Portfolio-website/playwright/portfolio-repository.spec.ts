@@ -0,0 +1,159 @@
+import { test, expect } from '@playwright/test';
+import { mkdtemp, readFile, rm, utimes, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { acquireFileLock } from '../lib/file-lock';
+import { portfolioData } from '../lib/portfolio-data';
+import {
+  JsonFilePortfolioRepository,
+  SqlitePortfolioRepository,
+  type PortfolioRepository,
+} from '../lib/portfolio-repository';
+import type { PortfolioData } from '../lib/types';
+
+const seed = portfolioData as unknown as PortfolioData;
+
+const context = { action: 'update' as const, actor: 'session:admin', requestId: 'req-1' };
+
+const setTagline = (tagline: string) => (current: PortfolioData) => ({
+  ...current,
+  personal: { ...current.personal, tagline },
+});
+
+let directory: string;
+
+test.beforeEach(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), 'portfolio-repository-'));
+});
+
+test.afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+const adapters: Record<string, () => PortfolioRepository> = {
+  json: () => new JsonFilePortfolioRepository(path.join(directory, 'portfolio.json'), seed),
+  sqlite: () => new SqlitePortfolioRepository(path.join(directory, 'portfolio.db'), seed),
+};
+
+for (const [name, create] of Object.entries(adapters)) {
+  test.describe(`${name} repository`, () => {
+    test('reads the seed until the first write', async () => {
+      expect(await create().read()).toEqual(seed);
+    });
+
+    test('persists writes for new instances', async () => {
+      await create().update(setTagline('Persisted'));
+
+      expect((await create().read()).personal.tagline).toBe('Persisted');
+    });
+
+    test('records one revision per changed section, newest first', async () => {
+      const repository = create();
+      await repository.update(setTagline('First'), context);
+      await repository.update(setTagline('Second'), { ...context, requestId: 'req-2' });
+      await repository.update((current) => current, context);
+
+      const revisions = await repository.listRevisions('personal');
+
+      expect(revisions.map(({ requestId }) => requestId)).toEqual(['req-2', 'req-1']);
+      expect(revisions[0]).toMatchObject({
+        section: 'personal',
+        action: 'update',
+        actor: 'session:admin',
+        diff: [{ op: 'replace', path: '/tagline', from: 'First', to: 'Second' }],
+      });
+      expect(await repository.listRevisions('projects')).toEqual([]);
+      expect(await repository.listRevisions('personal', 1)).toHaveLength(1);
+      expect(await repository.getRevision(revisions[1].id)).toEqual(revisions[1]);
+      expect(await repository.getRevision('missing')).toBeNull();
+    });
+
+    test('keeps the stored data when a mutation throws', async () => {
+      const repository = create();
+      await repository.update(setTagline('Kept'));
+
+      await expect(
+        repository.update(() => {
+          throw new Error('invalid edit');
+        })
+      ).rejects.toThrow('invalid edit');
+      expect((await repository.read()).personal.tagline).toBe('Kept');
+    });
+
+    test('serializes concurrent writers sharing the store', async () => {
+      const writers = [create(), create(), create()];
+      const increment = (current: PortfolioData) => ({
+        ...current,
+        personal: { ...current.personal, tagline: String(Number(current.personal.tagline) + 1) },
+      });
+      await writers[0].update(setTagline('0'));
+
+      await Promise.all(
+        Array.from({ length: 12 }, (_, index) => writers[index % writers.length].update(increment))
+      );
+
+      expect((await create().read()).personal.tagline).toBe('12');
+    });
+  });
+}
+
+test.describe('File locks', () => {
+  test('are exclusive until released', async () => {
+    const lockPath = path.join(directory, 'data.lock');
+    const lock = await acquireFileLock(lockPath);
+
+    expect(lock).not.toBeNull();
+    expect(await acquireFileLock(lockPath)).toBeNull();
+
+    await lock!.release();
+    const next = await acquireFileLock(lockPath);
+    expect(next).not.toBeNull();
+    await next!.release();
+  });
+
+  test('wait for the holder up to the timeout', async () => {
+    const lockPath = path.join(directory, 'data.lock');
+    const lock = await acquireFileLock(lockPath);
+    setTimeout(() => void lock!.release(), 100);
+
+    const next = await acquireFileLock(lockPath, { timeoutMs: 2000 });
+
+    expect(next).not.toBeNull();
+    await next!.release();
+  });
+
+  test('break a lock abandoned by a crashed process', async () => {
+    const lockPath = path.join(directory, 'data.lock');
+    await writeFile(lockPath, '999999:abandoned');
+    const longAgo = new Date(Date.now() - 60 * 1000);
+    await utimes(lockPath, longAgo, longAgo);
+
+    const lock = await acquireFileLock(lockPath);
+
+    expect(lock).not.toBeNull();
+    expect(await readFile(lockPath, 'utf8')).toMatch(new RegExp(`^${process.pid}:`));
+    await lock!.release();
+  });
+
+  test('let only one of several waiters take over a stale lock', async () => {
+    const lockPath = path.join(directory, 'data.lock');
+    await writeFile(lockPath, '999999:abandoned');
+    const longAgo = new Date(Date.now() - 60 * 1000);
+    await utimes(lockPath, longAgo, longAgo);
+
+    const locks = await Promise.all(Array.from({ length: 5 }, () => acquireFileLock(lockPath)));
+
+    expect(locks.filter((lock) => lock !== null)).toHaveLength(1);
+    await Promise.all(locks.map((lock) => lock?.release()));
+  });
+
+  test('never release a lock that now belongs to someone else', async () => {
+    const lockPath = path.join(directory, 'data.lock');
+    const lock = await acquireFileLock(lockPath);
+    await writeFile(lockPath, '4242:successor');
+
+    await lock!.release();
+
+    expect(await readFile(lockPath, 'utf8')).toBe('4242:successor');
+  });
+});
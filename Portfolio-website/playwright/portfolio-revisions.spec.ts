@@ -0,0 +1,163 @@
+import { test, expect } from '@playwright/test';
+import { rm } from 'node:fs/promises';
+import path from 'node:path';
+import { NextRequest } from 'next/server';
+import { GET as getPortfolio, PUT as putPortfolio } from '../app/api/portfolio/route';
+import { POST as restoreRevision } from '../app/api/portfolio/revisions/[id]/restore/route';
+import { GET as diffRevisions } from '../app/api/portfolio/revisions/diff/route';
+import { GET as listRevisions } from '../app/api/portfolio/revisions/route';
+import { apiLogger, MemorySink, StdoutSink } from '../lib/api-logger';
+import { diffPortfolioValues } from '../lib/portfolio-diff';
+
+// Points at a temporary directory, see `playwright.config.ts`
+const dataDirectory = path.dirname(process.env.PORTFOLIO_DATA_FILE!);
+
+test.describe('Portfolio diff', () => {
+  test('reports nothing for equal values', () => {
+    expect(diffPortfolioValues({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toEqual([]);
+  });
+
+  test('points at changed, added and removed keys', () => {
+    expect(
+      diffPortfolioValues(
+        { title: 'Old', tags: ['a'], draft: true },
+        { title: 'New', tags: ['a'], featured: false }
+      )
+    ).toEqual([
+      { op: 'replace', path: '/title', from: 'Old', to: 'New' },
+      { op: 'remove', path: '/draft', from: true },
+      { op: 'add', path: '/featured', to: false },
+    ]);
+  });
+
+  test('compares arrays by index', () => {
+    expect(diffPortfolioValues([{ id: 1, n: 'a' }], [{ id: 1, n: 'b' }, { id: 2 }])).toEqual([
+      { op: 'replace', path: '/0/n', from: 'a', to: 'b' },
+      { op: 'add', path: '/1', to: { id: 2 } },
+    ]);
+    expect(diffPortfolioValues([1, 2], [1])).toEqual([{ op: 'remove', path: '/1', from: 2 }]);
+  });
+
+  test('escapes JSON Pointer segments', () => {
+    expect(diffPortfolioValues({ 'a/b~c': 1 }, { 'a/b~c': 2 })).toEqual([
+      { op: 'replace', path: '/a~1b~0c', from: 1, to: 2 },
+    ]);
+  });
+
+  test('replaces values whose type changed', () => {
+    expect(diffPortfolioValues({ a: [1] }, { a: 'one' })).toEqual([
+      { op: 'replace', path: '/a', from: [1], to: 'one' },
+    ]);
+  });
+});
+
+test.describe('Portfolio revisions', () => {
+  test.beforeAll(() => {
+    apiLogger.setSinks([new MemorySink()]);
+  });
+
+  test.afterAll(async () => {
+    apiLogger.setSinks([new StdoutSink()]);
+    await rm(dataDirectory, { recursive: true, force: true });
+  });
+
+  test.beforeEach(async () => {
+    await rm(dataDirectory, { recursive: true, force: true });
+  });
+
+  const readPersonal = async () => {
+    const response = await getPortfolio(
+      new NextRequest('https://example.com/api/portfolio?section=personal')
+    );
+    return { etag: response.headers.get('etag')!, personal: (await response.json()).data.personal };
+  };
+
+  // The seed's site-relative avatar and resume paths don't pass the update schema
+  const setTagline = async (tagline: string) => {
+    const { etag, personal } = await readPersonal();
+    const response = await putPortfolio(
+      new NextRequest('https://example.com/api/portfolio', {
+        method: 'PUT',
+        headers: { 'content-type': 'application/json', 'if-match': etag },
+        body: JSON.stringify({
+          section: 'personal',
+          data: {
+            ...personal,
+            avatar: 'https://example.com/images/avatar.jpg',
+            resume: 'https://example.com/documents/resume.pdf',
+            tagline,
+          },
+        }),
+      })
+    );
+    expect(response.status).toBe(200);
+  };
+
+  const revisions = async () => {
+    const response = await listRevisions(
+      new NextRequest('https://example.com/api/portfolio/revisions?section=personal')
+    );
+    return (await response.json()).data.revisions as {
+      id: string;
+      action: string;
+      restoredFrom?: string;
+    }[];
+  };
+
+  const restore = (id: string, headers: Record<string, string> = {}) =>
+    restoreRevision(
+      new NextRequest(`https://example.com/api/portfolio/revisions/${id}/restore`, {
+        method: 'POST',
+        headers,
+      }),
+      { params: Promise.resolve({ id }) }
+    );
+
+  test('diff two revisions of a section', async () => {
+    await setTagline('First');
+    await setTagline('Second');
+    const [second, first] = await revisions();
+
+    const response = await diffRevisions(
+      new NextRequest(
+        `https://example.com/api/portfolio/revisions/diff?from=${first.id}&to=${second.id}`
+      )
+    );
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).data.diff).toEqual([
+      { op: 'replace', path: '/tagline', from: 'First', to: 'Second' },
+    ]);
+  });
+
+  test('restore a revision and record the restore', async () => {
+    await setTagline('First');
+    await setTagline('Second');
+    const [, first] = await revisions();
+
+    const response = await restore(first.id, { 'if-match': (await readPersonal()).etag });
+    const current = await readPersonal();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('etag')).toBe(current.etag);
+    expect(current.personal.tagline).toBe('First');
+    expect((await revisions())[0]).toMatchObject({ action: 'restore', restoredFrom: first.id });
+  });
+
+  test('require a current If-Match to restore', async () => {
+    await setTagline('First');
+    const staleEtag = (await readPersonal()).etag;
+    await setTagline('Second');
+    const [, first] = await revisions();
+
+    expect((await restore(first.id)).status).toBe(428);
+    expect((await restore(first.id, { 'if-match': staleEtag })).status).toBe(412);
+    expect((await readPersonal()).personal.tagline).toBe('Second');
+  });
+
+  test('answer 404 for an unknown revision', async () => {
+    const response = await restore('missing', { 'if-match': (await readPersonal()).etag });
+
+    expect(response.status).toBe(404);
+  });
+});
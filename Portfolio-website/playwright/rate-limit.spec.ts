@@ -0,0 +1,377 @@
+import { test, expect } from '@playwright/test';
+import { createServer, Server, Socket } from 'node:net';
+import type { AddressInfo } from 'node:net';
+import { NextRequest } from 'next/server';
+import { checkRateLimit, enforceSharedRateLimit, setRateLimitStore } from '../lib/rate-limit';
+import { applyRateLimit } from '../lib/rate-limit-algorithms';
+import { findRateLimitPolicies, matchesRoutePattern } from '../lib/rate-limit-policies';
+import { MemoryRateLimitStore, type RateLimitStore } from '../lib/rate-limit-store';
+import {
+  encodeCommand,
+  RedisConnection,
+  RedisRateLimitStore,
+  RespParser,
+} from '../lib/rate-limit-redis';
+import type { RateLimitAlgorithm, RateLimitRule } from '../lib/types';
+
+const RULE: RateLimitRule = { requests: 3, windowMs: 60_000 };
+
+/**
+ * Run `count` requests at `now` through an algorithm, threading the state between them
+ */
+function run(
+  algorithm: RateLimitAlgorithm,
+  count: number,
+  now: number,
+  state: string | null = null
+) {
+  const results = [];
+  for (let i = 0; i < count; i++) {
+    const transition = applyRateLimit(RULE, algorithm, state, now);
+    state = transition.value;
+    results.push(transition.result);
+  }
+  return { results, state };
+}
+
+// ==================== IN-MEMORY REDIS STAND-IN ====================
+
+/**
+ * Minimal RESP server supporting the commands the store uses. `EVAL` runs the store's
+ * compare-and-set script; setting `stalled` swallows commands without replying. With a
+ * `password`, connections must `AUTH` first.
+ */
+function startFakeRedis(): Promise<{
+  server: Server;
+  url: string;
+  sockets: Set<Socket>;
+  stalled: boolean;
+  password: string | null;
+}> {
+  const data = new Map<string, { value: string; expiresAt: number }>();
+  const sockets = new Set<Socket>();
+
+  const reply = (value: string | number | Error | null): string => {
+    if (value === null) return '$-1\r\n';
+    if (value instanceof Error) return `-${value.message}\r\n`;
+    if (typeof value === 'number') return `:${value}\r\n`;
+    return value === 'OK' || value === 'PONG'
+      ? `+${value}\r\n`
+      : `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+  };
+
+  const live = (key: string) => {
+    const entry = data.get(key);
+    if (entry && entry.expiresAt <= Date.now()) data.delete(key);
+    return data.get(key);
+  };
+
+  const execute = ([name, ...args]: string[]): string | number | null => {
+    switch (name.toUpperCase()) {
+      case 'PING':
+        return 'PONG';
+      case 'GET':
+        return live(args[0])?.value ?? null;
+      case 'SET': {
+        const px = args[2]?.toUpperCase() === 'PX' ? Number(args[3]) : Infinity;
+        data.set(args[0], { value: args[1], expiresAt: Date.now() + px });
+        return 'OK';
+      }
+      case 'EVAL': {
+        const [, , key, expected, value, px] = args;
+        if ((live(key)?.value ?? '') !== expected) return 0;
+        data.set(key, { value, expiresAt: Date.now() + Number(px) });
+        return 1;
+      }
+      default:
+        throw new Error(`unsupported command ${name}`);
+    }
+  };
+
+  const fake = {
+    server: null as unknown as Server,
+    url: '',
+    sockets,
+    stalled: false,
+    password: null as string | null,
+  };
+
+  fake.server = createServer((socket) => {
+    sockets.add(socket);
+    socket.setNoDelay(true);
+    socket.on('close', () => sockets.delete(socket));
+
+    let authenticated = fake.password === null;
+    const authenticate = (password: string) => {
+      authenticated = password === fake.password;
+      return authenticated ? 'OK' : new Error('WRONGPASS invalid username-password pair');
+    };
+
+    const parser = new RespParser();
+    socket.on('data', (chunk) => {
+      for (const command of parser.push(chunk) as string[][]) {
+        if (fake.stalled) continue;
+        if (command[0].toUpperCase() === 'AUTH') {
+          socket.write(reply(authenticate(command[command.length - 1])));
+        } else {
+          socket.write(
+            reply(authenticated ? execute(command) : new Error('NOAUTH Authentication required.'))
+          );
+        }
+      }
+    });
+  });
+
+  return new Promise((resolve) => {
+    fake.server.listen(0, '127.0.0.1', () => {
+      const { port } = fake.server.address() as AddressInfo;
+      fake.url = `redis://127.0.0.1:${port}`;
+      resolve(fake);
+    });
+  });
+}
+
+// ==================== TESTS ====================
+
+test.describe('Rate limit algorithms', () => {
+  const now = 1_700_000_000_000;
+
+  test('fixed window blocks after the limit and resets with the window', () => {
+    const { results, state } = run('fixed-window', 4, now);
+
+    expect(results.map((r) => r.allowed)).toEqual([true, true, true, false]);
+    expect(results[2].remaining).toBe(0);
+    expect(results[3].retryAfter).toBe(60);
+
+    const after = run('fixed-window', 1, now + RULE.windowMs + 1, state);
+    expect(after.results[0].allowed).toBe(true);
+  });
+
+  test('sliding window still counts the previous window near the boundary', () => {
+    const windowStart = now - (now % RULE.windowMs);
+    const { state } = run('sliding-window', 3, windowStart + RULE.windowMs - 1000);
+
+    // Just after the boundary almost the whole previous window still overlaps
+    const justAfter = run('sliding-window', 1, windowStart + RULE.windowMs + 1000, state);
+    expect(justAfter.results[0].allowed).toBe(false);
+    expect(justAfter.results[0].retryAfter).toBeGreaterThan(0);
+
+    // Halfway through, half of the previous window's requests still count
+    const later = run('sliding-window', 2, windowStart + RULE.windowMs + 30_000, state);
+    expect(later.results.map((r) => r.allowed)).toEqual([true, false]);
+  });
+
+  test('token bucket allows a burst and then refills gradually', () => {
+    const { results, state } = run('token-bucket', 4, now);
+    expect(results.map((r) => r.allowed)).toEqual([true, true, true, false]);
+    expect(results[3].retryAfter).toBe(20);
+
+    expect(run('token-bucket', 1, now + 10_000, state).results[0].allowed).toBe(false);
+    expect(run('token-bucket', 2, now + 20_000, state).results.map((r) => r.allowed)).toEqual([
+      true,
+      false,
+    ]);
+  });
+});
+
+test.describe('MemoryRateLimitStore', () => {
+  test('sweeps expired entries periodically rather than on every call', async () => {
+    let clock = 0;
+    const store = new MemoryRateLimitStore(1000, () => clock);
+    const updater = () => ({ value: 'x', ttlMs: 100, result: true });
+
+    await store.update('a', updater);
+    await store.update('b', updater);
+
+    // `a` and `b` have expired but the sweep interval hasn't elapsed
+    clock = 950;
+    await store.update('c', updater);
+    expect(store.size).toBe(3);
+
+    clock = 1000;
+    await store.update('d', updater);
+    expect(store.size).toBe(2);
+  });
+
+  test('ignores expired entries that have not been swept yet', async () => {
+    let clock = 0;
+    const store = new MemoryRateLimitStore(60_000, () => clock);
+    const seen: (string | null)[] = [];
+    const updater = (current: string | null) => {
+      seen.push(current);
+      return { value: 'state', ttlMs: 100, result: null };
+    };
+
+    await store.update('key', updater);
+    clock = 200;
+    await store.update('key', updater);
+
+    expect(seen).toEqual([null, null]);
+  });
+});
+
+test.describe('RESP codec', () => {
+  test('encodes commands as arrays of bulk strings', () => {
+    expect(encodeCommand(['SET', 'k', 'héllo']).toString()).toBe(
+      '*3\r\n$3\r\nSET\r\n$1\r\nk\r\n$6\r\nhéllo\r\n'
+    );
+  });
+
+  test('decodes replies split across chunks', () => {
+    const parser = new RespParser();
+    expect(parser.push(Buffer.from('+OK\r\n$5\r\nhel'))).toEqual(['OK']);
+    expect(parser.push(Buffer.from('lo\r\n*2\r\n:1\r\n$-1\r\n*-1\r\n'))).toEqual([
+      'hello',
+      [1, null],
+      null,
+    ]);
+  });
+});
+
+test.describe('RedisRateLimitStore', () => {
+  let fake: Awaited<ReturnType<typeof startFakeRedis>>;
+  const connections: RedisConnection[] = [];
+
+  test.beforeEach(async () => {
+    fake = await startFakeRedis();
+  });
+
+  test.afterEach(async () => {
+    connections.splice(0).forEach((connection) => connection.close());
+    fake.sockets.forEach((socket) => socket.destroy());
+    await new Promise((resolve) => fake.server.close(resolve));
+  });
+
+  const createStore = (commandTimeoutMs?: number, url = fake.url) => {
+    const connection = new RedisConnection(url, 2000, commandTimeoutMs);
+    connections.push(connection);
+    return new RedisRateLimitStore(connection);
+  };
+
+  test('enforces limits through the shared server', async () => {
+    const store = createStore();
+    const now = Date.now();
+    const consume = () =>
+      store.update('client', (current) => applyRateLimit(RULE, 'fixed-window', current, now));
+
+    const results = [await consume(), await consume(), await consume(), await consume()];
+    expect(results.map((r) => r.allowed)).toEqual([true, true, true, false]);
+  });
+
+  test('keeps counts exact when instances race on the same key', async () => {
+    const stores = [createStore(), createStore(), createStore()];
+    const increment = (store: RedisRateLimitStore) =>
+      store.update('counter', (current) => {
+        const value = Number(current ?? 0) + 1;
+        return { value: String(value), ttlMs: 60_000, result: value };
+      });
+
+    const results = await Promise.all(
+      Array.from({ length: 15 }, (_, i) => increment(stores[i % stores.length]))
+    );
+
+    expect([...results].sort((a, b) => a - b)).toEqual(Array.from({ length: 15 }, (_, i) => i + 1));
+  });
+
+  test('fails commands that get no reply in time, then reconnects', async () => {
+    const store = createStore(100);
+    const consume = () =>
+      store.update('client', (current) =>
+        applyRateLimit(RULE, 'fixed-window', current, Date.now())
+      );
+    fake.stalled = true;
+
+    await expect(Promise.all([consume(), consume()])).rejects.toThrow(/timed out after 100ms/);
+
+    fake.stalled = false;
+    expect((await consume()).allowed).toBe(true);
+  });
+
+  test('drops connections whose AUTH is rejected, then reconnects', async () => {
+    fake.password = 'rotated';
+    const store = createStore(undefined, fake.url.replace('redis://', 'redis://:s3cret@'));
+    const consume = () =>
+      store.update('client', (current) =>
+        applyRateLimit(RULE, 'fixed-window', current, Date.now())
+      );
+
+    await expect(consume()).rejects.toThrow(/WRONGPASS/);
+    await expect.poll(() => fake.sockets.size).toBe(0);
+
+    fake.password = 's3cret';
+    expect((await consume()).allowed).toBe(true);
+  });
+});
+
+test.describe('Rate limit policies', () => {
+  test('matches exact paths, single segments and trailing wildcards', () => {
+    expect(matchesRoutePattern('/api/contact', '/api/contact')).toBe(true);
+    expect(matchesRoutePattern('/api/contact', '/api/contact/extra')).toBe(false);
+    expect(matchesRoutePattern('/api/bookings/*', '/api/bookings/abc')).toBe(true);
+    expect(matchesRoutePattern('/api/bookings/*', '/api/bookings/abc/def')).toBe(false);
+    expect(matchesRoutePattern('/api/portfolio/**', '/api/portfolio')).toBe(true);
+    expect(matchesRoutePattern('/api/portfolio/**', '/api/portfolio/revisions/1/restore')).toBe(
+      true
+    );
+    expect(matchesRoutePattern('/api/portfolio/**', '/api/portfolios')).toBe(false);
+  });
+
+  test('gives contact and analytics submissions separate, method-specific policies', () => {
+    const names = (pathname: string, method: string) =>
+      findRateLimitPolicies(pathname, method).map((policy) => policy.name);
+
+    expect(names('/api/contact', 'POST')).toEqual(['contact-ip', 'contact-email']);
+    expect(names('/api/analytics', 'POST')).toEqual(['analytics']);
+    expect(names('/api/contact', 'GET')).toEqual([]);
+    expect(names('/api/bookings/availability/2025-01-01', 'GET')).toEqual(['booking-availability']);
+  });
+});
+
+test.describe('Shared rate limit policies', () => {
+  let keys: string[];
+
+  test.beforeEach(() => {
+    keys = [];
+    const memory = new MemoryRateLimitStore();
+    const store: RateLimitStore = {
+      update: (key, updater) => {
+        keys.push(key);
+        return memory.update(key, updater);
+      },
+    };
+    setRateLimitStore(store);
+  });
+
+  test.afterEach(() => {
+    setRateLimitStore(new MemoryRateLimitStore());
+  });
+
+  const login = () =>
+    new NextRequest('https://example.com/api/admin/login', {
+      method: 'POST',
+      headers: { 'x-forwarded-for': '203.0.113.7' },
+    });
+
+  test('count admin logins in the route handler, against the configured store', async () => {
+    expect(await checkRateLimit(login())).toBeNull();
+    expect(keys).toEqual([]);
+
+    const responses = [];
+    for (let i = 0; i < 6; i++) responses.push(await enforceSharedRateLimit(login()));
+
+    expect(responses.slice(0, 5)).toEqual([null, null, null, null, null]);
+    expect(responses[5]?.status).toBe(429);
+    expect(keys.every((key) => key.startsWith('admin-login:'))).toBe(true);
+  });
+
+  test('count submissions per address and per email in one pass', async () => {
+    const contact = new NextRequest('https://example.com/api/contact', {
+      method: 'POST',
+      headers: { 'x-forwarded-for': '203.0.113.7' },
+    });
+
+    await checkRateLimit(contact, { email: 'ada@example.com' });
+
+    expect(keys.map((key) => key.split(':')[0]).sort()).toEqual(['contact-email', 'contact-ip']);
+  });
+});
@@ -0,0 +1,88 @@
+import { createServer, IncomingHttpHeaders, IncomingMessage } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { CmsCorrelationId, CmsPreflightCheck, createCmsClient } from '../lib/cms-api';
+import type { ApiConfig } from '../lib/types';
+
+/**
+ * Hand-written stand-in for the CMS, for specs that exercise `createCmsClient` and its callers.
+ * Specs that need the real handlers use `cms-server.ts` instead.
+ */
+
+export interface StubRequest {
+  method: string;
+  url: string;
+  headers: IncomingHttpHeaders;
+  /** Parsed JSON body, or `null` when there was none */
+  body: unknown;
+}
+
+export interface StubResponse {
+  /** Default 200 */
+  status?: number;
+  /** Sent as JSON */
+  body: unknown;
+}
+
+/**
+ * Answers a request; `null` leaves it hanging, e.g. to trigger client timeouts
+ */
+export type StubHandler = (request: StubRequest) => StubResponse | null;
+
+export interface StubCms {
+  baseUrl: string;
+  /** Every request received, in order */
+  requests: StubRequest[];
+  /** Client without retries, caching or headers unless `config` sets them */
+  client: (
+    config?: Partial<ApiConfig>,
+    preflight?: CmsPreflightCheck,
+    correlationId?: CmsCorrelationId
+  ) => ReturnType<typeof createCmsClient>;
+  close: () => Promise<void>;
+}
+
+const readBody = async (request: IncomingMessage) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) chunks.push(chunk as Buffer);
+  return chunks.length > 0 ? JSON.parse(Buffer.concat(chunks).toString()) : null;
+};
+
+/**
+ * Start a stub CMS on a free local port
+ */
+export async function startStubCms(handler: StubHandler): Promise<StubCms> {
+  const requests: StubRequest[] = [];
+
+  const server = createServer(async (message, response) => {
+    const request = {
+      method: message.method ?? 'GET',
+      url: message.url ?? '/',
+      headers: message.headers,
+      body: await readBody(message),
+    };
+    requests.push(request);
+
+    const reply = handler(request);
+    if (reply === null) return;
+    response.writeHead(reply.status ?? 200, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(reply.body));
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    baseUrl,
+    requests,
+    client: (config = {}, preflight, correlationId) =>
+      createCmsClient(
+        { baseUrl, timeout: 500, retries: 0, cacheTime: 0, headers: {}, ...config },
+        preflight,
+        correlationId
+      ),
+    close: async () => {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    },
+  };
+}
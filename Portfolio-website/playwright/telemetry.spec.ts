@@ -0,0 +1,180 @@
+import { test, expect } from '@playwright/test';
+import { scrubAnalyticsEvent } from '../lib/analytics-privacy';
+import {
+  aggregateWebVitals,
+  consentCategoryFor,
+  percentile,
+  rateWebVital,
+  routePattern,
+} from '../lib/telemetry';
+import { analyticsEventSchema, type CmsAnalyticsEvent } from '../lib/validations';
+import { StubCms, startStubCms } from './stub-cms';
+
+let nextId = 1;
+
+const vital = (
+  name: string,
+  value: number,
+  route = '/',
+  overrides: Record<string, unknown> = {}
+): CmsAnalyticsEvent => ({
+  id: nextId++,
+  event_type: 'web_vital',
+  event_data: {
+    name,
+    value,
+    rating: 'good',
+    id: `v-${nextId}`,
+    route,
+    buildId: 'abc123',
+    ...overrides,
+  },
+  page_url: `https://example.com${route}`,
+  referrer: null,
+  session_id: 's1',
+  created_at: '2025-01-08 13:00:00',
+});
+
+test.describe('Telemetry events', () => {
+  test('accept typed web vitals and errors', () => {
+    expect(
+      analyticsEventSchema.safeParse({
+        event_type: 'web_vital',
+        event_data: vital('LCP', 1800).event_data,
+      }).success
+    ).toBe(true);
+    expect(
+      analyticsEventSchema.safeParse({
+        event_type: 'client_error',
+        event_data: {
+          message: 'boom',
+          stack: 'Error: boom\n    at render (app.js:1:1)',
+          source: 'unhandled-rejection',
+          route: '/projects/[id]',
+          buildId: 'abc123',
+        },
+      }).success
+    ).toBe(true);
+  });
+
+  test('reject telemetry whose data does not match its type', () => {
+    const result = analyticsEventSchema.safeParse({
+      event_type: 'web_vital',
+      event_data: { name: 'FID', value: -1 },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].path[0]).toBe('event_data');
+  });
+
+  test('record telemetry under performance consent', () => {
+    expect(consentCategoryFor('web_vital')).toBe('performance');
+    expect(consentCategoryFor('client_error')).toBe('performance');
+    expect(consentCategoryFor('page_view')).toBe('analytics');
+  });
+
+  test('keep metric names and error messages when scrubbing', () => {
+    const scrubbed = scrubAnalyticsEvent({
+      event_type: 'client_error',
+      event_data: {
+        message: 'No booking for ada@example.com',
+        source: 'window-error',
+        route: '/',
+        buildId: 'abc123',
+      },
+    });
+
+    expect(scrubbed.event_data).toMatchObject({ message: 'No booking for [email]' });
+    expect(scrubAnalyticsEvent(vital('LCP', 1800) as never).event_data).toMatchObject({
+      name: 'LCP',
+    });
+  });
+});
+
+test.describe('Routes', () => {
+  test('group dynamic segments under their route', () => {
+    expect(routePattern('/')).toBe('/');
+    expect(routePattern('/projects')).toBe('/projects');
+    expect(routePattern('/projects/42')).toBe('/projects/[id]');
+    expect(routePattern('/book/confirmed/eyJhbGciOi.abc')).toBe('/book/confirmed/[token]');
+    expect(routePattern('/book/')).toBe('/book');
+  });
+});
+
+test.describe('Web vitals report', () => {
+  test('nearest-rank p75', () => {
+    expect(percentile([1, 2, 3, 4], 75)).toBe(3);
+    expect(percentile([10], 75)).toBe(10);
+    expect(percentile([5, 1, 4, 2, 3, 8, 7, 6], 75)).toBe(6);
+  });
+
+  test('rate values against the web.dev thresholds', () => {
+    expect(rateWebVital('LCP', 2500)).toBe('good');
+    expect(rateWebVital('CLS', 0.2)).toBe('needs-improvement');
+    expect(rateWebVital('INP', 800)).toBe('poor');
+  });
+
+  test('p75 per route and metric, busiest route first', () => {
+    const report = aggregateWebVitals([
+      vital('LCP', 1000, '/projects/[id]'),
+      vital('LCP', 2000, '/'),
+      vital('LCP', 3000, '/'),
+      vital('LCP', 4500, '/'),
+      vital('LCP', 5000, '/'),
+      vital('CLS', 0.05, '/'),
+    ]);
+
+    expect(report.map(({ route }) => route)).toEqual(['/', '/projects/[id]']);
+    expect(report[0].metrics).toEqual({
+      LCP: { p75: 4500, samples: 4, rating: 'poor' },
+      CLS: { p75: 0.05, samples: 1, rating: 'good' },
+    });
+  });
+
+  test('skip repeats, malformed events and other builds', () => {
+    const first = vital('LCP', 1000);
+    const report = aggregateWebVitals(
+      [
+        first,
+        { ...first, id: 999 },
+        vital('LCP', -5),
+        vital('LCP', 9000, '/', { buildId: 'older' }),
+        { ...vital('LCP', 9000), event_type: 'page_view' },
+      ],
+      { buildId: 'abc123' }
+    );
+
+    expect(report).toEqual([
+      { route: '/', metrics: { LCP: { p75: 1000, samples: 1, rating: 'good' } } },
+    ]);
+  });
+});
+
+test.describe('CMS analytics events', () => {
+  let cms: StubCms;
+
+  test.beforeEach(async () => {
+    cms = await startStubCms(() => ({
+      body: { data: [vital('TTFB', 300)], meta: { count: 1, limit: 100 } },
+    }));
+  });
+
+  test.afterEach(async () => {
+    await cms.close();
+  });
+
+  test('filter by type, start and limit', async () => {
+    const client = cms.client();
+
+    const result = await client.analytics.events({
+      eventTypes: ['web_vital'],
+      from: new Date('2025-01-01T00:00:00.000Z'),
+      limit: 100,
+    });
+
+    expect(result.success && result.data.data[0].event_data).toMatchObject({ name: 'TTFB' });
+    expect(cms.requests.map(({ url }) => url)).toEqual([
+      '/api/analytics/events?event_type=web_vital&from=2025-01-01T00%3A00%3A00.000Z&limit=100',
+    ]);
+  });
+});
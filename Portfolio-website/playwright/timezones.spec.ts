@@ -0,0 +1,82 @@
+import { test, expect } from '@playwright/test';
+import {
+  formatInTimeZone,
+  getTimeZoneOffset,
+  isValidTimeZone,
+  toBookingSlots,
+  toDateKey,
+  zonedTimeToUtc,
+} from '../lib/timezones';
+
+test.describe('Booking time zones', () => {
+  test('recognises IANA zone names', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+    expect(isValidTimeZone('UTC')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    expect(isValidTimeZone('')).toBe(false);
+    expect(isValidTimeZone(undefined)).toBe(false);
+  });
+
+  test('converts host wall-clock times to UTC on either side of DST', () => {
+    expect(zonedTimeToUtc('2025-01-06', '09:00', 'America/New_York').toISOString()).toBe(
+      '2025-01-06T14:00:00.000Z'
+    );
+    expect(zonedTimeToUtc('2025-07-07', '09:00', 'America/New_York').toISOString()).toBe(
+      '2025-07-07T13:00:00.000Z'
+    );
+    expect(zonedTimeToUtc('2025-01-06', '09:00', 'Asia/Kolkata').toISOString()).toBe(
+      '2025-01-06T03:30:00.000Z'
+    );
+  });
+
+  test('resolves skipped and repeated DST times predictably', () => {
+    // 02:30 doesn't exist on 2025-03-09 in New York, so it reads as 03:30 EDT
+    expect(zonedTimeToUtc('2025-03-09', '02:30', 'America/New_York').toISOString()).toBe(
+      '2025-03-09T07:30:00.000Z'
+    );
+    // 01:30 happens twice on 2025-11-02; the first (EDT) one wins
+    expect(zonedTimeToUtc('2025-11-02', '01:30', 'America/New_York').toISOString()).toBe(
+      '2025-11-02T05:30:00.000Z'
+    );
+  });
+
+  test('reports offsets and wall-clock times in a zone', () => {
+    const instant = new Date('2025-01-06T23:30:00.000Z');
+
+    expect(getTimeZoneOffset(instant, 'Europe/Berlin')).toBe(60);
+    expect(getTimeZoneOffset(instant, 'America/Los_Angeles')).toBe(-480);
+    expect(formatInTimeZone(instant, 'Europe/Berlin')).toEqual({
+      date: '2025-01-07',
+      time: '00:30',
+    });
+  });
+
+  test('keys dates by their local calendar day', () => {
+    expect(toDateKey(new Date(2025, 0, 6))).toBe('2025-01-06');
+    expect(toDateKey(new Date(2025, 0, 6, 23, 59))).toBe('2025-01-06');
+  });
+
+  test('renders host slots in the visitor zone, including day changes', () => {
+    const slots = toBookingSlots(
+      '2025-01-06',
+      ['09:00', '17:30'],
+      'America/New_York',
+      'Asia/Tokyo'
+    );
+
+    expect(slots).toEqual([
+      {
+        time: '09:00',
+        startsAt: '2025-01-06T14:00:00.000Z',
+        visitorDate: '2025-01-06',
+        visitorTime: '23:00',
+      },
+      {
+        time: '17:30',
+        startsAt: '2025-01-06T22:30:00.000Z',
+        visitorDate: '2025-01-07',
+        visitorTime: '07:30',
+      },
+    ]);
+  });
+});
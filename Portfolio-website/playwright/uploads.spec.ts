@@ -0,0 +1,143 @@
+import { test, expect } from '@playwright/test';
+import { NextRequest } from 'next/server';
+import sharp from 'sharp';
+import { POST } from '../app/api/upload/route';
+import { apiLogger, MemorySink, StdoutSink } from '../lib/api-logger';
+import {
+  buildUploadFileName,
+  collectUploadUrls,
+  MAX_UPLOAD_BYTES,
+  readImageDimensions,
+  sanitizeOriginalName,
+  sniffMimeType,
+} from '../lib/uploads';
+
+const render = (format: 'jpeg' | 'png' | 'webp' | 'avif' | 'gif', options = {}) =>
+  sharp({ create: { width: 37, height: 21, channels: 3, background: '#0af' } })
+    .toFormat(format, options)
+    .toBuffer();
+
+test.describe('Upload type sniffing', () => {
+  for (const format of ['jpeg', 'png', 'webp', 'avif', 'gif'] as const) {
+    test(`detects ${format} and reads its dimensions`, async () => {
+      const buffer = await render(format);
+      const mimeType = sniffMimeType(buffer);
+
+      expect(mimeType).toBe(`image/${format}`);
+      expect(readImageDimensions(buffer, mimeType!)).toEqual({ width: 37, height: 21 });
+    });
+  }
+
+  test('reads dimensions from lossless WebP', async () => {
+    const buffer = await render('webp', { lossless: true });
+    expect(readImageDimensions(buffer, 'image/webp')).toEqual({ width: 37, height: 21 });
+  });
+
+  test('detects PDFs without dimensions', () => {
+    const buffer = Buffer.from('%PDF-1.7\n%âãÏÓ\n');
+    expect(sniffMimeType(buffer)).toBe('application/pdf');
+    expect(readImageDimensions(buffer, 'application/pdf')).toBeNull();
+  });
+
+  test('rejects disallowed and disguised content', () => {
+    expect(sniffMimeType(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"></svg>'))).toBeNull();
+    expect(sniffMimeType(Buffer.from('<html><script>alert(1)</script>'))).toBeNull();
+    expect(sniffMimeType(Buffer.from('MZ\x90\x00'))).toBeNull();
+    expect(sniffMimeType(Buffer.alloc(0))).toBeNull();
+  });
+
+  test('returns null for truncated image headers', async () => {
+    const buffer = (await render('png')).subarray(0, 18);
+    expect(readImageDimensions(buffer, 'image/png')).toBeNull();
+  });
+});
+
+test.describe('Upload naming', () => {
+  const id = '3f2b8c1e-7d4a-4e5b-9c6d-1a2b3c4d5e6f';
+
+  test('uses the sniffed extension and never the client name', () => {
+    expect(buildUploadFileName(id, 'image/jpeg')).toBe(`upload-${id}.jpg`);
+    expect(buildUploadFileName(id, 'application/pdf', 'My-Project')).toBe(
+      `project-my-project-${id}.pdf`
+    );
+  });
+
+  test('strips path components and control characters from original names', () => {
+    expect(sanitizeOriginalName('../../etc/passwd')).toBe('passwd');
+    expect(sanitizeOriginalName('C:\\Users\\me\\photo.png')).toBe('photo.png');
+    expect(sanitizeOriginalName('bad\u0000name\n.jpg')).toBe('badname.jpg');
+    expect(sanitizeOriginalName('/')).toBe('file');
+  });
+});
+
+test.describe('Upload references', () => {
+  test('collects upload URLs from nested documents', () => {
+    const urls = collectUploadUrls({
+      projects: [
+        { coverImage: { url: '/uploads/a.png' } },
+        { galleryImages: [{ url: 'https://example.com/uploads/b.webp?w=640' }] },
+      ],
+      personal: { bio: 'See ![diagram](/uploads/c.avif) for details' },
+      other: 42,
+    });
+
+    expect([...urls].sort()).toEqual(['/uploads/a.png', '/uploads/b.webp', '/uploads/c.avif']);
+  });
+});
+
+test.describe('Upload request size', () => {
+  test.beforeAll(() => {
+    apiLogger.setSinks([new MemorySink()]);
+  });
+
+  test.afterAll(() => {
+    apiLogger.setSinks([new StdoutSink()]);
+  });
+
+  const multipart = { 'content-type': 'multipart/form-data; boundary=x' };
+
+  const upload = (body: BodyInit, headers: Record<string, string> = {}) =>
+    POST(
+      new NextRequest('https://example.com/api/upload', {
+        method: 'POST',
+        headers,
+        body,
+        duplex: 'half',
+      })
+    );
+
+  test('rejects a declared Content-Length over the limit without reading the body', async () => {
+    const response = await upload('--x--', {
+      ...multipart,
+      'content-length': String(MAX_UPLOAD_BYTES * 2),
+    });
+
+    expect(response.status).toBe(413);
+  });
+
+  test('stops reading a chunked body once it passes the limit', async () => {
+    const chunk = new Uint8Array(1024 * 1024);
+    let sent = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        sent += chunk.byteLength;
+        controller.enqueue(chunk);
+      },
+    });
+
+    const response = await upload(body, multipart);
+
+    expect(response.status).toBe(413);
+    expect(sent).toBeLessThan(MAX_UPLOAD_BYTES + 4 * chunk.byteLength);
+  });
+
+  test('parses small bodies as multipart form data', async () => {
+    const form = new FormData();
+    form.set('projectId', 'portfolio-site');
+
+    const response = await upload(form);
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe('No file received');
+  });
+});
@@ -1,6 +1,18 @@
 import { test, expect } from '@playwright/test';
+import { CONSENT_COOKIE, NO_CONSENT, serializeConsent } from '../lib/consent';
 
 test.describe('Visual regression', () => {
+  // Answer the consent banner up front so it isn't part of the snapshots
+  test.beforeEach(async ({ context, baseURL }) => {
+    await context.addCookies([
+      {
+        name: CONSENT_COOKIE,
+        value: encodeURIComponent(serializeConsent(NO_CONSENT)),
+        url: baseURL ?? 'http://localhost:3000',
+      },
+    ]);
+  });
+
   test('Home page snapshot', async ({ page }) => {
     await page.goto('/');
     await page.waitForLoadState('networkidle');